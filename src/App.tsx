@@ -4,8 +4,12 @@ import "./App.css";
 import AntimonyEditor from "./components/antimony-editor/AntimonyEditor";
 import FileExplorer from "./components/file-explorer/FileExplorer";
 import HeaderMenu from "./components/header-menu/HeaderMenu";
+import SimulationPanel from "./components/simulation-panel/SimulationPanel";
 import { SolidSplitter } from "./components/CustomSplitters";
 import { SrcPosition } from "./language-handler/Types";
+import { DiagnosticSettings, loadDiagnosticSettings, saveDiagnosticSettings } from "./language-handler/DiagnosticSettings";
+import { loadInlayHintsOn, saveInlayHintsOn } from "./language-handler/InlayHints";
+import { SimulationSettings, loadSimulationSettings, saveSimulationSettings } from "./simulation/SimulationSettings";
 import handleDownload from "./features/HandleDownload";
 
 import * as monaco from "monaco-editor";
@@ -56,6 +60,15 @@ const App: React.FC = () => {
 
   // Set highlight color for unannotated variables
   const [highlightColor, setHighlightColor] = useState<string>("red");
+  // Severity overrides for diagnostic codes, persisted in local storage
+  const [diagnosticSettings, setDiagnosticSettings] = useState<DiagnosticSettings>(loadDiagnosticSettings());
+  // Whether inlay hints are shown in the editor, persisted in local storage
+  const [inlayHintsOn, setInlayHintsOn] = useState<boolean>(loadInlayHintsOn());
+  // Time span of simulations and whether their results are shown, persisted in local storage
+  const [simulationSettings, setSimulationSettings] = useState<SimulationSettings>(loadSimulationSettings());
+  // Counts saves and simulations asked for from the menu, so the results panel can react to each of them
+  const [saveCount, setSaveCount] = useState<number>(0);
+  const [runCount, setRunCount] = useState<number>(0);
   // List of colors to set for highlight of unannotated variables
   const colors = [
     { name: "Red", color: "red" },
@@ -109,6 +122,52 @@ const App: React.FC = () => {
     }
   };
 
+  /**
+   * @description Saves the diagnostic settings so they apply to future sessions too
+   * @param settings - The new severity overrides
+   */
+  const handleDiagnosticSettings = (settings: DiagnosticSettings) => {
+    saveDiagnosticSettings(settings);
+    setDiagnosticSettings(settings);
+  };
+
+  /**
+   * @description Saves whether inlay hints are shown so it applies to future sessions too
+   * @param on - Whether inlay hints are shown
+   */
+  const handleInlayHintsOn = (on: boolean) => {
+    saveInlayHintsOn(on);
+    setInlayHintsOn(on);
+  };
+
+  /**
+   * @description Saves the simulation settings so they apply to future sessions too
+   * @param settings - The new simulation settings
+   */
+  const handleSimulationSettings = (settings: SimulationSettings) => {
+    saveSimulationSettings(settings);
+    setSimulationSettings(settings);
+  };
+
+  /**
+   * @description Shows the results panel and simulates the model in the editor
+   */
+  const handleSimulate = () => {
+    if (simulationSettings.showPanel) {
+      setRunCount((count) => count + 1);
+    } else {
+      // the panel simulates once it is shown
+      handleSimulationSettings({ ...simulationSettings, showPanel: true });
+    }
+  };
+
+  /**
+   * @description Lets the results panel know the file was saved, so it can simulate again
+   */
+  const handleFileSave = () => {
+    setSaveCount((count) => count + 1);
+  };
+
   /**
    * call back for antimonyEditor to use
    * @param position
@@ -131,6 +190,17 @@ const App: React.FC = () => {
     setSelectedFileName(fileName);
   };
 
+  /**
+   * @description Opens a stored file by name, such as the file a model is imported from
+   * @param fileName - The name of the file
+   */
+  const handleFileOpen = (fileName: string) => {
+    const index = uploadedFiles.findIndex((file) => file.name === fileName);
+    if (index !== -1) {
+      handleFileClick(uploadedFiles[index].content, fileName, index);
+    }
+  };
+
   /**
    * @description Handles conversion from Antimony to SBML
    */
@@ -315,6 +385,32 @@ const App: React.FC = () => {
     }
   };
 
+  /**
+   * @description The editor of the selected file, which shares its section with the results panel when it is shown
+   * @param database - The database the file is stored in
+   */
+  const antimonyEditor = (database: IDBPDatabase<MyDB>) => (
+    <AntimonyEditor
+      key={selectedFileName}
+      fileName={selectedFileName}
+      database={database}
+      annotUnderlinedOn={annotUnderlinedOn}
+      setAnnotUnderlinedOn={setAnnotUnderlinedOn}
+      editorInstance={editorInstance}
+      setEditorInstance={setEditorInstance}
+      selectedFilePosition={selectedEditorPosition}
+      handleSelectedPosition={handleSelectedPosition}
+      highlightColor={highlightColor}
+      setHighlightColor={setHighlightColor}
+      diagnosticSettings={diagnosticSettings}
+      inlayHintsOn={inlayHintsOn}
+      handleNewFile={handleNewFile}
+      handleFileOpen={handleFileOpen}
+      handleFileSave={handleFileSave}
+      uploadedFiles={uploadedFiles}
+    />
+  );
+
   return (
     <div className="app">
       <HeaderMenu
@@ -332,6 +428,13 @@ const App: React.FC = () => {
         highlightColor={highlightColor}
         setHighlightColor={setHighlightColor}
         colors={colors}
+        diagnosticSettings={diagnosticSettings}
+        setDiagnosticSettings={handleDiagnosticSettings}
+        inlayHintsOn={inlayHintsOn}
+        setInlayHintsOn={handleInlayHintsOn}
+        simulationSettings={simulationSettings}
+        setSimulationSettings={handleSimulationSettings}
+        handleSimulate={handleSimulate}
       />
       <div className="middle">
         <Split
@@ -365,20 +468,29 @@ const App: React.FC = () => {
           </section>
           <section className="editor">
             {db ? ( // Conditionally render the AntimonyEditor component when db is defined
-              <AntimonyEditor
-                key={selectedFileName}
-                fileName={selectedFileName}
-                database={db}
-                annotUnderlinedOn={annotUnderlinedOn}
-                setAnnotUnderlinedOn={setAnnotUnderlinedOn}
-                editorInstance={editorInstance}
-                setEditorInstance={setEditorInstance}
-                selectedFilePosition={selectedEditorPosition}
-                handleSelectedPosition={handleSelectedPosition}
-                highlightColor={highlightColor}
-                setHighlightColor={setHighlightColor}
-                handleNewFile={handleNewFile}
-              />
+              // the panel's pane is collapsed while it is hidden, so the editor keeps its place and is not remounted
+              <div className={simulationSettings.showPanel ? "editor-split" : "editor-split panel-hidden"}>
+                <Split
+                  renderSplitter={() => <SolidSplitter />}
+                  initialPrimarySize="60%"
+                  minPrimarySize="20%"
+                  minSecondarySize="15%"
+                  splitterSize="5px"
+                >
+                  {antimonyEditor(db)}
+                  {simulationSettings.showPanel && (
+                    <SimulationPanel
+                      database={db}
+                      editorInstance={editorInstance}
+                      fileName={selectedFileName}
+                      settings={simulationSettings}
+                      setSettings={handleSimulationSettings}
+                      saveCount={saveCount}
+                      runCount={runCount}
+                    />
+                  )}
+                </Split>
+              </div>
             ) : (
               // You can provide a loading message or handle the absence of the database as needed
               <div>Loading...</div>
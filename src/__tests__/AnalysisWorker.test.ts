@@ -0,0 +1,124 @@
+import { deserialize, serialize } from "v8";
+import { AnalysisRequest, AnalysisResponse } from "../language-handler/AnalysisProtocol";
+import { AnalysisService } from "../language-handler/AnalysisService";
+import { AnalysisWorkerClient } from "../language-handler/AnalysisWorkerClient";
+import { AntimonyProgramAnalyzer } from "../language-handler/ModelSemanticChecker";
+import {
+  getGlobalSTFromSnapshot,
+  getGlobalSTSnapshot,
+  getSrcRangeSnapshot,
+} from "../language-handler/SymbolTableSnapshot";
+import { diagnosticCodes, SrcPosition, SrcRange } from "../language-handler/Types";
+
+jest.mock("monaco-editor");
+
+// copies a message the way postMessage does.
+const structuredClone = <T>(message: T): T => deserialize(serialize(message));
+
+/**
+ * Answers requests with an AnalysisService, like the worker
+ * does, after the current task like a real worker would.
+ */
+class FakeWorker {
+  public onmessage: ((event: { data: AnalysisResponse }) => void) | null = null;
+  private service: AnalysisService = new AnalysisService();
+
+  postMessage(request: AnalysisRequest): void {
+    const response: AnalysisResponse = this.service.handle(structuredClone(request));
+    setTimeout(() => this.onmessage?.({ data: structuredClone(response) }));
+  }
+
+  terminate(): void {}
+}
+
+describe("Analysis worker", () => {
+  const program = [
+    "model Inner(y)",
+    "  species s = 1",
+    "  s identity \"http://identifiers.org/s\"",
+    "  y = 2",
+    "end",
+    "unit mM = 0.001 mole / litre",
+    "A: Inner(z)",
+    "z = 1 mM",
+    "w := A.s + q",
+  ].join("\n");
+
+  const range = (line: number, startColumn: number, endColumn: number) =>
+    new SrcRange(new SrcPosition(line, startColumn), new SrcPosition(line, endColumn));
+  const createClient = () => new AnalysisWorkerClient(new FakeWorker() as unknown as Worker);
+
+  it("keeps the symbols of the symbol table in a snapshot", () => {
+    const globalST = new AntimonyProgramAnalyzer(program, "").getProgramST();
+    const snapshot = JSON.parse(JSON.stringify(getGlobalSTSnapshot(globalST)));
+    const copy = getGlobalSTFromSnapshot(snapshot);
+    expect(copy.getVar("z")).toEqual(globalST.getVar("z"));
+    expect(copy.getModelST("Inner")).toEqual(globalST.getModelST("Inner"));
+    expect(copy.getUnitMap()).toEqual(globalST.getUnitMap());
+    expect(copy.hasVarAtLocation("s", range(3, 3, 4))?.varInfo.annotations).toEqual(["\"http://identifiers.org/s\""]);
+  });
+
+  it("answers diagnostics, symbols and hover requests about the last parse", () => {
+    const service = new AnalysisService();
+    const parse = service.handle({ id: 0, kind: "parse", documentId: "a", text: program + "\nx = ", fileName: "" });
+    expect(parse.kind === "parse" && parse.result.map((err) => err.code)).toEqual([diagnosticCodes.SyntaxError]);
+
+    const diagnostics = service.handle({ id: 1, kind: "diagnostics", documentId: "a", includeParseErrors: false });
+    expect(diagnostics.kind === "diagnostics" && diagnostics.result.map((err) => err.message))
+      .toContain("Parameter 'q' missing value assignment");
+
+    const symbols = service.handle({ id: 2, kind: "symbols", documentId: "a" });
+    expect(symbols.kind === "symbols" && getGlobalSTFromSnapshot(symbols.result).getVar("z")?.unit).toBe("mM");
+
+    const hover = service.handle({
+      id: 3, kind: "hover", documentId: "a", word: "A.s", range: getSrcRangeSnapshot(range(9, 6, 9)),
+    });
+    expect(hover.kind === "hover" && hover.result?.modelName).toBe("Inner");
+    expect(hover.kind === "hover" && hover.result?.varInfo.type).toBe("species");
+    const missing = service.handle({
+      id: 4, kind: "hover", documentId: "a", word: "v", range: getSrcRangeSnapshot(range(9, 1, 2)),
+    });
+    expect(missing.kind === "hover" && missing.result).toBeUndefined();
+  });
+
+  it("fails requests about documents that were not parsed", () => {
+    const service = new AnalysisService();
+    expect(service.handle({ id: 3, kind: "symbols", documentId: "b" }))
+      .toEqual({ id: 3, kind: "error", message: "'b' has not been parsed" });
+  });
+
+  it("simulates the last parse, with the lines behind each column", async () => {
+    const client = createClient();
+    const text = "J0: S1 -> S2; k*S1\nS1 = 10\nk = 1\n";
+    await client.request({ kind: "parse", documentId: "c", text, fileName: "" });
+    const result = await client.request({
+      kind: "simulate", documentId: "c", modelName: undefined, options: { end: 1, points: 3 },
+    });
+    expect(result.columns).toEqual(["time", "S1", "S2"]);
+    expect(result.rows[2][1]).toBeCloseTo(10 * Math.exp(-1), 5);
+    expect(result.sourceRanges[1].map((srcRange) => srcRange.start.line)).toEqual([1, 2]);
+
+    const service = new AnalysisService();
+    service.handle({ id: 0, kind: "parse", documentId: "c", text, fileName: "" });
+    expect(service.handle({
+      id: 1, kind: "simulate", documentId: "c", modelName: undefined, options: { selections: ["S3"] },
+    })).toEqual({ id: 1, kind: "error", message: "S3 is not in the model" });
+  });
+
+  it("analyzes programs in the worker", async () => {
+    const analysis = await createClient().analyze("a", program, undefined, "");
+    const expected = new AntimonyProgramAnalyzer(program, "");
+    expect(analysis?.getErrors(false)).toEqual(expected.getErrors(false));
+    expect(analysis?.getParseErrors()).toEqual(new AntimonyProgramAnalyzer(program, "").getErrors(true)
+      .filter((err) => err.code === diagnosticCodes.SyntaxError));
+    expect(analysis?.getProgramST().getVar("w")).toEqual(expected.getProgramST().getVar("w"));
+  });
+
+  it("drops analyses that are replaced by newer ones", async () => {
+    const client = createClient();
+    const first = client.analyze("a", program, undefined, "");
+    const second = client.analyze("a", program + "\nv = 1", undefined, "");
+    expect(await first).toBeUndefined();
+    expect((await second)?.getProgramST().getVar("v")?.value).toBe("1");
+  });
+});
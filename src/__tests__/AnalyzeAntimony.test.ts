@@ -0,0 +1,84 @@
+import { FileDiagnostics, formatLintReport, hasErrors } from "../cli/LintReport";
+import { analyzeAntimony } from "../language-handler/AnalyzeAntimony";
+import { diagnosticCodes } from "../language-handler/Types";
+
+describe("Headless analysis", () => {
+  const program = [
+    "model Inner()",
+    "  species s = 1",
+    "end",
+    "z = 1",
+    "w := z + q",
+  ].join("\n") + "\n";
+
+  it("finds the diagnostics of a program", () => {
+    const { diagnostics } = analyzeAntimony(program);
+    expect(diagnostics).toEqual([{
+      code: diagnosticCodes.UninitializedParameter,
+      name: "uninitialized-parameter",
+      severity: "error",
+      message: "Parameter 'q' missing value assignment",
+      startLineNumber: 5,
+      startColumn: 10,
+      endLineNumber: 5,
+      endColumn: 11,
+    }]);
+  });
+
+  it("applies severity settings and disable comments", () => {
+    const settings = { [diagnosticCodes.UninitializedParameter]: "info" as const };
+    expect(analyzeAntimony(program, { settings }).diagnostics.map((d) => d.severity)).toEqual(["info"]);
+    expect(analyzeAntimony(program.replace("w :=", "// antimony-disable-next-line\nw :=")).diagnostics).toEqual([]);
+  });
+
+  it("reports syntax errors and resolves imports against the given files", () => {
+    const files = new Map([["lib.ant", "function f(a)\n  a * 2\nend"]]);
+    const { diagnostics } = analyzeAntimony("import \"lib.ant\"\nx = f(1)\ny = ", { files, fileName: "main.ant" });
+    expect(diagnostics.map((d) => d.code)).toEqual([diagnosticCodes.SyntaxError]);
+    expect(analyzeAntimony("import \"missing.ant\"\n", { files }).diagnostics.map((d) => d.name))
+      .toEqual(["import-not-found"]);
+  });
+
+  it("returns a symbol table that can be written as JSON", () => {
+    const { symbolTable } = analyzeAntimony(program);
+    expect(JSON.parse(JSON.stringify(symbolTable))).toEqual(symbolTable);
+    expect(symbolTable.models.map(([name]) => name)).toEqual(["Inner"]);
+    expect(symbolTable.vars.find(([name]) => name === "z")?.[1].value).toBe("1");
+  });
+
+  describe("lint reports", () => {
+    const results: FileDiagnostics[] = [
+      { file: "models/a.ant", diagnostics: analyzeAntimony(program).diagnostics },
+      { file: "models/b.ant", diagnostics: [] },
+    ];
+
+    it("prints a line per diagnostic in text", () => {
+      expect(formatLintReport(results, "text")).toBe(
+          "models/a.ant:5:10: error Parameter 'q' missing value assignment [ANT001]\n" +
+          "1 error and 0 warnings in 2 files"
+      );
+      expect(hasErrors(results)).toBe(true);
+    });
+
+    it("prints the diagnostics of each file in json", () => {
+      expect(JSON.parse(formatLintReport(results, "json"))).toEqual(results);
+    });
+
+    it("prints a SARIF log", () => {
+      const log = JSON.parse(formatLintReport(results, "sarif"));
+      expect(log.version).toBe("2.1.0");
+      expect(log.runs[0].tool.driver.rules).toContainEqual({ id: "ANT001", name: "uninitialized-parameter" });
+      expect(log.runs[0].results).toEqual([{
+        ruleId: "ANT001",
+        level: "error",
+        message: { text: "Parameter 'q' missing value assignment" },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: "models/a.ant" },
+            region: { startLine: 5, startColumn: 10, endLine: 5, endColumn: 11 },
+          },
+        }],
+      }]);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { AntimonyProgramAnalyzer } from "../language-handler/ModelSemanticChecker";
+import { getQuickFixes, QuickFix } from "../language-handler/CodeActionProvider";
+import { GlobalST } from "../language-handler/SymbolTableClasses";
+import { diagnosticCodes, ErrorUnderline } from "../language-handler/Types";
+
+jest.mock("monaco-editor");
+
+describe("CodeActionProvider", () => {
+  const getDiagnostic = (program: string, code: diagnosticCodes): ErrorUnderline => {
+    const diagnostic = new AntimonyProgramAnalyzer(program, "").getErrors(false).find((err) => err.code === code);
+    expect(diagnostic).toBeDefined();
+    return diagnostic as ErrorUnderline;
+  };
+
+  const getGlobalST = (program: string): GlobalST => new AntimonyProgramAnalyzer(program, "").getProgramST();
+
+  // applies the edits of fix, assuming they do not overlap.
+  const applyFix = (program: string, fix: QuickFix): string => {
+    const lines = program.split("\n");
+    const offset = (line: number, column: number) =>
+      lines.slice(0, line - 1).reduce((sum, l) => sum + l.length + 1, 0) + column - 1;
+    const edits = [...fix.edits].sort(
+      (a, b) => offset(b.range.start.line, b.range.start.column) - offset(a.range.start.line, a.range.start.column)
+    );
+    let result = program;
+    for (const edit of edits) {
+      const start = offset(edit.range.start.line, edit.range.start.column);
+      const end = offset(edit.range.end.line, edit.range.end.column);
+      result = result.substring(0, start) + edit.text + result.substring(end);
+    }
+    return result;
+  };
+
+  const fix = (program: string, code: diagnosticCodes, title: string): string => {
+    const fixes = getQuickFixes(getGlobalST(program), program.split("\n"), getDiagnostic(program, code));
+    const chosen = fixes.find((f) => f.title === title);
+    expect(fixes.map((f) => f.title)).toContain(title);
+    return applyFix(program, chosen as QuickFix);
+  };
+
+  it("initializes an uninitialized parameter", () => {
+    const program = "species S1 = 1;\nJ0: S1 -> ; k1*S1";
+    expect(fix(program, diagnosticCodes.UninitializedParameter, "Initialize k1 = 0"))
+      .toBe("species S1 = 1;\nJ0: S1 -> ; k1*S1\nk1 = 0;");
+  });
+
+  it("initializes a species using the default value, inside a model", () => {
+    const program = "model m()\n  species S1;\nend";
+    expect(fix(program, diagnosticCodes.DefaultValue, "Initialize S1 = 0"))
+      .toBe("model m()\n  species S1;\n  S1 = 0;\nend");
+  });
+
+  it("offers to annotate at the diagnostic", () => {
+    const program = "species S1;";
+    const fixes = getQuickFixes(getGlobalST(program), [program], getDiagnostic(program, diagnosticCodes.DefaultValue));
+    const annotate = fixes.find((f) => f.title === "Annotate S1");
+    expect(annotate?.command?.id).toBe("create-annotation");
+    expect(annotate?.command?.position.toString()).toBe("1:9");
+  });
+
+  it("adds a mass action rate law placeholder", () => {
+    const program = "species A = 1, B = 1;\nR4: 2 A + $B -> B; in C\nC = 1;";
+    expect(fix(program, diagnosticCodes.MissingRateLaw, "Add rate law placeholder"))
+      .toBe("species A = 1, B = 1;\nR4: 2 A + $B -> B; k_R4*A*B in C\nC = 1;");
+  });
+
+  it("adds the rate law placeholder after a ';' on a later line of the diagnostic", () => {
+    const program = "species A = 1;\nJ0: A ->\n  ; in C\nC = 1;";
+    const diagnostic: ErrorUnderline = {
+      startLineNumber: 2,
+      startColumn: 1,
+      endLineNumber: 3,
+      endColumn: 4,
+      message: "",
+      severity: 4,
+      code: diagnosticCodes.MissingRateLaw,
+    };
+    const fixes = getQuickFixes(getGlobalST(program), program.split("\n"), diagnostic);
+    expect(fixes.map((f) => f.title)).toEqual(["Add rate law placeholder"]);
+    expect(applyFix(program, fixes[0])).toBe("species A = 1;\nJ0: A ->\n  ; k_J0*A in C\nC = 1;");
+  });
+
+  it("declares a species that is only given a display name", () => {
+    const program = "S1 = 1;\nS2 is \"glucose\"";
+    expect(fix(program, diagnosticCodes.VarNotFound, "Declare species S2"))
+      .toBe("S1 = 1;\nspecies S2;\nS2 is \"glucose\"");
+  });
+
+  it("does not declare species inside a function", () => {
+    const program = "function f(x)\n  x + y\nend";
+    const diagnostic: ErrorUnderline = {
+      startLineNumber: 2,
+      startColumn: 7,
+      endLineNumber: 2,
+      endColumn: 8,
+      message: "",
+      severity: 8,
+      code: diagnosticCodes.VarNotFound,
+    };
+    expect(getQuickFixes(getGlobalST(program), program.split("\n"), diagnostic)).toEqual([]);
+  });
+
+  it("removes an overridden assignment statement", () => {
+    expect(fix("A = 1;\nA = 2;", diagnosticCodes.OverriddenValue, "Remove overridden assignment")).toBe("A = 2;");
+    expect(fix("B = 3; A = 1; A = 2", diagnosticCodes.OverriddenValue, "Remove overridden assignment"))
+      .toBe("B = 3; A = 2");
+  });
+
+  it("keeps the declaration when removing an overridden assignment in it", () => {
+    expect(fix("species A = 1, B = 2;\nA = 3;", diagnosticCodes.OverriddenValue, "Remove overridden assignment"))
+      .toBe("species A, B = 2;\nA = 3;");
+  });
+
+  it("has no fixes for other diagnostics", () => {
+    const program = "species A = 1;\ncompartment A;";
+    const diagnostic = new AntimonyProgramAnalyzer(program, "").getErrors(false)[0];
+    expect(diagnostic.code).toBe(diagnosticCodes.IncompatibleTypes);
+    expect(getQuickFixes(getGlobalST(program), program.split("\n"), diagnostic)).toEqual([]);
+  });
+});
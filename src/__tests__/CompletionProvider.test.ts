@@ -0,0 +1,72 @@
+import { AntimonyProgramAnalyzer } from "../language-handler/ModelSemanticChecker";
+import { getCompletionItems, getCompletionPositionKind } from "../language-handler/Completion";
+
+jest.mock("monaco-editor");
+
+describe("CompletionProvider", () => {
+  const program = [
+    "compartment cell = 1;",
+    "species S1 in cell, S2 in cell;",
+    "S1 = 10; S2 = 0;",
+    "k1 = 0.1;",
+    "J0: S1 -> S2; k1*S1",
+    "",
+    "function mm(S, Vm)",
+    "  Vm*S",
+    "end",
+    "",
+    "model inner(x)",
+    "  species X = 3;",
+    "  y = 2;",
+    "end",
+  ].join("\n");
+
+  const getLabels = (line: number, linePrefix: string) => {
+    const globalST = new AntimonyProgramAnalyzer(program, "").getProgramST();
+    return getCompletionItems(globalST, line, linePrefix).map((item) => item.label);
+  };
+
+  it("recognizes the kind of position at the cursor", () => {
+    expect(getCompletionPositionKind("species S3 in ce").kind).toBe("compartment");
+    expect(getCompletionPositionKind("J1: S1 -> S").kind).toBe("species");
+    expect(getCompletionPositionKind("J1: S1 + S").kind).toBe("species");
+    expect(getCompletionPositionKind("J1: S1 -> S2; k").kind).toBe("rateLaw");
+    expect(getCompletionPositionKind("J1: S1 -> S2; k").reactionSpecies).toEqual(["S1", "S2"]);
+    expect(getCompletionPositionKind("x = k").kind).toBe("any");
+    expect(getCompletionPositionKind("model ne").kind).toBe("none");
+    expect(getCompletionPositionKind("// S").kind).toBe("none");
+    expect(getCompletionPositionKind("S1 is \"glu").kind).toBe("none");
+  });
+
+  it("only suggests compartments after in", () => {
+    expect(getLabels(6, "species S3 in ")).toEqual(["cell"]);
+  });
+
+  it("only suggests species inside a species list", () => {
+    expect(getLabels(6, "J1: S2 -> ")).toEqual(["S1", "S2"]);
+  });
+
+  it("ranks the reaction species first in a rate law", () => {
+    const labels = getLabels(6, "J1: S2 -> ; ");
+    expect(labels.slice(0, 1)).toEqual(["S2"]);
+    expect(labels).toContain("k1");
+    expect(labels).toContain("mm");
+    expect(labels.indexOf("k1")).toBeLessThan(labels.indexOf("mm"));
+    expect(labels.indexOf("mm")).toBeLessThan(labels.indexOf("pi"));
+  });
+
+  it("uses the scope of the model the cursor is in", () => {
+    const labels = getLabels(13, "  z = ");
+    expect(labels).toContain("X");
+    expect(labels).toContain("y");
+    expect(labels).not.toContain("S1");
+    expect(labels).not.toContain("inner");
+  });
+
+  it("only suggests params, functions and constants inside a function", () => {
+    const labels = getLabels(8, "  Vm*");
+    expect(labels.slice(0, 2)).toEqual(["S", "Vm"]);
+    expect(labels).not.toContain("k1");
+    expect(labels).toContain("pi");
+  });
+});
@@ -0,0 +1,39 @@
+import { AntimonyProgramAnalyzer } from "../language-handler/ModelSemanticChecker";
+import { applyDiagnosticSettings, getDisabledLines } from "../language-handler/DiagnosticSettings";
+import { diagnosticCodes } from "../language-handler/Types";
+
+jest.mock("monaco-editor");
+
+describe("DiagnosticSettings", () => {
+  const getCodes = (program: string, settings = {}) =>
+    applyDiagnosticSettings(new AntimonyProgramAnalyzer(program, "").getErrors(true), program, settings).map(
+      (err) => err.startLineNumber + " " + err.code
+    );
+
+  it("gives every diagnostic a code, including parse errors", () => {
+    expect(getCodes("J0: A -> B;\nspecies A;\nx = ;")).toEqual(["3 ANT014", "1 ANT003", "1 ANT002", "1 ANT002", "2 ANT002"]);
+  });
+
+  it("reads antimony-disable-next-line comments", () => {
+    const disabled = getDisabledLines("// antimony-disable-next-line\nx = 1\n  // antimony-disable-next-line ANT003, ANT002\n");
+    expect(disabled.get(2)).toBe("all");
+    expect(disabled.get(4)).toEqual(new Set(["ANT003", "ANT002"]));
+    expect(disabled.size).toBe(2);
+  });
+
+  it("leaves out diagnostics disabled on the next line", () => {
+    const program = "// antimony-disable-next-line ANT003\nJ0: A -> B;\nspecies A;";
+    expect(getCodes(program)).toEqual(["2 ANT002", "2 ANT002", "3 ANT002"]);
+    expect(getCodes("// antimony-disable-next-line\nJ0: A -> B;\nspecies A;")).toEqual(["3 ANT002"]);
+  });
+
+  it("applies the severity configured for each code", () => {
+    const program = "J0: A -> B;\n";
+    expect(getCodes(program, { [diagnosticCodes.DefaultValue]: "off" })).toEqual(["1 ANT003"]);
+
+    const errors = new AntimonyProgramAnalyzer(program, "").getErrors(true);
+    const configured = applyDiagnosticSettings(errors, program, { [diagnosticCodes.MissingRateLaw]: "error" });
+    expect(configured.find((err) => err.code === diagnosticCodes.MissingRateLaw)?.severity).toBe(8);
+    expect(configured.find((err) => err.code === diagnosticCodes.DefaultValue)?.severity).toBe(4);
+  });
+});
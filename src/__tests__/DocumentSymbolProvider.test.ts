@@ -0,0 +1,44 @@
+import { AntimonyProgramAnalyzer } from "../language-handler/ModelSemanticChecker";
+import { AntimonySymbol, getDocumentSymbols } from "../language-handler/DocumentSymbols";
+
+jest.mock("monaco-editor");
+
+describe("DocumentSymbolProvider", () => {
+  const program = [
+    "compartment cell = 1;",
+    "species S1 in cell;",
+    "k1 = 0.1;",
+    "J0: S1 -> ; k1*S1",
+    "E0: at time > 5: S1 = 1;",
+    "function mm(S, Vm)",
+    "  Vm*S",
+    "end",
+    "model inner(x)",
+    "  species X = 3;",
+    "  R1: X -> ; x*X",
+    "end",
+  ].join("\n");
+
+  const summarize = (symbols: AntimonySymbol[]): string[] =>
+    symbols.map((s) => s.detail + " " + s.name + " " + s.range.start.line + "-" + s.range.end.line);
+
+  it("lists models, functions, reactions, events, species and compartments in order", () => {
+    const globalST = new AntimonyProgramAnalyzer(program, "").getProgramST();
+    const symbols = getDocumentSymbols(globalST, program.split("\n"));
+    expect(summarize(symbols)).toEqual([
+      "compartment cell 1-1",
+      "species S1 2-2",
+      "reaction J0 4-4",
+      "event E0 5-5",
+      "function (S, Vm) mm 6-8",
+      "modular model (x) inner 9-12",
+    ]);
+  });
+
+  it("nests the contents of a model under it", () => {
+    const globalST = new AntimonyProgramAnalyzer(program, "").getProgramST();
+    const inner = getDocumentSymbols(globalST, program.split("\n")).find((s) => s.name === "inner");
+    expect(summarize(inner?.children || [])).toEqual(["species X 10-10", "reaction R1 11-11"]);
+    expect(inner?.selectionRange.start.toString()).toBe("9:7");
+  });
+});
@@ -0,0 +1,90 @@
+import { AntimonyProgramAnalyzer } from "../language-handler/ModelSemanticChecker";
+import { getCompletionItems } from "../language-handler/Completion";
+import { formatAntimony } from "../language-handler/Formatter";
+import { getDefinitionRanges } from "../language-handler/Navigation";
+import { diagnosticCodes, SrcPosition, SrcRange } from "../language-handler/Types";
+
+jest.mock("monaco-editor");
+
+describe("Dotted names", () => {
+  const models = [
+    "model Inner(y)",
+    "  species s = 1",
+    "  y = 2",
+    "end",
+    "model Outer(x)",
+    "  B: Inner(x)",
+    "  x = 1",
+    "end",
+  ].join("\n");
+
+  const analyze = (program: string) => new AntimonyProgramAnalyzer(program, "");
+  const getErrors = (program: string) => analyze(program).getErrors(false);
+  const range = (line: number, startColumn: number, endColumn: number) =>
+    new SrcRange(new SrcPosition(line, startColumn), new SrcPosition(line, endColumn));
+
+  it("keeps the member of a dotted name", () => {
+    const globalST = analyze(models + "\nA: Outer(z)\nA.x = 3\nw := A.B.s + 1").getProgramST();
+    expect(globalST.getVar("A.x")?.value).toBe("3");
+    expect(globalST.getVar("A.B.s")).toBeDefined();
+    expect(globalST.getVar("A")?.value).toBeUndefined();
+  });
+
+  it("resolves dotted names through submodels", () => {
+    const globalST = analyze(models + "\nA: Outer(z)").getProgramST();
+    const resolution = globalST.resolveDottedName(globalST, "A.B.s");
+    expect(resolution?.kind).toBe("member");
+    expect(resolution?.kind === "member" && resolution.modelName).toBe("Inner");
+  });
+
+  it("has no errors for ids that exist in the submodel", () => {
+    const errors = getErrors(models + "\nA: Outer(z)\nz = 1\nA.x = 3\nw := A.B.s + A.B.y");
+    expect(errors.filter((err) => err.code !== diagnosticCodes.OverriddenValue
+      && err.code !== diagnosticCodes.OverridingValue)).toEqual([]);
+  });
+
+  it("reports ids that are not in the model of the submodel", () => {
+    const errors = getErrors(models + "\nA: Outer(z)\nz = 1\nw := A.q + 1")
+      .filter((err) => err.code === diagnosticCodes.MissingSubmodelMember);
+    expect(errors.map((err) => err.message)).toEqual(["Model 'Outer' has no id 'q'"]);
+    expect([errors[0].startLineNumber, errors[0].startColumn, errors[0].endColumn]).toEqual([11, 6, 9]);
+  });
+
+  it("reports dotted names that do not go through a submodel", () => {
+    const errors = getErrors(models + "\nA: Outer(z)\nz = 1\nw := C.x + A.x.y")
+      .filter((err) => err.code === diagnosticCodes.NotSubmodel);
+    expect(errors.map((err) => err.message)).toEqual([
+      "Unable to find 'C.x', as 'C' is not a submodel",
+      "Unable to find 'A.x.y', as 'x' is not a submodel",
+    ]);
+  });
+
+  it("resolves dotted names inside of models", () => {
+    const errors = getErrors(models + "\nmodel Top()\n  C: Inner(v)\n  v = 1\n  C.s = 3\n  C.t = 3\nend");
+    expect(errors.filter((err) => err.code === diagnosticCodes.MissingSubmodelMember).map((err) => err.message))
+      .toEqual(["Model 'Inner' has no id 't'"]);
+  });
+
+  it("goes to the definition inside of the submodel", () => {
+    const globalST = analyze(models + "\nA: Outer(z)\nw := A.B.s + 1").getProgramST();
+    expect(getDefinitionRanges(globalST, "A.B.s", range(10, 6, 11))).toContainEqual(range(2, 11, 12));
+  });
+
+  it("suggests the ids of the model after a dot", () => {
+    const globalST = analyze(models + "\nA: Outer(z)\nw := 1").getProgramST();
+    expect(getCompletionItems(globalST, 10, "w := A.").map((item) => item.label)).toEqual(["B", "x"]);
+    expect(getCompletionItems(globalST, 10, "w := A.B.s").map((item) => item.label)).toEqual(["s", "y"]);
+    expect(getCompletionItems(globalST, 10, "w := Q.")).toEqual([]);
+  });
+
+  it("leaves dots in numbers, annotations and sbo terms alone", () => {
+    const program = "x = 1.5\nx identity \"http://identifiers.org/x\"\nx.sboTerm = SBO:0000001";
+    const globalST = analyze(program).getProgramST();
+    expect(globalST.getVar("x")?.value).toBe("1.5");
+    expect(globalST.getVar("x")?.annotations).toEqual(["\"http://identifiers.org/x\""]);
+  });
+
+  it("keeps dotted names when formatting", () => {
+    expect(formatAntimony("A.x=3\n")).toBe("A.x = 3\n");
+  });
+});
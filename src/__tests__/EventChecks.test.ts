@@ -0,0 +1,62 @@
+import { diagnosticCodes } from "../language-handler/Types";
+import { createDiagnosticGetter } from "../testing/DiagnosticTestUtils";
+
+jest.mock("monaco-editor");
+
+describe("Event checks", () => {
+  const eventCodes = new Set([
+    diagnosticCodes.NonBooleanTrigger,
+    diagnosticCodes.InvalidEventDelay,
+    diagnosticCodes.ConstantEventAssignment,
+    diagnosticCodes.InvalidEventOption,
+    diagnosticCodes.ReactionEventAssignment,
+  ]);
+  const getEventErrors = createDiagnosticGetter(eventCodes, { prefix: "x = 1; y = 2;\n" });
+
+  it("accepts a valid event", () => {
+    expect(getEventErrors("E1: at 2 after time > 5 && x < 3, t0 = false, priority = 1: x = 3, y = x + 1")).toEqual([]);
+    expect(getEventErrors("at (time > 5): x = 1")).toEqual([]);
+    expect(getEventErrors("at gt(time, 5): x = 1")).toEqual([]);
+  });
+
+  it("reports triggers that are not boolean", () => {
+    expect(getEventErrors("at time: x = 1\nat x + 1: x = 2\nat (5): x = 3")).toEqual([
+      "ANT017 1:4 Event trigger must be a boolean expression, ie 'time > 5'",
+      "ANT017 2:4 Event trigger must be a boolean expression, ie 'time > 5'",
+      "ANT017 3:4 Event trigger must be a boolean expression, ie 'time > 5'",
+    ]);
+  });
+
+  it("reports boolean and negative delays", () => {
+    expect(getEventErrors("at x > 1 after time > 5: x = 1\nat -2 after time > 5: x = 1\nat 1 - 1e+1 after time > 5: x = 1"))
+      .toEqual([
+        "ANT018 1:4 Event delay must be a number, not a boolean expression",
+        "ANT018 2:4 Event delay can not be negative, but is -2",
+        "ANT018 3:4 Event delay can not be negative, but is -9",
+      ]);
+    expect(getEventErrors("at y - 3 after time > 5: x = 1\nat 2^-1 after time > 5: x = 1")).toEqual([]);
+  });
+
+  it("reports assignments to constants and predefined constants", () => {
+    const program = "const c = 1;\nspecies $S = 1;\nat time > 5: c = 2, pi = 3, $y = 1, S = 2";
+    expect(getEventErrors(program)).toEqual([
+      "ANT019 3:14 Constant 'c' can not be assigned in an event",
+      "ANT019 3:21 Predefined constant 'pi' can not be assigned in an event",
+      "ANT019 3:29 Constant 'y' can not be assigned in an event",
+    ]);
+  });
+
+  it("reports duplicate options and boolean priorities", () => {
+    expect(getEventErrors("at time > 5, t0 = false, persistent = true, t0 = true, priority = (x > 1): x = 1")).toEqual([
+      "ANT020 1:45 Event option 't0' is set more than once, only the last value is used",
+      "ANT020 1:56 Event priority must be a number, not a boolean expression",
+    ]);
+  });
+
+  it("reports assignments to reactions, even inside models", () => {
+    const program = "model m()\n  species A = 1, B = 0;\n  J0: A -> B; A\n  at time > 5: J0 = 1, A = 2\nend";
+    expect(getEventErrors(program)).toEqual([
+      "ANT021 4:16 Reaction 'J0' can not be assigned in an event",
+    ]);
+  });
+});
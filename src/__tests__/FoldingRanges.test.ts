@@ -0,0 +1,44 @@
+import { getFoldingRanges } from "../language-handler/FoldingRanges";
+import { AntimonyProgramAnalyzer } from "../language-handler/ModelSemanticChecker";
+import { getGlobalSTFromSnapshot, getGlobalSTSnapshot } from "../language-handler/SymbolTableSnapshot";
+
+jest.mock("monaco-editor");
+
+describe("Folding ranges", () => {
+  const program = [
+    "function f(a)",
+    "  a * 2",
+    "end",
+    "model Inner(y)",
+    "  model notes ```",
+    "  Scales y.",
+    "  ```",
+    "  x = y",
+    "end",
+    "model main()",
+    "  S1 = 1",
+    "  S1 identity \"http://identifiers.org/chebi/CHEBI:17234\",",
+    "             \"http://identifiers.org/chebi/CHEBI:4167\",",
+    "             \"http://identifiers.org/chebi/CHEBI:4167\"",
+    "  S1 is \"glucose\"",
+    "end",
+    "model Empty()",
+    "end",
+  ].join("\n") + "\n";
+
+  it("folds models, functions, continued annotations and model notes", () => {
+    const ranges = getFoldingRanges(new AntimonyProgramAnalyzer(program, "").getProgramST());
+    expect(ranges).toEqual([
+      { startLine: 1, endLine: 2, kind: "region" },
+      { startLine: 4, endLine: 8, kind: "region" },
+      { startLine: 5, endLine: 7, kind: "comment" },
+      { startLine: 10, endLine: 15, kind: "region" },
+      { startLine: 12, endLine: 14, kind: "region" },
+    ]);
+  });
+
+  it("keeps the folding ranges in symbol table snapshots", () => {
+    const globalST = new AntimonyProgramAnalyzer(program, "").getProgramST();
+    expect(getFoldingRanges(getGlobalSTFromSnapshot(getGlobalSTSnapshot(globalST)))).toEqual(getFoldingRanges(globalST));
+  });
+});
@@ -0,0 +1,79 @@
+import { formatAntimony, formatAntimonyLines } from "../language-handler/Formatter";
+
+jest.mock("monaco-editor");
+
+describe("Formatter", () => {
+  const program = [
+    "// Created by me",
+    "model   *feedback(x,y)",
+    "",
+    "",
+    "    species S1=10,S2 ;   // the species",
+    "compartment cell=1",
+    "J0:S1->S2;k1*S1",
+    "    J1: $X0 -> S1 ; (k2 + k3)*X0/(1+S2^h)",
+    "S1' = -k1",
+    "E1: at time>=5 && S1<2, t0=false: S1=1, S2 = 2",
+    "k1 := 2e-5",
+    "  S1 identity \"http://a\",",
+    "  \"http://b\",",
+    "     \"http://c\"",
+    "  model notes ```",
+    "   some   notes  ",
+    "```",
+    "",
+    "end",
+    "function mm(a,b)",
+    "a*b",
+    "end",
+    "",
+    "",
+    "A: feedback(S1, S2)",
+    "",
+  ].join("\n");
+
+  const expected = [
+    "// Created by me",
+    "model *feedback(x, y)",
+    "  species S1 = 10, S2; // the species",
+    "  compartment cell = 1",
+    "",
+    "  J0: S1 -> S2; k1*S1",
+    "  J1: $X0 -> S1; (k2 + k3)*X0/(1+S2^h)",
+    "  S1' = -k1",
+    "  E1: at time >= 5 && S1 < 2, t0 = false: S1 = 1, S2 = 2",
+    "  k1 := 2e-5",
+    "  S1 identity \"http://a\",",
+    "              \"http://b\",",
+    "              \"http://c\"",
+    "  model notes ```",
+    "   some   notes  ",
+    "```",
+    "end",
+    "function mm(a, b)",
+    "  a*b",
+    "end",
+    "",
+    "A: feedback(S1, S2)",
+    "",
+  ].join("\n");
+
+  it("indents blocks, spaces operators and groups declarations", () => {
+    expect(formatAntimony(program)).toBe(expected);
+  });
+
+  it("is idempotent", () => {
+    expect(formatAntimony(expected)).toBe(expected);
+  });
+
+  it("maps each original line to its formatted lines", () => {
+    const lines = formatAntimonyLines(program);
+    expect(lines?.[2]).toEqual([]);
+    expect(lines?.[6]).toEqual(["", "  J0: S1 -> S2; k1*S1"]);
+  });
+
+  it("leaves programs with syntax errors alone", () => {
+    expect(formatAntimony("J0: S1 -> S2 k1*S1 ->\n")).toBe("J0: S1 -> S2 k1*S1 ->\n");
+    expect(formatAntimonyLines("J0: S1 -> S2 k1*S1 ->\n")).toBeUndefined();
+  });
+});
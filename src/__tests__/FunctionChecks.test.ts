@@ -0,0 +1,51 @@
+import { diagnosticCodes } from "../language-handler/Types";
+import { createDiagnosticGetter } from "../testing/DiagnosticTestUtils";
+
+jest.mock("monaco-editor");
+
+describe("Function checks", () => {
+  const functionCodes = new Set([
+    diagnosticCodes.FunctionArity,
+    diagnosticCodes.UndefinedFunction,
+    diagnosticCodes.FunctionNonParameter,
+  ]);
+  const getFunctionErrors = createDiagnosticGetter(functionCodes, { showEndColumn: true });
+
+  const mm = "function mm(S, Vm, Km)\n  Vm*S/(Km + S)\nend\n";
+
+  it("accepts calls with the right number of arguments", () => {
+    const program = mm + "x = 1;\ny = mm(x, 2, 3) + sin(x) + log(2, x) + max(1, 2, x) + piecewise(1, x > 2, 0)";
+    expect(getFunctionErrors(program)).toEqual([]);
+  });
+
+  it("reports calls to defined functions with the wrong number of arguments", () => {
+    expect(getFunctionErrors(mm + "x = 1;\ny = mm(x, 2)\nz = mm(x, 2, 3, 4)")).toEqual([
+      "ANT026 5:5-13 Function 'mm' takes 3 arguments, but 2 were given",
+      "ANT026 6:5-19 Function 'mm' takes 3 arguments, but 4 were given",
+    ]);
+  });
+
+  it("reports calls to builtin functions with the wrong number of arguments", () => {
+    expect(getFunctionErrors("x = 1;\ny = sin(x, 2) + log(1, 2, 3) + pow(x) + gt(x) + neq(x)")).toEqual([
+      "ANT026 2:5-14 Function 'sin' takes 1 argument, but 2 were given",
+      "ANT026 2:17-29 Function 'log' takes 1 or 2 arguments, but 3 were given",
+      "ANT026 2:32-38 Function 'pow' takes 2 arguments, but 1 was given",
+      "ANT026 2:41-46 Function 'gt' takes at least 2 arguments, but 1 was given",
+      "ANT026 2:49-55 Function 'neq' takes 2 arguments, but 1 was given",
+    ]);
+  });
+
+  it("reports calls to functions that are not defined", () => {
+    expect(getFunctionErrors("x = 1;\ny = foo(x)")).toEqual([
+      "ANT027 2:5-11 Function 'foo' is not defined",
+    ]);
+  });
+
+  it("reports function bodies that use ids other than their parameters", () => {
+    const program = "k = 2;\nfunction f(x)\n  k*x + sin(pi*y)\nend\nz = f(1)";
+    expect(getFunctionErrors(program)).toEqual([
+      "ANT028 3:3-4 Function 'f' can only use its own parameters, but uses 'k'",
+      "ANT028 3:16-17 Function 'f' can only use its own parameters, but uses 'y'",
+    ]);
+  });
+});
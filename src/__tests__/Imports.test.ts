@@ -0,0 +1,85 @@
+import { AntimonyProgramAnalyzer } from "../language-handler/ModelSemanticChecker";
+import { getDefinitionFileName, getDefinitionRanges } from "../language-handler/Navigation";
+import { getRenameRanges } from "../language-handler/RenameProvider";
+import { diagnosticCodes, SrcPosition, SrcRange } from "../language-handler/Types";
+
+jest.mock("monaco-editor");
+
+describe("Imports", () => {
+  const files = new Map([
+    ["lib.ant", "function double(x)\n  2*x\nend\nmodel Decay(S)\n  S -> ; k*S\n  k = 0.1\nend"],
+    ["wrapper.ant", "import \"lib.ant\"\nmodel Wrapper()\n  A: Decay(S1)\n  S1 = 1\nend"],
+    ["a.ant", "import \"b.ant\""],
+    ["b.ant", "import \"a.ant\""],
+  ]);
+
+  const analyze = (program: string, fileName: string = "main.ant") =>
+    new AntimonyProgramAnalyzer(program, "", files, fileName);
+  const getCodes = (program: string, code: diagnosticCodes, fileName?: string) =>
+    analyze(program, fileName).getErrors(false).filter((err) => err.code === code);
+  const range = (line: number, startColumn: number, endColumn: number) =>
+    new SrcRange(new SrcPosition(line, startColumn), new SrcPosition(line, endColumn));
+
+  it("uses models and functions from an imported file", () => {
+    const program = "import \"lib.ant\"\nS1 = 1\nA: Decay(S1)\ny = double(S1)";
+    const errors = analyze(program).getErrors(false);
+    expect(errors.filter((err) => err.code === diagnosticCodes.UndefinedModel)).toEqual([]);
+    expect(errors.filter((err) => err.code === diagnosticCodes.UndefinedFunction)).toEqual([]);
+    expect(analyze(program).getProgramST().getImportedFileName("Decay")).toBe("lib.ant");
+  });
+
+  it("checks instantiations of imported models against their parameters", () => {
+    const errors = getCodes("import \"lib.ant\"\nA: Decay(x, y)", diagnosticCodes.ModelArity);
+    expect(errors.map((err) => err.message)).toEqual(["Model 'Decay' takes 1 argument, but 2 were given"]);
+  });
+
+  it("follows imports of imported files, keeping the file each model is written in", () => {
+    const globalST = analyze("import \"wrapper\"").getProgramST();
+    expect(globalST.getImportedFileName("Wrapper")).toBe("wrapper.ant");
+    expect(globalST.getImportedFileName("Decay")).toBe("lib.ant");
+  });
+
+  it("does not follow imports when no files are given", () => {
+    const program = "import \"lib.ant\"\nA: Decay(S1)";
+    const errors = new AntimonyProgramAnalyzer(program, "").getErrors(false);
+    expect(errors.filter((err) => err.code === diagnosticCodes.ImportNotFound)).toEqual([]);
+    expect(errors.filter((err) => err.code === diagnosticCodes.UndefinedModel)).toHaveLength(1);
+  });
+
+  it("warns about files that are not stored", () => {
+    const errors = getCodes("import \"missing.ant\"", diagnosticCodes.ImportNotFound);
+    expect(errors.map((err) => err.message)).toEqual(["Unable to find the file 'missing.ant' to import"]);
+    expect(errors[0].startColumn).toBe(8);
+  });
+
+  it("reports import cycles", () => {
+    expect(getCodes("import \"b.ant\"", diagnosticCodes.ImportCycle, "a.ant").map((err) => err.message))
+      .toEqual(["Import cycle: a.ant -> b.ant -> a.ant"]);
+    expect(getCodes("import \"main.ant\"", diagnosticCodes.ImportCycle, "main.ant").map((err) => err.message))
+      .toEqual(["Import cycle: main.ant -> main.ant"]);
+    // main.ant is not part of the cycle, but importing a.ant never ends.
+    expect(getCodes("import \"a.ant\"", diagnosticCodes.ImportCycle).map((err) => err.message))
+      .toEqual(["Import cycle: a.ant -> b.ant -> a.ant"]);
+  });
+
+  it("goes to the definition of an imported model in its file", () => {
+    const globalST = analyze("import \"lib.ant\"\nA: Decay(S1)").getProgramST();
+    expect(getDefinitionFileName(globalST, "Decay", range(2, 4, 9))).toBe("lib.ant");
+    expect(getDefinitionRanges(globalST, "Decay", range(2, 4, 9))).toEqual([range(4, 7, 12)]);
+    expect(getDefinitionFileName(globalST, "S1", range(2, 10, 12))).toBeUndefined();
+  });
+
+  it("does not mix up ids in imported files with ids at the same location", () => {
+    // "k" is at 5:9 in lib.ant too.
+    const program = "import \"lib.ant\"\nq = 1\nr = 2\n\nz = 1 + k";
+    const globalST = analyze(program).getProgramST();
+    expect(globalST.getScopeAtLine(5)).toBeUndefined();
+    expect(getDefinitionRanges(globalST, "k", range(5, 9, 10))).toEqual([range(5, 9, 10)]);
+  });
+
+  it("does not rename imported models", () => {
+    const globalST = analyze("import \"lib.ant\"\nA: Decay(S1)").getProgramST();
+    expect(getRenameRanges(globalST, "Decay", range(2, 4, 9), "Growth").rejectReason)
+      .toBe("Cannot rename 'Decay' as it is imported from 'lib.ant'");
+  });
+});
@@ -0,0 +1,102 @@
+import { AntimonyProgramAnalyzer } from "../language-handler/ModelSemanticChecker";
+import { IncrementalParser } from "../language-handler/IncrementalParser";
+import { SrcPosition, SrcRange } from "../language-handler/Types";
+
+jest.mock("monaco-editor");
+
+describe("Incremental parsing", () => {
+  const program = [
+    "function double(x)",
+    "  2*x",
+    "end",
+    "model Decay(S)",
+    "  S -> ; k*S",
+    "  k = 0.1; j = k",
+    "  S identity \"http://identifiers.org/a\",",
+    "             \"http://identifiers.org/b\"",
+    "end",
+    "",
+    "model *main()",
+    "  A: Decay(S1)",
+    "  S1 = 1",
+    "  y := double(S1) + q",
+    "end",
+    "z = 3",
+  ].join("\n");
+
+  const range = (line: number, startColumn: number, endColumn: number) =>
+    new SrcRange(new SrcPosition(line, startColumn), new SrcPosition(line, endColumn));
+  const fullErrors = (code: string) => new AntimonyProgramAnalyzer(code, "").getErrors(true);
+  const incrementalErrors = (code: string, parser: IncrementalParser) =>
+    new AntimonyProgramAnalyzer(code, "", undefined, "", parser).getErrors(true);
+
+  it("finds the same errors as parsing the whole program", () => {
+    const parser = new IncrementalParser();
+    const edits = [
+      program,
+      program.replace("z = 3", "z = 3 +"),
+      program.replace("k = 0.1", "k = 0.5"),
+      program.replace("  S1 = 1\n", ""),
+      "x = 1\n\n" + program,
+    ];
+    for (const code of edits) {
+      expect(incrementalErrors(code, parser)).toEqual(fullErrors(code));
+    }
+  });
+
+  it("finds the same errors as parsing the whole program when it is invalid", () => {
+    const parser = new IncrementalParser();
+    const edits = [
+      program.replace("function double(x)", "functiom double(x)"),
+      program.replace("model Decay(S)", "model Decay(S"),
+      program.replace("model *main()", "model *Inner("),
+      program.replace("A: Decay(S1)", "A: Decay(S1))"),
+      "model m(\nend\n",
+      program,
+    ];
+    for (const code of edits) {
+      expect(incrementalErrors(code, parser)).toEqual(fullErrors(code));
+    }
+  });
+
+  it("analyzes every prefix of a program with several models", () => {
+    const models = "model *Inner(x)\n  x = 1\nend\nmodel main()\n  A: Inner(y)\nend\n";
+    const parser = new IncrementalParser();
+    for (let length = 1; length <= models.length; length++) {
+      const code = models.substring(0, length);
+      expect(incrementalErrors(code, parser)).toEqual(fullErrors(code));
+    }
+  });
+
+  it("only parses the statements that changed", () => {
+    const reparsedBlockCount = (code: string) => {
+      const parser = new IncrementalParser();
+      parser.parse(program);
+      parser.parse(code);
+      return parser.getReparsedBlockCount();
+    };
+    expect(reparsedBlockCount(program)).toBe(0);
+    expect(reparsedBlockCount(program.replace("S1 = 1", "S1 = 2"))).toBe(1);
+    // the model header is always parsed again, but of its statements only the
+    // newline ending the header line is, since it has moved.
+    expect(reparsedBlockCount(program.replace("*main()", "*main2()"))).toBe(1);
+    // the statement after the ";" has moved, so it is parsed again too.
+    expect(reparsedBlockCount(program.replace("k = 0.1", "k = 0.25"))).toBe(2);
+  });
+
+  it("moves unchanged statements to their new lines", () => {
+    const parser = new IncrementalParser();
+    new AntimonyProgramAnalyzer(program, "", undefined, "", parser);
+    const globalST = new AntimonyProgramAnalyzer("\n\n" + program, "", undefined, "", parser).getProgramST();
+    expect(parser.getReparsedBlockCount()).toBe(2);
+    expect(globalST.hasVarAtLocation("S1", range(15, 3, 5))).toBeDefined();
+    expect(globalST.getScopeAtLine(16)?.name).toBe("main");
+  });
+
+  it("moves syntax errors along with their statements", () => {
+    const parser = new IncrementalParser();
+    parser.parse("x = (1\ny = 2");
+    const { errors } = parser.parse("\nx = (1\ny = 2");
+    expect(errors.map((err) => err.line)).toEqual(fullErrors("\nx = (1\ny = 2").map((err) => err.startLineNumber));
+  });
+});
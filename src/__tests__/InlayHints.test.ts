@@ -0,0 +1,63 @@
+import { getInlayHints } from "../language-handler/InlayHints";
+import { AntimonyProgramAnalyzer } from "../language-handler/ModelSemanticChecker";
+import { getGlobalSTFromSnapshot, getGlobalSTSnapshot } from "../language-handler/SymbolTableSnapshot";
+
+jest.mock("monaco-editor");
+
+describe("Inlay hints", () => {
+  const program = [
+    "model Inner(y)",
+    "  J1: A => ; y * A",
+    "  A = 2",
+    "end",
+    "unit mM = 0.001 mole / litre",
+    "compartment cell = 1",
+    "species S1 in cell, S2",
+    "S1 = 10 mM",
+    "S2 has mM",
+    "S2 is \"product\"",
+    "J0: 2 S1 -> $S2; k * S1",
+    "k = 0.1",
+    "E1: at time > 2: J0 = 0",
+    "B: Inner(k)",
+    "w := B.J1 + S1",
+  ].join("\n") + "\n";
+
+  // each hint as "line:column label".
+  const getHintNames = (analyzer: AntimonyProgramAnalyzer) =>
+    getInlayHints(analyzer.getProgramST()).map((hint) => `${hint.line}:${hint.column} ${hint.label}`);
+
+  it("follows the ids in reactions and rate laws with their value, unit, compartment and display name", () => {
+    const hints: string[] = getHintNames(new AntimonyProgramAnalyzer(program, ""));
+    expect(hints.filter((hint) => hint.startsWith("11:"))).toEqual([
+      "11:9 [10 mM, in cell]",
+      "11:16 [mM, \"product\"]",
+      "11:19 [0.1]",
+      "11:24 [10 mM, in cell]",
+    ]);
+    expect(hints).toEqual(expect.arrayContaining(["2:8 [2]", "2:19 [2]"]));
+    // ids outside of reactions are not hinted.
+    expect(hints.filter((hint) => hint.startsWith("8:") || hint.startsWith("12:"))).toEqual([]);
+  });
+
+  it("follows reaction ids with their equation outside of their own reaction", () => {
+    const hints: string[] = getHintNames(new AntimonyProgramAnalyzer(program, ""));
+    expect(hints).toContain("13:20 [2 S1 -> $S2; k*S1]");
+    expect(hints).toContain("15:10 [A =>; y*A]");
+    expect(hints.filter((hint) => hint.startsWith("11:3 ") || hint.startsWith("2:5 "))).toEqual([]);
+  });
+
+  it("keeps the reactions in symbol table snapshots", () => {
+    const globalST = new AntimonyProgramAnalyzer(program, "").getProgramST();
+    const copy = getGlobalSTFromSnapshot(getGlobalSTSnapshot(globalST));
+    expect(copy.reactions).toEqual(globalST.reactions);
+    expect(copy.reactions).toEqual([expect.objectContaining({
+      id: "J0",
+      reactants: [{ name: "S1", stoichiometry: 2, isBoundary: false }],
+      products: [{ name: "S2", stoichiometry: 1, isBoundary: true }],
+      isReversible: true,
+      rateLaw: "k*S1",
+    })]);
+    expect(getInlayHints(copy)).toEqual(getInlayHints(globalST));
+  });
+});
@@ -0,0 +1,109 @@
+import { PassThrough } from "stream";
+import { AntimonyLanguageServer } from "../lsp/AntimonyLanguageServer";
+import { MessageConnection } from "../lsp/MessageConnection";
+import { Message } from "../lsp/Protocol";
+
+describe("Antimony language server", () => {
+  const uri = "file:///models/main.ant";
+  const program = [
+    "import \"lib.ant\"",
+    "model Inner()",
+    "  species s = 1",
+    "end",
+    "z = f(2)",
+    "w := z + q",
+  ].join("\n") + "\n";
+  const lib = "function f(a)\n  a * 2\nend\n";
+
+  let sent: Message[];
+  let server: AntimonyLanguageServer;
+  const request = (id: number, method: string, params?: any) => {
+    server.handleMessage({ jsonrpc: "2.0", id, method, params });
+    return sent.find((message) => message.id === id);
+  };
+  const at = (line: number, character: number) => ({ textDocument: { uri }, position: { line, character } });
+
+  beforeEach(() => {
+    sent = [];
+    server = new AntimonyLanguageServer(
+        (message) => sent.push(message),
+        (directoryUri) => new Map(directoryUri === "file:///models/" ? [["lib.ant", lib]] : [])
+    );
+    request(0, "initialize", {});
+    server.handleMessage({
+      jsonrpc: "2.0",
+      method: "textDocument/didOpen",
+      params: { textDocument: { uri, languageId: "antimony", version: 1, text: program } },
+    });
+  });
+
+  it("publishes the diagnostics of opened and changed documents", () => {
+    expect(sent[1].params.diagnostics).toEqual([{
+      range: { start: { line: 5, character: 9 }, end: { line: 5, character: 10 } },
+      severity: 1,
+      code: "ANT001",
+      source: "antimony",
+      message: "Parameter 'q' missing value assignment",
+    }]);
+
+    server.handleMessage({
+      jsonrpc: "2.0",
+      method: "textDocument/didChange",
+      params: { textDocument: { uri, version: 2 }, contentChanges: [{ text: program.replace("q", "1") }] },
+    });
+    expect(sent[sent.length - 1]).toEqual({
+      jsonrpc: "2.0",
+      method: "textDocument/publishDiagnostics",
+      params: { uri, diagnostics: [] },
+    });
+  });
+
+  it("answers hover, completion, definition, document symbol and semantic token requests", () => {
+    expect(request(1, "textDocument/hover", at(2, 11))?.result).toEqual({
+      contents: { kind: "markdown", value: "var  \n(species) s  \nInitialized Value: 1" },
+      range: { start: { line: 2, character: 10 }, end: { line: 2, character: 11 } },
+    });
+
+    const completions = request(2, "textDocument/completion", at(5, 5))?.result;
+    expect(completions.map((item: any) => item.label)).toEqual(expect.arrayContaining(["z", "f"]));
+    expect(completions.map((item: any) => item.label)).not.toContain("s");
+
+    // f is defined in the file it is imported from.
+    expect(request(3, "textDocument/definition", at(4, 4))?.result).toEqual([{
+      uri: "file:///models/lib.ant",
+      range: { start: { line: 0, character: 9 }, end: { line: 0, character: 10 } },
+    }]);
+
+    const symbols = request(4, "textDocument/documentSymbol", { textDocument: { uri } })?.result;
+    expect(symbols.map((symbol: any) => [symbol.name, symbol.kind])).toEqual([["Inner", 2]]);
+    expect(symbols[0].children.map((symbol: any) => symbol.name)).toEqual(["s"]);
+
+    // the first token is "Inner" on line 1, colored as a model.
+    const tokens = request(5, "textDocument/semanticTokens/full", { textDocument: { uri } })?.result;
+    expect(tokens.data.slice(0, 5)).toEqual([1, 6, 5, 6, 0]);
+  });
+
+  it("fails requests that it cannot answer", () => {
+    expect(request(6, "textDocument/hover", { textDocument: { uri: "file:///other.ant" }, position: { line: 0, character: 0 } })?.error)
+      .toEqual({ code: -32600, message: "file:///other.ant is not open" });
+    expect(request(7, "textDocument/rename", at(0, 0))?.error?.code).toBe(-32601);
+  });
+
+  it("reads and writes messages with content length headers", () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const connection = new MessageConnection(input, output);
+    const received: Message[] = [];
+    connection.listen((message) => received.push(message), () => {});
+
+    const body = JSON.stringify({ jsonrpc: "2.0", id: 1, method: "shutdown", params: { text: "µ" } });
+    const message = `Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`;
+    input.write(message.substring(0, 30));
+    expect(received).toEqual([]);
+    input.write(message.substring(30) + message);
+    expect(received.map((m) => m.params.text)).toEqual(["µ", "µ"]);
+
+    connection.send({ jsonrpc: "2.0", id: 1, result: null });
+    expect(String(output.read())).toBe("Content-Length: 38\r\n\r\n{\"jsonrpc\":\"2.0\",\"id\":1,\"result\":null}");
+  });
+});
@@ -0,0 +1,64 @@
+import { diagnosticCodes } from "../language-handler/Types";
+import { createDiagnosticGetter } from "../testing/DiagnosticTestUtils";
+
+jest.mock("monaco-editor");
+
+describe("Model instantiation checks", () => {
+  const modelCodes = new Set([
+    diagnosticCodes.UndefinedModel,
+    diagnosticCodes.ModelArity,
+    diagnosticCodes.IncompatibleModelArgument,
+    diagnosticCodes.RecursiveModel,
+  ]);
+  const getModelErrors = createDiagnosticGetter(modelCodes);
+
+  const decay = "model decay(S, k)\n  J0: S -> ; k*S\nend\n";
+
+  it("accepts instantiations that fit the model", () => {
+    const program = decay + "species X = 1;\nrate = 0.1;\nA: decay(X, rate)\nB: decay(Y, 2)";
+    expect(getModelErrors(program)).toEqual([]);
+  });
+
+  it("warns about instantiating a model that is not defined", () => {
+    expect(getModelErrors("A: missing(x)")).toEqual([
+      "ANT029 1:1 Model 'missing' is not defined",
+    ]);
+  });
+
+  it("reports the wrong number of arguments", () => {
+    expect(getModelErrors(decay + "species X = 1;\nA: decay(X)\nB: decay(X, 1, 2)")).toEqual([
+      "ANT030 5:1 Model 'decay' takes 2 arguments, but 1 was given",
+      "ANT030 6:1 Model 'decay' takes 2 arguments, but 3 were given",
+    ]);
+  });
+
+  it("reports arguments of incompatible types", () => {
+    const program = decay + "compartment C = 1;\nJ1: X -> ; 1\nA: decay(C, C)\nB: decay(J1, J1)";
+    expect(getModelErrors(program)).toEqual([
+      "ANT031 6:10 Unable to pass compartment 'C' to 'S' of model 'decay', which is a species",
+      "ANT031 7:10 Unable to pass reaction 'J1' to 'S' of model 'decay', which is a species",
+    ]);
+  });
+
+  it("warns about models that instantiate themselves", () => {
+    const program = [
+      "model a(x)",
+      "  inner: a(x)",
+      "end",
+      "model b(x)",
+      "  inner: c(x)",
+      "end",
+      "model c(x)",
+      "  inner: b(x)",
+      "end",
+      "model d(x)",
+      "  inner: b(x)",
+      "end",
+    ].join("\n");
+    expect(getModelErrors(program)).toEqual([
+      "ANT032 2:3 Model 'a' instantiates itself",
+      "ANT032 5:3 Model 'c' instantiates 'b', so instantiating it here never ends",
+      "ANT032 8:3 Model 'b' instantiates 'c', so instantiating it here never ends",
+    ]);
+  });
+});
@@ -0,0 +1,66 @@
+import { AntimonyProgramAnalyzer } from "../language-handler/ModelSemanticChecker";
+import { getDefinitionRanges, getReferenceRanges } from "../language-handler/Navigation";
+import { GlobalST } from "../language-handler/SymbolTableClasses";
+import { SrcPosition, SrcRange } from "../language-handler/Types";
+
+jest.mock("monaco-editor");
+
+describe("NavigationProvider", () => {
+  const program = [
+    "species S1;",
+    "S1 = 10;",
+    "k1 = 0.1;",
+    "J0: S1 -> S2; k1*S1",
+    "function mm(S)",
+    "  S*2",
+    "end",
+    "model M(x)",
+    "  y = x",
+    "end",
+    "A: M(S1)",
+    "z = mm(S1)",
+    "w = pi*time",
+  ].join("\n");
+  let globalST: GlobalST;
+
+  beforeAll(() => {
+    globalST = new AntimonyProgramAnalyzer(program, "").getProgramST();
+  });
+
+  const range = (line: number, startColumn: number, endColumn: number) =>
+    new SrcRange(new SrcPosition(line, startColumn), new SrcPosition(line, endColumn));
+  const starts = (ranges: SrcRange[]) => ranges.map((r) => r.start.toString());
+
+  it("goes from a species in a rate law to its declaration and initialization", () => {
+    expect(starts(getDefinitionRanges(globalST, "S1", range(4, 18, 20)))).toEqual(["1:9", "2:1"]);
+  });
+
+  it("goes from a function call or model instantiation to its definition", () => {
+    expect(getDefinitionRanges(globalST, "mm", range(12, 5, 7))).toEqual([range(5, 10, 12)]);
+    expect(getDefinitionRanges(globalST, "M", range(11, 4, 5))).toEqual([range(8, 7, 8)]);
+  });
+
+  it("goes from a use of a param to the param", () => {
+    expect(getDefinitionRanges(globalST, "S", range(6, 3, 4))).toEqual([range(5, 13, 14)]);
+    expect(starts(getDefinitionRanges(globalST, "x", range(9, 7, 8)))).toContain("8:9");
+  });
+
+  it("does not find definitions for predefined constants or unknown locations", () => {
+    expect(getDefinitionRanges(globalST, "pi", range(13, 5, 7))).toEqual([]);
+    expect(getDefinitionRanges(globalST, "time", range(13, 8, 12))).toEqual([]);
+    expect(starts(getReferenceRanges(globalST, "pi", range(13, 5, 7), true))).toEqual(["13:5"]);
+    expect(getDefinitionRanges(globalST, "S1", range(3, 1, 3))).toEqual([]);
+  });
+
+  it("finds every reference of a variable", () => {
+    expect(starts(getReferenceRanges(globalST, "S1", range(1, 9, 11), true)))
+      .toEqual(["1:9", "2:1", "4:5", "4:18", "11:6", "12:8"]);
+    expect(starts(getReferenceRanges(globalST, "S1", range(1, 9, 11), false)))
+      .toEqual(["2:1", "4:5", "4:18", "11:6", "12:8"]);
+  });
+
+  it("finds where models and functions are used", () => {
+    expect(starts(getReferenceRanges(globalST, "M", range(8, 7, 8), false))).toEqual(["11:4"]);
+    expect(starts(getReferenceRanges(globalST, "mm", range(5, 10, 12), true))).toEqual(["5:10", "12:5"]);
+  });
+});
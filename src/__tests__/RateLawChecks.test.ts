@@ -0,0 +1,69 @@
+import { diagnosticCodes } from "../language-handler/Types";
+import { createDiagnosticGetter } from "../testing/DiagnosticTestUtils";
+
+jest.mock("monaco-editor");
+
+describe("Rate law checks", () => {
+  const rateLawCodes = new Set([
+    diagnosticCodes.RateLawMissingReactants,
+    diagnosticCodes.ReversedRateLaw,
+    diagnosticCodes.UndefinedRateLawId,
+    diagnosticCodes.ConsumedBoundarySpecies,
+  ]);
+  const getRateLawErrors = createDiagnosticGetter(rateLawCodes, { prefix: "species A = 1, B = 1, C = 1;\nk1 = 0.1; k2 = 0.2;\n" });
+
+  it("accepts rate laws that fit their reactions", () => {
+    const program = [
+      "J0: A -> B; k1*A",
+      "J1: A + B -> C; k1*A*B - k2*C",
+      "J2: -> A; k1",
+      "J3: $C -> A; k1*C",
+      "function mm(S, Vm, Km)",
+      "  Vm*S/(Km + S)",
+      "end",
+      "J4: B -> C; mm(B, k1, k2)",
+    ].join("\n");
+    expect(getRateLawErrors(program)).toEqual([]);
+  });
+
+  it("warns about rate laws that use none of the reactants", () => {
+    expect(getRateLawErrors("J0: A + B -> ; k1*C\nC -> ; k1")).toEqual([
+      "ANT022 1:16 Rate law of reaction 'J0' does not use any of its reactants (A, B)",
+      "ANT022 2:8 Rate law of the reaction does not use any of its reactants (C)",
+    ]);
+  });
+
+  it("warns about rate laws that suggest the reaction is reversed", () => {
+    expect(getRateLawErrors("J0: A -> B + C; k1*B*C")).toEqual([
+      "ANT023 1:17 Rate law of reaction 'J0' uses its products (B, C) but none of its reactants, " +
+        "the reaction may be written in the wrong direction",
+    ]);
+  });
+
+  it("reports ids in rate laws that are not defined anywhere once", () => {
+    const getUndefinedIdErrors = createDiagnosticGetter(
+      new Set([diagnosticCodes.UndefinedRateLawId, diagnosticCodes.UninitializedParameter]),
+      { prefix: "species A = 1, B = 1;\n" }
+    );
+    expect(getUndefinedIdErrors("J0: A -> B; kx*A")).toEqual([
+      "ANT001 1:13 Parameter 'kx' missing value assignment",
+    ]);
+    expect(getUndefinedIdErrors("J0: A -> B; k3*A + time + mm(A)")).toEqual([
+      "ANT001 1:13 Parameter 'k3' missing value assignment",
+    ]);
+  });
+
+  it("warns about boundary species written as if they were consumed", () => {
+    expect(getRateLawErrors("species $S = 1;\nJ0: S + A -> B; k1*S*A\nJ1: $S -> B; k1*S")).toEqual([
+      "ANT025 2:5 'S' is a boundary species, so it is not consumed by reaction 'J0'",
+    ]);
+  });
+
+  it("checks reactions inside models against the model's species", () => {
+    const program = "model m(x)\n  species D = 1, E;\n  J0: D -> E; x*E\nend";
+    expect(getRateLawErrors(program)).toEqual([
+      "ANT023 3:15 Rate law of reaction 'J0' uses its products (E) but none of its reactants, " +
+        "the reaction may be written in the wrong direction",
+    ]);
+  });
+});
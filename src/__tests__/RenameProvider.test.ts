@@ -0,0 +1,71 @@
+import { AntimonyProgramAnalyzer } from "../language-handler/ModelSemanticChecker";
+import { getRenameRanges } from "../language-handler/RenameProvider";
+import { GlobalST } from "../language-handler/SymbolTableClasses";
+import { SrcPosition, SrcRange } from "../language-handler/Types";
+
+jest.mock("monaco-editor");
+
+describe("RenameProvider", () => {
+  const program = [
+    "species S1, S2;",
+    "S1 = 10;",
+    "k1 = 0.1;",
+    "J0: S1 -> S2; k1*S1",
+    "S1 is \"glucose\"",
+    "S1 identity \"http://identifiers.org/chebi/CHEBI:17234\"",
+    "function mm(S)",
+    "  S*2",
+    "end",
+    "model M(x)",
+    "  S1 = x",
+    "end",
+    "w = pi*time",
+  ].join("\n");
+  let globalST: GlobalST;
+
+  beforeAll(() => {
+    globalST = new AntimonyProgramAnalyzer(program, "").getProgramST();
+  });
+
+  const range = (line: number, startColumn: number, endColumn: number) =>
+    new SrcRange(new SrcPosition(line, startColumn), new SrcPosition(line, endColumn));
+  const starts = (ranges: SrcRange[] | undefined) => (ranges || []).map((r) => r.start.toString()).sort();
+
+  it("renames every reference in the same scope only", () => {
+    const result = getRenameRanges(globalST, "S1", range(4, 18, 20), "glc");
+    expect(result.rejectReason).toBeUndefined();
+    expect(starts(result.ranges)).toEqual(["1:9", "2:1", "4:18", "4:5", "5:1", "6:1"]);
+  });
+
+  it("renames params together with their uses", () => {
+    expect(starts(getRenameRanges(globalST, "S", range(8, 3, 4), "substrate").ranges)).toEqual(["7:13", "8:3"]);
+    expect(starts(getRenameRanges(globalST, "x", range(11, 8, 9), "y").ranges)).toEqual(["10:9", "11:8"]);
+  });
+
+  it("rejects names that are already taken", () => {
+    expect(getRenameRanges(globalST, "S1", range(2, 1, 3), "k1").rejectReason).toBe(
+      "parameter 'k1' already defined on line 3:1"
+    );
+    expect(getRenameRanges(globalST, "S1", range(2, 1, 3), "M").rejectReason).toBe("model 'M' already defined on line 10:7");
+    expect(getRenameRanges(globalST, "k1", range(3, 1, 3), "mm").rejectReason).toBe("function 'mm' already defined on line 7:10");
+    expect(getRenameRanges(globalST, "k1", range(3, 1, 3), "pi").rejectReason).toContain("predefined constant");
+  });
+
+  it("allows a name used in another scope", () => {
+    expect(getRenameRanges(globalST, "x", range(11, 8, 9), "k1").ranges).toBeDefined();
+  });
+
+  it("rejects keywords and invalid ids", () => {
+    expect(getRenameRanges(globalST, "k1", range(3, 1, 3), "end").rejectReason).toBe("'end' is not a valid id");
+    expect(getRenameRanges(globalST, "k1", range(3, 1, 3), "identity").rejectReason).toBeDefined();
+    expect(getRenameRanges(globalST, "k1", range(3, 1, 3), "1k").rejectReason).toBeDefined();
+    expect(getRenameRanges(globalST, "k1", range(3, 1, 3), "k 2").rejectReason).toBeDefined();
+  });
+
+  it("rejects renaming predefined constants and unknown locations", () => {
+    expect(getRenameRanges(globalST, "pi", range(13, 5, 7), "p").rejectReason).toBeDefined();
+    expect(getRenameRanges(globalST, "pi", range(13, 5, 7), "p").ranges).toBeUndefined();
+    expect(getRenameRanges(globalST, "time", range(13, 8, 12), "t").rejectReason).toBeDefined();
+    expect(getRenameRanges(globalST, "k1", range(2, 1, 3), "k2").rejectReason).toBeDefined();
+  });
+});
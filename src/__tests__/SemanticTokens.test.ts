@@ -0,0 +1,56 @@
+import { AntimonyProgramAnalyzer } from "../language-handler/ModelSemanticChecker";
+import { encodeSemanticTokens, getSemanticTokens, semanticTokenTypes } from "../language-handler/SemanticTokens";
+
+jest.mock("monaco-editor");
+
+describe("Semantic tokens", () => {
+  const program = [
+    "function f(a)",
+    "  a * 2",
+    "end",
+    "model Inner(y)",
+    "  species s = 1",
+    "end",
+    "unit mM = 0.001 mole / litre",
+    "compartment C = 1",
+    "species S1 in C, S2",
+    "S1 = 10 mM",
+    "J0: S1 -> S2; k * S1 * f(2)",
+    "k = 0.1",
+    "const K2 = 3",
+    "E1: at time > 2: S1 = 5",
+    "A: Inner(k)",
+    "w := A.s + K2",
+  ].join("\n") + "\n";
+
+  // the type and modifiers of the token at each location, ie "11:5 species".
+  const getTokenNames = () => getSemanticTokens(new AntimonyProgramAnalyzer(program, "").getProgramST())
+    .map((token) => `${token.line}:${token.startColumn} ${semanticTokenTypes[token.tokenType]}` +
+      (token.tokenModifiers === 1 ? ".readonly" : ""));
+
+  it("colors ids by their resolved type", () => {
+    const tokens: string[] = getTokenNames();
+    // the species and parameter in the rate law, and the function called in it.
+    expect(tokens).toEqual(expect.arrayContaining(["11:15 parameter", "11:19 species", "11:24 function"]));
+    expect(tokens).toEqual(expect.arrayContaining([
+      "1:10 function", "1:12 parameter", "4:7 model", "5:11 species", "7:6 unit", "8:13 compartment",
+      "10:9 unit", "11:1 reaction", "13:7 parameter.readonly", "14:1 event", "15:1 model",
+    ]));
+  });
+
+  it("colors dotted names as the id inside of the submodel", () => {
+    expect(getTokenNames()).toEqual(expect.arrayContaining(["16:6 species", "16:12 parameter.readonly"]));
+  });
+
+  it("leaves predefined constants to the syntax highlighting", () => {
+    expect(getTokenNames().filter((token) => token.startsWith("14:"))).toEqual(["14:1 event", "14:18 species"]);
+  });
+
+  it("encodes tokens relative to the previous token", () => {
+    expect(encodeSemanticTokens([
+      { line: 2, startColumn: 5, length: 2, tokenType: 0, tokenModifiers: 0 },
+      { line: 2, startColumn: 10, length: 1, tokenType: 2, tokenModifiers: 1 },
+      { line: 4, startColumn: 3, length: 3, tokenType: 6, tokenModifiers: 0 },
+    ])).toEqual([1, 4, 2, 0, 0, 0, 5, 1, 2, 1, 2, 2, 3, 6, 0]);
+  });
+});
@@ -0,0 +1,61 @@
+import { AntimonyProgramAnalyzer } from "../language-handler/ModelSemanticChecker";
+import { getCallAtPosition, getSignatureHelp } from "../language-handler/SignatureHelp";
+import { GlobalST } from "../language-handler/SymbolTableClasses";
+import { getGlobalSTFromSnapshot, getGlobalSTSnapshot } from "../language-handler/SymbolTableSnapshot";
+
+jest.mock("monaco-editor");
+
+describe("Signature help", () => {
+  const program = [
+    "function f(a, b)",
+    "  a * b + 1",
+    "end",
+    "model Inner(x, y)",
+    "  model notes ```",
+    "    Two species that decay.",
+    "  ```",
+    "  species x, y",
+    "end",
+    "",
+  ].join("\n");
+  const globalST: GlobalST = new AntimonyProgramAnalyzer(program, "").getProgramST();
+
+  it("finds the call the cursor is in", () => {
+    expect(getCallAtPosition("z = f(1, g(2), ")).toEqual({ name: "f", argumentIndex: 2 });
+    expect(getCallAtPosition("z = f(1, g(2")).toEqual({ name: "g", argumentIndex: 0 });
+    expect(getCallAtPosition("z = (1 + ")).toBeUndefined();
+    expect(getCallAtPosition("z = f(1)")).toBeUndefined();
+    expect(getCallAtPosition("z = 1 // f(")).toBeUndefined();
+    expect(getCallAtPosition("model Inner(")).toBeUndefined();
+  });
+
+  it("shows the parameters and body of functions", () => {
+    expect(getSignatureHelp(globalST, "z = f(1, ")).toEqual({
+      signature: { label: "f(a, b)", documentation: "a*b+1", parameters: [[2, 3], [5, 6]] },
+      activeParameter: 1,
+    });
+  });
+
+  it("shows the parameters and notes of modular models", () => {
+    expect(getSignatureHelp(globalST, "A: Inner(")).toEqual({
+      signature: { label: "Inner(x, y)", documentation: "Two species that decay.", parameters: [[6, 7], [9, 10]] },
+      activeParameter: 0,
+    });
+  });
+
+  it("shows the signatures of math functions", () => {
+    expect(getSignatureHelp(globalST, "z = pow(2, ")?.signature.label).toBe("pow(x, y)");
+    // the arguments past the parameters of max are at its "...".
+    const help = getSignatureHelp(globalST, "z = max(1, 2, 3, ");
+    expect(help?.signature.documentation).toBe("largest of the arguments");
+    expect(help?.signature.label.substring(...help.signature.parameters[help.activeParameter])).toBe("...");
+    expect(getSignatureHelp(globalST, "z = pow(2, 3, ")?.activeParameter).toBe(-1);
+    expect(getSignatureHelp(globalST, "z = undefinedFunction(")).toBeUndefined();
+  });
+
+  it("keeps function bodies and model notes in symbol table snapshots", () => {
+    const copy: GlobalST = getGlobalSTFromSnapshot(JSON.parse(JSON.stringify(getGlobalSTSnapshot(globalST))));
+    expect(getSignatureHelp(copy, "z = f(")).toEqual(getSignatureHelp(globalST, "z = f("));
+    expect(getSignatureHelp(copy, "A: Inner(")).toEqual(getSignatureHelp(globalST, "A: Inner("));
+  });
+});
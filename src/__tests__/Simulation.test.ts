@@ -0,0 +1,220 @@
+import { AntimonyProgramAnalyzer } from "../language-handler/ModelSemanticChecker";
+import { GlobalST } from "../language-handler/SymbolTableClasses";
+import { getGlobalSTFromSnapshot, getGlobalSTSnapshot } from "../language-handler/SymbolTableSnapshot";
+import { compileExpression, parseExpression } from "../simulation/Expression";
+import { getEigenvalues } from "../simulation/LinearAlgebra";
+import { simulate, TimeCourse } from "../simulation/Simulate";
+import { SimulationError } from "../simulation/SimulationError";
+import { getSimulationModel } from "../simulation/SimulationModel";
+import { getJacobian, getSteadyState, SteadyState } from "../simulation/SteadyState";
+
+jest.mock("monaco-editor");
+
+const analyze = (lines: string[]): GlobalST =>
+  new AntimonyProgramAnalyzer(lines.join("\n") + "\n", "").getProgramST();
+
+// the value of column at the row for time t
+const valueAt = (result: TimeCourse, column: string, t: number): number => {
+  const row: number[] | undefined = result.rows.find((current) => Math.abs(current[0] - t) < 1e-9);
+  return row!![result.columns.indexOf(column)];
+};
+
+describe("Expressions", () => {
+  const evaluate = (text: string) => compileExpression(parseExpression(text), (name) => (name === "x" ? 0 : undefined))(new Float64Array([3]));
+
+  it("follows the precedence of antimony", () => {
+    expect(evaluate("-2^2")).toBe(-4);
+    expect(evaluate("2^3^2")).toBe(512);
+    expect(evaluate("1+2*x-4/2")).toBe(5);
+    expect(evaluate("x>2&&x<4||0")).toBe(1);
+  });
+
+  it("reads numbers with units and calls the builtin functions", () => {
+    expect(evaluate("10mM*x")).toBe(30);
+    expect(evaluate("1e-3*x")).toBeCloseTo(0.003);
+    expect(evaluate("log(2,8)")).toBeCloseTo(3);
+    expect(evaluate("piecewise(1,x<2,2,x<4,3)")).toBe(2);
+    expect(() => evaluate("delay(x,1)")).toThrow(SimulationError);
+    expect(() => evaluate("y")).toThrow("y is not defined");
+  });
+});
+
+describe("Simulation", () => {
+  it("matches the exact solution of a decay", () => {
+    const model = getSimulationModel(analyze(["J0: S1 -> S2; k*S1", "S1 = 10", "k = 0.5"]));
+    const result: TimeCourse = simulate(model, { start: 0, end: 10, points: 11 });
+    expect(result.columns).toEqual(["time", "S1", "S2"]);
+    expect(result.rows).toHaveLength(11);
+    for (const row of result.rows) {
+      expect(row[1]).toBeCloseTo(10 * Math.exp(-0.5 * row[0]), 4);
+      expect(row[1] + row[2]).toBeCloseTo(10, 6);
+    }
+  });
+
+  it("keeps the amounts of species in compartments", () => {
+    const model = getSimulationModel(analyze(["compartment c = 2", "species S in c", "S = 3", "J0: S -> ; k*S", "k = 1"]));
+    const result: TimeCourse = simulate(model, { end: 4, points: 5, selections: ["time", "S", "J0"] });
+    expect(valueAt(result, "S", 2)).toBeCloseTo(3 * Math.exp(-1), 4);
+    expect(valueAt(result, "J0", 2)).toBeCloseTo(3 * Math.exp(-1), 4);
+  });
+
+  it("switches to the stiff method for stiff systems", () => {
+    const model = getSimulationModel(analyze([
+      "J1: A -> B; 0.04*A",
+      "J2: B + C -> A + C; 1e4*B*C",
+      "J3: 2 B -> B + C; 3e7*B^2",
+      "A = 1",
+    ]));
+    const result: TimeCourse = simulate(model, { end: 40, points: 2, maxSteps: 5000 });
+    expect(valueAt(result, "A", 40)).toBeCloseTo(0.7158, 3);
+    expect(valueAt(result, "C", 40)).toBeCloseTo(0.2842, 3);
+    expect(() => simulate(model, { end: 40, points: 2, method: "rk45", maxSteps: 5000 })).toThrow(SimulationError);
+  });
+
+  it("keeps assignment rules and integrates rate rules", () => {
+    const model = getSimulationModel(analyze(["x' = r", "r = 2", "y := x^2 + z", "z := time"]));
+    const result: TimeCourse = simulate(model, { end: 3, points: 4, selections: ["time", "x", "y"] });
+    expect(result.rows[3][0]).toBe(3);
+    expect(result.rows[3][1]).toBeCloseTo(6, 6);
+    expect(result.rows[3][2]).toBeCloseTo(39, 5);
+  });
+
+  it("executes events when their triggers turn true, after their delays", () => {
+    const model = getSimulationModel(analyze([
+      "J0: S1 -> ; k*S1",
+      "S1 = 10",
+      "k = 1",
+      "E1: at time > 2: S1 = 10",
+      "E2: at 1 after time > 5: k = 0",
+    ]));
+    const result: TimeCourse = simulate(model, { end: 8, points: 9 });
+    expect(valueAt(result, "S1", 2)).toBeCloseTo(10 * Math.exp(-2), 4);
+    expect(valueAt(result, "S1", 3)).toBeCloseTo(10 * Math.exp(-1), 4);
+    expect(valueAt(result, "S1", 7)).toBeCloseTo(10 * Math.exp(-4), 4);
+    expect(valueAt(result, "S1", 8)).toBeCloseTo(10 * Math.exp(-4), 4);
+  });
+
+  it("flattens submodels under the names of their instances", () => {
+    const model = getSimulationModel(analyze([
+      "model Inner(y)",
+      "  J1: A -> ; y*A",
+      "  A = 4",
+      "end",
+      "B: Inner(r)",
+      "r = 0.5",
+      "B.A = 8",
+    ]));
+    expect(model.speciesNames).toEqual(["B.A"]);
+    const result: TimeCourse = simulate(model, { end: 2, points: 3, selections: ["time", "B.A", "B.J1"] });
+    expect(valueAt(result, "B.A", 2)).toBeCloseTo(8 * Math.exp(-1), 5);
+    expect(valueAt(result, "B.J1", 2)).toBeCloseTo(4 * Math.exp(-1), 5);
+    expect(model.getSourceRanges("B.A").map((range) => range.start.line)).toEqual([2, 3, 7]);
+  });
+
+  it("reports models and options that can not be simulated", () => {
+    expect(() => getSimulationModel(analyze(["a := b + 1", "b := 2*a"]))).toThrow("The values of a, b depend on each other");
+    expect(() => getSimulationModel(analyze(["J0: S1 -> ; k", "S1' = 1"]))).toThrow(SimulationError);
+    expect(() => getSimulationModel(analyze(["model M()", "end"]), "N")).toThrow("There is no model named N");
+    const model = getSimulationModel(analyze(["S1 = 1"]));
+    expect(() => simulate(model, { selections: ["S2"] })).toThrow("S2 is not in the model");
+    expect(() => simulate(model, { start: 5, end: 1 })).toThrow(SimulationError);
+  });
+
+  it("keeps the rules, events and submodel arguments in symbol table snapshots", () => {
+    const globalST: GlobalST = analyze([
+      "model Inner(y)",
+      "  y' = -y",
+      "end",
+      "B: Inner(k)",
+      "w := 2*k",
+      "E1: at 1 after time > 2, priority = 2, persistent = false: k = 1",
+    ]);
+    const copy: GlobalST = getGlobalSTFromSnapshot(getGlobalSTSnapshot(globalST));
+    expect(copy.rules).toEqual(globalST.rules);
+    expect(copy.events).toEqual(globalST.events);
+    expect(copy.events[0]).toEqual(expect.objectContaining({ trigger: "time>2", delay: "1", priority: "2", persistent: false }));
+    expect(copy.submodelArguments).toEqual(new Map([["B", ["k"]]]));
+    expect(copy.getModelST("Inner")!!.rules).toEqual(globalST.getModelST("Inner")!!.rules);
+    // the parameter y of B is k, so the rate rule of B changes k.
+    expect(simulate(getSimulationModel(copy), { selections: ["time", "k", "w"] }))
+      .toEqual(simulate(getSimulationModel(globalST), { selections: ["time", "k", "w"] }));
+  });
+});
+
+describe("Steady states", () => {
+  const sortByReal = (matrix: number[][]) => getEigenvalues(matrix)!!.sort((a, b) => a.real - b.real);
+
+  it("finds the eigenvalues of real matrices", () => {
+    const [smaller, larger] = sortByReal([[1, 2], [3, 4]]);
+    expect(smaller.real).toBeCloseTo((5 - Math.sqrt(33)) / 2, 10);
+    expect(larger.real).toBeCloseTo((5 + Math.sqrt(33)) / 2, 10);
+    const complex = sortByReal([[4, -2, 1], [3, 6, -4], [2, 1, 0]]);
+    expect(complex.map((eigenvalue) => eigenvalue.real.toFixed(6))).toEqual(["1.000000", "4.500000", "4.500000"]);
+    expect(complex.map((eigenvalue) => Math.abs(eigenvalue.imaginary))[1]).toBeCloseTo(Math.sqrt(11) / 2, 10);
+    expect(getEigenvalues([[NaN]])).toBeUndefined();
+  });
+
+  it("finds stable steady states with Newton's method", () => {
+    const model = getSimulationModel(analyze(["J0: -> S1; k0", "J1: S1 -> S2; k1*S1", "J2: S2 -> ; k2*S2", "k0 = 2", "k1 = 0.5", "k2 = 4"]));
+    expect(getJacobian(model).map((row) => row.map((value) => Number(value.toFixed(6))))).toEqual([[-0.5, 0], [0.5, -4]]);
+    const steadyState: SteadyState = getSteadyState(model);
+    expect(steadyState.method).toBe("newton");
+    expect(steadyState.stateNames).toEqual(["S1", "S2"]);
+    expect(steadyState.values[0]).toBeCloseTo(4, 8);
+    expect(steadyState.values[1]).toBeCloseTo(0.5, 8);
+    expect(steadyState.stability).toBe("stable");
+  });
+
+  it("tells unstable and marginally stable steady states apart", () => {
+    // the brusselator, which oscillates around its steady state once b > 1 + a^2
+    const brusselator: SteadyState = getSteadyState(getSimulationModel(analyze([
+      "J0: -> X; a - (b + 1)*X + X^2*Y", "J1: -> Y; b*X - X^2*Y", "a = 1", "b = 3", "X = 1.5", "Y = 2",
+    ])));
+    expect(brusselator.values.map((value) => Number(value.toFixed(6)))).toEqual([1, 3]);
+    expect(brusselator.eigenvalues.every((eigenvalue) => eigenvalue.imaginary !== 0)).toBe(true);
+    expect(brusselator.stability).toBe("unstable");
+
+    // a center, whose eigenvalues are i and -i
+    const center: SteadyState = getSteadyState(getSimulationModel(analyze(["x' = y", "y' = -x", "x = 1", "y = 0"])));
+    expect(center.method).toBe("newton");
+    expect(center.values.map((value) => Number(value.toFixed(6)))).toEqual([0, 0]);
+    expect(center.stability).toBe("marginal");
+  });
+
+  it("leaves the species that nothing changes out of the Jacobian", () => {
+    const steadyState: SteadyState = getSteadyState(getSimulationModel(analyze(["J0: $X -> S; k*X", "J1: S -> ; S", "X = 1", "k = 1"])));
+    expect(steadyState.method).toBe("newton");
+    expect(steadyState.stateNames).toEqual(["X", "S"]);
+    expect(steadyState.values.map((value) => Number(value.toFixed(6)))).toEqual([1, 1]);
+    expect(steadyState.jacobianStateNames).toEqual(["S"]);
+    expect(steadyState.jacobian[0][0]).toBeCloseTo(-1, 6);
+    expect(steadyState.stability).toBe("stable");
+  });
+
+  it("solves for the species of conserved moieties that are not determined by the others", () => {
+    // S1 + S2 stays at 10, so S2 is 10 - S1
+    const conserved: SteadyState = getSteadyState(getSimulationModel(analyze(["J0: S1 -> S2; k1*S1", "J1: S2 -> S1; k2*S2", "S1 = 10", "k1 = 1", "k2 = 3"])));
+    expect(conserved.method).toBe("newton");
+    expect(conserved.values[0]).toBeCloseTo(7.5, 6);
+    expect(conserved.values[1]).toBeCloseTo(2.5, 6);
+    expect(conserved.jacobianStateNames).toEqual(["S1"]);
+    expect(conserved.eigenvalues[0].real).toBeCloseTo(-4, 6);
+    expect(conserved.stability).toBe("stable");
+
+    // E + ES and S + P + ES stay as they start
+    const enzyme: SteadyState = getSteadyState(getSimulationModel(analyze([
+      "J0: E + S -> ES; k1*E*S - k2*ES", "J1: ES -> E + P; k3*ES - k4*E*P",
+      "E = 1", "S = 10", "k1 = 1", "k2 = 1", "k3 = 1", "k4 = 0.5",
+    ])));
+    expect(enzyme.method).toBe("newton");
+    expect(enzyme.jacobianStateNames).toHaveLength(2);
+    expect(enzyme.rates.every((rate) => Math.abs(rate) < 1e-8)).toBe(true);
+    expect(enzyme.stability).toBe("stable");
+  });
+
+  it("reports models without a steady state", () => {
+    expect(() => getSteadyState(getSimulationModel(analyze(["x = 1"])))).toThrow(SimulationError);
+    expect(() => getSteadyState(getSimulationModel(analyze(["J0: -> S1; k", "k = 1"])), { maxTime: 100 }))
+      .toThrow("The model does not reach a steady state by time 100");
+  });
+});
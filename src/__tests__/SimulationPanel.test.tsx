@@ -0,0 +1,68 @@
+import { render, screen, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import SimulationPanel from "../components/simulation-panel/SimulationPanel";
+import { defaultSimulationSettings } from "../simulation/SimulationSettings";
+
+jest.mock("monaco-editor");
+
+describe("SimulationPanel", () => {
+  /** An editor with just enough of monaco for the panel. */
+  const createEditor = (text: string) => ({
+    getModel: () => ({ uri: { toString: () => "inmemory://model/1" } }),
+    getValue: () => text,
+    createDecorationsCollection: jest.fn(() => ({ clear: jest.fn() })),
+    revealLineInCenterIfOutsideViewport: jest.fn(),
+  });
+  const database = { getAll: async () => [] };
+
+  const renderPanel = (editor: ReturnType<typeof createEditor>, runCount: number = 0) => render(
+    <SimulationPanel
+      editorInstance={editor as any}
+      database={database as any}
+      fileName="model.ant"
+      settings={{ ...defaultSimulationSettings, showPanel: true }}
+      setSettings={jest.fn()}
+      saveCount={0}
+      runCount={runCount}
+    />
+  );
+
+  test("plots the model once it is shown and hides curves from the legend", async () => {
+    renderPanel(createEditor("J0: S1 -> S2; k*S1\nS1 = 10\nk = 1\n"));
+
+    await screen.findByRole("button", { name: "S1" });
+    const chart = screen.getByRole("img", { name: "Time course" });
+    // the title of each curve is the name of its column
+    expect(within(chart).getAllByText(/^S[12]$/)).toHaveLength(2);
+
+    await userEvent.click(screen.getByRole("checkbox", { name: "Show S2" }));
+    expect(within(chart).getByText("S1")).toBeInTheDocument();
+    expect(within(chart).queryByText("S2")).not.toBeInTheDocument();
+  });
+
+  test("highlights the lines of the selected curve", async () => {
+    const editor = createEditor("J0: S1 -> S2; k*S1\nS1 = 10\nk = 1\n");
+    renderPanel(editor);
+
+    await userEvent.click(await screen.findByRole("button", { name: "S1" }));
+    const decorations = editor.createDecorationsCollection.mock.calls.at(-1) as unknown as [{ range: { startLineNumber: number } }[]];
+    expect(decorations[0].map((decoration) => decoration.range.startLineNumber)).toEqual([1, 2]);
+    expect(editor.revealLineInCenterIfOutsideViewport).toHaveBeenCalledWith(1);
+  });
+
+  test("shows the steady state of the model", async () => {
+    renderPanel(createEditor("J0: -> S1; k0\nJ1: S1 -> ; k1*S1\nk0 = 2\nk1 = 0.5\n"));
+
+    await userEvent.click(await screen.findByRole("button", { name: "Steady State" }));
+    const table = await screen.findByRole("table", { name: "Steady state" });
+    expect(within(table).getAllByRole("cell").map((cell) => cell.textContent)).toEqual(["4", "0"]);
+    expect(screen.getByText(/^Stable/)).toBeInTheDocument();
+    expect(within(screen.getByRole("table", { name: "Jacobian" })).getByRole("cell")).toHaveTextContent("-0.5");
+  });
+
+  test("shows why a model can not be simulated", async () => {
+    renderPanel(createEditor("S1 -> S2; f(S1)\nS1 = 1\n"));
+
+    expect(await screen.findByRole("alert")).toHaveTextContent("The simulator does not support the function f");
+  });
+});
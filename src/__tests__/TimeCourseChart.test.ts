@@ -0,0 +1,47 @@
+import {
+  formatTick,
+  fromPixel,
+  getAxisScale,
+  getAxisTicks,
+  getCurvePath,
+  getTimeCourseCsv,
+  toPixel,
+  zoomAxisScale,
+} from "../simulation/TimeCourseChart";
+
+describe("Time course chart", () => {
+  it("spans the values along an axis", () => {
+    expect(getAxisScale([3, 1, NaN, 2], false)).toEqual({ min: 1, max: 3, log: false });
+    expect(getAxisScale([0, 0.1, 100], true)).toEqual({ min: 0.1, max: 100, log: true });
+    expect(getAxisScale([5, 5], false)).toEqual({ min: 4.5, max: 5.5, log: false });
+    expect(getAxisScale([], true)).toEqual({ min: 1, max: 10, log: true });
+  });
+
+  it("converts between values and pixels", () => {
+    const log = { min: 1, max: 1000, log: true };
+    expect(toPixel(10, log, 300)).toBeCloseTo(100);
+    expect(toPixel(0, log, 300)).toBeUndefined();
+    expect(fromPixel(200, log, 300)).toBeCloseTo(100);
+    expect(zoomAxisScale({ min: 0, max: 10, log: false }, 80, 20, 100)).toEqual({ min: 2, max: 8, log: false });
+  });
+
+  it("marks round values along an axis", () => {
+    expect(getAxisTicks({ min: 0, max: 1, log: false })).toEqual([0, 0.2, 0.4, 0.6, 0.8, 1]);
+    expect(getAxisTicks({ min: 0.05, max: 2000, log: true })).toEqual([0.1, 1, 10, 100, 1000]);
+    expect([0.25, 1e-6, 25000, 0].map(formatTick)).toEqual(["0.25", "1e-6", "2.5e4", "0"]);
+  });
+
+  it("breaks curves where their values can not be shown", () => {
+    const xScale = { min: 0, max: 2, log: false };
+    const yScale = { min: 1, max: 100, log: true };
+    expect(getCurvePath([0, 1, 2], [1, 0, 100], xScale, yScale, 100, 50))
+      .toBe("M0.00,50.00 M100.00,0.00");
+    expect(getCurvePath([0, 1, 2], [1, 10, 100], xScale, yScale, 100, 50))
+      .toBe("M0.00,50.00 L50.00,25.00 L100.00,0.00");
+  });
+
+  it("writes time courses as comma separated values", () => {
+    expect(getTimeCourseCsv({ columns: ["time", "S1"], rows: [[0, 10], [1, 3.5]] }))
+      .toBe("time,S1\n0,10\n1,3.5\n");
+  });
+});
@@ -0,0 +1,105 @@
+import { AntimonyProgramAnalyzer } from "../language-handler/ModelSemanticChecker";
+import { resolveUnit, resolveUnitName } from "../language-handler/Units";
+import { diagnosticCodes, varTypes } from "../language-handler/Types";
+
+jest.mock("monaco-editor");
+
+describe("Units", () => {
+  const getUnitErrors = (program: string) =>
+    new AntimonyProgramAnalyzer(program, "")
+      .getErrors(false)
+      .filter((err) => err.code === diagnosticCodes.InconsistentUnits || err.code === diagnosticCodes.InvalidUnit)
+      .map((err) => err.startLineNumber + ":" + err.startColumn + " " + err.message);
+
+  it("resolves predefined, plural and declared units to base units", () => {
+    const unitMap = new Map([["mM", new Map([["mole", 1], ["litre", -1]])]]);
+    expect(resolveUnitName("litres", unitMap).dimensions).toEqual(new Map([["metre", 3]]));
+    expect(resolveUnitName("mM", unitMap).dimensions).toEqual(new Map([["mole", 1], ["metre", -3]]));
+    expect(resolveUnitName("widget", unitMap).dimensions).toEqual(new Map([["widget", 1]]));
+    expect(resolveUnit(new Map([["mM", 1], ["litre", 1]]), unitMap, "mM*litre").dimensions)
+      .toEqual(new Map([["mole", 1]]));
+  });
+
+  it("does not loop on circular unit declarations", () => {
+    const unitMap = new Map([["a", new Map([["b", 1]])], ["b", new Map([["a", 2]])]]);
+    expect(resolveUnitName("a", unitMap).dimensions).toEqual(new Map([["a", 2]]));
+  });
+
+  it("records unit declarations and assignments in the symbol table", () => {
+    const globalST = new AntimonyProgramAnalyzer(
+      "unit mM = 0.001 mole / litre\nx has mM\ny = 3 mM\n", ""
+    ).getProgramST();
+    expect(globalST.getUnitMap().get("mM")).toEqual(new Map([["mole", 1], ["litre", -1]]));
+    expect(globalST.getVar("mM")?.type).toBe(varTypes.Unit);
+    expect(globalST.getVar("mM")?.unit).toBe("0.001 mole / litre");
+    expect(globalST.getVar("x")?.unit).toBe("mM");
+    expect(globalST.getVar("y")?.unit).toBe("mM");
+  });
+
+  it("takes a unit after a number in scientific notation", () => {
+    const analyzer = new AntimonyProgramAnalyzer("unit mM = 1e-3 mole / litre\nx = 1e-3 mole\n", "");
+    expect(analyzer.getErrors(false)).toEqual([]);
+    expect(analyzer.getProgramST().getUnitMap().get("mM")).toEqual(new Map([["mole", 1], ["litre", -1]]));
+    expect(analyzer.getProgramST().getVar("x")?.unit).toBe("mole");
+  });
+
+  it("does not treat the unit of a value as a parameter", () => {
+    const errors = new AntimonyProgramAnalyzer("unit mM = 0.001 mole / litre\nx = 3 mM\n", "").getErrors(false);
+    expect(errors).toEqual([]);
+  });
+
+  it("reports adding values with inconsistent units", () => {
+    const program = [
+      "unit mM = 0.001 mole / litre",
+      "species A = 1 mM, B = 2 mole;",
+      "C = A + B",
+      "D = A + 2",
+      "E = (A - 1 mM) * 2 litre + B",
+    ].join("\n");
+    expect(getUnitErrors(program)).toEqual([
+      "3:5 Adding or subtracting values with inconsistent units 'mM' and 'mole'",
+    ]);
+  });
+
+  it("reports assigning a value with an inconsistent unit", () => {
+    const program = [
+      "unit mM = 0.001 mole / litre",
+      "x has mM",
+      "n = 2 mole",
+      "V = 1 litre",
+      "x = n",
+      "x = n / V",
+    ].join("\n");
+    expect(getUnitErrors(program)).toEqual([
+      "5:5 Unit of 'x' is 'mM', but it is assigned a value with unit 'mole'",
+    ]);
+  });
+
+  it("checks rate rules against the unit per unit of time", () => {
+    const program = [
+      "unit per_second = 1 / second",
+      "model m()",
+      "  S1 = 1 mole",
+      "  k = 1 per_second",
+      "  S1' = k * S1",
+      "  S1' = S1",
+      "end",
+    ].join("\n");
+    expect(getUnitErrors(program)).toEqual([
+      "6:9 Rate of 'S1' should have unit 'mole/second', but has unit 'mole'",
+    ]);
+  });
+
+  it("reports invalid unit expressions", () => {
+    expect(getUnitErrors("unit u = mole + litre\nx has exp(2)\n")).toEqual([
+      "1:10 'mole + litre' is not a valid unit, units can only be multiplied, divided and raised to a number",
+      "2:7 'exp(2)' is not a valid unit, units can only be multiplied, divided and raised to a number",
+    ]);
+  });
+
+  it("skips the unit check of a declaration that is missing its name", () => {
+    for (const program of ["species = 1", "compartment = 1", "model main\n  compartment  = 1\nend", "species S = 1, = 2"]) {
+      expect(getUnitErrors(program)).toEqual([]);
+    }
+  });
+});
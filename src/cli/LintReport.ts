@@ -0,0 +1,115 @@
+import { AntimonyDiagnostic } from "../language-handler/AnalyzeAntimony";
+import { diagnosticNames } from "../language-handler/DiagnosticSettings";
+import { diagnosticCodes } from "../language-handler/Types";
+
+/**
+ * The diagnostics found in one linted file.
+ */
+export type FileDiagnostics = {
+  // the path of the file, relative to where the linter was run
+  file: string;
+  diagnostics: AntimonyDiagnostic[];
+};
+
+/**
+ * The formats the linter can print its report in.
+ *  - text: a line per diagnostic, for people
+ *  - json: the diagnostics of each file
+ *  - sarif: a SARIF 2.1.0 log, which CI services show as code scanning alerts
+ */
+export type LintFormat = "text" | "json" | "sarif";
+
+export const lintFormats: LintFormat[] = ["text", "json", "sarif"];
+
+// SARIF has no hints, so hints and infos are both notes.
+const sarifLevels: Record<AntimonyDiagnostic["severity"], string> = {
+  error: "error",
+  warning: "warning",
+  info: "note",
+  hint: "note",
+};
+
+/**
+ * @param results the diagnostics of each linted file
+ * @param format
+ * @returns the report of the linter
+ */
+export function formatLintReport(results: FileDiagnostics[], format: LintFormat): string {
+  switch (format) {
+    case "text":
+      return formatText(results);
+    case "json":
+      return JSON.stringify(results, null, 2);
+    case "sarif":
+      return JSON.stringify(getSarifLog(results), null, 2);
+  }
+}
+
+/**
+ * @param results
+ * @returns whether any of the files has a diagnostic with the error severity
+ */
+export function hasErrors(results: FileDiagnostics[]): boolean {
+  return results.some((result) => result.diagnostics.some((diagnostic) => diagnostic.severity === "error"));
+}
+
+/**
+ * @description formats the diagnostics as "file:line:column: severity message [code]"
+ *              lines, followed by the number of errors and warnings.
+ * @param results
+ * @returns the text report
+ */
+function formatText(results: FileDiagnostics[]): string {
+  const lines: string[] = [];
+  const counts: Record<AntimonyDiagnostic["severity"], number> = { error: 0, warning: 0, info: 0, hint: 0 };
+  for (const result of results) {
+    for (const diagnostic of result.diagnostics) {
+      counts[diagnostic.severity]++;
+      lines.push(
+          `${result.file}:${diagnostic.startLineNumber}:${diagnostic.startColumn}: ` +
+          `${diagnostic.severity} ${diagnostic.message} [${diagnostic.code}]`
+      );
+    }
+  }
+  const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`;
+  lines.push(
+      `${plural(counts.error, "error")} and ${plural(counts.warning, "warning")} ` +
+      `in ${plural(results.length, "file")}`
+  );
+  return lines.join("\n");
+}
+
+/**
+ * @param results
+ * @returns a SARIF 2.1.0 log with a result for each diagnostic
+ */
+function getSarifLog(results: FileDiagnostics[]): object {
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [{
+      tool: {
+        driver: {
+          name: "antimony-lint",
+          rules: Object.values(diagnosticCodes).map((code) => ({ id: code, name: diagnosticNames[code] })),
+        },
+      },
+      results: results.flatMap((result) => result.diagnostics.map((diagnostic) => ({
+        ruleId: diagnostic.code,
+        level: sarifLevels[diagnostic.severity],
+        message: { text: diagnostic.message },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: result.file.split("\\").join("/") },
+            region: {
+              startLine: diagnostic.startLineNumber,
+              startColumn: diagnostic.startColumn,
+              endLine: diagnostic.endLineNumber,
+              endColumn: diagnostic.endColumn,
+            },
+          },
+        }],
+      }))),
+    }],
+  };
+}
@@ -0,0 +1,103 @@
+import { performance } from "perf_hooks";
+import { IncrementalParser } from "../language-handler/IncrementalParser";
+import { ProgramAnalysis } from "../language-handler/ProgramAnalysis";
+
+/**
+ * Measures how long the program in the editor takes to be analyzed again after a keystroke,
+ * on a program with the size and layout of a large BioModels model converted to antimony, ie
+ *   npm run benchmark:analysis -- 1500
+ * for a model of 1500 species, which is over 10000 lines. It prints the time a full analysis
+ * takes, and how the time of an analysis after an edit is split between the incremental
+ * parse and the visits that build and check the symbol tables.
+ */
+
+const usage = "usage: benchmark:analysis [<species count>]";
+
+// the number of times each analysis is timed, of which the median is printed.
+const runs: number = 5;
+
+/**
+ * @description builds a model laid out like libantimony lays out a converted SBML model, with
+ *              a reaction, initial value, rate constants, display name and annotation per species.
+ * @param speciesCount
+ * @returns the program
+ */
+function getBenchmarkProgram(speciesCount: number): string {
+  const ids: number[] = Array.from({ length: speciesCount }, (_, i) => i + 1);
+  return [
+    "// Created by libAntimony",
+    "model *benchmark()",
+    "",
+    "  // Compartments and Species:",
+    "  compartment cell;",
+    ...ids.map((i) => `  species S${i} in cell;`),
+    "",
+    "  // Reactions:",
+    ...ids.map((i) => `  R${i}: S${i} => S${i % speciesCount + 1}; cell*(kf${i}*S${i} - kr${i}*S${i % speciesCount + 1});`),
+    "",
+    "  // Species initializations:",
+    ...ids.map((i) => `  S${i} = ${i % 10}/cell;`),
+    "",
+    "  // Compartment initializations:",
+    "  cell = 1;",
+    "",
+    "  // Variable initializations:",
+    ...ids.flatMap((i) => [`  kf${i} = 0.${i};`, `  kr${i} = 0.0${i};`]),
+    "",
+    "  // Other declarations:",
+    "  const cell;",
+    "",
+    "  // Display Names:",
+    ...ids.map((i) => `  S${i} is "species ${i}";`),
+    "",
+    "  // CV terms:",
+    ...ids.map((i) => `  S${i} identity "http://identifiers.org/chebi/CHEBI:${10000 + i}"`),
+    "end",
+    "",
+  ].join("\n");
+}
+
+/**
+ * @param measure
+ * @returns the median time measure takes, in milliseconds
+ */
+function time(measure: () => void): number {
+  const times: number[] = [];
+  for (let i = 0; i < runs; i++) {
+    const start: number = performance.now();
+    measure();
+    times.push(performance.now() - start);
+  }
+  return times.sort((a, b) => a - b)[Math.floor(runs / 2)];
+}
+
+/**
+ * @param args the command line arguments, without node and the script
+ */
+function main(args: string[]): void {
+  const speciesCount: number = args.length > 0 ? Number(args[0]) : 1500;
+  if (!Number.isInteger(speciesCount) || speciesCount < 1) {
+    console.error(usage);
+    process.exit(2);
+  }
+  const program: string = getBenchmarkProgram(speciesCount);
+  // a keystroke in the middle of the program, which changes one initial value.
+  const middle: number = Math.ceil(speciesCount / 2);
+  const edits: string[] = [`  S${middle} = 7/cell;`, `  S${middle} = 70/cell;`]
+      .map((line) => program.replace(`  S${middle} = ${middle % 10}/cell;`, line));
+
+  const fullAnalysis: number = time(() => ProgramAnalysis.analyze(program));
+  const parser: IncrementalParser = new IncrementalParser();
+  ProgramAnalysis.analyze(program, undefined, "", parser);
+  let edit: number = 0;
+  const incrementalParse: number = time(() => parser.parse(edits[edit++ % edits.length]));
+  const incrementalAnalysis: number = time(() => ProgramAnalysis.analyze(edits[edit++ % edits.length], undefined, "", parser));
+
+  console.log(`${program.split("\n").length} lines, median of ${runs} runs`);
+  console.log(`full analysis:                 ${fullAnalysis.toFixed(0)} ms`);
+  console.log(`analysis after an edit:        ${incrementalAnalysis.toFixed(0)} ms`);
+  console.log(`  incremental parse:           ${incrementalParse.toFixed(0)} ms`);
+  console.log(`  symbol table and checks:     ${(incrementalAnalysis - incrementalParse).toFixed(0)} ms`);
+}
+
+main(process.argv.slice(2));
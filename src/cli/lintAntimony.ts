@@ -0,0 +1,135 @@
+import * as fs from "fs";
+import * as path from "path";
+import { analyzeAntimony } from "../language-handler/AnalyzeAntimony";
+import { DiagnosticSettings } from "../language-handler/DiagnosticSettings";
+import { FileDiagnostics, formatLintReport, hasErrors, LintFormat, lintFormats } from "./LintReport";
+
+/**
+ * Lints the .ant files in directories for CI, ie
+ *   npm run lint:antimony -- models --format sarif > antimony.sarif
+ * Imports are resolved against the other .ant files in the same linted
+ * directory, by their path relative to it. The exit code is 1 if any
+ * file has an error, and 2 if the arguments are wrong.
+ */
+
+const usage = [
+  "usage: lint:antimony [--format text|json|sarif] [--settings <file>] <directory or file>...",
+  "  -h, --help  print this help",
+  "  --format    how to print the diagnostics, text by default",
+  "  --settings  a JSON file of severities per diagnostic code, ie {\"ANT002\": \"off\"}",
+].join("\n");
+
+/**
+ * The parsed command line arguments.
+ */
+type LintArguments = {
+  // whether to print the usage instead of linting
+  help: boolean;
+  format: LintFormat;
+  settings: DiagnosticSettings;
+  paths: string[];
+};
+
+/**
+ * @param args the command line arguments, without node and the script
+ * @returns the parsed arguments
+ * @throws {Error} if the arguments are wrong
+ */
+function parseArguments(args: string[]): LintArguments {
+  const result: LintArguments = { help: false, format: "text", settings: {}, paths: [] };
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "-h" || args[i] === "--help") {
+      result.help = true;
+      return result;
+    } else if (args[i] === "--format") {
+      const format = args[++i] as LintFormat;
+      if (!lintFormats.includes(format)) {
+        throw new Error(`unknown format '${args[i]}'`);
+      }
+      result.format = format;
+    } else if (args[i] === "--settings") {
+      if (args[++i] === undefined) {
+        throw new Error("--settings needs a file");
+      }
+      result.settings = JSON.parse(fs.readFileSync(args[i], "utf8"));
+    } else if (args[i].startsWith("--")) {
+      throw new Error(`unknown option '${args[i]}'`);
+    } else {
+      result.paths.push(args[i]);
+    }
+  }
+  if (result.paths.length === 0) {
+    throw new Error("no directory to lint");
+  }
+  return result;
+}
+
+/**
+ * @param directory
+ * @returns the paths of the .ant files in directory and the directories
+ *          within it, skipping hidden directories and node_modules
+ */
+function findAntimonyFiles(directory: string): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+    const entryPath: string = path.join(directory, entry.name);
+    if (entry.isDirectory() && !entry.name.startsWith(".") && entry.name !== "node_modules") {
+      files.push(...findAntimonyFiles(entryPath));
+    } else if (entry.isFile() && entry.name.endsWith(".ant")) {
+      files.push(entryPath);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * @param lintPath a directory, or a single file
+ * @param settings severity overrides per diagnostic code
+ * @returns the diagnostics of each .ant file at lintPath
+ */
+function lintPath(lintPath: string, settings: DiagnosticSettings): FileDiagnostics[] {
+  const isDirectory: boolean = fs.statSync(lintPath).isDirectory();
+  const root: string = isDirectory ? lintPath : path.dirname(lintPath);
+  const filePaths: string[] = isDirectory ? findAntimonyFiles(lintPath) : [lintPath];
+
+  // the files imports are resolved against, by their path relative to root.
+  const files: Map<string, string> = new Map();
+  for (const filePath of isDirectory ? filePaths : findAntimonyFiles(root)) {
+    files.set(path.relative(root, filePath).split(path.sep).join("/"), fs.readFileSync(filePath, "utf8"));
+  }
+
+  return filePaths.map((filePath) => {
+    const fileName: string = path.relative(root, filePath).split(path.sep).join("/");
+    const source: string = files.get(fileName) ?? fs.readFileSync(filePath, "utf8");
+    return {
+      file: path.relative(process.cwd(), filePath),
+      diagnostics: analyzeAntimony(source, { fileName, files, settings }).diagnostics,
+    };
+  });
+}
+
+function main(): void {
+  let args: LintArguments;
+  try {
+    args = parseArguments(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${(error as Error).message}\n${usage}`);
+    process.exit(2);
+  }
+  if (args.help) {
+    console.log(usage);
+    process.exit(0);
+  }
+
+  let results: FileDiagnostics[];
+  try {
+    results = args.paths.flatMap((linted) => lintPath(linted, args.settings));
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(2);
+  }
+  console.log(formatLintReport(results, args.format));
+  process.exitCode = hasErrors(results) ? 1 : 0;
+}
+
+main();
@@ -6,9 +6,14 @@ import "./AntimonyEditor.css";
 import { getBiomodels, getModel } from "../../features/BrowseBiomodels";
 import Loader from "../Loader";
 import CreateAnnotationModal from "../create-annotation/CreateAnnotationModal";
-import ModelSemanticsChecker from "../../language-handler/ModelSemanticChecker";
+import { createAnnotationActionId } from "../../language-handler/CodeActionProvider";
+import { DiagnosticSettings } from "../../language-handler/DiagnosticSettings";
+import ModelSemanticsChecker, { checkModelInWorker, showCheckFailure } from "../../language-handler/ModelSemanticChecker";
+import { getAnalysisWorkerClient } from "../../language-handler/AnalysisWorkerClient";
 import { IDBPDatabase, DBSchema } from "idb";
 import { SrcPosition, SrcRange } from "../../language-handler/Types";
+import { antimonyWordPattern } from "../../language-handler/Navigation";
+import { getImportedFileName } from "../../language-handler/NavigationProvider";
 import TurndownService from "turndown";
 
 /**
@@ -21,6 +26,9 @@ import TurndownService from "turndown";
  * @property {object} selectedFilePosition -
  * @property {function} handleSelectedPosition -
  * @property {function} handleConversionSBML - Handle the SBML to Antimony file conversion
+ * @property {function} handleFileOpen - Opens another stored file, such as the file a model is imported from
+ * @property {function} handleFileSave - Called after the file is saved with Ctrl+S
+ * @property {object[]} uploadedFiles - The stored files, which imports are resolved against
  */
 interface AntimonyEditorProps {
   fileName: string;
@@ -32,7 +40,12 @@ interface AntimonyEditorProps {
   handleSelectedPosition: (position: SrcPosition) => void;
   setHighlightColor: (color: string) => void;
   highlightColor: string;
+  diagnosticSettings: DiagnosticSettings;
+  inlayHintsOn: boolean;
   handleNewFile: (newFileName: string, newFileContent: string) => Promise<void>;
+  handleFileOpen: (fileName: string) => void;
+  handleFileSave: () => void;
+  uploadedFiles: { name: string; content: string }[];
 }
 
 /**
@@ -101,9 +114,21 @@ const AntimonyEditor: React.FC<AntimonyEditorProps & { database: IDBPDatabase<My
        selectedFilePosition,
        handleSelectedPosition,
        highlightColor,
+       diagnosticSettings,
+       inlayHintsOn,
        handleNewFile,
+       handleFileOpen,
+       handleFileSave,
+       uploadedFiles,
      }) => {
       const editorRef = useRef<HTMLDivElement | null>(null);
+      // the stored files by name, loaded once until a file is saved or uploaded
+      const storedFilesRef = useRef<Promise<Map<string, string>> | null>(null);
+      // the latest diagnostic settings, for the checks that the editor runs from its own callbacks
+      const diagnosticSettingsRef = useRef<DiagnosticSettings>(diagnosticSettings);
+      diagnosticSettingsRef.current = diagnosticSettings;
+      // the settings the model was last checked with because they changed
+      const checkedSettingsRef = useRef<DiagnosticSettings>(diagnosticSettings);
       const [loading, setLoading] = useState<boolean>(false);
       const [isModalVisible, setModalVisible] = useState<boolean>(false);
       const [chosenModel, setChosenModel] = useState<string | null>(null);
@@ -126,7 +151,7 @@ const AntimonyEditor: React.FC<AntimonyEditorProps & { database: IDBPDatabase<My
         if (editorRef.current) {
           // Adds the create annotations option to the context menu of the editor
           editor.addAction({
-            id: "create-annotation", // Unique identifier of the contributed action
+            id: createAnnotationActionId, // Unique identifier of the contributed action
             label: "Create Annotations", // Label of the action that will be presented to the user
             keybindings: [
               monaco.KeyMod.CtrlCmd | monaco.KeyCode.F10, // Keybinding using Ctrl or Cmd with F10
@@ -139,8 +164,9 @@ const AntimonyEditor: React.FC<AntimonyEditorProps & { database: IDBPDatabase<My
             keybindingContext: null, // No additional rules to evaluate for keybinding dispatch
             contextMenuGroupId: "navigation", // Group where this action will appear in the context menu
             contextMenuOrder: 1, // Order within the group where this action will appear
-            run: function (ed: monaco.editor.IStandaloneCodeEditor) { // Function to execute when action is triggered
-              const position = ed.getPosition(); // Gets the current cursor position in the editor
+            // position is passed when run as the "Annotate" quick fix, otherwise the cursor is used
+            run: function (ed: monaco.editor.IStandaloneCodeEditor, position?: monaco.IPosition | null) { // Function to execute when action is triggered
+              position = position || ed.getPosition(); // Gets the current cursor position in the editor
               if (position) {
                 const word = ed.getModel()?.getWordAtPosition(position); // Gets the word at the cursor position
                 if (word) {
@@ -149,7 +175,9 @@ const AntimonyEditor: React.FC<AntimonyEditorProps & { database: IDBPDatabase<My
                   let end: SrcPosition = new SrcPosition(position.lineNumber, word.endColumn);
                   let srcRange: SrcRange = new SrcRange(start, end); // Creates a source range from start to end
                   // Check and retrieve variable annotation information if available
-                  let { symbolTable: ST } = ModelSemanticsChecker(ed, annotUnderlinedOn, false, highlightColor, decorations);
+                  let { symbolTable: ST } = ModelSemanticsChecker(
+                      ed, annotUnderlinedOn, false, highlightColor, decorations, undefined, undefined, diagnosticSettingsRef.current
+                  );
                   let varAndAnnotationPositionInfo = ST.hasVarAtLocation(word.word, srcRange);
                   if (varAndAnnotationPositionInfo) {
                     setModalVisible(true); // Shows modal for adding annotations
@@ -241,7 +269,9 @@ const AntimonyEditor: React.FC<AntimonyEditorProps & { database: IDBPDatabase<My
 
                   // Check if the variable exists at the specified location.
                   // This might be optimized in the future by caching the symbol table.
-                  let { symbolTable: ST } = ModelSemanticsChecker(ed, annotUnderlinedOn, false, highlightColor, decorations)
+                  let { symbolTable: ST } = ModelSemanticsChecker(
+                      ed, annotUnderlinedOn, false, highlightColor, decorations, undefined, undefined, diagnosticSettingsRef.current
+                  )
                   let info = ST.hasVarAtLocation(word.word, srcRange);
 
                   if (info && info.varInfo.annotations.length > 0) {
@@ -272,6 +302,73 @@ const AntimonyEditor: React.FC<AntimonyEditorProps & { database: IDBPDatabase<My
         }
       };
 
+      /**
+       * @description adds the menu option to save the file, which lets App know that the file was saved
+       * @param editor
+       */
+      const addSaveFileOption = (editor: monaco.editor.IStandaloneCodeEditor) => {
+        editor.addAction({
+          id: "save-file",
+          label: "Save File",
+          keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS],
+          run: function (ed: monaco.editor.ICodeEditor) {
+            const processedContent = processContent(ed.getValue());
+            database
+              .transaction("files", "readwrite")
+              .objectStore("files")
+              .put({ name: selectedFile, content: processedContent })
+              .then(() => {
+                storedFilesRef.current = null;
+                handleFileSave();
+              });
+          },
+        });
+      };
+
+      /**
+       * @description Loads the stored files that imports are resolved against, once until they change
+       * @returns the stored files by name
+       */
+      const getStoredFiles = useCallback((): Promise<Map<string, string>> => {
+        if (!storedFilesRef.current) {
+          const loading: Promise<Map<string, string>> = database.getAll("files").then(
+            (files) => new Map(files.map((file) => [file.name, file.content]))
+          );
+          // so that a failed load is tried again next time
+          loading.catch(() => {
+            if (storedFilesRef.current === loading) {
+              storedFilesRef.current = null;
+            }
+          });
+          storedFilesRef.current = loading;
+        }
+        return storedFilesRef.current;
+      }, [database]);
+
+      /**
+       * @description Checks the model in the editor once the stored files are loaded,
+       * so that its imports can be resolved against them
+       * @param editor
+       */
+      const checkModelWithImports = useCallback((editor: monaco.editor.IStandaloneCodeEditor) => {
+        getStoredFiles().then((storedFiles) => {
+          // the editor may have been closed while the files were loading
+          if (!editor.getModel()) {
+            return;
+          }
+          const analysisWorkerClient = getAnalysisWorkerClient();
+          if (analysisWorkerClient) {
+            return checkModelInWorker(
+              analysisWorkerClient, editor, annotUnderlinedOn, highlightColor, decorations, storedFiles, fileName,
+              diagnosticSettingsRef.current
+            );
+          }
+          ModelSemanticsChecker(
+              editor, annotUnderlinedOn, true, highlightColor, decorations, storedFiles, fileName, diagnosticSettingsRef.current
+          );
+        }).catch((error) => showCheckFailure(editor, error));
+      }, [getStoredFiles, annotUnderlinedOn, highlightColor, decorations, fileName]);
+
       // Takes in an a file in the database and loads it into the editor.
       const loadFile = (fName: string) => {
         let processedContent: string;
@@ -323,7 +420,14 @@ const AntimonyEditor: React.FC<AntimonyEditorProps & { database: IDBPDatabase<My
        */
       useEffect(() => {
         loadFile(fileName);
-      }, [fileName, database]) 
+      }, [fileName, database])
+
+      /**
+       * @description Loads the stored files again on the next check once files are uploaded, added or deleted
+       */
+      useEffect(() => {
+        storedFilesRef.current = null;
+      }, [uploadedFiles, database]);
 
 
       /**
@@ -358,15 +462,29 @@ const AntimonyEditor: React.FC<AntimonyEditorProps & { database: IDBPDatabase<My
               value: initialContent,
               language: "antimony",
               automaticLayout: true,
+              "semanticHighlighting.enabled": true,  // Color ids by their resolved type
+              inlayHints: { enabled: inlayHintsOn ? "on" : "off" },  // Show values and equations after ids
               wordWrap: 'on',  // Enable word wrap
               wordWrapColumn: 80,  // Max column width before wrapping
               wrappingIndent: 'same',
             });
             // Set the antimonyString variable to the editor content
             window.antimonyString = editor.getValue();
-            ModelSemanticsChecker(editor, annotUnderlinedOn, true, highlightColor, decorations);
+            checkModelWithImports(editor);
           }
 
+          // Going to the definition of an imported model or function opens the file it is in
+          const editorOpener = monaco.editor.registerEditorOpener({
+            openCodeEditor: (source, resource) => {
+              const importedFileName: string | undefined = getImportedFileName(resource);
+              if (importedFileName === undefined) {
+                return false;
+              }
+              handleFileOpen(importedFileName);
+              return true;
+            },
+          });
+
           // Adds the create annotations option to the context menu
           // Checks if the cursor is on an actual variable or not
           addAnnotationOption(editor);
@@ -379,11 +497,15 @@ const AntimonyEditor: React.FC<AntimonyEditorProps & { database: IDBPDatabase<My
           // checks if the cursor is on an actual variable or not.
           addNavigateEditAnnotationOption(editor);
 
+          // Adds the "Save File" option, which can simulate the model again
+          addSaveFileOption(editor);
+
           // Set language configuration for bracket pair colorization
           monaco.languages.setLanguageConfiguration("antimony", {
             comments: {
               lineComment: "//",
             },
+            wordPattern: antimonyWordPattern,
             brackets: [
               ["{", "}"],
               ["[", "]"],
@@ -396,10 +518,33 @@ const AntimonyEditor: React.FC<AntimonyEditorProps & { database: IDBPDatabase<My
           getBiomodels(setLoading, setChosenModel);
           setEditorInstance(editor);
           
-          return () => editor.dispose();
+          return () => {
+            editorOpener.dispose();
+            editor.dispose();
+          };
         }
       }, [annotUnderlinedOn, selectedFile, initialContent]);
 
+      /**
+       * @description Re-checks the model when the diagnostic settings change
+       */
+      useEffect(() => {
+        if (diagnosticSettings === checkedSettingsRef.current) {
+          return;
+        }
+        checkedSettingsRef.current = diagnosticSettings;
+        if (editorInstance && !fileName.includes(".xml")) {
+          checkModelWithImports(editorInstance);
+        }
+      }, [diagnosticSettings, editorInstance, fileName, checkModelWithImports]);
+
+      /**
+       * @description Shows or hides the inlay hints when the setting changes
+       */
+      useEffect(() => {
+        editorInstance?.updateOptions({ inlayHints: { enabled: inlayHintsOn ? "on" : "off" } });
+      }, [inlayHintsOn, editorInstance]);
+
       /**
        * @description Adds the link action to the editor context menu
        */
@@ -510,7 +655,7 @@ const AntimonyEditor: React.FC<AntimonyEditorProps & { database: IDBPDatabase<My
         const delayedModelParser = (editor: monaco.editor.IStandaloneCodeEditor) => {
           clearTimeout(typingTimer);
           typingTimer = setTimeout(() => {
-            ModelSemanticsChecker(editor, annotUnderlinedOn, true, highlightColor, decorations);
+            checkModelWithImports(editor);
           }, 100);
         };
       
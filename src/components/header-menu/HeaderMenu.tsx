@@ -4,6 +4,9 @@ import "./HeaderMenu.css";
 
 import { MyDB } from "../../App";
 import RecommendAnnotationModal from "../recommend-annotation/RecommendAnnotationModal";
+import { DiagnosticSettings, DiagnosticSeverity, diagnosticNames } from "../../language-handler/DiagnosticSettings";
+import { diagnosticCodes } from "../../language-handler/Types";
+import { SimulationSettings } from "../../simulation/SimulationSettings";
 
 import { IDBPDatabase } from "idb";
 
@@ -40,6 +43,23 @@ export interface HeaderMenuProps {
   setHighlightColor: (color: string) => void;
   /** Options for the highlight color  */
   colors: { name: string; color: string }[];
+
+  /** Current severity overrides for diagnostic codes */
+  diagnosticSettings: DiagnosticSettings;
+  /** Change the severity overrides for diagnostic codes */
+  setDiagnosticSettings: (settings: DiagnosticSettings) => void;
+
+  /** Whether inlay hints are shown in the editor */
+  inlayHintsOn: boolean;
+  /** Show or hide inlay hints in the editor */
+  setInlayHintsOn: (on: boolean) => void;
+
+  /** Current simulation settings, including whether the results panel is shown */
+  simulationSettings: SimulationSettings;
+  /** Change the simulation settings */
+  setSimulationSettings: (settings: SimulationSettings) => void;
+  /** Simulate the model in the editor */
+  handleSimulate: () => void;
 }
 
 const HeaderMenu: React.FC<HeaderMenuProps> = ({
@@ -60,6 +80,16 @@ const HeaderMenu: React.FC<HeaderMenuProps> = ({
   highlightColor,
   setHighlightColor,
   colors,
+
+  diagnosticSettings,
+  setDiagnosticSettings,
+
+  inlayHintsOn,
+  setInlayHintsOn,
+
+  simulationSettings,
+  setSimulationSettings,
+  handleSimulate,
 }) => {
   const [isModalVisible, setModalVisible] = useState(false);
   const [convertedFileContent, setConvertedFileContent] = useState("");
@@ -176,6 +206,26 @@ const HeaderMenu: React.FC<HeaderMenuProps> = ({
     };
   };
 
+  /** Sets the severity of a diagnostic code, undefined goes back to its default severity. */
+  const setDiagnosticSeverity = (code: diagnosticCodes, severity: DiagnosticSeverity | undefined) => {
+    const settings: DiagnosticSettings = { ...diagnosticSettings };
+    if (severity) {
+      settings[code] = severity;
+    } else {
+      delete settings[code];
+    }
+    setDiagnosticSettings(settings);
+  };
+
+  const diagnosticSeverityOptions: { name: string; severity: DiagnosticSeverity | undefined }[] = [
+    { name: "Default", severity: undefined },
+    { name: "Error", severity: "error" },
+    { name: "Warning", severity: "warning" },
+    { name: "Info", severity: "info" },
+    { name: "Hint", severity: "hint" },
+    { name: "Off", severity: "off" },
+  ];
+
   const headerOptions: Record<string, HeaderMenuOption[]> = {
     File: [
       { name: "New File", hotkey: "Alt-N", onSelected: wrapOnSelected(() => handleNewFile("untitled.ant", "")) },
@@ -212,6 +262,23 @@ const HeaderMenu: React.FC<HeaderMenuProps> = ({
       { name: "Recommend Annotations for All", onSelected: wrapOnSelected(handleAnnotateClick) },
     ],
 
+    Simulate: [
+      { name: "Run Simulation", onSelected: wrapOnSelected(handleSimulate) },
+      "---",
+      {
+        name: "Results Panel",
+        active: simulationSettings.showPanel,
+        onSelected: wrapOnSelected(() =>
+          setSimulationSettings({ ...simulationSettings, showPanel: !simulationSettings.showPanel })),
+      },
+      {
+        name: "Simulate on Save",
+        active: simulationSettings.simulateOnSave,
+        onSelected: wrapOnSelected(() =>
+          setSimulationSettings({ ...simulationSettings, simulateOnSave: !simulationSettings.simulateOnSave })),
+      },
+    ],
+
     Settings: [
       { 
         name: "Color",
@@ -231,6 +298,22 @@ const HeaderMenu: React.FC<HeaderMenuProps> = ({
           },
         ],
       },
+      {
+        name: "Diagnostics",
+        options: Object.values(diagnosticCodes).map(code => ({
+          name: code + " " + diagnosticNames[code],
+          options: diagnosticSeverityOptions.map(option => ({
+            name: option.name,
+            active: diagnosticSettings[code] === option.severity,
+            onSelected: wrapOnSelected(() => setDiagnosticSeverity(code, option.severity)),
+          })),
+        })),
+      },
+      {
+        name: "Inlay Hints",
+        active: inlayHintsOn,
+        onSelected: wrapOnSelected(() => setInlayHintsOn(!inlayHintsOn)),
+      },
     ],
 
     Help: [
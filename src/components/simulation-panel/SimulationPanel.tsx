@@ -0,0 +1,395 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import "./SimulationPanel.css";
+import SteadyStateTable from "./SteadyStateTable";
+import TimeCourseChart, { ChartZoom, getCurveColor } from "./TimeCourseChart";
+import {
+  AnalysisRequest,
+  AnalysisRequestBody,
+  AnalysisResponse,
+  AnalysisResults,
+  SimulationResult,
+} from "../../language-handler/AnalysisProtocol";
+import { AnalysisService } from "../../language-handler/AnalysisService";
+import { getAnalysisWorkerClient } from "../../language-handler/AnalysisWorkerClient";
+import { SimulationOptions } from "../../simulation/Simulate";
+import { SimulationSettings } from "../../simulation/SimulationSettings";
+import { SteadyState, SteadyStateOptions } from "../../simulation/SteadyState";
+import { getTimeCourseCsv } from "../../simulation/TimeCourseChart";
+
+import * as monaco from "monaco-editor";
+import { IDBPDatabase, DBSchema } from "idb";
+
+interface MyDB extends DBSchema {
+  files: {
+    key: string;
+    value: { name: string; content: string };
+  };
+}
+
+/**
+ * @description SimulationPanelProps interface
+ * @interface
+ * @property {monaco.editor.IStandaloneCodeEditor | null} editorInstance - The editor with the model to simulate
+ * @property {string} fileName - The name of the file in the editor
+ * @property {SimulationSettings} settings - The time span and points of a simulation, and when to run it
+ * @property {function} setSettings - Changes and saves the simulation settings
+ * @property {number} saveCount - How many times the file was saved, simulating again on a change when simulateOnSave is set
+ * @property {number} runCount - How many times a simulation was asked for from the menu, simulating again on a change
+ */
+export interface SimulationPanelProps {
+  editorInstance: monaco.editor.IStandaloneCodeEditor | null;
+  fileName: string;
+  settings: SimulationSettings;
+  setSettings: (settings: SimulationSettings) => void;
+  saveCount: number;
+  runCount: number;
+}
+
+/**
+ * @description parses a program and then answers a request about it, in the analysis
+ *              worker if it was started and on the main thread otherwise.
+ * @param text the program
+ * @param files the stored files that imports are resolved against, by name
+ * @param fileName the name of the file the program is in
+ * @param body the request, about the document the program is parsed into
+ * @returns the result of the request
+ * @throws {Error} with the reason the request failed, ie why the program could not be simulated
+ */
+const requestAfterParse = async <Body extends AnalysisRequestBody>(
+    text: string,
+    files: Map<string, string>,
+    fileName: string,
+    body: Body
+): Promise<AnalysisResults[Body["kind"]]> => {
+  const documentId: string = body.documentId;
+  const analysisWorkerClient = getAnalysisWorkerClient();
+  if (analysisWorkerClient) {
+    await analysisWorkerClient.request({ kind: "parse", documentId, text, files, fileName });
+    return analysisWorkerClient.request(body);
+  }
+  const service: AnalysisService = new AnalysisService();
+  service.handle({ id: 0, kind: "parse", documentId, text, files, fileName });
+  const response: AnalysisResponse = service.handle({ ...body, id: 1 } as AnalysisRequest);
+  if (response.kind !== body.kind) {
+    throw new Error(response.kind === "error" ? response.message : `Unable to answer the ${body.kind} request`);
+  }
+  return response.result as AnalysisResults[Body["kind"]];
+};
+
+/**
+ * @description simulates a program.
+ * @param documentId identifies the program, ie the uri of its editor model
+ * @param text the program
+ * @param files the stored files that imports are resolved against, by name
+ * @param fileName the name of the file the program is in
+ * @param options
+ * @returns the time course of the default model of the program
+ * @throws {Error} with the reason the program could not be simulated
+ */
+export const simulateProgram = (
+    documentId: string,
+    text: string,
+    files: Map<string, string>,
+    fileName: string,
+    options: SimulationOptions
+): Promise<SimulationResult> =>
+  requestAfterParse(text, files, fileName, { kind: "simulate", documentId, modelName: undefined, options });
+
+/**
+ * @description finds the steady state of a program.
+ * @param documentId identifies the program, ie the uri of its editor model
+ * @param text the program
+ * @param files the stored files that imports are resolved against, by name
+ * @param fileName the name of the file the program is in
+ * @param options
+ * @returns the steady state of the default model of the program
+ * @throws {Error} with the reason no steady state was found
+ */
+export const findSteadyState = (
+    documentId: string,
+    text: string,
+    files: Map<string, string>,
+    fileName: string,
+    options: SteadyStateOptions
+): Promise<SteadyState> =>
+  requestAfterParse(text, files, fileName, { kind: "steadyState", documentId, modelName: undefined, options });
+
+/**
+ * @description Saves blob into the Downloads folder.
+ * @param blob
+ * @param name - The name of the downloaded file
+ */
+const downloadBlob = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * @description SimulationPanel component, which plots the time course of the model in
+ *              the editor and highlights the lines behind the curve that is selected. It
+ *              also shows the steady state of the model once it is asked for.
+ * @returns - SimulationPanel component
+ */
+const SimulationPanel: React.FC<SimulationPanelProps & { database: IDBPDatabase<MyDB> }> = ({
+  editorInstance,
+  database,
+  fileName,
+  settings,
+  setSettings,
+  saveCount,
+  runCount,
+}) => {
+  const [result, setResult] = useState<SimulationResult | undefined>(undefined);
+  const [steadyState, setSteadyState] = useState<SteadyState | undefined>(undefined);
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [running, setRunning] = useState<boolean>(false);
+  // kept by name, so the same curves stay hidden when the model is simulated again
+  const [hiddenColumns, setHiddenColumns] = useState<Set<string>>(new Set());
+  const [selectedColumn, setSelectedColumn] = useState<string | undefined>(undefined);
+  const [logX, setLogX] = useState<boolean>(false);
+  const [logY, setLogY] = useState<boolean>(false);
+  const [zoom, setZoom] = useState<ChartZoom | undefined>(undefined);
+  const chartRef = useRef<SVGSVGElement | null>(null);
+  const decorationsRef = useRef<monaco.editor.IEditorDecorationsCollection | null>(null);
+
+  const baseName: string = fileName.replace(/\.[^.]*$/, "");
+
+  /**
+   * @description Runs a request about the program in the editor, showing why it failed if it does
+   * @param run - Makes the request from the uri of the editor model, the program and the stored files by name
+   */
+  const runRequest = useCallback(async (run: (documentId: string, text: string, files: Map<string, string>) => Promise<void>) => {
+    const textModel = editorInstance?.getModel();
+    if (!editorInstance || !textModel || fileName.endsWith(".xml")) {
+      return;
+    }
+    setRunning(true);
+    try {
+      const files = await database.getAll("files");
+      await run(textModel.uri.toString(), editorInstance.getValue(), new Map(files.map((file) => [file.name, file.content])));
+      setError(undefined);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setRunning(false);
+    }
+  }, [editorInstance, database, fileName]);
+
+  /**
+   * @description Simulates the model in the editor with the current settings
+   */
+  const runSimulation = useCallback(() => runRequest(async (documentId, text, files) => {
+    const simulationResult: SimulationResult = await simulateProgram(
+      documentId,
+      text,
+      files,
+      fileName,
+      { start: settings.start, end: settings.end, points: settings.points }
+    );
+    setResult(simulationResult);
+    setZoom(undefined);
+    setSelectedColumn((selected) =>
+      selected !== undefined && simulationResult.columns.includes(selected) ? selected : undefined);
+  }), [runRequest, fileName, settings.start, settings.end, settings.points]);
+
+  /**
+   * @description Finds the steady state of the model in the editor
+   */
+  const runSteadyState = () => runRequest(async (documentId, text, files) => {
+    setSteadyState(undefined);
+    setSteadyState(await findSteadyState(documentId, text, files, fileName, {}));
+  });
+
+  // the counts that were already handled, so that showing the panel again does not replay them
+  const handledCounts = useRef<{ save: number; run: number }>({ save: saveCount, run: runCount });
+  // the editor that was simulated when it was shown, so that changing the settings does not simulate again
+  const simulatedEditor = useRef<monaco.editor.IStandaloneCodeEditor | null>(null);
+
+  /**
+   * @description Simulates when the panel is shown, so it starts out with the results of the model in the editor
+   */
+  useEffect(() => {
+    if (editorInstance !== simulatedEditor.current) {
+      simulatedEditor.current = editorInstance;
+      runSimulation();
+    }
+  }, [editorInstance, runSimulation]);
+
+  /**
+   * @description Simulates again when the file is saved if the setting is on, or when a simulation
+   *              is asked for from the menu
+   */
+  useEffect(() => {
+    const isSaved: boolean = saveCount !== handledCounts.current.save && settings.simulateOnSave;
+    const isRun: boolean = runCount !== handledCounts.current.run;
+    handledCounts.current = { save: saveCount, run: runCount };
+    if (isSaved || isRun) {
+      runSimulation();
+    }
+  }, [saveCount, runCount, settings.simulateOnSave, runSimulation]);
+
+  /**
+   * @description Highlights the lines that declare, initialize and change the selected column
+   */
+  useEffect(() => {
+    decorationsRef.current?.clear();
+    decorationsRef.current = null;
+    if (!editorInstance || !result || selectedColumn === undefined) {
+      return;
+    }
+    const ranges = result.sourceRanges[result.columns.indexOf(selectedColumn)] || [];
+    decorationsRef.current = editorInstance.createDecorationsCollection(ranges.map((range) => ({
+      range: {
+        startLineNumber: range.start.line,
+        startColumn: range.start.column,
+        endLineNumber: range.end.line,
+        endColumn: range.end.column,
+      },
+      options: { isWholeLine: true, className: "simulation-line-highlight" },
+    })));
+    if (ranges.length > 0) {
+      editorInstance.revealLineInCenterIfOutsideViewport(ranges[0].start.line);
+    }
+  }, [selectedColumn, result, editorInstance]);
+
+  useEffect(() => () => decorationsRef.current?.clear(), []);
+
+  /**
+   * @description Shows or hides the curve of a column
+   * @param column - The name of the column
+   */
+  const toggleColumn = (column: string) => {
+    const updated = new Set(hiddenColumns);
+    if (!updated.delete(column)) {
+      updated.add(column);
+    }
+    setHiddenColumns(updated);
+  };
+
+  /**
+   * @description Selects the curve of a column, or deselects it if it is already selected
+   * @param column - The name of the column
+   */
+  const selectColumn = (column: string) => {
+    setSelectedColumn(selectedColumn === column ? undefined : column);
+  };
+
+  /**
+   * @description Changes one of the numeric settings, ignoring text that is not a number
+   * @param name - The setting to change
+   * @param value - The text of its input
+   */
+  const setNumberSetting = (name: "start" | "end" | "points", value: string) => {
+    const number = Number(value);
+    if (value.trim() !== "" && Number.isFinite(number)) {
+      setSettings({ ...settings, [name]: number });
+    }
+  };
+
+  /**
+   * @description Saves the chart as a png image, drawn twice as large as it is shown
+   */
+  const exportPng = () => {
+    const svg = chartRef.current;
+    if (!svg) {
+      return;
+    }
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = 2 * svg.viewBox.baseVal.width;
+      canvas.height = 2 * svg.viewBox.baseVal.height;
+      const context = canvas.getContext("2d");
+      if (context) {
+        context.drawImage(image, 0, 0, canvas.width, canvas.height);
+        canvas.toBlob((blob) => blob && downloadBlob(blob, baseName + ".png"));
+      }
+    };
+    image.src = "data:image/svg+xml;charset=utf-8," + encodeURIComponent(new XMLSerializer().serializeToString(svg));
+  };
+
+  return (
+    <div className="simulation-panel">
+      <div className="simulation-toolbar">
+        <button onClick={runSimulation} disabled={running || !editorInstance}>
+          {running ? "Simulating..." : "Simulate"}
+        </button>
+        <button onClick={runSteadyState} disabled={running || !editorInstance}>Steady State</button>
+        <label>
+          Start
+          <input type="number" defaultValue={settings.start} onChange={(e) => setNumberSetting("start", e.target.value)} />
+        </label>
+        <label>
+          End
+          <input type="number" defaultValue={settings.end} onChange={(e) => setNumberSetting("end", e.target.value)} />
+        </label>
+        <label>
+          Points
+          <input type="number" min={2} defaultValue={settings.points} onChange={(e) => setNumberSetting("points", e.target.value)} />
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={settings.simulateOnSave}
+            onChange={() => setSettings({ ...settings, simulateOnSave: !settings.simulateOnSave })}
+          />
+          On save
+        </label>
+      </div>
+      {error && <div className="simulation-error" role="alert">{error}</div>}
+      {result && (
+        <>
+          <div className="simulation-toolbar">
+            <label>
+              <input type="checkbox" checked={logX} onChange={() => { setLogX(!logX); setZoom(undefined); }} />
+              Log time
+            </label>
+            <label>
+              <input type="checkbox" checked={logY} onChange={() => { setLogY(!logY); setZoom(undefined); }} />
+              Log values
+            </label>
+            <button onClick={() => setZoom(undefined)} disabled={!zoom}>Reset Zoom</button>
+            <button onClick={() => downloadBlob(new Blob([getTimeCourseCsv(result)], { type: "text/csv" }), baseName + ".csv")}>
+              CSV
+            </button>
+            <button onClick={exportPng}>PNG</button>
+          </div>
+          <TimeCourseChart
+            ref={chartRef}
+            timeCourse={result}
+            hiddenColumns={hiddenColumns}
+            selectedColumn={selectedColumn}
+            logX={logX}
+            logY={logY}
+            zoom={zoom}
+            onZoom={setZoom}
+            onSelectColumn={selectColumn}
+          />
+          <ul className="simulation-legend">
+            {result.columns.slice(1).map((column, i) => (
+              <li key={column} className={column === selectedColumn ? "selected" : ""}>
+                <input
+                  type="checkbox"
+                  aria-label={`Show ${column}`}
+                  checked={!hiddenColumns.has(column)}
+                  onChange={() => toggleColumn(column)}
+                />
+                <span className="simulation-legend-color" style={{ backgroundColor: getCurveColor(i + 1) }} />
+                <button onClick={() => selectColumn(column)}>{column}</button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+      {steadyState && <SteadyStateTable steadyState={steadyState} />}
+    </div>
+  );
+};
+
+export default SimulationPanel;
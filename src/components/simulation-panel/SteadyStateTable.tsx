@@ -0,0 +1,92 @@
+import React from "react";
+import { ComplexNumber } from "../../simulation/LinearAlgebra";
+import { Stability, SteadyState } from "../../simulation/SteadyState";
+
+const stabilityDescriptions: Record<Stability, string> = {
+  stable: "Stable: every eigenvalue has a negative real part",
+  unstable: "Unstable: an eigenvalue has a positive real part",
+  marginal: "Marginally stable: the largest real part of an eigenvalue is 0",
+};
+
+/**
+ * @param value
+ * @returns value with 6 significant digits at most
+ */
+const formatNumber = (value: number): string => String(Number(value.toPrecision(6)));
+
+/**
+ * @param eigenvalue
+ * @returns eigenvalue as text, ie "-0.05 + 0.998749i"
+ */
+const formatEigenvalue = (eigenvalue: ComplexNumber): string => {
+  if (eigenvalue.imaginary === 0) {
+    return formatNumber(eigenvalue.real);
+  }
+  const sign: string = eigenvalue.imaginary < 0 ? "-" : "+";
+  return `${formatNumber(eigenvalue.real)} ${sign} ${formatNumber(Math.abs(eigenvalue.imaginary))}i`;
+};
+
+/**
+ * @description SteadyStateTableProps interface
+ * @interface
+ * @property {SteadyState} steadyState - The steady state to show
+ */
+export interface SteadyStateTableProps {
+  steadyState: SteadyState;
+}
+
+/**
+ * @description SteadyStateTable component, which shows the values and rates of change at a
+ *              steady state, whether it is stable, and the Jacobian and its eigenvalues there.
+ * @returns - SteadyStateTable component
+ */
+const SteadyStateTable: React.FC<SteadyStateTableProps> = ({ steadyState }) => {
+  return (
+    <div className="steady-state">
+      <div className={`steady-state-stability ${steadyState.stability}`}>
+        {stabilityDescriptions[steadyState.stability]}
+        {steadyState.method === "integration" && " (found after simulating the model for a while)"}
+      </div>
+      <table className="steady-state-table" aria-label="Steady state">
+        <thead>
+          <tr>
+            <th>Name</th>
+            <th>Value</th>
+            <th>Rate of change</th>
+          </tr>
+        </thead>
+        <tbody>
+          {steadyState.stateNames.map((name, i) => (
+            <tr key={name}>
+              <th>{name}</th>
+              <td>{formatNumber(steadyState.values[i])}</td>
+              <td>{formatNumber(steadyState.rates[i])}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div>
+        Eigenvalues:{" "}
+        <span className="steady-state-eigenvalues">{steadyState.eigenvalues.map(formatEigenvalue).join(", ")}</span>
+      </div>
+      <table className="steady-state-table" aria-label="Jacobian">
+        <thead>
+          <tr>
+            <th>Jacobian</th>
+            {steadyState.jacobianStateNames.map((name) => <th key={name}>{name}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {steadyState.jacobian.map((row, i) => (
+            <tr key={steadyState.jacobianStateNames[i]}>
+              <th>{steadyState.jacobianStateNames[i]}</th>
+              {row.map((value, j) => <td key={steadyState.jacobianStateNames[j]}>{formatNumber(value)}</td>)}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default SteadyStateTable;
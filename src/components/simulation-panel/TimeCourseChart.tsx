@@ -0,0 +1,211 @@
+import React, { useRef, useState } from "react";
+import { TimeCourse } from "../../simulation/Simulate";
+import {
+  AxisScale,
+  formatTick,
+  getAxisScale,
+  getAxisTicks,
+  getCurvePath,
+  toPixel,
+  zoomAxisScale,
+} from "../../simulation/TimeCourseChart";
+
+// the size of the chart in the units of its viewBox, which is stretched to the width of the panel
+const chartWidth = 640;
+const chartHeight = 400;
+const margin = { top: 15, right: 20, bottom: 40, left: 65 };
+const plotWidth = chartWidth - margin.left - margin.right;
+const plotHeight = chartHeight - margin.top - margin.bottom;
+
+const curveColors: string[] = [
+  "#4e9af1", "#f28e2b", "#59a14f", "#e15759", "#b07aa1",
+  "#edc948", "#76b7b2", "#ff9da7", "#9c755f", "#bab0ac",
+];
+
+/**
+ * @param columnIndex the index of a column of a time course, after time
+ * @returns the color of the curve of the column
+ */
+export const getCurveColor = (columnIndex: number): string => curveColors[(columnIndex - 1) % curveColors.length];
+
+/**
+ * The part of the chart that is zoomed into, in the values of its axes.
+ */
+export type ChartZoom = {
+  x: [number, number];
+  y: [number, number];
+};
+
+/**
+ * @description TimeCourseChartProps interface
+ * @interface
+ * @property {TimeCourse} timeCourse - The simulation results, with time as the first column
+ * @property {Set<string>} hiddenColumns - The columns whose curves are not drawn
+ * @property {string | undefined} selectedColumn - The column whose curve is highlighted
+ * @property {boolean} logX - Whether the time axis is logarithmic
+ * @property {boolean} logY - Whether the value axis is logarithmic
+ * @property {ChartZoom | undefined} zoom - The zoomed part of the chart, undefined shows all of it
+ * @property {function} onZoom - Called with the part of the chart dragged over
+ * @property {function} onSelectColumn - Called with the column of a curve that is clicked
+ */
+export interface TimeCourseChartProps {
+  timeCourse: TimeCourse;
+  hiddenColumns: Set<string>;
+  selectedColumn: string | undefined;
+  logX: boolean;
+  logY: boolean;
+  zoom: ChartZoom | undefined;
+  onZoom: (zoom: ChartZoom | undefined) => void;
+  onSelectColumn: (column: string) => void;
+}
+
+/**
+ * @description An SVG chart of the curves of a time course. Dragging over the plot zooms
+ *              into that part of it, and double clicking zooms back out.
+ * @returns - TimeCourseChart component
+ */
+const TimeCourseChart = React.forwardRef<SVGSVGElement, TimeCourseChartProps>(({
+  timeCourse,
+  hiddenColumns,
+  selectedColumn,
+  logX,
+  logY,
+  zoom,
+  onZoom,
+  onSelectColumn,
+}, ref) => {
+  const plotRef = useRef<SVGRectElement | null>(null);
+  // where a drag to zoom started and where it is now, in pixels of the plot
+  const [drag, setDrag] = useState<{ from: [number, number]; to: [number, number] } | null>(null);
+
+  const times: number[] = timeCourse.rows.map((row) => row[0]);
+  const shownColumns: number[] = timeCourse.columns
+    .map((_, index) => index)
+    .filter((index) => index > 0 && !hiddenColumns.has(timeCourse.columns[index]));
+  const xScale: AxisScale = zoom
+    ? { min: zoom.x[0], max: zoom.x[1], log: logX }
+    : getAxisScale(times, logX);
+  const yScale: AxisScale = zoom
+    ? { min: zoom.y[0], max: zoom.y[1], log: logY }
+    : getAxisScale(shownColumns.flatMap((index) => timeCourse.rows.map((row) => row[index])), logY);
+
+  /**
+   * @param event
+   * @returns where the mouse is in pixels of the plot, clamped to the plot
+   */
+  const getPlotPosition = (event: React.MouseEvent): [number, number] | undefined => {
+    const matrix = plotRef.current?.getScreenCTM?.();
+    if (!matrix) {
+      return undefined;
+    }
+    const x: number = (event.clientX - matrix.e) / matrix.a;
+    const y: number = (event.clientY - matrix.f) / matrix.d;
+    return [Math.min(Math.max(x, 0), plotWidth), Math.min(Math.max(y, 0), plotHeight)];
+  };
+
+  const handleMouseUp = () => {
+    if (drag && Math.abs(drag.to[0] - drag.from[0]) > 5 && Math.abs(drag.to[1] - drag.from[1]) > 5) {
+      const x: AxisScale = zoomAxisScale(xScale, drag.from[0], drag.to[0], plotWidth);
+      // pixels grow downwards, values upwards
+      const y: AxisScale = zoomAxisScale(yScale, plotHeight - drag.from[1], plotHeight - drag.to[1], plotHeight);
+      onZoom({ x: [x.min, x.max], y: [y.min, y.max] });
+    }
+    setDrag(null);
+  };
+
+  return (
+    <svg
+      ref={ref}
+      className="time-course-chart"
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox={`0 0 ${chartWidth} ${chartHeight}`}
+      role="img"
+      aria-label="Time course"
+    >
+      <rect width={chartWidth} height={chartHeight} fill="#1c1c1c" />
+      <defs>
+        <clipPath id="time-course-plot">
+          <rect width={plotWidth} height={plotHeight} />
+        </clipPath>
+      </defs>
+      <g transform={`translate(${margin.left},${margin.top})`}>
+        {getAxisTicks(xScale).map((tick) => {
+          const x: number | undefined = toPixel(tick, xScale, plotWidth);
+          return x !== undefined && (
+            <g key={`x${tick}`} transform={`translate(${x},0)`}>
+              <line y2={plotHeight} stroke="#333" />
+              <text y={plotHeight + 16} textAnchor="middle" fill="#d4d4d4" fontSize="11">{formatTick(tick)}</text>
+            </g>
+          );
+        })}
+        {getAxisTicks(yScale).map((tick) => {
+          const y: number | undefined = toPixel(tick, yScale, plotHeight);
+          return y !== undefined && (
+            <g key={`y${tick}`} transform={`translate(0,${plotHeight - y})`}>
+              <line x2={plotWidth} stroke="#333" />
+              <text x={-6} dy="0.32em" textAnchor="end" fill="#d4d4d4" fontSize="11">{formatTick(tick)}</text>
+            </g>
+          );
+        })}
+        <rect width={plotWidth} height={plotHeight} fill="none" stroke="#777" />
+        <text x={plotWidth / 2} y={plotHeight + 34} textAnchor="middle" fill="#d4d4d4" fontSize="12">
+          {timeCourse.columns[0]}
+        </text>
+        <g
+          style={{ cursor: "crosshair" }}
+          onMouseDown={(event) => {
+            const position = getPlotPosition(event);
+            if (position) {
+              setDrag({ from: position, to: position });
+            }
+          }}
+          onMouseMove={(event) => {
+            const position = getPlotPosition(event);
+            if (drag && position) {
+              setDrag({ from: drag.from, to: position });
+            }
+          }}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={handleMouseUp}
+          onDoubleClick={() => onZoom(undefined)}
+        >
+          {/* catches the mouse between the curves, which stay above it so they can be clicked */}
+          <rect ref={plotRef} width={plotWidth} height={plotHeight} fill="transparent" />
+          <g clipPath="url(#time-course-plot)">
+            {shownColumns.map((index) => {
+              const column: string = timeCourse.columns[index];
+              const isSelected: boolean = column === selectedColumn;
+              return (
+                <path
+                  key={column}
+                  className="time-course-curve"
+                  d={getCurvePath(times, timeCourse.rows.map((row) => row[index]), xScale, yScale, plotWidth, plotHeight)}
+                  fill="none"
+                  stroke={getCurveColor(index)}
+                  strokeWidth={isSelected ? 3.5 : 1.5}
+                  opacity={selectedColumn === undefined || isSelected ? 1 : 0.4}
+                  onClick={() => onSelectColumn(column)}
+                >
+                  <title>{column}</title>
+                </path>
+              );
+            })}
+          </g>
+          {drag && (
+            <rect
+              x={Math.min(drag.from[0], drag.to[0])}
+              y={Math.min(drag.from[1], drag.to[1])}
+              width={Math.abs(drag.to[0] - drag.from[0])}
+              height={Math.abs(drag.to[1] - drag.from[1])}
+              fill="rgba(78, 154, 241, 0.2)"
+              stroke="#4e9af1"
+              pointerEvents="none"
+            />
+          )}
+        </g>
+      </g>
+    </svg>
+  );
+});
+
+export default TimeCourseChart;
@@ -6,6 +6,7 @@ import reportWebVitals from './testing/reportWebVitals';
 // index.ts
 
 import { customLanguageWorker } from './language-handler/antlr/CustomLanguageWorker';
+import { startAnalysisWorker } from './language-handler/AnalysisWorkerClient';
 
 // Define the getWorker function
 // Dummy web worker function for now, will build more upon when parser and syntax highlighting is created
@@ -24,6 +25,9 @@ const getWorker = (_moduleId: string, label: string): Worker => {
   getWorker: getWorker,
 };
 
+// Parse and check antimony programs off of the main thread, so typing does not stall
+startAnalysisWorker(new Worker(new URL('./language-handler/AnalysisWorker.ts', import.meta.url)));
+
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
 );
@@ -0,0 +1,69 @@
+import { SimulationOptions, TimeCourse } from "../simulation/Simulate";
+import { SteadyState, SteadyStateOptions } from "../simulation/SteadyState";
+import { GlobalSTSnapshot, SrcRangeSnapshot, VariableSnapshot } from "./SymbolTableSnapshot";
+import { ErrorUnderline } from "./Types";
+
+/**
+ * The messages the analysis worker answers. Each document (ie an editor model)
+ * is parsed with "parse" first, then the other requests are about its last parse.
+ * Every request has an id, which the response to it has too.
+ *  - parse: analyzes the text of the document, returning its syntax errors
+ *  - diagnostics: the errors in the document
+ *  - symbols: a snapshot of the symbol table of the document
+ *  - hover: the variable with the id word at range, for hovers
+ *  - simulate: simulates a model of the document, the global scope or last model by default
+ *  - steadyState: the steady state of a model of the document, chosen like simulate does
+ *  - close: forgets the document
+ */
+export type AnalysisRequest =
+  | { id: number; kind: "parse"; documentId: string; text: string; files?: Map<string, string>; fileName: string }
+  | { id: number; kind: "diagnostics"; documentId: string; includeParseErrors: boolean }
+  | { id: number; kind: "symbols"; documentId: string }
+  | { id: number; kind: "hover"; documentId: string; word: string; range: SrcRangeSnapshot }
+  | { id: number; kind: "simulate"; documentId: string; modelName: string | undefined; options: SimulationOptions }
+  | { id: number; kind: "steadyState"; documentId: string; modelName: string | undefined; options: SteadyStateOptions }
+  | { id: number; kind: "close"; documentId: string };
+
+/**
+ * A request without its id, which the client sending it adds.
+ */
+export type AnalysisRequestBody = AnalysisRequest extends infer Request
+  ? Request extends AnalysisRequest ? Omit<Request, "id"> : never
+  : never;
+
+/**
+ * What a hover request found. For a dotted name such as "A.x", varInfo is
+ * x inside of the model of A, and modelName is the name of that model.
+ */
+export type HoverLookup = {
+  varInfo: VariableSnapshot;
+  modelName: string | undefined;
+};
+
+/**
+ * The time course of a simulation, along with where each of its columns
+ * is declared, initialized or changed in the program, ie its reactions.
+ */
+export type SimulationResult = TimeCourse & {
+  sourceRanges: SrcRangeSnapshot[][];
+};
+
+/**
+ * The result of each kind of request.
+ */
+export type AnalysisResults = {
+  parse: ErrorUnderline[];
+  diagnostics: ErrorUnderline[];
+  symbols: GlobalSTSnapshot;
+  hover: HoverLookup | undefined;
+  simulate: SimulationResult;
+  steadyState: SteadyState;
+  close: undefined;
+};
+
+/**
+ * The answer to a request, or the reason it failed, ie a request about a document that was never parsed.
+ */
+export type AnalysisResponse =
+  | { [Kind in keyof AnalysisResults]: { id: number; kind: Kind; result: AnalysisResults[Kind] } }[keyof AnalysisResults]
+  | { id: number; kind: "error"; message: string };
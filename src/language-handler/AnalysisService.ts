@@ -0,0 +1,114 @@
+import { simulate, TimeCourse } from "../simulation/Simulate";
+import { SimulationError } from "../simulation/SimulationError";
+import { getSimulationModel, SimulationModel } from "../simulation/SimulationModel";
+import { getSteadyState } from "../simulation/SteadyState";
+import { AnalysisRequest, AnalysisResponse, HoverLookup } from "./AnalysisProtocol";
+import { IncrementalParser } from "./IncrementalParser";
+import { ProgramAnalysis } from "./ProgramAnalysis";
+import { DottedNameResolution, GlobalST, SymbolTable } from "./SymbolTableClasses";
+import { getGlobalSTSnapshot, getSrcRange, getSrcRangeSnapshot, getVariableSnapshot } from "./SymbolTableSnapshot";
+import { SrcRange } from "./Types";
+import { Variable } from "./Variable";
+
+/**
+ * A document the service has parsed, with the parser that
+ * keeps its unchanged blocks for the next parse.
+ */
+type AnalyzedDocument = {
+  parser: IncrementalParser;
+  analysis: ProgramAnalysis;
+};
+
+/**
+ * Answers the requests of the analysis worker. This is kept apart
+ * from the worker itself so that it can be used and tested without one.
+ */
+export class AnalysisService {
+  private documents: Map<string, AnalyzedDocument> = new Map();
+
+  /**
+   * @param request
+   * @returns the response to the request
+   */
+  handle(request: AnalysisRequest): AnalysisResponse {
+    if (request.kind === "parse") {
+      const parser: IncrementalParser = this.documents.get(request.documentId)?.parser || new IncrementalParser();
+      const analysis = ProgramAnalysis.analyze(request.text, request.files, request.fileName, parser);
+      this.documents.set(request.documentId, { parser: parser, analysis: analysis });
+      return { id: request.id, kind: "parse", result: analysis.getParseErrors() };
+    }
+    if (request.kind === "close") {
+      this.documents.delete(request.documentId);
+      return { id: request.id, kind: "close", result: undefined };
+    }
+
+    const document: AnalyzedDocument | undefined = this.documents.get(request.documentId);
+    if (!document) {
+      return { id: request.id, kind: "error", message: `'${request.documentId}' has not been parsed` };
+    }
+    switch (request.kind) {
+      case "diagnostics":
+        return { id: request.id, kind: "diagnostics", result: document.analysis.getErrors(request.includeParseErrors) };
+      case "symbols":
+        return { id: request.id, kind: "symbols", result: getGlobalSTSnapshot(document.analysis.getProgramST()) };
+      case "hover":
+        return {
+          id: request.id,
+          kind: "hover",
+          result: getHoverLookup(document.analysis.getProgramST(), request.word, getSrcRange(request.range)),
+        };
+      case "simulate":
+        try {
+          const model: SimulationModel = getSimulationModel(document.analysis.getProgramST(), request.modelName);
+          const timeCourse: TimeCourse = simulate(model, request.options);
+          const sourceRanges = timeCourse.columns.map((column) => model.getSourceRanges(column).map(getSrcRangeSnapshot));
+          return { id: request.id, kind: "simulate", result: { ...timeCourse, sourceRanges: sourceRanges } };
+        } catch (error) {
+          if (error instanceof SimulationError) {
+            return { id: request.id, kind: "error", message: error.message };
+          }
+          throw error;
+        }
+      case "steadyState":
+        try {
+          const model: SimulationModel = getSimulationModel(document.analysis.getProgramST(), request.modelName);
+          return { id: request.id, kind: "steadyState", result: getSteadyState(model, request.options) };
+        } catch (error) {
+          if (error instanceof SimulationError) {
+            return { id: request.id, kind: "error", message: error.message };
+          }
+          throw error;
+        }
+    }
+  }
+
+  /**
+   * @param documentId
+   * @returns the analysis of the last parse of the document, or undefined if it has not been parsed
+   */
+  getAnalysis(documentId: string): ProgramAnalysis | undefined {
+    return this.documents.get(documentId)?.analysis;
+  }
+}
+
+/**
+ * @param globalST
+ * @param word the id being hovered over
+ * @param range the location of word
+ * @returns the variable word refers to, or undefined if there is none
+ */
+export function getHoverLookup(globalST: GlobalST, word: string, range: SrcRange): HoverLookup | undefined {
+  const varInfo: Variable | undefined = globalST.hasVarAtLocation(word, range)?.varInfo;
+  if (!varInfo) {
+    return undefined;
+  }
+  // a dotted name, ie "A.x", is the id inside of its submodel.
+  if (word.includes(".")) {
+    const scopeST: SymbolTable = globalST.getScopeAtLine(range.start.line)?.st || globalST;
+    const resolution: DottedNameResolution | undefined = globalST.resolveDottedName(scopeST, word);
+    if (resolution?.kind === "member") {
+      return { varInfo: getVariableSnapshot(resolution.varInfo), modelName: resolution.modelName };
+    }
+  }
+  return { varInfo: getVariableSnapshot(varInfo), modelName: undefined };
+}
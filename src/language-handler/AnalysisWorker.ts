@@ -0,0 +1,20 @@
+import { AnalysisRequest, AnalysisResponse } from "./AnalysisProtocol";
+import { AnalysisService } from "./AnalysisService";
+
+// the scope of the worker, which the "dom" lib does not have types for.
+const workerScope = globalThis as unknown as {
+  onmessage: ((event: MessageEvent<AnalysisRequest>) => void) | null;
+  postMessage: (response: AnalysisResponse) => void;
+};
+
+const analysisService: AnalysisService = new AnalysisService();
+
+workerScope.onmessage = (event: MessageEvent<AnalysisRequest>) => {
+  let response: AnalysisResponse;
+  try {
+    response = analysisService.handle(event.data);
+  } catch (error) {
+    response = { id: event.data.id, kind: "error", message: String(error) };
+  }
+  workerScope.postMessage(response);
+};
@@ -0,0 +1,126 @@
+import { AnalysisRequest, AnalysisRequestBody, AnalysisResponse, AnalysisResults } from "./AnalysisProtocol";
+import { ProgramAnalysis } from "./ProgramAnalysis";
+import { getGlobalSTFromSnapshot } from "./SymbolTableSnapshot";
+
+/**
+ * A request that is waiting for the worker to answer it, with the kind of result it expects.
+ */
+type PendingRequest<Kind extends keyof AnalysisResults> = {
+  kind: Kind;
+  resolve(result: AnalysisResults[Kind]): void;
+  reject(error: Error): void;
+};
+
+// the client of the worker started by startAnalysisWorker, if there is one.
+let analysisWorkerClient: AnalysisWorkerClient | undefined;
+
+/**
+ * Sends requests to the analysis worker (AnalysisWorker.ts), giving
+ * back a promise of the result of each one.
+ */
+export class AnalysisWorkerClient {
+  private worker: Worker;
+  private nextId: number = 0;
+  private pendingRequests: Map<number, PendingRequest<keyof AnalysisResults>> = new Map();
+  // the number of the latest analysis of each document, so older ones can be dropped.
+  private latestAnalyses: Map<string, number> = new Map();
+
+  /**
+   * @param worker a worker running AnalysisWorker.ts
+   */
+  constructor(worker: Worker) {
+    this.worker = worker;
+    this.worker.onmessage = (event: MessageEvent<AnalysisResponse>) => this.handleResponse(event.data);
+  }
+
+  /**
+   * @description sends a request to the worker.
+   * @param body the request, without an id
+   * @returns the result of the request
+   */
+  request<Body extends AnalysisRequestBody>(body: Body): Promise<AnalysisResults[Body["kind"]]> {
+    const id: number = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const pending: PendingRequest<Body["kind"]> = { kind: body.kind, resolve: resolve, reject: reject };
+      this.pendingRequests.set(id, pending);
+      this.worker.postMessage({ ...body, id: id } as AnalysisRequest);
+    });
+  }
+
+  /**
+   * @description analyzes a program in the worker, and builds its symbol table
+   *              from the snapshot the worker sends back.
+   * @param documentId identifies the program, ie the uri of its editor model
+   * @param text the program
+   * @param files the stored files that imports are resolved against, by name
+   * @param fileName the name of the file the program is in
+   * @returns the analysis of the program, or undefined if the document was
+   *          analyzed again before this analysis was done
+   */
+  async analyze(
+      documentId: string,
+      text: string,
+      files: Map<string, string> | undefined,
+      fileName: string
+  ): Promise<ProgramAnalysis | undefined> {
+    const analysisNumber: number = (this.latestAnalyses.get(documentId) || 0) + 1;
+    this.latestAnalyses.set(documentId, analysisNumber);
+    const isOutdated = () => this.latestAnalyses.get(documentId) !== analysisNumber;
+
+    const parseErrors = await this.request({ kind: "parse", documentId, text, files, fileName });
+    if (isOutdated()) {
+      return undefined;
+    }
+    const [errors, snapshot] = await Promise.all([
+      this.request({ kind: "diagnostics", documentId, includeParseErrors: false }),
+      this.request({ kind: "symbols", documentId }),
+    ]);
+    if (isOutdated()) {
+      return undefined;
+    }
+    return new ProgramAnalysis(getGlobalSTFromSnapshot(snapshot), errors, parseErrors, []);
+  }
+
+  /**
+   * stops the worker, failing the requests it has not answered.
+   */
+  terminate(): void {
+    this.worker.terminate();
+    this.pendingRequests.forEach((pending) => pending.reject(new Error("The analysis worker was stopped")));
+    this.pendingRequests.clear();
+  }
+
+  /**
+   * @param response a message from the worker
+   */
+  private handleResponse(response: AnalysisResponse): void {
+    const pending: PendingRequest<keyof AnalysisResults> | undefined = this.pendingRequests.get(response.id);
+    if (!pending) {
+      return;
+    }
+    this.pendingRequests.delete(response.id);
+    if (response.kind === "error") {
+      pending.reject(new Error(response.message));
+    } else if (response.kind !== pending.kind) {
+      pending.reject(new Error(`The analysis worker answered a ${pending.kind} request with a ${response.kind} response`));
+    } else {
+      pending.resolve(response.result);
+    }
+  }
+}
+
+/**
+ * @description makes the editor analyze programs in the worker, instead of on the main thread.
+ * @param worker a worker running AnalysisWorker.ts
+ */
+export function startAnalysisWorker(worker: Worker): void {
+  analysisWorkerClient?.terminate();
+  analysisWorkerClient = new AnalysisWorkerClient(worker);
+}
+
+/**
+ * @returns the client of the analysis worker, or undefined if it was never started (ie in tests)
+ */
+export function getAnalysisWorkerClient(): AnalysisWorkerClient | undefined {
+  return analysisWorkerClient;
+}
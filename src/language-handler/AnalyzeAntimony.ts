@@ -0,0 +1,107 @@
+import { applyDiagnosticSettings, diagnosticNames, DiagnosticSettings, DiagnosticSeverity } from "./DiagnosticSettings";
+import { ProgramAnalysis } from "./ProgramAnalysis";
+import { getGlobalSTSnapshot, GlobalSTSnapshot } from "./SymbolTableSnapshot";
+import { diagnosticCodes, ErrorUnderline, markerSeverity } from "./Types";
+
+/**
+ * Options of analyzeAntimony, all of which can be left out.
+ *  - fileName: the name of the analyzed file, so that importing it again is caught
+ *  - files: the files that imports are resolved against, by name.
+ *           Imports are not followed if this is left out.
+ *  - settings: severity overrides per diagnostic code
+ */
+export type AnalyzeAntimonyOptions = {
+  fileName?: string;
+  files?: Map<string, string>;
+  settings?: DiagnosticSettings;
+};
+
+/**
+ * A diagnostic found in a program. Lines and columns start at 1,
+ * and the end column is just past the underlined text.
+ */
+export type AntimonyDiagnostic = {
+  code: diagnosticCodes;
+  // the name of the code, ie "var-not-found"
+  name: string;
+  severity: Exclude<DiagnosticSeverity, "off">;
+  message: string;
+  startLineNumber: number;
+  startColumn: number;
+  endLineNumber: number;
+  endColumn: number;
+};
+
+/**
+ * The result of analyzeAntimony. Both the diagnostics and
+ * symbol table are plain data, so they can be written as JSON.
+ */
+export type AntimonyAnalysisResult = {
+  diagnostics: AntimonyDiagnostic[];
+  symbolTable: GlobalSTSnapshot;
+};
+
+/**
+ * @description analyzes an antimony program without an editor, ie in node or in a worker.
+ *              The "antimony-disable-next-line" comments in the program are applied
+ *              to the diagnostics like they are in the editor.
+ * @param source the program
+ * @param options
+ * @returns the diagnostics in the program, ordered by their location, and its symbol table
+ */
+export function analyzeAntimony(source: string, options: AnalyzeAntimonyOptions = {}): AntimonyAnalysisResult {
+  const analysis: ProgramAnalysis = ProgramAnalysis.analyze(source, options.files, options.fileName);
+  const errors: ErrorUnderline[] = applyDiagnosticSettings(
+      analysis.getErrors(true),
+      source.replaceAll("\r", ""),
+      options.settings || {}
+  );
+  return { diagnostics: getAntimonyDiagnostics(errors), symbolTable: getGlobalSTSnapshot(analysis.getProgramST()) };
+}
+
+/**
+ * @param errors the errors of an analysis, with the diagnostic settings applied
+ * @returns the errors as diagnostics, ordered by their location
+ */
+export function getAntimonyDiagnostics(errors: ErrorUnderline[]): AntimonyDiagnostic[] {
+  const diagnostics: AntimonyDiagnostic[] = errors
+      // highlights without a code, such as unannotated variables, are not diagnostics.
+      .filter((error) => error.code !== undefined)
+      .map((error) => getDiagnostic(error, error.code as diagnosticCodes));
+  return diagnostics.sort((a, b) => a.startLineNumber - b.startLineNumber || a.startColumn - b.startColumn);
+}
+
+/**
+ * @param error
+ * @param code the code of error
+ * @returns error as a diagnostic
+ */
+function getDiagnostic(error: ErrorUnderline, code: diagnosticCodes): AntimonyDiagnostic {
+  return {
+    code: code,
+    name: diagnosticNames[code],
+    severity: getSeverityName(error.severity),
+    message: error.message,
+    startLineNumber: error.startLineNumber,
+    startColumn: error.startColumn,
+    endLineNumber: error.endLineNumber,
+    endColumn: error.endColumn,
+  };
+}
+
+/**
+ * @param severity a marker severity
+ * @returns the name of severity
+ */
+function getSeverityName(severity: number): AntimonyDiagnostic["severity"] {
+  switch (severity) {
+    case markerSeverity.Error:
+      return "error";
+    case markerSeverity.Warning:
+      return "warning";
+    case markerSeverity.Info:
+      return "info";
+    default:
+      return "hint";
+  }
+}
@@ -15,6 +15,12 @@ export const antimonyTheme: monaco.editor.IStandaloneThemeData = {
 
       { token: 'var', foreground: '#9CDCFE' },
 
+      // semantic tokens, which color ids by their resolved type (see SemanticTokens.ts)
+      { token: 'parameter', foreground: '#9CDCFE' },
+      { token: 'parameter.readonly', foreground: '#dcd52b' },
+      { token: 'reaction', foreground: '#4DC5B9' },
+      { token: 'event', foreground: '#45B1A6' },
+
       { token: 'keywords', foreground: '#45B1A6'},
       { token: 'operator', foreground: '#45B1A6'},
 
@@ -0,0 +1,114 @@
+/**
+ * A math function that antimony provides, with the names of its
+ * parameters and how many arguments it can be called with.
+ */
+export type BuiltinFunction = {
+  params: string[];
+  minArgs: number;
+  // Infinity when the function takes any number of arguments.
+  maxArgs: number;
+  description: string;
+};
+
+/**
+ * creates a builtin function that takes exactly the arguments in params
+ * @param params
+ * @param description
+ */
+function fixed(params: string[], description: string): BuiltinFunction {
+  return { params: params, minArgs: params.length, maxArgs: params.length, description: description };
+}
+
+/**
+ * creates a builtin function that takes a variable number of arguments
+ * @param params
+ * @param minArgs
+ * @param maxArgs
+ * @param description
+ */
+function variadic(params: string[], minArgs: number, maxArgs: number, description: string): BuiltinFunction {
+  return { params: params, minArgs: minArgs, maxArgs: maxArgs, description: description };
+}
+
+const unaryFunctions: [string[], string][] = [
+  [["abs"], "absolute value of x"],
+  [["ceil", "ceiling"], "smallest integer not less than x"],
+  [["floor"], "largest integer not greater than x"],
+  [["factorial"], "factorial of x"],
+  [["exp"], "e raised to the power x"],
+  [["ln"], "natural logarithm of x"],
+  [["log10"], "base 10 logarithm of x"],
+  [["sqrt"], "square root of x"],
+  [["not"], "logical negation of x"],
+  [["rateOf"], "rate of change of x"],
+  [["sin"], "sine of x"],
+  [["cos"], "cosine of x"],
+  [["tan"], "tangent of x"],
+  [["sec"], "secant of x"],
+  [["csc"], "cosecant of x"],
+  [["cot"], "cotangent of x"],
+  [["sinh"], "hyperbolic sine of x"],
+  [["cosh"], "hyperbolic cosine of x"],
+  [["tanh"], "hyperbolic tangent of x"],
+  [["sech"], "hyperbolic secant of x"],
+  [["csch"], "hyperbolic cosecant of x"],
+  [["coth"], "hyperbolic cotangent of x"],
+  [["asin", "arcsin"], "inverse sine of x"],
+  [["acos", "arccos"], "inverse cosine of x"],
+  [["atan", "arctan"], "inverse tangent of x"],
+  [["asec", "arcsec"], "inverse secant of x"],
+  [["acsc", "arccsc"], "inverse cosecant of x"],
+  [["acot", "arccot"], "inverse cotangent of x"],
+  [["asinh", "arcsinh"], "inverse hyperbolic sine of x"],
+  [["acosh", "arccosh"], "inverse hyperbolic cosine of x"],
+  [["atanh", "arctanh"], "inverse hyperbolic tangent of x"],
+  [["asech", "arcsech"], "inverse hyperbolic secant of x"],
+  [["acsch", "arccsch"], "inverse hyperbolic cosecant of x"],
+  [["acoth", "arccoth"], "inverse hyperbolic cotangent of x"],
+];
+
+/**
+ * The math functions antimony provides, by name.
+ */
+export const builtinFunctions: Map<string, BuiltinFunction> = new Map([
+  ...unaryFunctions.flatMap(([names, description]) =>
+    names.map((name): [string, BuiltinFunction] => [name, fixed(["x"], description)])
+  ),
+  ["log", variadic(["base", "x"], 1, 2, "natural logarithm of x, or log(base, x) for another base")],
+  ["root", variadic(["n", "x"], 1, 2, "square root of x, or root(n, x) for the nth root")],
+  ["pow", fixed(["x", "y"], "x raised to the power y")],
+  ["power", fixed(["x", "y"], "x raised to the power y")],
+  ["delay", fixed(["x", "d"], "value of x at d time units ago")],
+  ["quotient", fixed(["x", "y"], "integer part of x / y")],
+  ["rem", fixed(["x", "y"], "remainder of x / y")],
+  ["divide", fixed(["x", "y"], "x divided by y")],
+  ["minus", variadic(["x", "y"], 1, 2, "negation of x, or x minus y")],
+  ["plus", variadic(["x", "..."], 0, Infinity, "sum of the arguments")],
+  ["times", variadic(["x", "..."], 0, Infinity, "product of the arguments")],
+  ["min", variadic(["x", "..."], 1, Infinity, "smallest of the arguments")],
+  ["max", variadic(["x", "..."], 1, Infinity, "largest of the arguments")],
+  ["piecewise", variadic(["value", "condition", "...", "otherwise"], 1, Infinity,
+    "the first value whose condition is true, or otherwise if none are")],
+  ["and", variadic(["a", "..."], 0, Infinity, "true if every argument is true")],
+  ["or", variadic(["a", "..."], 0, Infinity, "true if any argument is true")],
+  ["xor", variadic(["a", "..."], 0, Infinity, "true if an odd number of arguments are true")],
+  ["implies", fixed(["a", "b"], "true unless a is true and b is false")],
+  ["eq", variadic(["x", "y", "..."], 2, Infinity, "true if the arguments are equal")],
+  ["neq", fixed(["x", "y"], "true if x and y are not equal")],
+  ["gt", variadic(["x", "y", "..."], 2, Infinity, "true if each argument is greater than the next")],
+  ["lt", variadic(["x", "y", "..."], 2, Infinity, "true if each argument is less than the next")],
+  ["geq", variadic(["x", "y", "..."], 2, Infinity, "true if no argument is less than the next")],
+  ["leq", variadic(["x", "y", "..."], 2, Infinity, "true if no argument is greater than the next")],
+  ["uniform", fixed(["min", "max"], "random number between min and max")],
+  ["normal", variadic(["mean", "stdev", "min", "max"], 2, 4, "random number from a normal distribution")],
+  ["lognormal", variadic(["mean", "stdev", "min", "max"], 2, 4, "random number from a log normal distribution")],
+  ["exponential", variadic(["rate", "min", "max"], 1, 3, "random number from an exponential distribution")],
+  ["gamma", variadic(["shape", "scale", "min", "max"], 2, 4, "random number from a gamma distribution")],
+  ["poisson", variadic(["rate", "min", "max"], 1, 3, "random number from a poisson distribution")],
+  ["chisquare", variadic(["degreesOfFreedom", "min", "max"], 1, 3, "random number from a chi squared distribution")],
+  ["laplace", variadic(["location", "scale", "min", "max"], 2, 4, "random number from a laplace distribution")],
+  ["cauchy", variadic(["location", "scale", "min", "max"], 2, 4, "random number from a cauchy distribution")],
+  ["rayleigh", variadic(["scale", "min", "max"], 1, 3, "random number from a rayleigh distribution")],
+  ["binomial", variadic(["n", "p", "min", "max"], 2, 4, "random number from a binomial distribution")],
+  ["bernoulli", fixed(["p"], "1 with probability p, 0 otherwise")],
+]);
@@ -0,0 +1,241 @@
+import * as monaco from "monaco-editor";
+import { diagnosticCodes, ErrorUnderline, SrcPosition, SrcRange } from "./Types";
+import { toMonacoRange } from "./NavigationProvider";
+import { GlobalST } from "./SymbolTableClasses";
+
+// id of the editor action that opens CreateAnnotationModal, see AntimonyEditor.
+export const createAnnotationActionId = "create-annotation";
+
+/**
+ * A fix for a single diagnostic, either a list of text edits
+ * or an editor action to run at a position.
+ */
+export type QuickFix = {
+  title: string;
+  edits: { range: SrcRange; text: string }[];
+  command?: { id: string; position: SrcPosition };
+  isPreferred?: boolean;
+};
+
+/**
+ * gets the text covered by srcRange, like model.getValueInRange, with lines joined by "\n"
+ * @param lines the lines of the editor, lines[0] is line 1
+ * @param srcRange
+ * @returns the text within srcRange
+ */
+function getTextInRange(lines: string[], srcRange: SrcRange): string {
+  const { start, end } = srcRange;
+  if (start.line === end.line) {
+    return lines[start.line - 1].substring(start.column - 1, end.column - 1);
+  }
+  return [
+    lines[start.line - 1].substring(start.column - 1),
+    ...lines.slice(start.line, end.line - 1),
+    (lines[end.line - 1] ?? "").substring(0, end.column - 1),
+  ].join("\n");
+}
+
+/**
+ * @param start the position that text starts at
+ * @param text text that may span multiple lines
+ * @param offset an offset into text
+ * @returns the position of offset
+ */
+function getPositionAt(start: SrcPosition, text: string, offset: number): SrcPosition {
+  const linesBefore: string[] = text.substring(0, offset).split("\n");
+  if (linesBefore.length === 1) {
+    return new SrcPosition(start.line, start.column + offset);
+  }
+  return new SrcPosition(start.line + linesBefore.length - 1, linesBefore[linesBefore.length - 1].length + 1);
+}
+
+/**
+ * @param line
+ * @returns the leading whitespace of line
+ */
+function getIndent(line: string): string {
+  return line.substring(0, line.length - line.trimStart().length);
+}
+
+/**
+ * creates an edit that adds text on a new line right after lineNum, at the same indent
+ * @param lines
+ * @param lineNum
+ * @param text
+ * @returns the insertion edit
+ */
+function insertLineAfter(lines: string[], lineNum: number, text: string) {
+  const line: string = lines[lineNum - 1];
+  const end: SrcPosition = new SrcPosition(lineNum, line.length + 1);
+  return { range: new SrcRange(end, end), text: "\n" + getIndent(line) + text };
+}
+
+/**
+ * builds a mass action rate law placeholder for a reaction, ie "k_J0*S1*S2"
+ * @param reactionText the reaction, as written up to and including its ';'
+ * @returns the placeholder rate law
+ */
+function getRateLawPlaceholder(reactionText: string): string {
+  let name: string = "";
+  let reactionBody: string = reactionText;
+  const colon: number = reactionText.indexOf(":");
+  if (colon !== -1) {
+    name = reactionText.substring(0, colon).trim();
+    reactionBody = reactionText.substring(colon + 1);
+  }
+
+  const reactants: string[] = reactionBody
+    .split(/->|=>/)[0]
+    .split("+")
+    .map((species) => species.trim().split(/\s+/).pop() || "")
+    // boundary species and stoichiometries do not belong in the rate law id list.
+    .map((species) => species.replace(/^\$/, ""))
+    .filter((species) => /^[A-Za-z_]\w*$/.test(species));
+
+  const rateConstant: string = name ? "k_" + name.replace(/^\$/, "").split(/\s/)[0] : "k";
+  return [rateConstant, ...reactants].join("*");
+}
+
+/**
+ * gets the edit that removes an overridden assignment. A stand alone
+ * assignment is removed as a whole, while an assignment inside a declaration
+ * only loses its value so the declaration is kept.
+ * @param lines
+ * @param srcRange range of the overridden assignment
+ * @returns the deletion edit
+ */
+function getRemoveAssignmentEdit(lines: string[], srcRange: SrcRange) {
+  const lineNum: number = srcRange.start.line;
+  const line: string = lines[lineNum - 1];
+  const before: string = line.substring(0, srcRange.start.column - 1);
+  const after: string = line.substring(srcRange.end.column - 1);
+
+  const trimmedBefore: string = before.trim();
+  const isStatement: boolean = trimmedBefore === "" || trimmedBefore.endsWith(";");
+  if (!isStatement) {
+    // ie "species S1 = 3, S2", where S1 = 3 is the overridden assignment.
+    const equals: number = getTextInRange(lines, srcRange).search(/\s*=/);
+    const start: SrcPosition = new SrcPosition(lineNum, srcRange.start.column + equals);
+    return { range: new SrcRange(start, srcRange.end), text: "" };
+  }
+
+  const statementEnd: number = srcRange.end.column + (after.length - after.replace(/^\s*;?\s*/, "").length);
+  if (trimmedBefore === "" && statementEnd === line.length + 1 && lineNum < lines.length) {
+    // the statement is the whole line, so remove the line itself.
+    return { range: new SrcRange(new SrcPosition(lineNum, 1), new SrcPosition(lineNum + 1, 1)), text: "" };
+  }
+  return { range: new SrcRange(srcRange.start, new SrcPosition(lineNum, statementEnd)), text: "" };
+}
+
+/**
+ * @description gets the quick fixes available for a diagnostic.
+ * @param globalST the symbol tables of the program the diagnostic is in
+ * @param lines the lines of the editor, lines[0] is line 1
+ * @param diagnostic a diagnostic reported by the analyzer
+ * @returns the quick fixes, empty if the diagnostic has no code or no fix
+ */
+export function getQuickFixes(globalST: GlobalST, lines: string[], diagnostic: ErrorUnderline): QuickFix[] {
+  const srcRange: SrcRange = new SrcRange(
+    new SrcPosition(diagnostic.startLineNumber, diagnostic.startColumn),
+    new SrcPosition(diagnostic.endLineNumber, diagnostic.endColumn)
+  );
+  if (srcRange.start.line > lines.length) {
+    return [];
+  }
+  const text: string = getTextInRange(lines, srcRange);
+  const annotateFix: QuickFix = {
+    title: "Annotate " + text,
+    edits: [],
+    command: { id: createAnnotationActionId, position: srcRange.start },
+  };
+
+  switch (diagnostic.code) {
+    case diagnosticCodes.UninitializedParameter:
+    case diagnosticCodes.DefaultValue:
+      return [
+        {
+          title: "Initialize " + text + " = 0",
+          edits: [insertLineAfter(lines, srcRange.start.line, text + " = 0;")],
+          isPreferred: true,
+        },
+        annotateFix,
+      ];
+    case diagnosticCodes.MissingRateLaw: {
+      const semicolon: number = text.indexOf(";");
+      if (semicolon === -1) {
+        return [];
+      }
+      const insertAt: SrcPosition = getPositionAt(srcRange.start, text, semicolon + 1);
+      return [
+        {
+          title: "Add rate law placeholder",
+          edits: [{ range: new SrcRange(insertAt, insertAt), text: " " + getRateLawPlaceholder(text.substring(0, semicolon)) }],
+          isPreferred: true,
+        },
+      ];
+    }
+    case diagnosticCodes.VarNotFound: {
+      if (globalST.getScopeAtLine(srcRange.start.line)?.scope === "function") {
+        // functions can not declare species
+        return [];
+      }
+      const lineStart: SrcPosition = new SrcPosition(srcRange.start.line, 1);
+      const indent: string = getIndent(lines[srcRange.start.line - 1]);
+      return [
+        {
+          title: "Declare species " + text,
+          edits: [{ range: new SrcRange(lineStart, lineStart), text: indent + "species " + text + ";\n" }],
+          isPreferred: true,
+        },
+      ];
+    }
+    case diagnosticCodes.OverriddenValue:
+      return [
+        {
+          title: "Remove overridden assignment",
+          edits: [getRemoveAssignmentEdit(lines, srcRange)],
+        },
+      ];
+    default:
+      return [];
+  }
+}
+
+/**
+ * @description registers a provider of quick fixes for the diagnostics that have a code.
+ * @param globalST
+ * @returns disposable that removes the code action provider
+ */
+export function registerCodeActionProvider(globalST: GlobalST): monaco.IDisposable {
+  return monaco.languages.registerCodeActionProvider("antimony", {
+    provideCodeActions: (model, range, context) => {
+      const lines: string[] = model.getLinesContent();
+      const actions: monaco.languages.CodeAction[] = [];
+      for (const marker of context.markers) {
+        const code: string | undefined = typeof marker.code === "string" ? marker.code : marker.code?.value;
+        const diagnostic: ErrorUnderline = { ...marker, code: code as diagnosticCodes };
+        for (const fix of getQuickFixes(globalST, lines, diagnostic)) {
+          actions.push({
+            title: fix.title,
+            kind: "quickfix",
+            diagnostics: [marker],
+            isPreferred: fix.isPreferred,
+            edit: fix.edits.length === 0 ? undefined : {
+              edits: fix.edits.map((edit) => ({
+                resource: model.uri,
+                textEdit: { range: toMonacoRange(edit.range), text: edit.text },
+                versionId: model.getVersionId(),
+              })),
+            },
+            command: fix.command && {
+              id: fix.command.id,
+              title: fix.title,
+              arguments: [{ lineNumber: fix.command.position.line, column: fix.command.position.column }],
+            },
+          });
+        }
+      }
+      return { actions: actions, dispose: () => {} };
+    },
+  });
+}
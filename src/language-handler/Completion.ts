@@ -0,0 +1,247 @@
+import { DottedNameResolution, GlobalST, ParamAndNameTable, SymbolTable } from "./SymbolTableClasses";
+import { varTypes } from "./Types";
+import { predefinedConstants, Variable } from "./Variable";
+
+/**
+ * Describes what kind of identifier is expected at the cursor.
+ * "none" means that no suggestions should be given, ie when naming
+ * a new model or while typing inside of a comment.
+ */
+export type CompletionPositionKind = "none" | "compartment" | "species" | "rateLaw" | "any";
+
+/**
+ * A completion suggestion that is independent of monaco,
+ * so that it can be built (and tested) without an editor.
+ */
+export type AntimonyCompletionItem = {
+  label: string;
+  type: varTypes;
+  detail: string;
+  documentation: string | undefined;
+  sortText: string;
+};
+
+/**
+ * Ranks used to order suggestions, lower ranks are shown first.
+ */
+enum CompletionRank {
+  ReactionSpecies = 0,
+  Scope = 1,
+  Function = 2,
+  Model = 3,
+  PredefConstant = 4,
+}
+
+// matches the (possibly empty) identifier that is currently being typed.
+const partialWordRegex = /\$?[A-Za-z_]\w*$/;
+// matches the left hand side of a reaction before the arrow has been typed, ie "J0: A + 2 B + "
+const reactantListRegex = /^\s*(\$?\w+\s*:\s*)?(\d*\.?\d*\s*\$?[A-Za-z_]\w*\s*\+\s*)+$/;
+// matches the start of a model, function or unit definition, where a new name is being typed
+const definitionRegex = /^\s*(model|module|function|unit)\s+\*?\s*$/;
+// matches the submodel whose id is being typed, ie the "A" in "z = A.x" or the "A.B" in "A.B."
+const submodelPrefixRegex = /(?<![\w.])([A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*)\.\w*$/;
+
+/**
+ * @description determines what kind of identifier is expected at the end of linePrefix.
+ * @param linePrefix the text of the current line up until the cursor
+ * @returns the kind of position, and when inside a rate law the species of that reaction.
+ */
+export function getCompletionPositionKind(linePrefix: string): { kind: CompletionPositionKind; reactionSpecies: string[] } {
+  const beforeWord: string = linePrefix.replace(partialWordRegex, "");
+  const noSpecies: string[] = [];
+
+  // no completions inside comments or strings.
+  const quoteCount = (beforeWord.match(/"/g) || []).length;
+  if (beforeWord.includes("//") || quoteCount % 2 === 1) {
+    return { kind: "none", reactionSpecies: noSpecies };
+  }
+
+  if (definitionRegex.test(beforeWord)) {
+    return { kind: "none", reactionSpecies: noSpecies };
+  }
+
+  if (/\bin\s+\$?$/.test(beforeWord)) {
+    return { kind: "compartment", reactionSpecies: noSpecies };
+  }
+
+  // ";" both ends statements and separates a reaction from its rate law.
+  const segments: string[] = beforeWord.split(";");
+  const lastSegment: string = segments[segments.length - 1];
+  if (/->|=>/.test(lastSegment)) {
+    return { kind: "species", reactionSpecies: noSpecies };
+  }
+
+  if (segments.length >= 2 && /->|=>/.test(segments[segments.length - 2])) {
+    return { kind: "rateLaw", reactionSpecies: getReactionSpecies(segments[segments.length - 2]) };
+  }
+
+  if (reactantListRegex.test(lastSegment)) {
+    return { kind: "species", reactionSpecies: noSpecies };
+  }
+
+  return { kind: "any", reactionSpecies: noSpecies };
+}
+
+/**
+ * gets the ids of the species in the text of a reaction, ie "J0: A + 2 $B -> C"
+ * @param reactionText
+ * @returns list of species ids
+ */
+function getReactionSpecies(reactionText: string): string[] {
+  // remove the reaction name if there is one.
+  const speciesText: string = reactionText.replace(/^\s*\$?\w+\s*:/, "");
+  const species: string[] = [];
+  for (const match of Array.from(speciesText.matchAll(/[A-Za-z_]\w*/g))) {
+    species.push(match[0]);
+  }
+  return species;
+}
+
+/**
+ * @description builds the completion suggestions for the cursor position.
+ * @param globalST symbol table of the analyzed program
+ * @param line the line the cursor is on
+ * @param linePrefix the text of the current line up until the cursor
+ * @returns suggestions ordered by sortText, with ids closest in scope first.
+ */
+export function getCompletionItems(globalST: GlobalST, line: number, linePrefix: string): AntimonyCompletionItem[] {
+  const { kind, reactionSpecies } = getCompletionPositionKind(linePrefix);
+  const items: Map<string, AntimonyCompletionItem> = new Map();
+  if (kind === "none") {
+    return [];
+  }
+
+  const addItem = (label: string, varInfo: Variable, rank: CompletionRank, detail: string) => {
+    if (!items.has(label)) {
+      items.set(label, {
+        label: label,
+        type: varInfo.type,
+        detail: detail,
+        documentation: varInfo.displayName?.replaceAll("\"", ""),
+        sortText: rank + "_" + label,
+      });
+    }
+  };
+
+  // the model or function the cursor is in, otherwise the global scope.
+  const scope = globalST.getScopeAtLine(line);
+  const scopeST: SymbolTable = scope ? scope.st : globalST;
+  const inFunction: boolean = scope?.scope === "function";
+
+  const submodelMatch: RegExpMatchArray | null = linePrefix.match(submodelPrefixRegex);
+  if (submodelMatch) {
+    return getSubmodelCompletionItems(globalST, scopeST, submodelMatch[1]);
+  }
+
+  for (const [id, varInfo] of scopeST.getVarMap()) {
+    if (varInfo.type === varTypes.PredefConstant || varInfo.type === varTypes.Model || varInfo.type === varTypes.Function) {
+      continue;
+    }
+    // function params are untyped, but are all that a function can reference.
+    const isFunctionParam: boolean = inFunction && (scopeST as ParamAndNameTable).paramSet.has(id);
+    if (!isFunctionParam && (varInfo.type === varTypes.Unknown || varInfo.type === varTypes.Deleted)) {
+      continue;
+    }
+
+    if (kind === "compartment" && varInfo.type !== varTypes.Compartment) {
+      continue;
+    }
+    if (kind === "species" && varInfo.type !== varTypes.Species) {
+      continue;
+    }
+
+    let rank: CompletionRank = CompletionRank.Scope;
+    if (kind === "rateLaw" && reactionSpecies.includes(id)) {
+      rank = CompletionRank.ReactionSpecies;
+    }
+    addItem(id, varInfo, rank, getVariableDetail(varInfo, isFunctionParam));
+  }
+
+  if (kind === "compartment" || kind === "species") {
+    return sortCompletionItems(items);
+  }
+
+  for (const [funcName, funcST] of globalST.getFuncMap()) {
+    const funcInfo: Variable | undefined = globalST.getVar(funcName);
+    if (funcInfo) {
+      addItem(funcName, funcInfo, CompletionRank.Function, funcName + "(" + funcST.params.join(", ") + ")");
+    }
+  }
+
+  // models can only be instantiated outside of functions, and not inside of themselves.
+  if (kind === "any" && !inFunction) {
+    for (const [modelName, modelST] of globalST.getModelMap()) {
+      const modelInfo: Variable | undefined = globalST.getVar(modelName);
+      if (modelInfo && modelName !== scope?.name) {
+        addItem(modelName, modelInfo, CompletionRank.Model, "model " + modelName + "(" + modelST.params.join(", ") + ")");
+      }
+    }
+  }
+
+  for (const predefConst of predefinedConstants) {
+    const constInfo: Variable | undefined = globalST.getVar(predefConst);
+    if (constInfo) {
+      const predefType: string = predefConst === "time" ? "variable" : "constant";
+      addItem(predefConst, constInfo, CompletionRank.PredefConstant, "predefined " + predefType);
+    }
+  }
+
+  return sortCompletionItems(items);
+}
+
+/**
+ * gets the suggestions after a dot, which are the ids of the model a submodel is an instance of
+ * @param globalST
+ * @param scopeST the ST of the scope the cursor is in
+ * @param submodelName the name before the dot, ie "A" or "A.B"
+ * @returns the ids of the model, or nothing if submodelName is not a submodel
+ */
+function getSubmodelCompletionItems(globalST: GlobalST, scopeST: SymbolTable, submodelName: string): AntimonyCompletionItem[] {
+  // the id after the dot is not typed yet, so only the model it would be in is needed.
+  const resolution: DottedNameResolution | undefined = globalST.resolveDottedName(scopeST, submodelName + ".");
+  const modelST: ParamAndNameTable | undefined =
+    resolution && resolution.kind !== "notSubmodel" ? globalST.getModelST(resolution.modelName) : undefined;
+  if (!modelST) {
+    return [];
+  }
+
+  const items: Map<string, AntimonyCompletionItem> = new Map();
+  for (const [id, varInfo] of modelST.getVarMap()) {
+    if (varInfo.type === varTypes.Unknown || varInfo.type === varTypes.Deleted) {
+      continue;
+    }
+    items.set(id, {
+      label: id,
+      type: varInfo.type,
+      detail: getVariableDetail(varInfo, false),
+      documentation: varInfo.displayName?.replaceAll("\"", ""),
+      sortText: CompletionRank.Scope + "_" + id,
+    });
+  }
+  return sortCompletionItems(items);
+}
+
+/**
+ * gets the short description shown next to a suggested variable
+ * @param varInfo
+ * @param isFunctionParam
+ * @returns description string, ie "species in C1 = 10"
+ */
+function getVariableDetail(varInfo: Variable, isFunctionParam: boolean): string {
+  if (isFunctionParam) {
+    return "function parameter";
+  }
+
+  let detail: string = varInfo.isConst ? "const " + varInfo.type : varInfo.type;
+  if (varInfo.compartment) {
+    detail += " in " + varInfo.compartment;
+  }
+  if (varInfo.value) {
+    detail += " = " + varInfo.value;
+  }
+  return detail;
+}
+
+function sortCompletionItems(items: Map<string, AntimonyCompletionItem>): AntimonyCompletionItem[] {
+  return Array.from(items.values()).sort((a, b) => a.sortText.localeCompare(b.sortText));
+}
@@ -0,0 +1,68 @@
+import * as monaco from "monaco-editor";
+import { getCompletionItems } from "./Completion";
+import { GlobalST } from "./SymbolTableClasses";
+import { varTypes } from "./Types";
+
+/**
+ * maps a variable type to the icon monaco shows for a suggestion
+ * @param type
+ * @returns monaco completion item kind
+ */
+function getCompletionItemKind(type: varTypes): monaco.languages.CompletionItemKind {
+  switch (type) {
+    case varTypes.Species:
+      return monaco.languages.CompletionItemKind.Variable;
+    case varTypes.Compartment:
+      return monaco.languages.CompletionItemKind.Struct;
+    case varTypes.Reaction:
+    case varTypes.Event:
+      return monaco.languages.CompletionItemKind.Event;
+    case varTypes.Function:
+      return monaco.languages.CompletionItemKind.Function;
+    case varTypes.Model:
+    case varTypes.ModularModel:
+      return monaco.languages.CompletionItemKind.Module;
+    case varTypes.PredefConstant:
+    case varTypes.Const:
+      return monaco.languages.CompletionItemKind.Constant;
+    default:
+      return monaco.languages.CompletionItemKind.Field;
+  }
+}
+
+/**
+ * @description registers a completion provider for the antimony language that
+ *              suggests ids from globalST.
+ * @param globalST symbol table of the analyzed program
+ * @returns disposable that removes the completion provider
+ */
+export function registerCompletionProvider(globalST: GlobalST): monaco.IDisposable {
+  return monaco.languages.registerCompletionItemProvider("antimony", {
+    triggerCharacters: ["."],
+    provideCompletionItems: (model, position) => {
+      if (model.isDisposed()) {
+        return { suggestions: [] };
+      }
+
+      const word = model.getWordUntilPosition(position);
+      // words include dotted names, but only the id after the last dot is replaced.
+      const startColumn: number = word.startColumn + word.word.lastIndexOf(".") + 1;
+      const range = new monaco.Range(position.lineNumber, startColumn, position.lineNumber, word.endColumn);
+      const linePrefix: string = model.getValueInRange(
+        new monaco.Range(position.lineNumber, 1, position.lineNumber, position.column)
+      );
+
+      const suggestions: monaco.languages.CompletionItem[] =
+        getCompletionItems(globalST, position.lineNumber, linePrefix).map((item) => ({
+          label: item.label,
+          kind: getCompletionItemKind(item.type),
+          detail: item.detail,
+          documentation: item.documentation,
+          sortText: item.sortText,
+          insertText: item.label,
+          range: range,
+        }));
+      return { suggestions: suggestions };
+    },
+  });
+}
@@ -0,0 +1,147 @@
+import { diagnosticCodes, ErrorUnderline, markerSeverity } from "./Types";
+
+/**
+ * human readable name for each diagnostic code, shown in settings.
+ */
+export const diagnosticNames: Record<diagnosticCodes, string> = {
+  [diagnosticCodes.UninitializedParameter]: "uninitialized-parameter",
+  [diagnosticCodes.DefaultValue]: "default-value",
+  [diagnosticCodes.MissingRateLaw]: "missing-rate-law",
+  [diagnosticCodes.VarNotFound]: "var-not-found",
+  [diagnosticCodes.OverriddenValue]: "overridden-value",
+  [diagnosticCodes.IncompatibleTypes]: "incompatible-types",
+  [diagnosticCodes.PredefConstantAssignment]: "predefined-constant-assignment",
+  [diagnosticCodes.ModelAlreadyExists]: "model-already-exists",
+  [diagnosticCodes.FunctionAlreadyExists]: "function-already-exists",
+  [diagnosticCodes.DuplicateParameter]: "duplicate-parameter",
+  [diagnosticCodes.OverridingValue]: "overriding-value",
+  [diagnosticCodes.OverridingDisplayName]: "overriding-display-name",
+  [diagnosticCodes.DuplicateAnnotation]: "duplicate-annotation",
+  [diagnosticCodes.SyntaxError]: "syntax-error",
+  [diagnosticCodes.InconsistentUnits]: "inconsistent-units",
+  [diagnosticCodes.InvalidUnit]: "invalid-unit",
+  [diagnosticCodes.NonBooleanTrigger]: "non-boolean-trigger",
+  [diagnosticCodes.InvalidEventDelay]: "invalid-event-delay",
+  [diagnosticCodes.ConstantEventAssignment]: "constant-event-assignment",
+  [diagnosticCodes.InvalidEventOption]: "invalid-event-option",
+  [diagnosticCodes.ReactionEventAssignment]: "reaction-event-assignment",
+  [diagnosticCodes.RateLawMissingReactants]: "rate-law-missing-reactants",
+  [diagnosticCodes.ReversedRateLaw]: "reversed-rate-law",
+  [diagnosticCodes.UndefinedRateLawId]: "undefined-rate-law-id",
+  [diagnosticCodes.ConsumedBoundarySpecies]: "consumed-boundary-species",
+  [diagnosticCodes.FunctionArity]: "function-arity",
+  [diagnosticCodes.UndefinedFunction]: "undefined-function",
+  [diagnosticCodes.FunctionNonParameter]: "function-non-parameter",
+  [diagnosticCodes.UndefinedModel]: "undefined-model",
+  [diagnosticCodes.ModelArity]: "model-arity",
+  [diagnosticCodes.IncompatibleModelArgument]: "incompatible-model-argument",
+  [diagnosticCodes.RecursiveModel]: "recursive-model",
+  [diagnosticCodes.ImportNotFound]: "import-not-found",
+  [diagnosticCodes.ImportCycle]: "import-cycle",
+  [diagnosticCodes.NotSubmodel]: "not-submodel",
+  [diagnosticCodes.MissingSubmodelMember]: "missing-submodel-member",
+};
+
+/**
+ * The severity a user can give a diagnostic code, "off" hides it.
+ */
+export type DiagnosticSeverity = "error" | "warning" | "info" | "hint" | "off";
+
+/**
+ * Severity overrides per diagnostic code, codes that are
+ * left out keep the severity they are reported with.
+ */
+export type DiagnosticSettings = Partial<Record<diagnosticCodes, DiagnosticSeverity>>;
+
+const diagnosticSettingsKey = "diagnostic_settings";
+const disableNextLineComment = "antimony-disable-next-line";
+
+const markerSeverities: Record<Exclude<DiagnosticSeverity, "off">, number> = {
+  error: markerSeverity.Error,
+  warning: markerSeverity.Warning,
+  info: markerSeverity.Info,
+  hint: markerSeverity.Hint,
+};
+
+/**
+ * loads the diagnostic settings saved in local storage
+ * @returns the saved settings, or no overrides if there are none
+ */
+export function loadDiagnosticSettings(): DiagnosticSettings {
+  if (typeof window === "undefined" || !window.localStorage) {
+    return {};
+  }
+  try {
+    return JSON.parse(window.localStorage.getItem(diagnosticSettingsKey) || "{}");
+  } catch (e) {
+    return {};
+  }
+}
+
+/**
+ * saves the diagnostic settings to local storage, so they persist across sessions
+ * @param settings
+ */
+export function saveDiagnosticSettings(settings: DiagnosticSettings): void {
+  window.localStorage.setItem(diagnosticSettingsKey, JSON.stringify(settings));
+}
+
+/**
+ * @description finds the lines disabled by "// antimony-disable-next-line" comments. The
+ *              comment may be followed by the codes to disable, otherwise every code is disabled.
+ * @param antimonyCode the program text
+ * @returns map from a disabled line number to its disabled codes, "all" if every code is disabled
+ */
+export function getDisabledLines(antimonyCode: string): Map<number, Set<string> | "all"> {
+  const disabledLines: Map<number, Set<string> | "all"> = new Map();
+  const lines: string[] = antimonyCode.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    const commentStart: number = lines[i].indexOf("//");
+    if (commentStart === -1) {
+      continue;
+    }
+    const comment: string[] = lines[i].substring(commentStart + 2).trim().split(/[\s,]+/);
+    if (comment[0] !== disableNextLineComment) {
+      continue;
+    }
+    const codes: string[] = comment.slice(1).filter((code) => code !== "");
+    // lines are 1 indexed, so the next line is i + 2.
+    disabledLines.set(i + 2, codes.length === 0 ? "all" : new Set(codes));
+  }
+  return disabledLines;
+}
+
+/**
+ * @description applies the user's severity settings and the disable comments within
+ *              the program to the diagnostics found when analyzing it.
+ * @param errors diagnostics found in antimonyCode
+ * @param antimonyCode the program text
+ * @param settings severity overrides per code
+ * @returns the diagnostics that are still enabled, with their configured severity
+ */
+export function applyDiagnosticSettings(
+  errors: ErrorUnderline[],
+  antimonyCode: string,
+  settings: DiagnosticSettings
+): ErrorUnderline[] {
+  const disabledLines = getDisabledLines(antimonyCode);
+  const result: ErrorUnderline[] = [];
+  for (const error of errors) {
+    if (error.code === undefined) {
+      result.push(error);
+      continue;
+    }
+
+    const disabledCodes = disabledLines.get(error.startLineNumber);
+    if (disabledCodes === "all" || disabledCodes?.has(error.code)) {
+      continue;
+    }
+
+    const severity: DiagnosticSeverity | undefined = settings[error.code];
+    if (severity === "off") {
+      continue;
+    }
+    result.push(severity ? { ...error, severity: markerSeverities[severity] } : error);
+  }
+  return result;
+}
@@ -0,0 +1,47 @@
+import * as monaco from "monaco-editor";
+import { AntimonySymbol, getDocumentSymbols } from "./DocumentSymbols";
+import { toMonacoRange } from "./NavigationProvider";
+import { GlobalST } from "./SymbolTableClasses";
+import { varTypes } from "./Types";
+
+/**
+ * converts an outline symbol to the form monaco expects
+ * @param symbol
+ * @returns the monaco document symbol
+ */
+function toMonacoSymbol(symbol: AntimonySymbol): monaco.languages.DocumentSymbol {
+  const symbolKinds: Map<varTypes, monaco.languages.SymbolKind> = new Map([
+    [varTypes.Model, monaco.languages.SymbolKind.Module],
+    [varTypes.Function, monaco.languages.SymbolKind.Function],
+    [varTypes.Reaction, monaco.languages.SymbolKind.Operator],
+    [varTypes.Event, monaco.languages.SymbolKind.Event],
+    [varTypes.Species, monaco.languages.SymbolKind.Variable],
+    [varTypes.Compartment, monaco.languages.SymbolKind.Namespace],
+  ]);
+  return {
+    name: symbol.name,
+    detail: symbol.detail,
+    kind: symbolKinds.get(symbol.type) || monaco.languages.SymbolKind.Variable,
+    tags: [],
+    range: toMonacoRange(symbol.range),
+    selectionRange: toMonacoRange(symbol.selectionRange),
+    children: symbol.children.map(toMonacoSymbol),
+  };
+}
+
+/**
+ * @description registers a document symbol provider, used for the outline and breadcrumbs.
+ * @param globalST symbol table of the analyzed program
+ * @returns disposable that removes the document symbol provider
+ */
+export function registerDocumentSymbolProvider(globalST: GlobalST): monaco.IDisposable {
+  return monaco.languages.registerDocumentSymbolProvider("antimony", {
+    displayName: "Antimony",
+    provideDocumentSymbols: (model) => {
+      if (model.isDisposed()) {
+        return [];
+      }
+      return getDocumentSymbols(globalST, model.getLinesContent()).map(toMonacoSymbol);
+    },
+  });
+}
@@ -0,0 +1,107 @@
+import { GlobalST, ParamAndNameTable, SymbolTable } from "./SymbolTableClasses";
+import { SrcPosition, SrcRange, varTypes } from "./Types";
+
+/**
+ * A node of the document outline, a model or function
+ * holds the symbols declared inside of it as children.
+ */
+export type AntimonySymbol = {
+  name: string;
+  detail: string;
+  type: varTypes;
+  range: SrcRange;
+  selectionRange: SrcRange;
+  children: AntimonySymbol[];
+};
+
+// the variable types that are shown in the outline.
+const outlineTypes: Set<varTypes> = new Set([
+  varTypes.Reaction,
+  varTypes.Event,
+  varTypes.Species,
+  varTypes.Compartment,
+]);
+
+/**
+ * orders symbols by where they appear in the file
+ * @param symbols
+ * @returns symbols, sorted in place
+ */
+function sortByPosition(symbols: AntimonySymbol[]): AntimonySymbol[] {
+  return symbols.sort(
+    (a, b) => a.range.start.line - b.range.start.line || a.range.start.column - b.range.start.column
+  );
+}
+
+/**
+ * gets the outline symbols for the variables in a single scope
+ * @param table symbol table of the scope
+ * @returns a symbol for each reaction, event, species and compartment in table
+ */
+function getVariableSymbols(table: SymbolTable): AntimonySymbol[] {
+  const symbols: AntimonySymbol[] = [];
+  for (const [name, varInfo] of table.getVarMap()) {
+    if (!outlineTypes.has(varInfo.type)) {
+      continue;
+    }
+    const range: SrcRange = varInfo.declSrcRange || varInfo.idSrcRange;
+    symbols.push({
+      name: name,
+      detail: varInfo.type,
+      type: varInfo.type,
+      range: range,
+      selectionRange: range,
+      children: [],
+    });
+  }
+  return symbols;
+}
+
+/**
+ * gets the outline symbol for a model or function, spanning from its id to its "end"
+ * @param lines the lines of the editor, lines[0] is line 1
+ * @param name
+ * @param table symbol table of the model or function
+ * @param type either varTypes.Model or varTypes.Function
+ * @returns the symbol, with the contents of the model as children
+ */
+function getScopeSymbol(lines: string[], name: string, table: ParamAndNameTable, type: varTypes): AntimonySymbol {
+  const idRange: SrcRange = table.getPosition();
+  const endLine: number = Math.min(table.endLine || idRange.end.line, lines.length);
+  const end: SrcPosition = new SrcPosition(endLine, (lines[endLine - 1]?.length || 0) + 1);
+
+  let detail: string = type;
+  if (table.params.length > 0) {
+    detail = (type === varTypes.Model ? "modular model" : type) + " (" + table.params.join(", ") + ")";
+  }
+  return {
+    name: name,
+    detail: detail,
+    type: type,
+    range: new SrcRange(new SrcPosition(idRange.start.line, 1), end),
+    selectionRange: idRange,
+    children: type === varTypes.Model ? sortByPosition(getVariableSymbols(table)) : [],
+  };
+}
+
+/**
+ * @description builds the document outline of the analyzed program.
+ * @param globalST symbol table of the analyzed program
+ * @param lines the lines of the editor, lines[0] is line 1
+ * @returns the top level symbols, sorted by position
+ */
+export function getDocumentSymbols(globalST: GlobalST, lines: string[]): AntimonySymbol[] {
+  const symbols: AntimonySymbol[] = getVariableSymbols(globalST);
+  // imported models and functions are outlined in their own files.
+  for (const [name, modelST] of globalST.getModelMap()) {
+    if (modelST.fileName === undefined) {
+      symbols.push(getScopeSymbol(lines, name, modelST, varTypes.Model));
+    }
+  }
+  for (const [name, funcST] of globalST.getFuncMap()) {
+    if (funcST.fileName === undefined) {
+      symbols.push(getScopeSymbol(lines, name, funcST, varTypes.Function));
+    }
+  }
+  return sortByPosition(symbols);
+}
@@ -1,8 +1,7 @@
-import * as monaco from 'monaco-editor';
 import { AbstractParseTreeVisitor, ErrorNode, ParseTree, TerminalNode } from 'antlr4ts/tree'
 import { AntimonyGrammarVisitor } from './antlr/AntimonyGrammarVisitor';
 import { GlobalST, SymbolTable} from './SymbolTableClasses';
-import { ErrorUnderline, SrcPosition, SrcRange } from './Types';
+import { diagnosticCodes, ErrorUnderline, markerSeverity, SrcPosition, SrcRange } from './Types';
 import { ParserRuleContext } from 'antlr4ts';
 import { FunctionContext, ModelContext, Modular_modelContext } from './antlr/AntimonyGrammarParser';
 
@@ -74,6 +73,17 @@ export class ErrorVisitor extends AbstractParseTreeVisitor<void> implements Anti
     }
   }
 
+  /**
+   * @param code
+   * @param srcRange
+   * @returns whether an error with code was already added at srcRange
+   */
+  protected hasErrorAt(code: diagnosticCodes, srcRange: SrcRange): boolean {
+    return this.getErrors().some((err) => err.code === code
+      && err.startLineNumber === srcRange.start.line && err.startColumn === srcRange.start.column
+      && err.endLineNumber === srcRange.end.line && err.endColumn === srcRange.end.column);
+  }
+
   /**
    * gets the list of accumulated errors
    * @returns 
@@ -101,12 +111,13 @@ export class ErrorVisitor extends AbstractParseTreeVisitor<void> implements Anti
    * @param idSrcRange the line column range the error will give underline to
    * @param message the error message shown when hovering over idSrcRange
    * @param isError true if an error, false if a warning
+   * @param code the code identifying the kind of error
    * @returns an ErrorUnderline that can be passed to monaco.editor.setModelMarkers()
    */
-  protected getErrorUnderline(idSrcRange: SrcRange, message: string, isError: boolean): ErrorUnderline {
-    let severity = monaco.MarkerSeverity.Error;
+  protected getErrorUnderline(idSrcRange: SrcRange, message: string, isError: boolean, code: diagnosticCodes): ErrorUnderline {
+    let severity: number = markerSeverity.Error;
     if (!isError) {
-      severity = monaco.MarkerSeverity.Warning;
+      severity = markerSeverity.Warning;
     }
     let errorUnderline: ErrorUnderline = {
       startLineNumber:  idSrcRange.start.line,
@@ -114,7 +125,8 @@ export class ErrorVisitor extends AbstractParseTreeVisitor<void> implements Anti
       endLineNumber:  idSrcRange.end.line,
       endColumn:  idSrcRange.end.column,
       message: message,
-      severity: severity
+      severity: severity,
+      code: code
     }
     return errorUnderline;
   }
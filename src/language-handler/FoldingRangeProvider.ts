@@ -0,0 +1,24 @@
+import * as monaco from "monaco-editor";
+import { getFoldingRanges } from "./FoldingRanges";
+import { GlobalST } from "./SymbolTableClasses";
+
+/**
+ * @description registers a folding range provider, which lets whole models and functions,
+ *              long annotations and model notes be collapsed.
+ * @param globalST symbol table of the analyzed program
+ * @returns disposable that removes the folding range provider
+ */
+export function registerFoldingRangeProvider(globalST: GlobalST): monaco.IDisposable {
+  return monaco.languages.registerFoldingRangeProvider("antimony", {
+    provideFoldingRanges: (model) => {
+      if (model.isDisposed()) {
+        return [];
+      }
+      return getFoldingRanges(globalST).map((range) => ({
+        start: range.startLine,
+        end: range.endLine,
+        kind: range.kind === "comment" ? monaco.languages.FoldingRangeKind.Comment : monaco.languages.FoldingRangeKind.Region,
+      }));
+    },
+  });
+}
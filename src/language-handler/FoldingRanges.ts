@@ -0,0 +1,29 @@
+import { GlobalST } from "./SymbolTableClasses";
+
+/**
+ * A range of lines that can be folded away, the start line stays visible. Lines start at 1.
+ * "comment" ranges are folded along with comments, ie by "Fold All Block Comments".
+ */
+export type AntimonyFoldingRange = {
+  startLine: number;
+  endLine: number;
+  kind: "region" | "comment";
+};
+
+/**
+ * @description finds the folding ranges of the analyzed program: models and functions,
+ *              annotations that are continued over several lines and model notes.
+ * @param globalST symbol table of the analyzed program
+ * @returns the folding ranges, ordered by start line
+ */
+export function getFoldingRanges(globalST: GlobalST): AntimonyFoldingRange[] {
+  const ranges: AntimonyFoldingRange[] = [];
+  for (const block of globalST.foldableBlocks) {
+    // models and functions keep their "end" line visible, like the indentation based folding does.
+    const endLine: number = block.kind === "model" || block.kind === "function" ? block.endLine - 1 : block.endLine;
+    if (endLine > block.startLine) {
+      ranges.push({ startLine: block.startLine, endLine: endLine, kind: block.kind === "notes" ? "comment" : "region" });
+    }
+  }
+  return ranges.sort((a, b) => a.startLine - b.startLine || b.endLine - a.endLine);
+}
@@ -0,0 +1,313 @@
+import * as monaco from "monaco-editor";
+import { ANTLRErrorListener, Token } from "antlr4ts";
+import { AbstractParseTreeVisitor } from "antlr4ts/tree";
+import { AntimonyGrammarLexer } from "./antlr/AntimonyGrammarLexer";
+import { AntimonyGrammarParser, FunctionContext, ModelContext, Modular_modelContext } from "./antlr/AntimonyGrammarParser";
+import { AntimonyGrammarVisitor } from "./antlr/AntimonyGrammarVisitor";
+import { createTokenStream } from "./TokenStream";
+
+const indentUnit = "  ";
+
+// tokens that are always written with a single space on both sides.
+const spacedTokens: Set<number> = new Set([
+  AntimonyGrammarLexer.ARROW,
+  AntimonyGrammarLexer.T__10, // '='
+  AntimonyGrammarLexer.AEQ,
+  AntimonyGrammarLexer.COMPARE,
+  AntimonyGrammarLexer.LOGICAL,
+  AntimonyGrammarLexer.INTERACTION_SYMBOL,
+]);
+
+const noSpaceBefore: Set<string> = new Set([",", ")", "'", ".sboTerm", "()"]);
+const noSpaceAfter: Set<string> = new Set(["(", "$"]);
+const declarationTokens: Set<number> = new Set([
+  AntimonyGrammarLexer.VAR_MODIFIER,
+  AntimonyGrammarLexer.SUB_MODIFIER,
+  AntimonyGrammarLexer.TYPE_MODIFIER,
+]);
+
+/**
+ * the kind of a source line, used to decide where blank lines go
+ */
+type LineKind = "blank" | "comment" | "declaration" | "statement" | "blockStart" | "blockEnd" | "verbatim";
+
+/**
+ * Records an error instead of printing it, so that
+ * only programs without errors are formatted.
+ */
+class FormatErrorListener implements ANTLRErrorListener<any> {
+  public hasError: boolean = false;
+
+  syntaxError(): void {
+    this.hasError = true;
+  }
+}
+
+/**
+ * Finds the header and "end" line of every model and function, so
+ * their bodies can be indented.
+ */
+class BlockVisitor extends AbstractParseTreeVisitor<void> implements AntimonyGrammarVisitor<void> {
+  // pairs of [header line, end line]
+  public blocks: [number, number][] = [];
+
+  protected defaultResult(): void {
+  }
+
+  visitModel(ctx: ModelContext) {
+    this.addBlock(ctx.NAME().symbol.line, ctx._stop?.line);
+  }
+
+  visitModular_model(ctx: Modular_modelContext) {
+    this.addBlock(ctx.NAME().symbol.line, ctx._stop?.line);
+  }
+
+  visitFunction(ctx: FunctionContext) {
+    this.addBlock(ctx.NAME().symbol.line, ctx._stop?.line);
+  }
+
+  private addBlock(start: number, end: number | undefined) {
+    if (end !== undefined) {
+      this.blocks.push([start, end]);
+    }
+  }
+}
+
+/**
+ * gets the number of spaces to put between two adjacent tokens on a line
+ * @param prev
+ * @param next
+ * @param originalGap the number of characters between them in the original text
+ * @returns 0 or 1
+ */
+function getSpacing(prev: Token, next: Token, originalGap: number): number {
+  if (noSpaceBefore.has(next.text || "") || noSpaceAfter.has(prev.text || "")) {
+    return 0;
+  }
+  if (spacedTokens.has(prev.type) || spacedTokens.has(next.type)) {
+    return 1;
+  }
+  if (next.text === ";" || next.text === ":") {
+    return 0;
+  }
+  if (prev.text === "," || prev.text === ";" || prev.text === ":") {
+    return 1;
+  }
+  // everything else, such as math operators, keeps whether it had a space.
+  return originalGap > 0 ? 1 : 0;
+}
+
+/**
+ * lexes and parses text
+ * @param text
+ * @returns the tokens and the model/function blocks, or undefined if text has errors
+ */
+function analyze(text: string) {
+  const errorListener = new FormatErrorListener();
+  const tokenStream = createTokenStream(text, errorListener);
+  const parser = new AntimonyGrammarParser(tokenStream);
+  parser.removeErrorListeners();
+  parser.addErrorListener(errorListener);
+  const tree = parser.root();
+  if (errorListener.hasError) {
+    return undefined;
+  }
+
+  const blockVisitor = new BlockVisitor();
+  blockVisitor.visit(tree);
+  const tokens: Token[] = tokenStream.getTokens().filter(
+    (token) => token.type !== Token.EOF && token.type !== AntimonyGrammarLexer.NEWLINE
+  );
+  return { tokens: tokens, blocks: blockVisitor.blocks };
+}
+
+/**
+ * @description formats each line of an antimony program. Lines keep their order, but a
+ *              line may be removed (extra blank lines) or get a blank line put before it
+ *              (to separate groups of declarations), so each line maps to a list of lines.
+ *              Comments and model notes are kept as they are.
+ * @param text the antimony program
+ * @returns the formatted lines for each line of text, or undefined if text can not be parsed
+ */
+export function formatAntimonyLines(text: string): string[][] | undefined {
+  text = text.replaceAll("\r", "");
+  const analysis = analyze(text);
+  if (!analysis) {
+    return undefined;
+  }
+
+  const lines: string[] = text.split("\n");
+  const lineTokens: Token[][] = lines.map(() => []);
+  const verbatimLines: Set<number> = new Set();
+  for (const token of analysis.tokens) {
+    if (token.type === AntimonyGrammarLexer.MULTILINE_STRING) {
+      // notes are written exactly as they are, including the lines they start and end on.
+      const lineCount: number = (token.text || "").split("\n").length;
+      for (let line = token.line; line < token.line + lineCount; line++) {
+        verbatimLines.add(line);
+      }
+    }
+    lineTokens[token.line - 1].push(token);
+  }
+
+  const depths: number[] = lines.map(() => 0);
+  const kinds: LineKind[] = lines.map(() => "statement");
+  for (const [start, end] of analysis.blocks) {
+    for (let line = start + 1; line < end; line++) {
+      depths[line - 1] = 1;
+    }
+    kinds[start - 1] = "blockStart";
+    kinds[end - 1] = "blockEnd";
+  }
+
+  const formatted: string[] = [];
+  let annotationColumn: number = -1;
+  for (let i = 0; i < lines.length; i++) {
+    const tokens: Token[] = lineTokens[i];
+    if (verbatimLines.has(i + 1)) {
+      kinds[i] = "verbatim";
+      formatted.push(lines[i]);
+      continue;
+    }
+
+    // comments are skipped by the lexer, so whatever follows the last token is the comment.
+    const lastToken: Token | undefined = tokens[tokens.length - 1];
+    const rest: string = lastToken ? lines[i].substring(lastToken.charPositionInLine + (lastToken.text || "").length) : lines[i];
+    const comment: string = rest.trim();
+
+    let indent: string = indentUnit.repeat(depths[i]);
+    if (tokens.length === 0) {
+      kinds[i] = comment === "" ? "blank" : "comment";
+      formatted.push(comment === "" ? "" : indent + comment);
+      continue;
+    }
+    if (kinds[i] === "statement" && declarationTokens.has(tokens[0].type)) {
+      kinds[i] = "declaration";
+    }
+
+    // annotation continuation lines line up with the first annotation.
+    const prevLine: string = formatted[i - 1] || "";
+    const isContinuation: boolean = tokens[0].type === AntimonyGrammarLexer.ESCAPED_STRING
+      && prevLine.endsWith(",") && annotationColumn !== -1;
+    if (isContinuation) {
+      indent = " ".repeat(annotationColumn);
+      kinds[i] = kinds[i - 1];
+    }
+
+    let line: string = indent + tokens[0].text;
+    for (let j = 1; j < tokens.length; j++) {
+      const prev: Token = tokens[j - 1];
+      const originalGap: number = tokens[j].charPositionInLine - (prev.charPositionInLine + (prev.text || "").length);
+      if (tokens[j].type === AntimonyGrammarLexer.ESCAPED_STRING && !isContinuation && annotationColumn === -1) {
+        annotationColumn = line.length + getSpacing(prev, tokens[j], originalGap);
+      }
+      line += " ".repeat(getSpacing(prev, tokens[j], originalGap)) + tokens[j].text;
+    }
+    if (!line.endsWith(",")) {
+      annotationColumn = -1;
+    } else if (annotationColumn === -1) {
+      annotationColumn = indent.length;
+    }
+    formatted.push(comment === "" ? line : line + " " + comment);
+  }
+
+  return arrangeBlankLines(formatted, kinds);
+}
+
+/**
+ * @description removes extra blank lines, and puts a blank line between each
+ *              group of declarations and the statements around it.
+ * @param formatted the formatted lines
+ * @param kinds the kind of each line
+ * @returns the lines that each formatted line becomes
+ */
+function arrangeBlankLines(formatted: string[], kinds: LineKind[]): string[][] {
+  const result: string[][] = formatted.map((line) => [line]);
+  let prevKind: LineKind | undefined = undefined;
+  for (let i = 0; i < formatted.length; i++) {
+    const kind: LineKind = kinds[i];
+    if (kind === "blank") {
+      const nextKind: LineKind | undefined = kinds.slice(i + 1).find((k) => k !== "blank");
+      const isExtra: boolean = prevKind === undefined || prevKind === "blank" || prevKind === "blockStart"
+        || nextKind === undefined || nextKind === "blockEnd";
+      if (isExtra) {
+        result[i] = [];
+        continue;
+      }
+    } else if (prevKind !== undefined) {
+      const isGroupChange: boolean = (kind === "declaration" && prevKind === "statement")
+        || (kind === "statement" && prevKind === "declaration");
+      if (isGroupChange) {
+        result[i] = ["", formatted[i]];
+      }
+    }
+    prevKind = kind;
+  }
+  return result;
+}
+
+/**
+ * @description formats an antimony program.
+ * @param text the antimony program
+ * @returns the formatted program, or text unchanged if it can not be parsed
+ */
+export function formatAntimony(text: string): string {
+  const formatted: string[][] | undefined = formatAntimonyLines(text);
+  if (!formatted) {
+    return text;
+  }
+  return formatted.flat().join("\n") + (text.endsWith("\n") ? "\n" : "");
+}
+
+/**
+ * gets the edit that replaces lines startLine to endLine with their formatted version
+ * @param model
+ * @param startLine
+ * @param endLine
+ * @returns the edits, empty if there is nothing to change or the program can not be parsed
+ */
+function getRangeFormattingEdits(model: monaco.editor.ITextModel, startLine: number, endLine: number): monaco.languages.TextEdit[] {
+  const formatted: string[][] | undefined = formatAntimonyLines(model.getValue());
+  if (!formatted) {
+    return [];
+  }
+  const newLines: string[] = formatted.slice(startLine - 1, endLine).flat();
+  let range = new monaco.Range(startLine, 1, endLine, model.getLineMaxColumn(endLine));
+  if (newLines.length === 0) {
+    // every line is removed, so their line breaks go too.
+    const prevLine: number = Math.max(startLine - 1, 1);
+    range = endLine < model.getLineCount()
+      ? new monaco.Range(startLine, 1, endLine + 1, 1)
+      : new monaco.Range(prevLine, model.getLineMaxColumn(prevLine), endLine, model.getLineMaxColumn(endLine));
+  }
+  const text: string = newLines.join("\n");
+  if (model.getValueInRange(range) === text) {
+    return [];
+  }
+  return [{ range: range, text: text }];
+}
+
+/**
+ * @description registers the document and range formatting providers for the antimony language.
+ * @returns disposables that remove the formatting providers
+ */
+export function registerFormattingProviders(): monaco.IDisposable[] {
+  return [
+    monaco.languages.registerDocumentFormattingEditProvider("antimony", {
+      displayName: "Antimony",
+      provideDocumentFormattingEdits: (model) => {
+        const formatted: string = formatAntimony(model.getValue());
+        if (formatted === model.getValue()) {
+          return [];
+        }
+        return [{ range: model.getFullModelRange(), text: formatted }];
+      },
+    }),
+    monaco.languages.registerDocumentRangeFormattingEditProvider("antimony", {
+      displayName: "Antimony",
+      provideDocumentRangeFormattingEdits: (model, range) => {
+        return getRangeFormattingEdits(model, range.startLineNumber, range.endLineNumber);
+      },
+    }),
+  ];
+}
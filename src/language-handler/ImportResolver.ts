@@ -0,0 +1,111 @@
+import { AntimonyGrammarParser } from "./antlr/AntimonyGrammarParser";
+import { GlobalST } from "./SymbolTableClasses";
+import { SymbolTableVisitor } from "./SymbolTableVisitor";
+import { createTokenStream } from "./TokenStream";
+
+/**
+ * What an import statement resolved to. A file that imports itself, directly
+ * or through other files, is a cycle, and cycle holds the chain of file names,
+ * ie ["a.ant", "b.ant", "a.ant"].
+ */
+export type ImportResult =
+  | { kind: "found"; fileName: string; globalST: GlobalST; cycle: string[] | undefined }
+  | { kind: "cycle"; fileName: string; cycle: string[] }
+  | { kind: "notFound" };
+
+/**
+ * Resolves import statements against the files the user has stored (the
+ * IndexedDB "files" store), building a symbol table for each imported file
+ * that the importing file can take models and functions from.
+ */
+export class ImportResolver {
+  // file name to content
+  private files: Map<string, string>;
+  private fileName: string;
+  // the files currently being analyzed, the analyzed program first.
+  private importing: string[];
+  private symbolTables: Map<string, GlobalST>;
+  // the first cycle found while analyzing each file, including through its imports.
+  private cycles: Map<string, string[]>;
+
+  /**
+   * @param files the content of each stored file, by file name
+   * @param fileName the name of the file being analyzed, so that it can not import itself
+   */
+  constructor(files: Map<string, string>, fileName: string) {
+    this.files = files;
+    this.fileName = fileName;
+    this.importing = [fileName];
+    this.symbolTables = new Map();
+    this.cycles = new Map();
+  }
+
+  /**
+   * finds the stored file an import refers to, by its exact name, its name
+   * without any directories, or its name with ".ant" added. The analyzed file
+   * is found too, even if it has not been stored yet.
+   * @param importName the file name in the import statement, without quotes
+   * @returns the name of the stored file, or undefined if there is none
+   */
+  findFile(importName: string): string | undefined {
+    const baseName: string = importName.substring(importName.lastIndexOf("/") + 1);
+    for (const candidate of [importName, baseName, baseName + ".ant"]) {
+      if (this.files.has(candidate) || (candidate === this.fileName && candidate !== "")) {
+        return candidate;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * @description resolves an import statement in the file currently being analyzed,
+   *              analyzing the imported file (and what it imports) the first time.
+   * @param importName the file name in the import statement, without quotes
+   * @returns the result of the import
+   */
+  resolve(importName: string): ImportResult {
+    const fileName: string | undefined = this.findFile(importName);
+    if (fileName === undefined) {
+      return { kind: "notFound" };
+    }
+
+    const cycleStart: number = this.importing.indexOf(fileName);
+    if (cycleStart !== -1) {
+      const cycle: string[] = [...this.importing.slice(cycleStart), fileName];
+      // every file being analyzed imports fileName, so they all lead to the cycle.
+      for (const importingFile of this.importing) {
+        if (!this.cycles.has(importingFile)) {
+          this.cycles.set(importingFile, cycle);
+        }
+      }
+      return { kind: "cycle", fileName: fileName, cycle: cycle };
+    }
+
+    let globalST: GlobalST | undefined = this.symbolTables.get(fileName);
+    if (!globalST) {
+      globalST = this.analyzeFile(fileName);
+    }
+    return { kind: "found", fileName: fileName, globalST: globalST, cycle: this.cycles.get(fileName) };
+  }
+
+  /**
+   * builds the symbol table of a stored file. Errors are left out, as
+   * they are shown when the file itself is opened.
+   * @param fileName
+   * @returns the symbol table of the file
+   */
+  private analyzeFile(fileName: string): GlobalST {
+    const content: string = (this.files.get(fileName) || "").replaceAll("\r", "");
+    const parser = new AntimonyGrammarParser(createTokenStream(content, {}));
+    parser.removeErrorListeners();
+    const tree = parser.root();
+
+    const globalST: GlobalST = new GlobalST();
+    globalST.endLine = tree._stop?.line;
+    this.importing.push(fileName);
+    new SymbolTableVisitor(globalST, this).visit(tree);
+    this.importing.pop();
+    this.symbolTables.set(fileName, globalST);
+    return globalST;
+  }
+}
@@ -0,0 +1,390 @@
+import {
+  ANTLRErrorListener,
+  CommonToken,
+  CommonTokenStream,
+  ListTokenSource,
+  ParserRuleContext,
+  RecognitionException,
+  Recognizer,
+  Token,
+} from "antlr4ts";
+import { ParseTree } from "antlr4ts/tree";
+import { AntimonyGrammarLexer } from "./antlr/AntimonyGrammarLexer";
+import {
+  AntimonyGrammarParser,
+  ModelContext,
+  Modular_modelContext,
+  RootContext,
+  Simple_stmt_listContext,
+} from "./antlr/AntimonyGrammarParser";
+import { createTokenStream } from "./TokenStream";
+
+const moduleToken = AntimonyGrammarLexer.T__0; // 'module'
+const starToken = AntimonyGrammarLexer.T__1; // '*'
+const emptyParensToken = AntimonyGrammarLexer.T__2; // '()'
+const commaToken = AntimonyGrammarLexer.T__8; // ','
+const semicolonToken = AntimonyGrammarLexer.T__14; // ';'
+const openParenToken = AntimonyGrammarLexer.T__21; // '('
+const closeParenToken = AntimonyGrammarLexer.T__22; // ')'
+const functionToken = AntimonyGrammarLexer.T__29; // 'function'
+
+/**
+ * Defines a parse error, which includes a position (line, column) as well as the error message.
+ */
+export type parseErrors = {
+  line: number;
+  column: number;
+  msg: string;
+};
+
+// copied from ModelParser for now
+export class ErrorListener implements ANTLRErrorListener<any> {
+  private errors: parseErrors[] = [];
+
+  syntaxError<T>(
+      recognizer: Recognizer<T, any>,
+      offendingSymbol: T,
+      line: number,
+      charPositionInLine: number,
+      msg: string,
+      e: RecognitionException | undefined
+  ): void {
+    this.errors.push({ line: line, column: charPositionInLine, msg: msg });
+  }
+
+  getErrors(): parseErrors[] {
+    return this.errors;
+  }
+}
+
+/**
+ * A piece of the program that is parsed on its own. A model is split into
+ * its header ("model M()") and end, which are always parsed again since they
+ * are short, and its statements, which are parsed on their own like the
+ * statements and functions outside of models.
+ */
+type Block =
+  | { kind: "statement"; tokens: Token[] }
+  | { kind: "model"; header: Token[]; statements: Token[][]; end: Token | undefined };
+
+/**
+ * A statement or function that has been parsed, kept so that
+ * it does not have to be parsed again while it is unchanged.
+ */
+type ParsedBlock = {
+  // the children of the root that the block parsed to
+  trees: ParseTree[];
+  // every token of the block, so they can be moved to other lines
+  tokens: Token[];
+  // the line the block starts at
+  line: number;
+  hasErrors: boolean;
+};
+
+/**
+ * Parses an antimony program again after each edit, only parsing the statements,
+ * functions and model headers that changed. The rest of the parse tree is built
+ * out of the blocks parsed before, which are moved to their new lines.
+ * The symbol tables are not patched but built again from the whole tree. On a 10500 line
+ * model laid out like a converted BioModels model (npm run benchmark:analysis), an edit is
+ * analyzed in about 370 ms, 260 ms of which is visiting, against 4.5 s for a full analysis,
+ * and the analysis runs in the analysis worker, so typing does not wait for it. A program with
+ * a syntax error is parsed as a whole, so its errors are the ones a full parse finds.
+ */
+export class IncrementalParser {
+  // the blocks of the last parsed program, by their column and text.
+  private parsedBlocks: Map<string, ParsedBlock[]> = new Map();
+  private reparsedBlockCount: number = 0;
+
+  /**
+   * @description parses the program, reusing the blocks that did not change since the last parse.
+   * @param text the antimony program, without carriage returns
+   * @returns the parse tree of the whole program, and the syntax errors in it
+   */
+  parse(text: string): { tree: RootContext; errors: parseErrors[] } {
+    const tokenStream: CommonTokenStream = createTokenStream(text);
+    const tokens: Token[] = tokenStream.getTokens().filter((token) => token.type !== Token.EOF);
+    const lastParsedBlocks: Map<string, ParsedBlock[]> = this.parsedBlocks;
+    // reversed, so that repeated blocks, ie blank lines, are popped in the order they were in.
+    lastParsedBlocks.forEach((sameBlocks) => sameBlocks.reverse());
+    this.parsedBlocks = new Map();
+    this.reparsedBlockCount = 0;
+
+    const tree: RootContext = new RootContext(undefined, 0);
+    let hasErrors: boolean = false;
+    const parseBlock = (blockTokens: Token[]): ParsedBlock => {
+      const parsedBlock: ParsedBlock = this.getParsedBlock(text, blockTokens, lastParsedBlocks);
+      hasErrors = hasErrors || parsedBlock.hasErrors;
+      return parsedBlock;
+    };
+
+    // every block is still parsed after an error, so that they can be reused once it is fixed.
+    for (const block of getBlocks(tokens)) {
+      if (block.kind === "statement") {
+        parseBlock(block.tokens).trees.forEach((child) => addChild(tree, child));
+        continue;
+      }
+      const statementTrees: ParseTree[] = block.statements.flatMap((statement) => parseBlock(statement).trees);
+      const model: ParsedBlock = parseModelHeader(block.header, block.statements.length > 0, block.end);
+      const modelCtx: ParseTree | undefined = model.trees[0];
+      // a header with an error, ie "model m(", may not have parsed to a model at all.
+      const statementList: Simple_stmt_listContext | undefined = !model.hasErrors
+          && (modelCtx instanceof ModelContext || modelCtx instanceof Modular_modelContext)
+          ? modelCtx.tryGetRuleContext(0, Simple_stmt_listContext)
+          : undefined;
+      if (!statementList) {
+        hasErrors = true;
+        continue;
+      }
+      statementList.children = [];
+      statementTrees.forEach((child) => addChild(statementList, child));
+      if (block.statements.length > 0) {
+        statementList._start = block.statements[0][0];
+        statementList._stop = block.statements[block.statements.length - 1].slice(-1)[0];
+      }
+      model.trees.forEach((child) => addChild(tree, child));
+    }
+
+    if (hasErrors) {
+      // the parser recovers from a syntax error with the tokens after it, which may be in other
+      // blocks, so only parsing the whole program gives the same tree and errors a full parse does.
+      return parseProgram(tokenStream);
+    }
+    if (tokens.length > 0) {
+      tree._start = tokens[0];
+      tree._stop = tokens[tokens.length - 1];
+    }
+    return { tree: tree, errors: [] };
+  }
+
+  /**
+   * @returns the number of statements and functions that had to be parsed in the last parse
+   */
+  getReparsedBlockCount(): number {
+    return this.reparsedBlockCount;
+  }
+
+  /**
+   * gets the parse of a block from the last parse if it is unchanged, moving it to the
+   * line it is now on, or otherwise parses it.
+   * @param text the program the tokens are from
+   * @param tokens the tokens of the block
+   * @param lastParsedBlocks the blocks of the last parse that have not been used yet
+   */
+  private getParsedBlock(text: string, tokens: Token[], lastParsedBlocks: Map<string, ParsedBlock[]>): ParsedBlock {
+    const first: Token = tokens[0];
+    const last: Token = tokens[tokens.length - 1];
+    // the column is part of the key, since a statement after a ";" moves when the one before it changes.
+    const key: string = first.charPositionInLine + ":" + text.substring(first.startIndex, last.stopIndex + 1);
+
+    let parsedBlock: ParsedBlock | undefined = lastParsedBlocks.get(key)?.pop();
+    if (parsedBlock) {
+      moveBlock(parsedBlock, first.line);
+    } else {
+      parsedBlock = parseTokens(tokens);
+      this.reparsedBlockCount++;
+    }
+
+    const sameBlocks: ParsedBlock[] | undefined = this.parsedBlocks.get(key);
+    if (sameBlocks) {
+      sameBlocks.push(parsedBlock);
+    } else {
+      this.parsedBlocks.set(key, [parsedBlock]);
+    }
+    return parsedBlock;
+  }
+}
+
+/**
+ * splits the tokens of a program into the blocks that are parsed on their own.
+ * @param tokens the tokens of the program, without EOF
+ */
+function getBlocks(tokens: Token[]): Block[] {
+  const blocks: Block[] = [];
+  let i: number = 0;
+  while (i < tokens.length) {
+    if (isModelStart(tokens, i)) {
+      const headerEnd: number = getModelHeaderEnd(tokens, i);
+      const header: Token[] = tokens.slice(i, headerEnd);
+      const statements: Token[][] = [];
+      i = headerEnd;
+      // a model missing its "end" stops at the next model or function.
+      while (i < tokens.length && tokens[i].type !== AntimonyGrammarLexer.END
+          && !isModelStart(tokens, i) && tokens[i].type !== functionToken) {
+        const statementEnd: number = getStatementEnd(tokens, i);
+        statements.push(tokens.slice(i, statementEnd));
+        i = statementEnd;
+      }
+      let end: Token | undefined;
+      if (i < tokens.length && tokens[i].type === AntimonyGrammarLexer.END) {
+        end = tokens[i];
+        i++;
+      }
+      blocks.push({ kind: "model", header: header, statements: statements, end: end });
+    } else if (tokens[i].type === functionToken) {
+      let end: number = i + 1;
+      while (end < tokens.length && tokens[end].type !== AntimonyGrammarLexer.END) {
+        end++;
+      }
+      end = Math.min(end + 1, tokens.length);
+      blocks.push({ kind: "statement", tokens: tokens.slice(i, end) });
+      i = end;
+    } else {
+      const statementEnd: number = getStatementEnd(tokens, i);
+      blocks.push({ kind: "statement", tokens: tokens.slice(i, statementEnd) });
+      i = statementEnd;
+    }
+  }
+  return blocks;
+}
+
+/**
+ * @param tokens
+ * @param i
+ * @returns true if the token at i starts a model or modular model, and not
+ *          a model annotation such as "model identity ..."
+ */
+function isModelStart(tokens: Token[], i: number): boolean {
+  if (tokens[i].type === moduleToken) {
+    return true;
+  }
+  const next: Token | undefined = tokens[i + 1];
+  return tokens[i].type === AntimonyGrammarLexer.MODEL && next !== undefined
+      && (next.type === starToken || next.type === AntimonyGrammarLexer.NAME);
+}
+
+/**
+ * @param tokens
+ * @param start the index of the "model" token
+ * @returns the index of the first token after the model header, ie after "model *M(x, y)"
+ */
+function getModelHeaderEnd(tokens: Token[], start: number): number {
+  let i: number = start + 1;
+  if (tokens[i]?.type === starToken) {
+    i++;
+  }
+  if (tokens[i]?.type === AntimonyGrammarLexer.NAME) {
+    i++;
+  }
+  if (tokens[i]?.type === emptyParensToken) {
+    i++;
+  } else if (tokens[i]?.type === openParenToken) {
+    while (i < tokens.length && tokens[i].type !== closeParenToken && tokens[i].type !== AntimonyGrammarLexer.NEWLINE) {
+      i++;
+    }
+    if (tokens[i]?.type === closeParenToken) {
+      i++;
+    }
+  }
+  return i;
+}
+
+/**
+ * @param tokens
+ * @param start the index of the first token of the statement
+ * @returns the index of the first token after the statement, which ends with a ";" or
+ *          newline. A newline after a "," continues an annotation on the next line.
+ */
+function getStatementEnd(tokens: Token[], start: number): number {
+  // the ";" of a reaction comes before its rate law, and does not end it.
+  let inReaction: boolean = false;
+  for (let i = start; i < tokens.length; i++) {
+    const type: number = tokens[i].type;
+    if (i > start && (type === AntimonyGrammarLexer.END || type === functionToken || isModelStart(tokens, i))) {
+      return i;
+    }
+    if (type === AntimonyGrammarLexer.ARROW) {
+      inReaction = true;
+    } else if (type === semicolonToken && inReaction) {
+      inReaction = false;
+    } else if (type === semicolonToken
+        || (type === AntimonyGrammarLexer.NEWLINE && tokens[i - 1]?.type !== commaToken)) {
+      return i + 1;
+    }
+  }
+  return tokens.length;
+}
+
+/**
+ * parses the header and end of a model, with an empty statement in place of the model's
+ * statements so that the parse tree has a statement list to put them in.
+ * @param header the tokens of the header
+ * @param hasStatements if false, no statement is added, so the missing statements are reported
+ * @param end the "end" token, if the model has one
+ */
+function parseModelHeader(header: Token[], hasStatements: boolean, end: Token | undefined): ParsedBlock {
+  const tokens: Token[] = [...header];
+  if (hasStatements) {
+    const last: Token = header[header.length - 1];
+    const newline: CommonToken = new CommonToken(AntimonyGrammarLexer.NEWLINE, "\n");
+    newline.line = last.line;
+    newline.charPositionInLine = last.charPositionInLine + (last.text?.length || 0);
+    tokens.push(newline);
+  }
+  if (end) {
+    tokens.push(end);
+  }
+  return parseTokens(tokens);
+}
+
+/**
+ * parses the whole program from the root rule.
+ * @param tokenStream the filled token stream of the program
+ */
+function parseProgram(tokenStream: CommonTokenStream): { tree: RootContext; errors: parseErrors[] } {
+  // parsing the blocks numbered their tokens within each block, and errors get their text by these numbers.
+  tokenStream.getTokens().forEach((token, i) => {
+    (token as CommonToken).tokenIndex = i;
+  });
+  const parser = new AntimonyGrammarParser(tokenStream);
+  const errorListener = new ErrorListener();
+  parser.removeErrorListeners();
+  parser.addErrorListener(errorListener);
+  return { tree: parser.root(), errors: errorListener.getErrors() };
+}
+
+/**
+ * parses a block from the root rule, the same way the whole program is parsed.
+ * @param tokens
+ */
+function parseTokens(tokens: Token[]): ParsedBlock {
+  const tokenStream: CommonTokenStream = new CommonTokenStream(new ListTokenSource([...tokens, new CommonToken(Token.EOF)]));
+  const parser = new AntimonyGrammarParser(tokenStream);
+  const errorListener = new ErrorListener();
+  parser.removeErrorListeners();
+  parser.addErrorListener(errorListener);
+
+  const root: RootContext = parser.root();
+  return {
+    trees: root.children || [],
+    tokens: tokens,
+    line: tokens[0].line,
+    hasErrors: errorListener.getErrors().length > 0,
+  };
+}
+
+/**
+ * moves a parsed block to the line it now starts at.
+ * @param parsedBlock
+ * @param line
+ */
+function moveBlock(parsedBlock: ParsedBlock, line: number): void {
+  const lineDelta: number = line - parsedBlock.line;
+  if (lineDelta === 0) {
+    return;
+  }
+  parsedBlock.tokens.forEach((token) => {
+    (token as CommonToken).line += lineDelta;
+  });
+  parsedBlock.line = line;
+}
+
+/**
+ * adds a child parsed on its own to a context of the tree being built.
+ * @param parent
+ * @param child
+ */
+function addChild(parent: ParserRuleContext, child: ParseTree): void {
+  parent.addAnyChild(child);
+  child.setParent(parent);
+}
@@ -0,0 +1,169 @@
+import { DottedNameResolution, GlobalST, Reaction, ReactionSpecies, SymbolTable } from "./SymbolTableClasses";
+import { SrcRange, varTypes } from "./Types";
+import { Variable } from "./Variable";
+
+/**
+ * A hint shown right after an id, ie the "[10 mM, in cell]" after "S1".
+ * Lines and columns start at 1, column is where the id ends.
+ */
+export type AntimonyInlayHint = {
+  line: number;
+  column: number;
+  label: string;
+  // "value" hints are about a variable, "equation" hints are about a reaction
+  kind: "value" | "equation";
+};
+
+const inlayHintsKey = "inlay_hints";
+
+/**
+ * loads whether inlay hints are shown from local storage
+ * @returns the saved choice, inlay hints are shown if there is none
+ */
+export function loadInlayHintsOn(): boolean {
+  if (typeof window === "undefined" || !window.localStorage) {
+    return true;
+  }
+  return window.localStorage.getItem(inlayHintsKey) !== "off";
+}
+
+/**
+ * saves whether inlay hints are shown to local storage, so the choice persists across sessions
+ * @param inlayHintsOn
+ */
+export function saveInlayHintsOn(inlayHintsOn: boolean): void {
+  window.localStorage.setItem(inlayHintsKey, inlayHintsOn ? "on" : "off");
+}
+
+/**
+ * @param species
+ * @returns the species as it is written in a reaction, ie "2 $S1"
+ */
+function getSpeciesText(species: ReactionSpecies): string {
+  return (species.stoichiometry !== 1 ? species.stoichiometry + " " : "") + (species.isBoundary ? "$" : "") + species.name;
+}
+
+/**
+ * @param reaction
+ * @returns the equation of the reaction, ie "2 $S1 -> S2; k*S1"
+ */
+export function getReactionEquation(reaction: Reaction): string {
+  const reactants: string = reaction.reactants.map(getSpeciesText).join(" + ");
+  const products: string = reaction.products.map(getSpeciesText).join(" + ");
+  const equation: string = [reactants, reaction.isReversible ? "->" : "=>", products].filter((part) => part !== "").join(" ");
+  return reaction.rateLaw !== undefined ? equation + "; " + reaction.rateLaw : equation;
+}
+
+/**
+ * @param varInfo
+ * @returns the label of the hint shown after the variable, ie "[10 mM, in cell]",
+ *          or undefined if nothing is known about it
+ */
+function getVariableLabel(varInfo: Variable): string | undefined {
+  const parts: string[] = [];
+  let value: string | undefined = varInfo.value;
+  // the value keeps the unit it is written with, ie "10mM".
+  if (value !== undefined && varInfo.unit !== undefined && value.endsWith(varInfo.unit) && value !== varInfo.unit) {
+    value = value.substring(0, value.length - varInfo.unit.length);
+  }
+  const valueWithUnit: string = [value, varInfo.unit].filter((part) => part !== undefined).join(" ");
+  if (valueWithUnit !== "") {
+    parts.push(valueWithUnit);
+  }
+  if (varInfo.compartment !== undefined) {
+    parts.push("in " + varInfo.compartment);
+  }
+  if (varInfo.displayName !== undefined) {
+    parts.push(varInfo.displayName);
+  }
+  return parts.length > 0 ? "[" + parts.join(", ") + "]" : undefined;
+}
+
+/**
+ * @param range
+ * @param container
+ * @returns whether range starts inside of container
+ */
+function startsInside(range: SrcRange, container: SrcRange): boolean {
+  const { line, column } = range.start;
+  return (line > container.start.line || (line === container.start.line && column >= container.start.column))
+      && (line < container.end.line || (line === container.end.line && column < container.end.column));
+}
+
+/**
+ * @description builds the hints of the ids referenced in table.
+ * @param globalST
+ * @param table the symbol table of a scope
+ * @param hints the hints found so far, by location
+ */
+function addScopeHints(globalST: GlobalST, table: SymbolTable, hints: Map<string, AntimonyInlayHint>): void {
+  for (const [id, idInfo] of table.getVarMap()) {
+    if (table.submodels.has(id)) {
+      continue;
+    }
+    let varInfo: Variable = idInfo;
+    let reactions: Reaction[] = table.reactions;
+    let name: string = id;
+    // a dotted name, ie "A.x", is hinted with what is known about x inside of its submodel.
+    if (id.includes(".")) {
+      const resolution: DottedNameResolution | undefined = globalST.resolveDottedName(table, id);
+      if (resolution?.kind !== "member") {
+        continue;
+      }
+      varInfo = resolution.varInfo;
+      reactions = resolution.modelST.reactions;
+      name = resolution.memberName;
+    }
+
+    let label: string | undefined;
+    let kind: AntimonyInlayHint["kind"];
+    // where the id is not hinted, ie its own reaction, which already shows its equation.
+    let skipped: SrcRange | undefined;
+    // where the id is hinted, a variable is hinted in reactions and rate laws only.
+    let hinted: SrcRange[] | undefined;
+    if (varInfo.type === varTypes.Reaction) {
+      const reaction: Reaction | undefined = reactions.find((reaction) => reaction.id === name);
+      label = reaction && "[" + getReactionEquation(reaction) + "]";
+      kind = "equation";
+      skipped = reaction && reactions === table.reactions ? reaction.srcRange : undefined;
+    } else if (varInfo.type !== varTypes.ModularModel && varInfo.type !== varTypes.Model
+        && varInfo.type !== varTypes.Function && varInfo.type !== varTypes.Unit) {
+      label = getVariableLabel(varInfo);
+      kind = "value";
+      hinted = table.reactions.map((reaction) => reaction.srcRange);
+    } else {
+      continue;
+    }
+    if (label === undefined) {
+      continue;
+    }
+
+    for (const [location, range] of idInfo.refLocations) {
+      if (range.start.line < 1 || range.start.line !== range.end.line || hints.has(location)
+          || (skipped && startsInside(range, skipped))
+          || (hinted && !hinted.some((reactionRange) => startsInside(range, reactionRange)))) {
+        continue;
+      }
+      hints.set(location, { line: range.end.line, column: range.end.column, label: label, kind: kind });
+    }
+  }
+}
+
+/**
+ * @description finds the inlay hints of the analyzed program. The ids in reactions and rate laws
+ *              are followed by their value, unit, compartment and display name, and reaction
+ *              ids outside of their own reaction are followed by the reaction's equation.
+ * @param globalST symbol table of the analyzed program
+ * @returns the hints, ordered by position
+ */
+export function getInlayHints(globalST: GlobalST): AntimonyInlayHint[] {
+  const hints: Map<string, AntimonyInlayHint> = new Map();
+  addScopeHints(globalST, globalST, hints);
+  // imported models are hinted in their own files.
+  for (const modelST of globalST.getModelMap().values()) {
+    if (modelST.fileName === undefined) {
+      addScopeHints(globalST, modelST, hints);
+    }
+  }
+  return Array.from(hints.values()).sort((a, b) => a.line - b.line || a.column - b.column);
+}
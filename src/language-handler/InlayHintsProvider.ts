@@ -0,0 +1,31 @@
+import * as monaco from "monaco-editor";
+import { AntimonyInlayHint, getInlayHints } from "./InlayHints";
+import { GlobalST } from "./SymbolTableClasses";
+
+/**
+ * @description registers an inlay hints provider, which shows what is known about the ids
+ *              in reactions and the equations of reactions right after their ids. The hints
+ *              are turned on and off with the "inlayHints.enabled" option of the editor.
+ * @param globalST symbol table of the analyzed program
+ * @returns disposable that removes the inlay hints provider
+ */
+export function registerInlayHintsProvider(globalST: GlobalST): monaco.IDisposable {
+  return monaco.languages.registerInlayHintsProvider("antimony", {
+    provideInlayHints: (model, range) => {
+      if (model.isDisposed()) {
+        return { hints: [], dispose: () => {} };
+      }
+      const hints: AntimonyInlayHint[] = getInlayHints(globalST)
+        .filter((hint) => hint.line >= range.startLineNumber && hint.line <= range.endLineNumber);
+      return {
+        hints: hints.map((hint) => ({
+          label: hint.label,
+          position: { lineNumber: hint.line, column: hint.column },
+          kind: hint.kind === "value" ? monaco.languages.InlayHintKind.Type : monaco.languages.InlayHintKind.Parameter,
+          paddingLeft: true,
+        })),
+        dispose: () => {},
+      };
+    },
+  });
+}
@@ -1,72 +1,159 @@
 import * as monaco from "monaco-editor";
-import {
-  ANTLRErrorListener,
-  ANTLRInputStream,
-  CommonTokenStream,
-  RecognitionException,
-  Recognizer,
-  Token,
-} from "antlr4ts";
-import { AntimonyGrammarLexer } from "./antlr/AntimonyGrammarLexer";
-import { AntimonyGrammarParser, RootContext } from "./antlr/AntimonyGrammarParser";
 import { GlobalST, ParamAndNameTable } from "./SymbolTableClasses";
-import { SymbolTableVisitor } from "./SymbolTableVisitor";
-import { SemanticVisitor } from "./SemanticVisitor";
 import { ErrorUnderline, SrcPosition, SrcRange, isSubtTypeOf, varTypes } from "./Types";
 import { predefinedConstants, Variable } from "./Variable";
 import { editor} from "monaco-editor";
+import { registerCompletionProvider } from "./CompletionProvider";
+import { getImportedFileUri, registerDefinitionProvider, registerReferenceProvider } from "./NavigationProvider";
+import { registerRenameProvider } from "./RenameProvider";
+import { registerCodeActionProvider } from "./CodeActionProvider";
+import { registerDocumentSymbolProvider } from "./DocumentSymbolProvider";
+import { registerSemanticTokensProvider } from "./SemanticTokensProvider";
+import { registerSignatureHelpProvider } from "./SignatureHelpProvider";
+import { registerInlayHintsProvider } from "./InlayHintsProvider";
+import { registerFoldingRangeProvider } from "./FoldingRangeProvider";
+import { registerFormattingProviders } from "./Formatter";
+import { applyDiagnosticSettings, DiagnosticSettings } from "./DiagnosticSettings";
+import { IncrementalParser } from "./IncrementalParser";
+import { ProgramAnalysis } from "./ProgramAnalysis";
+import { AnalysisWorkerClient } from "./AnalysisWorkerClient";
+import { HoverLookup } from "./AnalysisProtocol";
+import { getHoverLookup } from "./AnalysisService";
+import { getSrcRangeSnapshot, getVariableFromSnapshot } from "./SymbolTableSnapshot";
+
+// language feature providers (completion, etc) from the most recent analysis of each editor.
+// unlike hovers these are not disposed on every edit, since monaco asks for
+// them right after a keystroke, so they are replaced once the next analysis is done.
+const languageFeatureDisposables: WeakMap<monaco.editor.IStandaloneCodeEditor, monaco.IDisposable[]> = new WeakMap();
+
+// the parser of each editor model, which keeps the blocks that are unchanged between edits.
+const incrementalParsers: WeakMap<monaco.editor.ITextModel, IncrementalParser> = new WeakMap();
 
 /**
- * Defines a parse error, which includes a position (line, column) as well as the error message.
+ * @description Analyzes an antimony file, does error checking, and adds general hover information.
+ * @param editor the monaco editor whose contents are to be semantic checked
+ * @param annotHighlightOn boolean for if annotation highlighting should be on
+ * @param setGeneralHoverInfo boolean that determines if variable hover info should be added.
+ * @param decorations
+ * @param files the stored files that imports are resolved against, by name. Imports are not
+ *              followed if this is left out.
+ * @param fileName the name of the file in the editor
+ * @param diagnosticSettings the severity of each diagnostic code the user changed
+ * @returns {GlobalST} the complete symbol table representing the program in the monaco editor.
  */
-type parseErrors = {
-  line: number;
-  column: number;
-  msg: string;
+export const ModelSemanticsChecker = (
+    editor: monaco.editor.IStandaloneCodeEditor,
+    annotHighlightOn: boolean,
+    setGeneralHoverInfo: boolean,
+    highlightColor: string,
+    existingDecorations: string[],
+    files?: Map<string, string>,
+    fileName: string = "",
+    diagnosticSettings: DiagnosticSettings = {}
+): { symbolTable: GlobalST; decorations: string[] } => {
+  const textModel: monaco.editor.ITextModel | null = editor.getModel();
+  let incrementalParser: IncrementalParser | undefined;
+  if (textModel) {
+    incrementalParser = incrementalParsers.get(textModel) || new IncrementalParser();
+    incrementalParsers.set(textModel, incrementalParser);
+  }
+  const antAnalyzer = new AntimonyProgramAnalyzer(editor.getValue(), highlightColor, files, fileName, incrementalParser);
+  return showAnalysis(editor, antAnalyzer, annotHighlightOn, setGeneralHoverInfo, existingDecorations, diagnosticSettings, files);
 };
 
-// copied from ModelParser for now
-class ErrorListener implements ANTLRErrorListener<any> {
-  private errors: parseErrors[] = [];
-
-  syntaxError<T>(
-      recognizer: Recognizer<T, any>,
-      offendingSymbol: T,
-      line: number,
-      charPositionInLine: number,
-      msg: string,
-      e: RecognitionException | undefined
-  ): void {
-    this.errors.push({ line: line, column: charPositionInLine, msg: msg });
+/**
+ * @description Analyzes an antimony file in the analysis worker, so the editor does not stall
+ *              while it is checked, then shows its errors and hovers like ModelSemanticsChecker.
+ * @param client the client of the analysis worker
+ * @param editor the monaco editor whose contents are to be semantic checked
+ * @param annotHighlightOn boolean for if annotation highlighting should be on
+ * @param highlightColor
+ * @param existingDecorations
+ * @param files the stored files that imports are resolved against, by name
+ * @param fileName the name of the file in the editor
+ * @param diagnosticSettings the severity of each diagnostic code the user changed
+ * @returns the symbol table and decorations, or undefined if the editor changed while it was being analyzed
+ */
+export const checkModelInWorker = async (
+    client: AnalysisWorkerClient,
+    editor: monaco.editor.IStandaloneCodeEditor,
+    annotHighlightOn: boolean,
+    highlightColor: string,
+    existingDecorations: string[],
+    files?: Map<string, string>,
+    fileName: string = "",
+    diagnosticSettings: DiagnosticSettings = {}
+): Promise<{ symbolTable: GlobalST; decorations: string[] } | undefined> => {
+  const textModel: monaco.editor.ITextModel | null = editor.getModel();
+  if (!textModel) {
+    return undefined;
   }
+  const text: string = editor.getValue();
+  const analysis: ProgramAnalysis | undefined = await client.analyze(textModel.uri.toString(), text, files, fileName);
+  // a newer version of the program is being analyzed, or the editor was closed
+  if (!analysis || editor.getModel() !== textModel || editor.getValue() !== text) {
+    return undefined;
+  }
+  const antAnalyzer = new AntimonyProgramAnalyzer(analysis, highlightColor);
+  return showAnalysis(
+      editor, antAnalyzer, annotHighlightOn, true, existingDecorations, diagnosticSettings, files, client
+  );
+};
 
-  getErrors(): parseErrors[] {
-    return this.errors;
+/**
+ * @description replaces the errors shown in the editor, which are out of date once the model
+ *              could not be checked, with one that says so on the first line.
+ * @param editor
+ * @param error why the model could not be checked
+ */
+export const showCheckFailure = (editor: monaco.editor.IStandaloneCodeEditor, error: unknown) => {
+  const model: monaco.editor.ITextModel | null = editor.getModel();
+  if (model !== null) {
+    monaco.editor.removeAllMarkers("owner");
+    monaco.editor.setModelMarkers(model, "owner", [{
+      severity: monaco.MarkerSeverity.Error,
+      message: `Unable to check the model: ${error instanceof Error ? error.message : String(error)}`,
+      startLineNumber: 1,
+      startColumn: 1,
+      endLineNumber: 1,
+      endColumn: model.getLineMaxColumn(1),
+    }]);
   }
-}
+};
 
 /**
- * @description Analyzes an antimony file, does error checking, and adds general hover information.
- * @param editor the monaco editor whose contents are to be semantic checked
+ * @description shows the errors of an analyzed program in the editor, and adds its hovers
+ *              and language features.
+ * @param editor
+ * @param antAnalyzer the analyzer of the program in the editor
  * @param annotHighlightOn boolean for if annotation highlighting should be on
  * @param setGeneralHoverInfo boolean that determines if variable hover info should be added.
- * @param decorations
- * @returns {GlobalST} the complete symbol table representing the program in the monaco editor.
+ * @param existingDecorations
+ * @param diagnosticSettings the severity of each diagnostic code the user changed
+ * @param files the stored files that imports are resolved against, by name
+ * @param analysisWorkerClient the client of the worker that analyzed the program, which hovers are looked up in
+ * @returns the symbol table of the program and the new decorations
  */
-export const ModelSemanticsChecker = (
+function showAnalysis(
     editor: monaco.editor.IStandaloneCodeEditor,
+    antAnalyzer: AntimonyProgramAnalyzer,
     annotHighlightOn: boolean,
     setGeneralHoverInfo: boolean,
-    highlightColor: string,
-    existingDecorations: string[]
-): { symbolTable: GlobalST; decorations: string[] } => {
+    existingDecorations: string[],
+    diagnosticSettings: DiagnosticSettings,
+    files?: Map<string, string>,
+    analysisWorkerClient?: AnalysisWorkerClient
+): { symbolTable: GlobalST; decorations: string[] } {
   // Clear old decorations
   editor.deltaDecorations(existingDecorations, []);
 
-  const antAnalyzer = new AntimonyProgramAnalyzer(editor.getValue(), highlightColor);
+  if (files) {
+    updateImportedFileModels(antAnalyzer.getProgramST(), files);
+  }
 
-  // Get all errors
-  let errors: ErrorUnderline[] = antAnalyzer.getErrors(true);
+  // Get all errors, leaving out the ones disabled by the user
+  let errors: ErrorUnderline[] =
+    applyDiagnosticSettings(antAnalyzer.getErrors(true), editor.getValue(), diagnosticSettings);
 
   // Get all unannotated variables (optional)
   let newDecorations: string[] = [];
@@ -76,7 +163,7 @@ export const ModelSemanticsChecker = (
   }
 
   if (setGeneralHoverInfo) {
-    const hoverInfo: monaco.IDisposable = antAnalyzer.getGeneralHoverInfo();
+    const hoverInfo: monaco.IDisposable = antAnalyzer.getGeneralHoverInfo(analysisWorkerClient);
     if (hoverInfo) {
       editor.onDidDispose(() => {
         hoverInfo.dispose();
@@ -85,6 +172,18 @@ export const ModelSemanticsChecker = (
         hoverInfo.dispose();
       });
     }
+
+    const previousFeatures: monaco.IDisposable[] | undefined = languageFeatureDisposables.get(editor);
+    if (previousFeatures) {
+      previousFeatures.forEach((disposable) => disposable.dispose());
+    } else {
+      // the first analysis of this editor, so its features are disposed along with it from now on
+      editor.onDidDispose(() => {
+        languageFeatureDisposables.get(editor)?.forEach((disposable) => disposable.dispose());
+        languageFeatureDisposables.delete(editor);
+      });
+    }
+    languageFeatureDisposables.set(editor, antAnalyzer.getLanguageFeatures());
   }
 
   // Add error (and optional annotated) squiggles
@@ -95,44 +194,39 @@ export const ModelSemanticsChecker = (
   }
 
   return { symbolTable: antAnalyzer.getProgramST(), decorations: newDecorations }; // Return the new decorations and symbol table
-};
+}
 
 /**
  *
  */
 export class AntimonyProgramAnalyzer {
-  private errorListener: ErrorListener;
-  private parser: AntimonyGrammarParser;
-  private tree: RootContext;
-  private stVisitor: SymbolTableVisitor;
-  private semanticVisitor: SemanticVisitor;
+  private analysis: ProgramAnalysis;
   private globalST: GlobalST;
   private hoverKeyWordColor: Map<string, string>;
   private highlightColor: string;
   private hoverProviderDisposable: monaco.IDisposable | null = null;
 
-  constructor(antimonyCode: string, highlightColor: string) {
-    // we remove carriage returns in the string since
-    // these only exist in new lines on windows OS, and interfere with the
-    // grammar parse.
-    antimonyCode = this.removeCarriageReturn(antimonyCode);
+  /**
+   * @param antimonyCode the program, or its analysis if it has already been analyzed (ie by the analysis worker)
+   * @param highlightColor
+   * @param files the stored files that imports are resolved against, by name.
+   *              Imports are not followed if this is left out.
+   * @param fileName the name of the analyzed file, so that importing it again is caught
+   * @param incrementalParser parses only what changed since the program it parsed last,
+   *                          the whole program is parsed if this is left out.
+   */
+  constructor(
+      antimonyCode: string | ProgramAnalysis,
+      highlightColor: string,
+      files?: Map<string, string>,
+      fileName: string = "",
+      incrementalParser?: IncrementalParser
+  ) {
     this.highlightColor = highlightColor;
-    let inputStream = new ANTLRInputStream(antimonyCode);
-    let lexer = new AntimonyGrammarLexer(inputStream);
-    let tokenStream = new CommonTokenStream(lexer);
-    this.parser = new AntimonyGrammarParser(tokenStream);
-    this.errorListener = new ErrorListener();
-    this.parser.removeErrorListeners();
-    this.parser.addErrorListener(this.errorListener);
-
-    // Parse the input, where `compilationUnit` is whatever entry point you defined
-    this.tree = this.parser.root();
-    this.globalST = new GlobalST();
-    this.globalST.endLine = this.tree._stop?.line;
-    this.stVisitor = new SymbolTableVisitor(this.globalST);
-    this.stVisitor.visit(this.tree);
-    this.semanticVisitor = new SemanticVisitor(this.globalST);
-    this.semanticVisitor.visit(this.tree);
+    this.analysis = typeof antimonyCode === "string"
+        ? ProgramAnalysis.analyze(antimonyCode, files, fileName, incrementalParser)
+        : antimonyCode;
+    this.globalST = this.analysis.getProgramST();
 
     this.hoverKeyWordColor = new Map();
     this.hoverKeyWordColor.set(varTypes.Species, "#FD7F20");
@@ -149,6 +243,7 @@ export class AntimonyProgramAnalyzer {
     this.hoverKeyWordColor.set(varTypes.ModularModel, "");
     this.hoverKeyWordColor.set(varTypes.Reaction, "");
     this.hoverKeyWordColor.set(varTypes.Variable, "#9cdcfe");
+    this.hoverKeyWordColor.set(varTypes.Unit, "");
     this.hoverKeyWordColor.set(varTypes.Unknown, "");
   }
 
@@ -159,23 +254,23 @@ export class AntimonyProgramAnalyzer {
    * @returns {ErrorUnderline[]}
    */
   getErrors(includeParseErrors: boolean): ErrorUnderline[] {
-    if (includeParseErrors) {
-      this.stVisitor.addErrorList(this.addParseErrors(this.errorListener.getErrors()));
-    }
-    return this.stVisitor.getErrors().concat(this.semanticVisitor.getErrors());
+    return this.analysis.getErrors(includeParseErrors);
   }
 
+
   /**
    * Adds variable and annotation information to hovers.
+   * @param analysisWorkerClient looks up the hovered variables in the analysis worker, which
+   *                             has the program parsed already, instead of in this symbol table
    * @returns
    */
-  getGeneralHoverInfo() {
+  getGeneralHoverInfo(analysisWorkerClient?: AnalysisWorkerClient) {
     if (this.hoverProviderDisposable) {
       this.hoverProviderDisposable.dispose();
     }
 
     this.hoverProviderDisposable = monaco.languages.registerHoverProvider("antimony", {
-      provideHover: (model, position) => {
+      provideHover: async (model, position) => {
         if (model.isDisposed()) {
           console.error("Model is disposed. Cannot provide hover.");
           return null;
@@ -196,7 +291,28 @@ export class AntimonyProgramAnalyzer {
           let start: SrcPosition = new SrcPosition(position.lineNumber, word.startColumn);
           let end: SrcPosition = new SrcPosition(position.lineNumber, word.endColumn);
           let srcRange: SrcRange = new SrcRange(start, end);
-          let varInfo = this.globalST.hasVarAtLocation(word.word, srcRange)?.varInfo;
+          const versionId: number = model.getVersionId();
+          const lookup: HoverLookup | undefined = analysisWorkerClient
+              ? await analysisWorkerClient.request({
+                kind: "hover",
+                documentId: model.uri.toString(),
+                word: word.word,
+                range: getSrcRangeSnapshot(srcRange),
+              })
+              : getHoverLookup(this.globalST, word.word, srcRange);
+          // the program changed while the worker was looking the word up
+          if (model.isDisposed() || model.getVersionId() !== versionId) {
+            return null;
+          }
+          const varInfo: Variable | undefined = lookup && getVariableFromSnapshot(lookup.varInfo);
+
+          // a dotted name, ie "A.x", is shown as the id inside of its submodel.
+          let submodelHover: string = "";
+          if (lookup?.modelName !== undefined) {
+            submodelHover = `In <span style="color:${this.hoverKeyWordColor.get(
+                varTypes.Model
+            )};">${varTypes.Model}</span>: ${lookup.modelName} <br/> `;
+          }
 
           if (varInfo) {
             if (varInfo.type === varTypes.Model) {
@@ -226,6 +342,7 @@ export class AntimonyProgramAnalyzer {
               valueOfHover += `(<span style="color:${this.hoverKeyWordColor.get(varInfo.type)};">${
                   varInfo.type
               }</span>) ${word.word} <br/> `;
+              valueOfHover += submodelHover;
 
               if (varInfo.value) {
                 valueOfHover += `Initialized Value: <span style="color:#DEF9CB;">${varInfo.value}</span> <br/> `;
@@ -330,6 +447,29 @@ export class AntimonyProgramAnalyzer {
     return this.hoverProviderDisposable;
   }
 
+  /**
+   * Registers the language features that are built from the symbol table,
+   * such as context aware autocompletion, signature help, go to definition,
+   * renaming, the document outline, semantic highlighting, inlay hints and folding,
+   * along with quick fixes for the reported diagnostics and formatting.
+   * @returns disposables for each registered provider
+   */
+  getLanguageFeatures(): monaco.IDisposable[] {
+    return [
+      registerCompletionProvider(this.globalST),
+      registerSignatureHelpProvider(this.globalST),
+      registerDefinitionProvider(this.globalST),
+      registerReferenceProvider(this.globalST),
+      registerRenameProvider(this.globalST),
+      registerCodeActionProvider(this.globalST),
+      registerDocumentSymbolProvider(this.globalST),
+      registerSemanticTokensProvider(this.globalST),
+      registerInlayHintsProvider(this.globalST),
+      registerFoldingRangeProvider(this.globalST),
+      ...registerFormattingProviders(),
+    ];
+  }
+
   private isTrashIconClickListenerAdded = false;
 
   /**
@@ -575,7 +715,17 @@ export class AntimonyProgramAnalyzer {
       }
     }
     hover += `) <br/> `;
-    return hover;
+    return hover + this.getImportedFromHover(modelId);
+  }
+
+  /**
+   * Gets the line saying which file a model or function is imported from
+   * @param id
+   * @returns {string} the line, or an empty string if id is not imported
+   */
+  private getImportedFromHover(id: string): string {
+    const fileName: string | undefined = this.globalST.getImportedFileName(id);
+    return fileName === undefined ? "" : `Imported from <span style="color:#DEF9CB;">${fileName}</span> <br/> `;
   }
 
   /**
@@ -596,7 +746,7 @@ export class AntimonyProgramAnalyzer {
       }
     }
     hover += `) <br/> `;
-    return hover;
+    return hover + this.getImportedFromHover(funcId);
   }
 
   /**
@@ -618,21 +768,8 @@ export class AntimonyProgramAnalyzer {
       }
     }
 
-    for (const modelMap of this.globalST.getModelMap().values()) {
-      for (const varInfo of modelMap.getVarMap().values()) {
-        if (
-            varInfo.annotations.length === 0 &&
-            (varInfo.type === varTypes.Compartment ||
-                varInfo.type === varTypes.Species ||
-                varInfo.type === varTypes.Reaction)
-        ) {
-          unannotated.push(varInfo);
-        }
-      }
-    }
-
-    for (const funcMap of this.globalST.getFuncMap().values()) {
-      for (const varInfo of funcMap.getVarMap().values()) {
+    for (const table of this.globalST.getLocalTables()) {
+      for (const varInfo of table.getVarMap().values()) {
         if (
             varInfo.annotations.length === 0 &&
             (varInfo.type === varTypes.Compartment ||
@@ -701,42 +838,27 @@ export class AntimonyProgramAnalyzer {
   getProgramST(): GlobalST {
     return this.globalST;
   }
+}
 
-  /**
-   * takes the parse errors discovered and
-   * returns each one in the same format as the other semantic errors
-   * basically following the "ErrorUnderline" type
-   * @param errors list of discovered parseErrors
-   * @returns a list of ErrorUnderline's
-   */
-  private addParseErrors(errors: parseErrors[]): ErrorUnderline[] {
-    let parseErrors = [];
-    for (let i = 0; i < errors.length; i++) {
-      const line: number = errors[i].line;
-      const column: number = errors[i].column + 1;
-      const msg = errors[i].msg;
-
-      let error = {
-        startLineNumber: line,
-        startColumn: column,
-        endLineNumber: line,
-        endColumn: column + 1,
-        message: msg,
-        severity: monaco.MarkerSeverity.Error,
-      };
-      parseErrors.push(error);
+/**
+ * @description makes sure there is a monaco model holding each file that models or
+ *              functions are imported from, so that go to definition can show them.
+ * @param globalST symbol table of the analyzed program
+ * @param files the stored files, by name
+ */
+function updateImportedFileModels(globalST: GlobalST, files: Map<string, string>): void {
+  for (const table of [...globalST.getModelMap().values(), ...globalST.getFuncMap().values()]) {
+    if (table.fileName === undefined) {
+      continue;
+    }
+    const content: string = removeCarriageReturn(files.get(table.fileName) || "");
+    const uri: monaco.Uri = getImportedFileUri(table.fileName);
+    const model: monaco.editor.ITextModel | null = monaco.editor.getModel(uri);
+    if (!model) {
+      monaco.editor.createModel(content, "antimony", uri);
+    } else if (model.getValue() !== content) {
+      model.setValue(content);
     }
-    return parseErrors;
-  }
-
-  /**
-   * TODO: probably change the grammar later, for now we remove carriage returns
-   * as the grammar is not configured to account for it (only occurs on Windows machines I think?)
-   * @param input
-   * @returns
-   */
-  private removeCarriageReturn(input: string): string {
-    return input.replaceAll("\r", "");
   }
 }
 
@@ -766,60 +888,7 @@ export function addDynamicStyleRule(css: string): void {
  * @returns a list of errors that can be passed to monaco for display
  */
 export function getErrors(antimonyCode: string, includeParseErrors: boolean): ErrorUnderline[] {
-  let inputStream = new ANTLRInputStream(antimonyCode);
-  let lexer = new AntimonyGrammarLexer(inputStream);
-  let tokenStream = new CommonTokenStream(lexer);
-  let parser = new AntimonyGrammarParser(tokenStream);
-
-  const errorListener = new ErrorListener();
-  parser.removeErrorListeners();
-  parser.addErrorListener(errorListener);
-
-  // Parse the input, where `compilationUnit` is whatever entry point you defined
-  let tree = parser.root();
-
-  // create and buildup a global symbol table from the parse tree.
-  let globalSymbolTable: GlobalST = new GlobalST();
-  const stVisitor: SymbolTableVisitor = new SymbolTableVisitor(globalSymbolTable);
-  stVisitor.visit(tree);
-
-  // using the populated symbol table, we now do more extensive semantic checking
-  const semanticVisitor: SemanticVisitor = new SemanticVisitor(stVisitor.globalST);
-  semanticVisitor.visit(tree);
-
-  // this is mainly an option so that tests can focus on just semantic errors
-  if (includeParseErrors) {
-    stVisitor.addErrorList(addParseErrors(errorListener.getErrors()));
-  }
-
-  return stVisitor.getErrors().concat(semanticVisitor.getErrors());
-}
-
-/**
- * takes the parse errors discovered and
- * returns each one in the same format as the other semantic errors
- * basically following the "ErrorUnderline" type
- * @param errors list of discovered parseErrors
- * @returns a list of ErrorUnderline's
- */
-function addParseErrors(errors: parseErrors[]): ErrorUnderline[] {
-  let parseErrors = [];
-  for (let i = 0; i < errors.length; i++) {
-    const line: number = errors[i].line;
-    const column: number = errors[i].column + 1;
-    const msg = errors[i].msg;
-
-    let error = {
-      startLineNumber: line,
-      startColumn: column,
-      endLineNumber: line,
-      endColumn: column + 1,
-      message: msg,
-      severity: monaco.MarkerSeverity.Error,
-    };
-    parseErrors.push(error);
-  }
-  return parseErrors;
+  return ProgramAnalysis.analyze(antimonyCode).getErrors(includeParseErrors);
 }
 
 export function removeCarriageReturn(input: string): string {
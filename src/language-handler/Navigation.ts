@@ -0,0 +1,132 @@
+import { DottedNameResolution, GlobalST, ParamAndNameTable, SymbolTable } from "./SymbolTableClasses";
+import { SrcPosition, SrcRange, varTypes } from "./Types";
+import { Variable } from "./Variable";
+
+// monaco's default word pattern, along with dotted names such as "A.x" as one word.
+export const antimonyWordPattern =
+  /(-?\d*\.\d\w*)|([A-Za-z_]\w*(\.[A-Za-z_]\w*)+)|([^`~!@#%^&*()\-=+[{\]}\\|;:'",.<>/?\s]+)/g;
+
+/**
+ * @description finds the word at a column the way monaco does, for editors other than monaco.
+ *              A column just after a word is at that word.
+ * @param lineContent the text of the line
+ * @param line the line number
+ * @param column the column on the line, starting at 1
+ * @returns the word and its SrcRange, or undefined if there is no word at column
+ */
+export function getWordAtColumn(lineContent: string, line: number, column: number) {
+  for (const match of Array.from(lineContent.matchAll(antimonyWordPattern))) {
+    const startColumn: number = (match.index || 0) + 1;
+    const endColumn: number = startColumn + match[0].length;
+    if (startColumn <= column && column <= endColumn) {
+      const srcRange: SrcRange = new SrcRange(new SrcPosition(line, startColumn), new SrcPosition(line, endColumn));
+      return { id: match[0], srcRange: srcRange };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * gets the location of the id of the model or function represented by varInfo
+ * @param globalST
+ * @param id
+ * @param varInfo
+ * @returns the SrcRange of the model/function id, or undefined if varInfo is neither
+ */
+function getModelOrFunctionPosition(globalST: GlobalST, id: string, varInfo: Variable): SrcRange | undefined {
+  let table: ParamAndNameTable | undefined;
+  if (varInfo.type === varTypes.Model) {
+    table = globalST.getModelST(id);
+  } else if (varInfo.type === varTypes.Function) {
+    table = globalST.getFunctionST(id);
+  }
+  return table?.getPosition();
+}
+
+/**
+ * @description finds where the id referenced at srcRange is declared and initialized.
+ * @param globalST symbol table of the analyzed program
+ * @param id
+ * @param srcRange location of a reference to id
+ * @returns the declaration and initialization ranges, empty if id is
+ *          a predefined constant or is not found at srcRange.
+ */
+export function getDefinitionRanges(globalST: GlobalST, id: string, srcRange: SrcRange): SrcRange[] {
+  const varInfo: Variable | undefined = globalST.getVarAtLocation(id, srcRange);
+  if (!varInfo || varInfo.type === varTypes.PredefConstant) {
+    return [];
+  }
+
+  const modelOrFuncPosition: SrcRange | undefined = getModelOrFunctionPosition(globalST, id, varInfo);
+  if (modelOrFuncPosition) {
+    return [modelOrFuncPosition];
+  }
+
+  const definitions: Map<string, SrcRange> = new Map();
+  const ranges: (SrcRange | undefined)[] = [varInfo.declSrcRange, varInfo.initSrcRange];
+  // a dotted name, ie "A.x", is defined inside of the model A is an instance of too.
+  if (id.includes(".")) {
+    const scopeST: SymbolTable = globalST.getScopeAtLine(srcRange.start.line)?.st || globalST;
+    const resolution: DottedNameResolution | undefined = globalST.resolveDottedName(scopeST, id);
+    if (resolution?.kind === "member" && resolution.modelST.fileName === undefined) {
+      ranges.unshift(resolution.varInfo.declSrcRange, resolution.varInfo.initSrcRange);
+    }
+  }
+  for (const range of ranges) {
+    if (range) {
+      definitions.set(range.toString(), range);
+    }
+  }
+  if (definitions.size === 0) {
+    // never declared or initialized, the best we can do is where it was first given its type.
+    definitions.set(varInfo.idSrcRange.toString(), varInfo.idSrcRange);
+  }
+  return Array.from(definitions.values());
+}
+
+/**
+ * @description finds the file that the definition of the id referenced at srcRange is in.
+ * @param globalST symbol table of the analyzed program
+ * @param id
+ * @param srcRange location of a reference to id
+ * @returns the name of the file an imported model or function is written in,
+ *          or undefined if the definition is in the analyzed file.
+ */
+export function getDefinitionFileName(globalST: GlobalST, id: string, srcRange: SrcRange): string | undefined {
+  const varInfo: Variable | undefined = globalST.getVarAtLocation(id, srcRange);
+  if (varInfo?.type !== varTypes.Model && varInfo?.type !== varTypes.Function) {
+    return undefined;
+  }
+  return globalST.getImportedFileName(id);
+}
+
+/**
+ * @description finds every location the id referenced at srcRange is used, including
+ *              annotations, display names and where models are instantiated.
+ * @param globalST symbol table of the analyzed program
+ * @param id
+ * @param srcRange location of a reference to id
+ * @param includeDeclaration whether to include where the id is declared
+ * @returns reference ranges sorted by position
+ */
+export function getReferenceRanges(
+  globalST: GlobalST,
+  id: string,
+  srcRange: SrcRange,
+  includeDeclaration: boolean
+): SrcRange[] {
+  const varInfo: Variable | undefined = globalST.getVarAtLocation(id, srcRange);
+  if (!varInfo) {
+    return [];
+  }
+
+  // predefined constants are given a location on line 0, which is not in the program
+  let references: SrcRange[] = Array.from(varInfo.refLocations.values()).filter((range) => range.start.line > 0);
+  if (!includeDeclaration) {
+    const declaration: SrcRange | undefined =
+      getModelOrFunctionPosition(globalST, id, varInfo) || varInfo.declSrcRange;
+    references = references.filter((range) => range.toString() !== declaration?.toString());
+  }
+
+  return references.sort((a, b) => a.start.line - b.start.line || a.start.column - b.start.column);
+}
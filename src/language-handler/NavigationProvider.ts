@@ -0,0 +1,93 @@
+import * as monaco from "monaco-editor";
+import { getDefinitionFileName, getDefinitionRanges, getReferenceRanges } from "./Navigation";
+import { GlobalST } from "./SymbolTableClasses";
+import { SrcPosition, SrcRange } from "./Types";
+
+// scheme of the uris that files models and functions are imported from are shown under.
+export const importedFileScheme = "antimony-file";
+
+/**
+ * @param fileName name of a stored file
+ * @returns the uri the file is shown under when going to a definition in it
+ */
+export function getImportedFileUri(fileName: string): monaco.Uri {
+  return monaco.Uri.from({ scheme: importedFileScheme, path: "/" + fileName });
+}
+
+/**
+ * @param uri
+ * @returns the name of the stored file uri refers to, or undefined if it is not an imported file
+ */
+export function getImportedFileName(uri: monaco.Uri): string | undefined {
+  return uri.scheme === importedFileScheme ? uri.path.substring(1) : undefined;
+}
+
+/**
+ * @description gets the word at position in the same form that
+ *              ids are recorded in refLocations.
+ * @param model monaco text model
+ * @param position
+ * @returns the word and its SrcRange, or undefined if there is no word at position
+ */
+export function getWordAtPosition(model: monaco.editor.ITextModel, position: monaco.Position) {
+  const word = model.getWordAtPosition(position);
+  if (!word) {
+    return undefined;
+  }
+  const srcRange: SrcRange = new SrcRange(
+    new SrcPosition(position.lineNumber, word.startColumn),
+    new SrcPosition(position.lineNumber, word.endColumn)
+  );
+  return { id: word.word, srcRange: srcRange };
+}
+
+/**
+ * converts a SrcRange to a monaco range
+ * @param srcRange
+ * @returns monaco range covering the same location
+ */
+export function toMonacoRange(srcRange: SrcRange): monaco.Range {
+  return new monaco.Range(srcRange.start.line, srcRange.start.column, srcRange.end.line, srcRange.end.column);
+}
+
+/**
+ * @description registers a definition provider (F12) for the antimony language.
+ * @param globalST symbol table of the analyzed program
+ * @returns disposable that removes the definition provider
+ */
+export function registerDefinitionProvider(globalST: GlobalST): monaco.IDisposable {
+  return monaco.languages.registerDefinitionProvider("antimony", {
+    provideDefinition: (model, position) => {
+      const word = model.isDisposed() ? undefined : getWordAtPosition(model, position);
+      if (!word) {
+        return [];
+      }
+      const fileName: string | undefined = getDefinitionFileName(globalST, word.id, word.srcRange);
+      const uri: monaco.Uri = fileName === undefined ? model.uri : getImportedFileUri(fileName);
+      return getDefinitionRanges(globalST, word.id, word.srcRange).map((range) => ({
+        uri: uri,
+        range: toMonacoRange(range),
+      }));
+    },
+  });
+}
+
+/**
+ * @description registers a reference provider (Shift-F12) for the antimony language.
+ * @param globalST symbol table of the analyzed program
+ * @returns disposable that removes the reference provider
+ */
+export function registerReferenceProvider(globalST: GlobalST): monaco.IDisposable {
+  return monaco.languages.registerReferenceProvider("antimony", {
+    provideReferences: (model, position, context) => {
+      const word = model.isDisposed() ? undefined : getWordAtPosition(model, position);
+      if (!word) {
+        return [];
+      }
+      return getReferenceRanges(globalST, word.id, word.srcRange, context.includeDeclaration).map((range) => ({
+        uri: model.uri,
+        range: toMonacoRange(range),
+      }));
+    },
+  });
+}
@@ -0,0 +1,121 @@
+import { AntimonyGrammarParser, RootContext } from "./antlr/AntimonyGrammarParser";
+import { ErrorListener, IncrementalParser, parseErrors } from "./IncrementalParser";
+import { ImportResolver } from "./ImportResolver";
+import { SemanticVisitor } from "./SemanticVisitor";
+import { GlobalST } from "./SymbolTableClasses";
+import { SymbolTableVisitor } from "./SymbolTableVisitor";
+import { createTokenStream } from "./TokenStream";
+import { diagnosticCodes, ErrorUnderline, markerSeverity } from "./Types";
+
+/**
+ * The symbol table and errors of an antimony program. Unlike AntimonyProgramAnalyzer
+ * this does not use monaco or the DOM, so programs can be analyzed in a worker.
+ */
+export class ProgramAnalysis {
+  private globalST: GlobalST;
+  // errors found while building the symbol table
+  private symbolErrors: ErrorUnderline[];
+  private parseErrors: ErrorUnderline[];
+  // errors found while checking the program against the symbol table
+  private semanticErrors: ErrorUnderline[];
+
+  constructor(
+      globalST: GlobalST,
+      symbolErrors: ErrorUnderline[],
+      parseErrors: ErrorUnderline[],
+      semanticErrors: ErrorUnderline[]
+  ) {
+    this.globalST = globalST;
+    this.symbolErrors = symbolErrors;
+    this.parseErrors = parseErrors;
+    this.semanticErrors = semanticErrors;
+  }
+
+  /**
+   * @description parses an antimony program and checks it for errors.
+   * @param antimonyCode
+   * @param files the stored files that imports are resolved against, by name.
+   *              Imports are not followed if this is left out.
+   * @param fileName the name of the analyzed file, so that importing it again is caught
+   * @param incrementalParser parses only what changed since the program it parsed last,
+   *                          the whole program is parsed if this is left out.
+   * @returns the analysis of the program
+   */
+  static analyze(
+      antimonyCode: string,
+      files?: Map<string, string>,
+      fileName: string = "",
+      incrementalParser?: IncrementalParser
+  ): ProgramAnalysis {
+    // we remove carriage returns in the string since
+    // these only exist in new lines on windows OS, and interfere with the
+    // grammar parse.
+    antimonyCode = antimonyCode.replaceAll("\r", "");
+    let tree: RootContext;
+    let errors: parseErrors[];
+    if (incrementalParser) {
+      ({ tree, errors } = incrementalParser.parse(antimonyCode));
+    } else {
+      const parser = new AntimonyGrammarParser(createTokenStream(antimonyCode));
+      const errorListener = new ErrorListener();
+      parser.removeErrorListeners();
+      parser.addErrorListener(errorListener);
+      tree = parser.root();
+      errors = errorListener.getErrors();
+    }
+
+    const globalST: GlobalST = new GlobalST();
+    globalST.endLine = tree._stop?.line;
+    const stVisitor = new SymbolTableVisitor(globalST, files && new ImportResolver(files, fileName));
+    stVisitor.visit(tree);
+    const semanticVisitor = new SemanticVisitor(globalST);
+    semanticVisitor.visit(tree);
+    return new ProgramAnalysis(globalST, stVisitor.getErrors(), getParseErrorUnderlines(errors), semanticVisitor.getErrors());
+  }
+
+  /**
+   * Retrieves an array of both semantic and parse errors caught when analyzing the program
+   * @param includeParseErrors boolean determining whether to include parse errors or not
+   *                           (mainly used for isolated testing of semantic error checking).
+   * @returns {ErrorUnderline[]}
+   */
+  getErrors(includeParseErrors: boolean): ErrorUnderline[] {
+    if (includeParseErrors) {
+      return this.symbolErrors.concat(this.parseErrors, this.semanticErrors);
+    }
+    return this.symbolErrors.concat(this.semanticErrors);
+  }
+
+  /**
+   * @returns the syntax errors in the program
+   */
+  getParseErrors(): ErrorUnderline[] {
+    return this.parseErrors;
+  }
+
+  /**
+   * @returns the symbol table representing the entire analyzed file
+   */
+  getProgramST(): GlobalST {
+    return this.globalST;
+  }
+}
+
+/**
+ * takes the parse errors discovered and
+ * returns each one in the same format as the other semantic errors
+ * basically following the "ErrorUnderline" type
+ * @param errors list of discovered parseErrors
+ * @returns a list of ErrorUnderline's
+ */
+export function getParseErrorUnderlines(errors: parseErrors[]): ErrorUnderline[] {
+  return errors.map((error) => ({
+    startLineNumber: error.line,
+    startColumn: error.column + 1,
+    endLineNumber: error.line,
+    endColumn: error.column + 2,
+    message: error.msg,
+    severity: markerSeverity.Error,
+    code: diagnosticCodes.SyntaxError,
+  }));
+}
@@ -0,0 +1,187 @@
+import * as monaco from "monaco-editor";
+import { ANTLRInputStream, Token } from "antlr4ts";
+import { AntimonyGrammarLexer } from "./antlr/AntimonyGrammarLexer";
+import { GlobalST, ParamAndNameTable, SymbolTable } from "./SymbolTableClasses";
+import { SrcRange, varTypes } from "./Types";
+import { predefinedConstants, Variable } from "./Variable";
+import {
+  functionAlreadyExistsError,
+  idAlreadyExistsError,
+  incompatibleTypesError,
+  invalidIdError,
+  modelAlreadyExistsError,
+} from "./SemanticErrors";
+import { getWordAtPosition, toMonacoRange } from "./NavigationProvider";
+
+/**
+ * Either the locations to replace with the new name,
+ * or the reason the rename is not allowed.
+ */
+export type RenameResult =
+  | { ranges: SrcRange[]; rejectReason?: undefined }
+  | { ranges?: undefined; rejectReason: string };
+
+/**
+ * checks if name would be lexed as a single id, which rules
+ * out keywords such as "end" or annotation keywords like "identity".
+ * @param name
+ * @returns true if name can be used as an id
+ */
+function isValidId(name: string): boolean {
+  const lexer = new AntimonyGrammarLexer(new ANTLRInputStream(name));
+  lexer.removeErrorListeners();
+  const tokens: Token[] = lexer.getAllTokens();
+  return tokens.length === 1 && tokens[0].type === AntimonyGrammarLexer.NAME && tokens[0].text === name;
+}
+
+/**
+ * finds the symbol table that varInfo was declared in
+ * @param globalST
+ * @param id
+ * @param varInfo
+ * @returns the symbol table holding varInfo
+ */
+function getOwningTable(globalST: GlobalST, id: string, varInfo: Variable): SymbolTable {
+  const tables: ParamAndNameTable[] = [...globalST.getModelMap().values(), ...globalST.getFuncMap().values()];
+  for (const table of tables) {
+    if (table.getVar(id) === varInfo) {
+      return table;
+    }
+  }
+  return globalST;
+}
+
+/**
+ * gets the reason newName can not be used in table, reusing the
+ * messages given when the same collision is written by hand.
+ * @param globalST
+ * @param table the symbol table the renamed id lives in
+ * @param varInfo the renamed id
+ * @param newName
+ * @returns the error message, or undefined if there is no collision
+ */
+function getCollisionError(globalST: GlobalST, table: SymbolTable, varInfo: Variable, newName: string): string | undefined {
+  if (predefinedConstants.has(newName)) {
+    const predefInfo: Variable | undefined = globalST.getVar(newName);
+    return predefInfo ? incompatibleTypesError(varInfo.type, predefInfo) : undefined;
+  }
+
+  const modelST: ParamAndNameTable | undefined = globalST.getModelST(newName);
+  if (modelST) {
+    return modelAlreadyExistsError(newName, modelST.getPosition());
+  }
+
+  // functions can be called from any scope.
+  const funcST: ParamAndNameTable | undefined = globalST.getFunctionST(newName);
+  if (funcST) {
+    return functionAlreadyExistsError(newName, funcST.getPosition());
+  }
+
+  const existingVar: Variable | undefined = table.getVar(newName);
+  if (existingVar) {
+    return idAlreadyExistsError(newName, existingVar);
+  }
+
+  return undefined;
+}
+
+/**
+ * gets why the id at a location can not be renamed at all
+ * @param globalST
+ * @param id
+ * @param varInfo the Variable referenced at the location, if there is one
+ * @returns the reason message, or undefined if the id can be renamed
+ */
+function getCannotRenameReason(globalST: GlobalST, id: string, varInfo: Variable | undefined): string | undefined {
+  if (varInfo?.type === varTypes.PredefConstant) {
+    return "Cannot rename '" + id + "' as it is a predefined constant";
+  }
+  if (!varInfo) {
+    return "Cannot rename '" + id + "' as it is not a known id";
+  }
+  if (id.includes(".")) {
+    return "Cannot rename '" + id + "' as it is an id of a submodel";
+  }
+  const fileName: string | undefined =
+    varInfo.type === varTypes.Model || varInfo.type === varTypes.Function ? globalST.getImportedFileName(id) : undefined;
+  if (fileName !== undefined) {
+    return "Cannot rename '" + id + "' as it is imported from '" + fileName + "'";
+  }
+  return undefined;
+}
+
+/**
+ * @description finds every location to replace when renaming the id referenced at srcRange.
+ * @param globalST symbol table of the analyzed program
+ * @param id the current name
+ * @param srcRange location of a reference to id
+ * @param newName
+ * @returns the ranges of id to replace, or why the rename is rejected
+ */
+export function getRenameRanges(globalST: GlobalST, id: string, srcRange: SrcRange, newName: string): RenameResult {
+  const varInfo: Variable | undefined = globalST.getVarAtLocation(id, srcRange);
+  const cannotRenameReason: string | undefined = getCannotRenameReason(globalST, id, varInfo);
+  if (!varInfo || cannotRenameReason !== undefined) {
+    return { rejectReason: cannotRenameReason || "Cannot rename this element" };
+  }
+  if (newName === id) {
+    return { ranges: [] };
+  }
+  if (!isValidId(newName)) {
+    return { rejectReason: invalidIdError(newName) };
+  }
+
+  const table: SymbolTable = getOwningTable(globalST, id, varInfo);
+  const collisionError: string | undefined = getCollisionError(globalST, table, varInfo, newName);
+  if (collisionError) {
+    return { rejectReason: collisionError };
+  }
+
+  // refLocations covers declarations, uses, display names and annotations in the owning scope.
+  return { ranges: Array.from(varInfo.refLocations.values()) };
+}
+
+/**
+ * @description registers a rename provider (F2) for the antimony language.
+ * @param globalST symbol table of the analyzed program
+ * @returns disposable that removes the rename provider
+ */
+export function registerRenameProvider(globalST: GlobalST): monaco.IDisposable {
+  return monaco.languages.registerRenameProvider("antimony", {
+    provideRenameEdits: (model, position, newName) => {
+      const word = model.isDisposed() ? undefined : getWordAtPosition(model, position);
+      if (!word) {
+        return { edits: [], rejectReason: "Cannot rename this element" };
+      }
+
+      const result: RenameResult = getRenameRanges(globalST, word.id, word.srcRange, newName);
+      if (result.rejectReason !== undefined) {
+        return { edits: [], rejectReason: result.rejectReason };
+      }
+
+      const versionId: number = model.getVersionId();
+      const edits: monaco.languages.IWorkspaceTextEdit[] = result.ranges
+        .map(toMonacoRange)
+        // the symbol table can lag behind the text while typing, skip anything that moved.
+        .filter((range) => model.getValueInRange(range) === word.id)
+        .map((range) => ({
+          resource: model.uri,
+          textEdit: { range: range, text: newName },
+          versionId: versionId,
+        }));
+      return { edits: edits };
+    },
+
+    resolveRenameLocation: (model, position) => {
+      const word = model.isDisposed() ? undefined : getWordAtPosition(model, position);
+      if (!word) {
+        const emptyRange = new monaco.Range(position.lineNumber, position.column, position.lineNumber, position.column);
+        return { range: emptyRange, text: "", rejectReason: "Cannot rename this element" };
+      }
+
+      const varInfo: Variable | undefined = globalST.getVarAtLocation(word.id, word.srcRange);
+      const rejectReason: string | undefined = getCannotRenameReason(globalST, word.id, varInfo);
+      return { range: toMonacoRange(word.srcRange), text: word.id, rejectReason: rejectReason };
+    },
+  });
+}
@@ -1,5 +1,6 @@
 import { SrcRange, varTypes } from "./Types";
 import { predefinedConstants, Variable } from "./Variable";
+import { Unit } from "./Units";
 
 
 /**
@@ -133,4 +134,312 @@ export function duplicateParameterError(id: string): string {
  */
 export function varNotFound(id: string): string {
   return "Variable '" + id + "' not found";
-}
\ No newline at end of file
+}
+
+/**
+ * Error for when an id is given a name that another id in the same scope already has,
+ * ie when renaming.
+ * @param id the name that is already taken
+ * @param existingVar Variable that already has the name id
+ * @returns error message
+ */
+export function idAlreadyExistsError(id: string, existingVar: Variable): string {
+  const definedAt: SrcRange = existingVar.declSrcRange || existingVar.initSrcRange || existingVar.idSrcRange;
+  return existingVar.type + " '" + id + "' already defined on line " + definedAt.start.toString();
+}
+
+/**
+ * Error for when a name can not be used as an id, ie it is a keyword.
+ * @param id
+ * @returns error message
+ */
+export function invalidIdError(id: string): string {
+  return "'" + id + "' is not a valid id";
+}
+
+/**
+ * Error for a unit expression that is not only made of units multiplied,
+ * divided and raised to a number, ie "unit u = mole + litre".
+ * @param unitText
+ * @returns error message
+ */
+export function invalidUnitError(unitText: string): string {
+  return "'" + unitText + "' is not a valid unit, units can only be multiplied, divided and raised to a number";
+}
+
+/**
+ * Warning for adding or subtracting values whose units have different dimensions,
+ * ie a concentration and an amount.
+ * @param unit1
+ * @param unit2
+ * @returns warning message
+ */
+export function inconsistentUnitsWarning(unit1: Unit, unit2: Unit): string {
+  return "Adding or subtracting values with inconsistent units '" + unit1 + "' and '" + unit2 + "'";
+}
+
+/**
+ * Warning for assigning a value to a variable with a unit of different dimensions.
+ * @param id
+ * @param varUnit the unit of id
+ * @param valueUnit the unit of the assigned value
+ * @returns warning message
+ */
+export function inconsistentAssignmentUnitsWarning(id: string, varUnit: Unit, valueUnit: Unit): string {
+  return "Unit of '" + id + "' is '" + varUnit + "', but it is assigned a value with unit '" + valueUnit + "'";
+}
+
+/**
+ * Warning for a rate rule whose rate has units of different dimensions than
+ * the variable's unit per unit of time.
+ * @param id
+ * @param rateUnit the unit the rate of id should have
+ * @param valueUnit the unit of the rate
+ * @returns warning message
+ */
+export function inconsistentRateRuleUnitsWarning(id: string, rateUnit: Unit, valueUnit: Unit): string {
+  return "Rate of '" + id + "' should have unit '" + rateUnit + "', but has unit '" + valueUnit + "'";
+}
+
+/**
+ * Error for an event trigger that is not a boolean expression, ie "at 5: x = 1".
+ * @returns error message
+ */
+export function nonBooleanTriggerError(): string {
+  return "Event trigger must be a boolean expression, ie 'time > 5'";
+}
+
+/**
+ * Error for an event delay that is a boolean expression, ie "at x > 1 after time > 5: x = 1".
+ * @returns error message
+ */
+export function booleanDelayError(): string {
+  return "Event delay must be a number, not a boolean expression";
+}
+
+/**
+ * Error for an event delay that is a negative number.
+ * @param delay
+ * @returns error message
+ */
+export function negativeDelayError(delay: number): string {
+  return "Event delay can not be negative, but is " + delay;
+}
+
+/**
+ * Error for an event assignment to a constant or a predefined constant.
+ * @param id
+ * @returns error message
+ */
+export function constantEventAssignmentError(id: string): string {
+  if (predefinedConstants.has(id)) {
+    return "Predefined constant '" + id + "' can not be assigned in an event";
+  }
+  return "Constant '" + id + "' can not be assigned in an event";
+}
+
+/**
+ * Warning for an event option, such as t0, given more than once in the same event.
+ * @param option
+ * @returns warning message
+ */
+export function duplicateEventOptionWarning(option: string): string {
+  return "Event option '" + option + "' is set more than once, only the last value is used";
+}
+
+/**
+ * Error for an event priority that is a boolean expression.
+ * @returns error message
+ */
+export function booleanPriorityError(): string {
+  return "Event priority must be a number, not a boolean expression";
+}
+
+/**
+ * Error for an event assignment to a reaction, whose rate is given by its rate law.
+ * @param id
+ * @returns error message
+ */
+export function reactionEventAssignmentError(id: string): string {
+  return "Reaction '" + id + "' can not be assigned in an event";
+}
+
+/**
+ * @param id the id of a reaction, empty if it has none
+ * @returns how the reaction is referred to in messages
+ */
+function getReactionLabel(id: string): string {
+  return id ? "reaction '" + id + "'" : "the reaction";
+}
+
+/**
+ * Warning for a rate law that uses none of the reactants of its reaction,
+ * ie it was copied from another reaction.
+ * @param id the id of the reaction
+ * @param reactants
+ * @returns warning message
+ */
+export function rateLawMissingReactantsWarning(id: string, reactants: string[]): string {
+  return "Rate law of " + getReactionLabel(id) + " does not use any of its reactants (" + reactants.join(", ") + ")";
+}
+
+/**
+ * Warning for a rate law that uses the products of its reaction but none of its reactants.
+ * @param id the id of the reaction
+ * @param products the products used in the rate law
+ * @returns warning message
+ */
+export function reversedRateLawWarning(id: string, products: string[]): string {
+  return "Rate law of " + getReactionLabel(id) + " uses its products (" + products.join(", ") +
+      ") but none of its reactants, the reaction may be written in the wrong direction";
+}
+
+/**
+ * Warning for a rate law that uses an id that is not defined anywhere.
+ * @param id the id of the reaction
+ * @param undefinedId
+ * @returns warning message
+ */
+export function undefinedRateLawIdWarning(id: string, undefinedId: string): string {
+  return "Rate law of " + getReactionLabel(id) + " uses '" + undefinedId + "', which is not defined anywhere";
+}
+
+/**
+ * Warning for a boundary species written as a reactant without "$",
+ * which looks like the reaction consumes it even though it does not.
+ * @param id the id of the reaction
+ * @param species
+ * @returns warning message
+ */
+export function consumedBoundarySpeciesWarning(id: string, species: string): string {
+  return "'" + species + "' is a boundary species, so it is not consumed by " + getReactionLabel(id);
+}
+
+/**
+ * Error for a function called with the wrong number of arguments.
+ * @param name the function
+ * @param minArgs the fewest arguments it takes
+ * @param maxArgs the most arguments it takes, Infinity if there is no limit
+ * @param given the number of arguments it was called with
+ * @returns error message
+ */
+export function functionArityError(name: string, minArgs: number, maxArgs: number, given: number): string {
+  let expected: string;
+  if (minArgs === maxArgs) {
+    expected = minArgs.toString();
+  } else if (maxArgs === Infinity) {
+    expected = "at least " + minArgs;
+  } else if (maxArgs === minArgs + 1) {
+    expected = minArgs + " or " + maxArgs;
+  } else {
+    expected = minArgs + " to " + maxArgs;
+  }
+  return "Function '" + name + "' takes " + expected + " argument" + (expected === "1" ? "" : "s") +
+      ", but " + given + (given === 1 ? " was" : " were") + " given";
+}
+
+/**
+ * Warning for a call to a function that is neither defined nor built in.
+ * @param name
+ * @returns warning message
+ */
+export function undefinedFunctionWarning(name: string): string {
+  return "Function '" + name + "' is not defined";
+}
+
+/**
+ * Error for a function body that uses an id that is not one of the function's parameters.
+ * @param id
+ * @param funcName
+ * @returns error message
+ */
+export function functionNonParameterError(id: string, funcName: string): string {
+  return "Function '" + funcName + "' can only use its own parameters, but uses '" + id + "'";
+}
+
+/**
+ * Warning for instantiating a model that is not defined, ie "A: M(x)" without a model M.
+ * @param name
+ * @returns warning message
+ */
+export function undefinedModelWarning(name: string): string {
+  return "Model '" + name + "' is not defined";
+}
+
+/**
+ * Error for instantiating a model with the wrong number of arguments.
+ * @param name the model
+ * @param expected the number of parameters the model has
+ * @param given the number of arguments it was instantiated with
+ * @returns error message
+ */
+export function modelArityError(name: string, expected: number, given: number): string {
+  return "Model '" + name + "' takes " + expected + " argument" + (expected === 1 ? "" : "s") +
+      ", but " + given + (given === 1 ? " was" : " were") + " given";
+}
+
+/**
+ * Error for passing a variable to a model parameter that is used as an incompatible type.
+ * @param argName the variable passed
+ * @param argType
+ * @param paramName the parameter of the model it is passed to
+ * @param paramType
+ * @param modelName
+ * @returns error message
+ */
+export function incompatibleModelArgumentError(argName: string, argType: varTypes, paramName: string,
+    paramType: varTypes, modelName: string): string {
+  return "Unable to pass " + argType + " '" + argName + "' to '" + paramName + "' of model '" + modelName +
+      "', which is a " + paramType;
+}
+
+/**
+ * Warning for a model that instantiates itself, directly or through other models.
+ * @param modelName the model that is instantiated
+ * @param instantiatingModel the model it is instantiated in
+ * @returns warning message
+ */
+export function recursiveModelWarning(modelName: string, instantiatingModel: string): string {
+  if (modelName === instantiatingModel) {
+    return "Model '" + modelName + "' instantiates itself";
+  }
+  return "Model '" + modelName + "' instantiates '" + instantiatingModel + "', so instantiating it here never ends";
+}
+
+/**
+ * Warning for importing a file that is not among the stored files.
+ * @param importName the file name in the import statement
+ * @returns warning message
+ */
+export function importNotFoundWarning(importName: string): string {
+  return "Unable to find the file '" + importName + "' to import";
+}
+
+/**
+ * Error for an import that leads back to a file that is already being imported.
+ * @param cycle the file names along the cycle, starting and ending with the same file
+ * @returns error message
+ */
+export function importCycleError(cycle: string[]): string {
+  return "Import cycle: " + cycle.join(" -> ");
+}
+
+/**
+ * Error for a dotted name that goes through an id that is not a submodel, ie "B.x" without "B: M(y)".
+ * @param submodelName the part of the name that is not a submodel
+ * @param name the dotted name
+ * @returns error message
+ */
+export function notSubmodelError(submodelName: string, name: string): string {
+  return "Unable to find '" + name + "', as '" + submodelName + "' is not a submodel";
+}
+
+/**
+ * Error for a dotted name whose last part is not an id of the model the submodel is an instance of.
+ * @param memberName
+ * @param modelName
+ * @returns error message
+ */
+export function missingSubmodelMemberError(memberName: string, modelName: string): string {
+  return "Model '" + modelName + "' has no id '" + memberName + "'";
+}
@@ -0,0 +1,148 @@
+import { DottedNameResolution, GlobalST, SymbolTable } from "./SymbolTableClasses";
+import { varTypes } from "./Types";
+import { Variable } from "./Variable";
+
+/**
+ * The token types of the semantic tokens legend. Each is also the
+ * name of the theme rule that colors it (see AntimonyTheme.ts).
+ */
+export const semanticTokenTypes: string[] = [
+  "species",
+  "compartment",
+  "parameter",
+  "reaction",
+  "event",
+  "function",
+  "model",
+  "unit",
+];
+
+/**
+ * The token modifiers of the legend, "readonly" marks const ids.
+ */
+export const semanticTokenModifiers: string[] = ["readonly"];
+
+/**
+ * An identifier colored by its resolved type. Lines and columns start at 1.
+ */
+export type AntimonySemanticToken = {
+  line: number;
+  startColumn: number;
+  length: number;
+  // the index of the type in semanticTokenTypes
+  tokenType: number;
+  // the bits of the modifiers in semanticTokenModifiers
+  tokenModifiers: number;
+};
+
+/**
+ * @param varInfo
+ * @param isSubmodel whether the id is a submodel, ie the "A" in "A: M()"
+ * @returns the name of the token type that the id is colored as,
+ *          or undefined if it is left to the syntax highlighting
+ */
+function getTokenTypeName(varInfo: Variable, isSubmodel: boolean): string | undefined {
+  if (isSubmodel) {
+    return "model";
+  }
+  switch (varInfo.type) {
+    case varTypes.Species:
+    case varTypes.Compartment:
+    case varTypes.Reaction:
+    case varTypes.Event:
+    case varTypes.Function:
+    case varTypes.Model:
+    case varTypes.Unit:
+      return varInfo.type;
+    case varTypes.Interaction:
+      return "reaction";
+    case varTypes.ModularModel:
+      return "model";
+    case varTypes.Parameter:
+    case varTypes.Variable:
+    case varTypes.Const:
+      return "parameter";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * @description builds a token for every location an id in table is referenced at.
+ * @param globalST
+ * @param table the symbol table of a scope
+ * @param tokens the tokens found so far, by location
+ */
+function addScopeTokens(globalST: GlobalST, table: SymbolTable, tokens: Map<string, AntimonySemanticToken>): void {
+  for (const [id, idInfo] of table.getVarMap()) {
+    let varInfo: Variable = idInfo;
+    // a dotted name, ie "A.x", is colored as the id inside of its submodel.
+    if (id.includes(".")) {
+      const resolution: DottedNameResolution | undefined = globalST.resolveDottedName(table, id);
+      if (resolution?.kind === "member") {
+        varInfo = resolution.varInfo;
+      }
+    }
+    const tokenType: number = semanticTokenTypes.indexOf(getTokenTypeName(varInfo, table.submodels.has(id)) || "");
+    if (tokenType === -1) {
+      continue;
+    }
+    const tokenModifiers: number = varInfo.isConst ? 1 : 0;
+    for (const [location, range] of idInfo.refLocations) {
+      if (range.start.line !== range.end.line || range.start.line < 1 || tokens.has(location)) {
+        continue;
+      }
+      tokens.set(location, {
+        line: range.start.line,
+        startColumn: range.start.column,
+        length: range.end.column - range.start.column,
+        tokenType: tokenType,
+        tokenModifiers: tokenModifiers,
+      });
+    }
+  }
+}
+
+/**
+ * @description finds the semantic tokens of the analyzed program, which color each id by
+ *              its resolved type, ie a species used in a rate law is colored as a species.
+ * @param globalST symbol table of the analyzed program
+ * @returns the tokens, ordered by position
+ */
+export function getSemanticTokens(globalST: GlobalST): AntimonySemanticToken[] {
+  const tokens: Map<string, AntimonySemanticToken> = new Map();
+  addScopeTokens(globalST, globalST, tokens);
+  // imported models and functions are colored in their own files.
+  for (const modelST of globalST.getModelMap().values()) {
+    if (modelST.fileName === undefined) {
+      addScopeTokens(globalST, modelST, tokens);
+    }
+  }
+  for (const funcST of globalST.getFuncMap().values()) {
+    if (funcST.fileName === undefined) {
+      addScopeTokens(globalST, funcST, tokens);
+    }
+  }
+  return Array.from(tokens.values()).sort((a, b) => a.line - b.line || a.startColumn - b.startColumn);
+}
+
+/**
+ * @description encodes tokens the way both monaco and LSP clients expect, five numbers per token:
+ *              the line relative to the previous token, the start character (relative to the
+ *              previous token if it is on the same line), the length, the type and the modifiers.
+ * @param tokens tokens ordered by position
+ * @returns the encoded tokens
+ */
+export function encodeSemanticTokens(tokens: AntimonySemanticToken[]): number[] {
+  const data: number[] = [];
+  let prevLine: number = 1;
+  let prevColumn: number = 1;
+  for (const token of tokens) {
+    const deltaLine: number = token.line - prevLine;
+    const deltaColumn: number = deltaLine === 0 ? token.startColumn - prevColumn : token.startColumn - 1;
+    data.push(deltaLine, deltaColumn, token.length, token.tokenType, token.tokenModifiers);
+    prevLine = token.line;
+    prevColumn = token.startColumn;
+  }
+  return data;
+}
@@ -0,0 +1,20 @@
+import * as monaco from "monaco-editor";
+import { encodeSemanticTokens, getSemanticTokens, semanticTokenModifiers, semanticTokenTypes } from "./SemanticTokens";
+import { GlobalST } from "./SymbolTableClasses";
+
+/**
+ * @description registers a semantic tokens provider, which colors every id by its
+ *              resolved type on top of the syntax highlighting of AntimonyLanguage.ts.
+ * @param globalST symbol table of the analyzed program
+ * @returns disposable that removes the semantic tokens provider
+ */
+export function registerSemanticTokensProvider(globalST: GlobalST): monaco.IDisposable {
+  return monaco.languages.registerDocumentSemanticTokensProvider("antimony", {
+    getLegend: () => ({ tokenTypes: semanticTokenTypes, tokenModifiers: semanticTokenModifiers }),
+    provideDocumentSemanticTokens: (model) => {
+      const tokens: number[] = model.isDisposed() ? [] : encodeSemanticTokens(getSemanticTokens(globalST));
+      return { data: new Uint32Array(tokens) };
+    },
+    releaseDocumentSemanticTokens: () => {},
+  });
+}
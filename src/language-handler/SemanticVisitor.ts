@@ -1,14 +1,18 @@
 import { AntimonyGrammarVisitor } from "./antlr/AntimonyGrammarVisitor";
-import { SymbolTable } from "./SymbolTableClasses";
+import { DottedNameResolution, ParamAndNameTable, SymbolTable } from "./SymbolTableClasses";
 import { ErrorVisitor } from "./ErrorVisitor";
-import { AnnotationContext, FunctionContext, Is_assignmentContext, ModelContext, Modular_modelContext, ReactionContext, SpeciesContext, Var_nameContext } from "./antlr/AntimonyGrammarParser";
-import { ErrorUnderline, SrcRange, isSubtTypeOf, varTypes } from "./Types";
-import { defaultValueWarning, overridingDisplayNameWarning, unitializedParameterError, unitializedRateLawWarning, varNotFound } from "./SemanticErrors";
-import { ErrorNode } from "antlr4ts/tree";
+import { AnnotationContext, AntimonyGrammarParser, AssignmentContext, AtomContext, Bool_expContext, Decl_itemContext, Event_assignmentContext, EventContext, Event_triggerContext, Func_callContext, FunctionContext, Init_paramsContext, Is_assignmentContext, Mmodel_callContext, ModelContext, Modular_modelContext, NamemaybeinContext, ParametersContext, PowerContext, ProductContext, Rate_ruleContext, ReactionContext, SpeciesContext, SumContext, Unit_assignmentContext, Unit_declarationContext, Var_nameContext } from "./antlr/AntimonyGrammarParser";
+import { diagnosticCodes, ErrorUnderline, SrcRange, isSubtTypeOf, varTypes } from "./Types";
+import { booleanDelayError, booleanPriorityError, constantEventAssignmentError, consumedBoundarySpeciesWarning, defaultValueWarning, duplicateEventOptionWarning, functionArityError, functionNonParameterError, incompatibleModelArgumentError, inconsistentAssignmentUnitsWarning, inconsistentRateRuleUnitsWarning, inconsistentUnitsWarning, missingSubmodelMemberError, modelArityError, negativeDelayError, nonBooleanTriggerError, notSubmodelError, overridingDisplayNameWarning, rateLawMissingReactantsWarning, reactionEventAssignmentError, recursiveModelWarning, reversedRateLawWarning, undefinedFunctionWarning, undefinedModelWarning, undefinedRateLawIdWarning, unitializedParameterError, unitializedRateLawWarning, varNotFound } from "./SemanticErrors";
+import { ErrorNode, ParseTree } from "antlr4ts/tree";
 import { predefinedConstants, Variable } from "./Variable";
+import { resolveUnit, resolveUnitName, timeUnitName, Unit } from "./Units";
+import { BuiltinFunction, builtinFunctions } from "./BuiltinFunctions";
 
 // goal is to loop through and look at all variables, classes, 
 export class SemanticVisitor extends ErrorVisitor implements AntimonyGrammarVisitor<void> {
+  // sums whose units have been checked as part of a larger expression
+  private unitCheckedSums: Set<SumContext> = new Set();
 
   visitIs_assignment(ctx: Is_assignmentContext) {
     if (this.hasParseError(ctx)) {
@@ -31,12 +35,12 @@ export class SemanticVisitor extends ErrorVisitor implements AntimonyGrammarVisi
         } else {
           // warning for overriding
           const warnMessage = overridingDisplayNameWarning(varName);
-          const warnUnderline = this.getErrorUnderline(idSrcRange, warnMessage, false);
+          const warnUnderline = this.getErrorUnderline(idSrcRange, warnMessage, false, diagnosticCodes.OverridingDisplayName);
           this.addError(warnUnderline);
         }
       } else {
         const warnMessage = varNotFound(varName);
-        const warnUnderline = this.getErrorUnderline(idSrcRange, warnMessage, false);
+        const warnUnderline = this.getErrorUnderline(idSrcRange, warnMessage, false, diagnosticCodes.VarNotFound);
         this.addError(warnUnderline);
       }
     }
@@ -82,9 +86,45 @@ export class SemanticVisitor extends ErrorVisitor implements AntimonyGrammarVisi
       return;
     }
 
+    if (this.currNameAndScope?.scope === 'function') {
+      this.functionParameterCheck(ctx, this.currNameAndScope.name);
+    }
     this.varInitializationCheck(ctx);
   }
 
+  /**
+   * checks that a function is called with as many arguments as it takes.
+   * @param ctx 
+   */
+  visitFunc_call(ctx: Func_callContext) {
+    if (this.hasParseError(ctx)) {
+      return;
+    }
+
+    const funcName: string = ctx.var_name().NAME().text;
+    const params: ParametersContext | undefined = ctx.parameters();
+    const argCount: number = params ? params.bool_exp().length : 0;
+    const callSrcRange: SrcRange = this.getSrcRange(ctx);
+    // functions defined in the program take precedence over builtin ones.
+    const funcST: ParamAndNameTable | undefined = this.globalST.getFunctionST(funcName);
+    const builtin: BuiltinFunction | undefined = builtinFunctions.get(funcName);
+    const minArgs: number | undefined = funcST ? funcST.params.length : builtin?.minArgs;
+    const maxArgs: number | undefined = funcST ? funcST.params.length : builtin?.maxArgs;
+
+    if (minArgs === undefined || maxArgs === undefined) {
+      const warnMessage: string = undefinedFunctionWarning(funcName);
+      this.addError(this.getErrorUnderline(callSrcRange, warnMessage, false, diagnosticCodes.UndefinedFunction));
+    } else if (argCount < minArgs || argCount > maxArgs) {
+      const errorMessage: string = functionArityError(funcName, minArgs, maxArgs, argCount);
+      this.addError(this.getErrorUnderline(callSrcRange, errorMessage, true, diagnosticCodes.FunctionArity));
+    }
+
+    // the function name is not a variable, so only the arguments are visited.
+    if (params) {
+      this.visit(params);
+    }
+  }
+
   visitSpecies(ctx: SpeciesContext) {
     if (this.hasParseError(ctx)) {
       return;
@@ -115,7 +155,9 @@ export class SemanticVisitor extends ErrorVisitor implements AntimonyGrammarVisi
        // although it might make more sense to check in the semantic visitor
       // it really doesn't matter here I think.
       const errorMessage: string = unitializedRateLawWarning(id);
-      this.addError(this.getErrorUnderline(this.getSrcRange(ctx), errorMessage, false));
+      this.addError(this.getErrorUnderline(this.getSrcRange(ctx), errorMessage, false, diagnosticCodes.MissingRateLaw));
+    } else {
+      this.checkRateLaw(id, ctx);
     }
 
     if (ctx.children) {
@@ -123,6 +165,573 @@ export class SemanticVisitor extends ErrorVisitor implements AntimonyGrammarVisi
         this.visit(ctx.children[i]);
       }
     }
+
+    // after the children, so that the ids they already report as missing a value are known
+    const rateLaw: SumContext | undefined = ctx.sum();
+    if (rateLaw) {
+      this.checkRateLawIds(id, rateLaw);
+    }
+  }
+
+  /**
+   * warns about the ids in a rate law that are not defined anywhere, unless
+   * they are already reported as parameters that are missing a value.
+   * @param id the id of the reaction, empty if it has none
+   * @param rateLaw
+   */
+  private checkRateLawIds(id: string, rateLaw: SumContext) {
+    const currST: SymbolTable | undefined = this.getCurrST();
+    for (const varNameCtx of this.getRateLawIds(rateLaw)) {
+      const name: string = varNameCtx.NAME().text;
+      const varInfo: Variable | undefined = currST?.getVar(name);
+      const idSrcRange: SrcRange = this.getSrcRange(varNameCtx);
+      // dotted names, ie "A.x", are defined inside of their submodel.
+      const isUndefined: boolean = varInfo !== undefined && varInfo.type === varTypes.Parameter
+        && varInfo.initSrcRange === undefined && varInfo.declSrcRange === undefined && !predefinedConstants.has(name)
+        && !name.includes(".");
+      if (isUndefined && !this.hasErrorAt(diagnosticCodes.UninitializedParameter, idSrcRange)) {
+        const warnMessage: string = undefinedRateLawIdWarning(id, name);
+        this.addError(this.getErrorUnderline(idSrcRange, warnMessage, false, diagnosticCodes.UndefinedRateLawId));
+      }
+    }
+  }
+
+  /**
+   * checks that the rate law of a reaction fits its species, as rate laws are
+   * often copied from another reaction and not updated.
+   * @param id the id of the reaction, empty if it has none
+   * @param ctx the reaction, which has a rate law
+   */
+  private checkRateLaw(id: string, ctx: ReactionContext) {
+    const rateLaw: SumContext = ctx.sum()!!;
+    const currST: SymbolTable | undefined = this.getCurrST();
+    const arrowIndex: number = ctx.ARROW().symbol.tokenIndex;
+    let reactants: SpeciesContext[] = [];
+    let products: SpeciesContext[] = [];
+    for (const speciesList of ctx.species_list()) {
+      if (speciesList.stop && speciesList.stop.tokenIndex < arrowIndex) {
+        reactants = speciesList.species();
+      } else {
+        products = speciesList.species();
+      }
+    }
+
+    const rateLawIds: Var_nameContext[] = this.getRateLawIds(rateLaw);
+    const usedNames: Set<string> = new Set(rateLawIds.map((varNameCtx) => varNameCtx.NAME().text));
+    const reactantNames: string[] = [...new Set(reactants.map((species) => species.NAME().text))];
+    const productNames: string[] = [...new Set(products.map((species) => species.NAME().text))];
+    const rateLawSrcRange: SrcRange = this.getSrcRange(rateLaw);
+
+    if (reactantNames.length > 0 && !reactantNames.some((name) => usedNames.has(name))) {
+      const usedProducts: string[] = productNames.filter((name) => usedNames.has(name));
+      if (usedProducts.length > 0) {
+        const warnMessage: string = reversedRateLawWarning(id, usedProducts);
+        this.addError(this.getErrorUnderline(rateLawSrcRange, warnMessage, false, diagnosticCodes.ReversedRateLaw));
+      } else {
+        const warnMessage: string = rateLawMissingReactantsWarning(id, reactantNames);
+        this.addError(this.getErrorUnderline(rateLawSrcRange, warnMessage, false, diagnosticCodes.RateLawMissingReactants));
+      }
+    }
+
+    for (const reactant of reactants) {
+      const name: string = reactant.NAME().text;
+      const varInfo: Variable | undefined = currST?.getVar(name);
+      const hasDollar: boolean = reactant.children?.some((child) => child.text === "$") || false;
+      if (varInfo?.type === varTypes.Species && varInfo.isConst && !hasDollar) {
+        const warnMessage: string = consumedBoundarySpeciesWarning(id, name);
+        this.addError(this.getErrorUnderline(this.getSrcRange(reactant.NAME()), warnMessage, false, diagnosticCodes.ConsumedBoundarySpecies));
+      }
+    }
+  }
+
+  /**
+   * finds the ids used in a rate law, leaving out the names of called functions
+   * @param ctx
+   * @returns the contexts of the ids, in order
+   */
+  private getRateLawIds(ctx: ParseTree): Var_nameContext[] {
+    if (ctx instanceof Var_nameContext) {
+      return [ctx];
+    }
+    if (ctx instanceof Func_callContext) {
+      const params: ParametersContext | undefined = ctx.parameters();
+      return params ? this.getRateLawIds(params) : [];
+    }
+    const ids: Var_nameContext[] = [];
+    for (let i = 0; i < ctx.childCount; i++) {
+      ids.push(...this.getRateLawIds(ctx.getChild(i)));
+    }
+    return ids;
+  }
+
+  // unit expressions are checked as the symbol table is built,
+  // and are not values, so they are not checked here.
+  visitUnit_declaration(ctx: Unit_declarationContext) {
+
+  }
+
+  visitUnit_assignment(ctx: Unit_assignmentContext) {
+    if (this.hasParseError(ctx)) {
+      return;
+    }
+
+    this.visit(ctx.var_name());
+  }
+
+  visitSum(ctx: SumContext) {
+    if (this.hasParseError(ctx)) {
+      return;
+    }
+
+    if (!this.unitCheckedSums.has(ctx)) {
+      this.getUnit(ctx);
+    }
+    this.visitChildren(ctx);
+  }
+
+  visitAssignment(ctx: AssignmentContext) {
+    if (this.hasParseError(ctx)) {
+      return;
+    }
+
+    const varName: string | undefined = this.getAssignedName(ctx.namemaybein());
+    if (varName) {
+      this.checkAssignedUnit(varName, ctx.sum());
+    }
+    this.visitChildren(ctx);
+  }
+
+  visitDecl_item(ctx: Decl_itemContext) {
+    if (this.hasParseError(ctx)) {
+      return;
+    }
+
+    const varName: string | undefined = this.getAssignedName(ctx.tryGetRuleContext(0, NamemaybeinContext));
+    const value: SumContext | undefined = ctx.decl_assignment()?.sum();
+    if (varName && value) {
+      this.checkAssignedUnit(varName, value);
+    }
+    this.visitChildren(ctx);
+  }
+
+  visitEvent(ctx: EventContext) {
+    if (this.hasParseError(ctx)) {
+      return;
+    }
+
+    const trigger: Bool_expContext = ctx.bool_exp();
+    if (this.isBooleanExpression(trigger) === false) {
+      const errorMessage: string = nonBooleanTriggerError();
+      this.addError(this.getErrorUnderline(this.getSrcRange(trigger), errorMessage, true, diagnosticCodes.NonBooleanTrigger));
+    }
+
+    const delay: Bool_expContext | undefined = ctx.event_delay()?.bool_exp();
+    if (delay) {
+      this.checkEventDelay(delay);
+    }
+
+    const options: Event_triggerContext[] = ctx.event_trigger_list()?.event_trigger() || [];
+    const seenOptions: Set<string> = new Set();
+    for (const option of options) {
+      const optionName: string = option.getChild(0).text;
+      const optionSrcRange: SrcRange = this.getSrcRange(option);
+      if (seenOptions.has(optionName)) {
+        const warnMessage: string = duplicateEventOptionWarning(optionName);
+        this.addError(this.getErrorUnderline(optionSrcRange, warnMessage, false, diagnosticCodes.InvalidEventOption));
+      }
+      seenOptions.add(optionName);
+
+      // t0, fromTrigger and persistent can only be given true or false by the grammar.
+      const priority: SumContext | undefined = option.sum();
+      if (priority && this.isBooleanExpression(priority)) {
+        const errorMessage: string = booleanPriorityError();
+        this.addError(this.getErrorUnderline(optionSrcRange, errorMessage, true, diagnosticCodes.InvalidEventOption));
+      }
+    }
+
+    this.visitChildren(ctx);
+  }
+
+  visitEvent_assignment(ctx: Event_assignmentContext) {
+    if (this.hasParseError(ctx)) {
+      return;
+    }
+
+    const varName: string = ctx.var_name().NAME().text;
+    const idSrcRange: SrcRange = this.getSrcRange(ctx.var_name());
+    const varInfo: Variable | undefined = this.getCurrST()?.getVar(varName);
+    // the "$" of a species makes it a boundary species, which events can still change.
+    const isConst: boolean = (varInfo?.isConst || ctx.var_name().text.charAt(0) === "$") && varInfo?.type !== varTypes.Species;
+    if (predefinedConstants.has(varName) || isConst) {
+      const errorMessage: string = constantEventAssignmentError(varName);
+      this.addError(this.getErrorUnderline(idSrcRange, errorMessage, true, diagnosticCodes.ConstantEventAssignment));
+    } else if (varInfo?.type === varTypes.Reaction) {
+      const errorMessage: string = reactionEventAssignmentError(varName);
+      this.addError(this.getErrorUnderline(idSrcRange, errorMessage, true, diagnosticCodes.ReactionEventAssignment));
+    }
+
+    this.checkAssignedUnit(varName, ctx.sum());
+    this.visitChildren(ctx);
+  }
+
+  /**
+   * reports an error if an event delay is a boolean expression or a negative number
+   * @param delay
+   */
+  private checkEventDelay(delay: Bool_expContext) {
+    const isBoolean: boolean | undefined = this.isBooleanExpression(delay);
+    if (isBoolean) {
+      const errorMessage: string = booleanDelayError();
+      this.addError(this.getErrorUnderline(this.getSrcRange(delay), errorMessage, true, diagnosticCodes.InvalidEventDelay));
+    } else if (isBoolean === false) {
+      const value: number | undefined = this.getConstantValue(delay.expressions(0).sum(0));
+      if (value !== undefined && value < 0) {
+        const errorMessage: string = negativeDelayError(value);
+        this.addError(this.getErrorUnderline(this.getSrcRange(delay), errorMessage, true, diagnosticCodes.InvalidEventDelay));
+      }
+    }
+  }
+
+  /**
+   * @param ctx
+   * @returns the name assigned to, or undefined if the parser had to leave it out, as in "species = 1"
+   */
+  private getAssignedName(ctx: NamemaybeinContext | undefined): string | undefined {
+    return ctx?.tryGetRuleContext(0, Var_nameContext)?.tryGetToken(AntimonyGrammarParser.NAME, 0)?.text;
+  }
+
+  /**
+   * @param ctx
+   * @returns the atom ctx is made of, or undefined if ctx has any operators
+   */
+  private getSingleAtom(ctx: SumContext): AtomContext | undefined {
+    const product: ProductContext | undefined = ctx.childCount === 1 ? ctx.product() : undefined;
+    const power: PowerContext | undefined = product?.childCount === 1 ? product.power() : undefined;
+    return power?.childCount === 1 ? power.atom() : undefined;
+  }
+
+  /**
+   * works out if an expression is boolean, ie "time > 5" or "(a && b)"
+   * @param ctx
+   * @returns true or false, or undefined if it is not known, as for function calls
+   */
+  private isBooleanExpression(ctx: Bool_expContext | SumContext): boolean | undefined {
+    if (this.hasParseError(ctx) || ctx.childCount === 0) {
+      return undefined;
+    }
+
+    let sum: SumContext = ctx as SumContext;
+    if (ctx instanceof Bool_expContext) {
+      const expressions = ctx.expressions();
+      if (ctx.LOGICAL().length > 0 || expressions[0].COMPARE().length > 0) {
+        return true;
+      }
+      sum = expressions[0].sum(0);
+    }
+
+    const atom: AtomContext | undefined = this.getSingleAtom(sum);
+    if (!atom) {
+      // arithmetic, which is never boolean.
+      return false;
+    }
+    if (atom.func_call()) {
+      return undefined;
+    }
+    const inner: Bool_expContext | SumContext | undefined = atom.bool_exp() || atom.sum();
+    return inner ? this.isBooleanExpression(inner) : false;
+  }
+
+  /**
+   * works out the value of an expression made only of numbers, ie "-2 * 3"
+   * @param ctx
+   * @returns the value, or undefined if ctx uses any variables or functions
+   */
+  private getConstantValue(ctx: SumContext | ProductContext | PowerContext | AtomContext): number | undefined {
+    if (this.hasParseError(ctx) || ctx.childCount === 0) {
+      return undefined;
+    }
+
+    if (ctx instanceof SumContext || ctx instanceof ProductContext) {
+      const right: number | undefined = this.getConstantValue(ctx instanceof SumContext ? ctx.product() : ctx.power());
+      const leftCtx: SumContext | ProductContext | undefined = ctx instanceof SumContext ? ctx.sum() : ctx.product();
+      if (!leftCtx) {
+        return right;
+      }
+      const left: number | undefined = this.getConstantValue(leftCtx);
+      if (left === undefined || right === undefined) {
+        return undefined;
+      }
+      switch (ctx.getChild(1).text) {
+        case "+": return left + right;
+        case "-": return left - right;
+        case "*": return left * right;
+        default: return left / right;
+      }
+    }
+
+    if (ctx instanceof PowerContext) {
+      const exponent: number | undefined = this.getConstantValue(ctx.atom());
+      const baseCtx: PowerContext | undefined = ctx.power();
+      if (exponent === undefined) {
+        return undefined;
+      }
+      if (!baseCtx) {
+        return ctx.childCount === 1 ? exponent : Math.exp(exponent);
+      }
+      const base: number | undefined = this.getConstantValue(baseCtx);
+      return base === undefined ? undefined : Math.pow(base, exponent);
+    }
+
+    const numbers = ctx.NUMBER();
+    if (ctx.var_name() || ctx.func_call() || ctx.bool_exp()) {
+      return undefined;
+    } else if (numbers.length === 1) {
+      return Number(numbers[0].text);
+    } else if (numbers.length === 2) {
+      // scientific notation, ie "1e-3"
+      return Number(numbers[0].text + "e" + ctx.getChild(2).text + numbers[1].text);
+    }
+    const innerCtx: AtomContext | SumContext | undefined = ctx.atom() || ctx.sum();
+    const value: number | undefined = innerCtx && this.getConstantValue(innerCtx);
+    return value !== undefined && ctx.getChild(0).text === "-" ? -value : value;
+  }
+
+  visitRate_rule(ctx: Rate_ruleContext) {
+    if (this.hasParseError(ctx)) {
+      return;
+    }
+
+    const varName: string = ctx.NAME().text;
+    const varUnit: Unit | undefined = this.getVarUnit(varName);
+    const valueUnit: Unit | undefined = this.getUnit(ctx.sum());
+    if (varUnit && valueUnit && !valueUnit.isNumber) {
+      const unitMap = this.globalST.getUnitMap();
+      const timeUnit: Unit = resolveUnitName(unitMap.has(timeUnitName) ? timeUnitName : "second", unitMap);
+      const rateUnit: Unit = varUnit.divide(timeUnit);
+      if (!rateUnit.hasSameDimensions(valueUnit)) {
+        const warnMessage: string = inconsistentRateRuleUnitsWarning(varName, rateUnit, valueUnit);
+        this.addError(this.getErrorUnderline(this.getSrcRange(ctx.sum()), warnMessage, false, diagnosticCodes.InconsistentUnits));
+      }
+    }
+    this.visitChildren(ctx);
+  }
+
+  /**
+   * reports a warning if the unit of value does not match the unit of varName
+   * @param varName the variable being assigned to
+   * @param value the assigned value
+   */
+  private checkAssignedUnit(varName: string, value: SumContext) {
+    const varUnit: Unit | undefined = this.getVarUnit(varName);
+    const valueUnit: Unit | undefined = this.getUnit(value);
+    if (varUnit && valueUnit && !valueUnit.isNumber && !varUnit.hasSameDimensions(valueUnit)) {
+      const warnMessage: string = inconsistentAssignmentUnitsWarning(varName, varUnit, valueUnit);
+      this.addError(this.getErrorUnderline(this.getSrcRange(value), warnMessage, false, diagnosticCodes.InconsistentUnits));
+    }
+  }
+
+  /**
+   * @param varName
+   * @returns the unit of varName in the current scope, undefined if it has none
+   */
+  private getVarUnit(varName: string): Unit | undefined {
+    const varInfo: Variable | undefined = this.getCurrST()?.getVar(varName);
+    if (!varInfo || varInfo.type === varTypes.Unit || !varInfo.unitDefinition || !varInfo.unit) {
+      return undefined;
+    }
+    return resolveUnit(varInfo.unitDefinition, this.globalST.getUnitMap(), varInfo.unit);
+  }
+
+  /**
+   * works out the unit of an expression, reporting a warning wherever
+   * values with inconsistent units are added or subtracted.
+   * @param ctx the expression
+   * @returns the unit, or undefined if it is not known, ie it uses a variable without a unit
+   */
+  private getUnit(ctx: SumContext | ProductContext | PowerContext | AtomContext): Unit | undefined {
+    if (this.hasParseError(ctx) || ctx.childCount === 0) {
+      return undefined;
+    }
+
+    if (ctx instanceof SumContext) {
+      this.unitCheckedSums.add(ctx);
+      const leftCtx: SumContext | undefined = ctx.sum();
+      const right: Unit | undefined = this.getUnit(ctx.product());
+      if (!leftCtx) {
+        return right;
+      }
+      const left: Unit | undefined = this.getUnit(leftCtx);
+      if (left && right && !left.isNumber && !right.isNumber && !left.hasSameDimensions(right)) {
+        const warnMessage: string = inconsistentUnitsWarning(left, right);
+        this.addError(this.getErrorUnderline(this.getSrcRange(ctx), warnMessage, false, diagnosticCodes.InconsistentUnits));
+        return undefined;
+      }
+      // plain numbers take on the unit of what they are added to.
+      return left?.isNumber ? right : left;
+    }
+
+    if (ctx instanceof ProductContext) {
+      const right: Unit | undefined = this.getUnit(ctx.power());
+      const leftCtx: ProductContext | undefined = ctx.product();
+      if (!leftCtx) {
+        return right;
+      }
+      const left: Unit | undefined = this.getUnit(leftCtx);
+      if (!left || !right) {
+        return undefined;
+      }
+      return ctx.getChild(1).text === "/" ? left.divide(right) : left.multiply(right);
+    }
+
+    if (ctx instanceof PowerContext) {
+      const baseCtx: PowerContext | undefined = ctx.power();
+      const atom: Unit | undefined = this.getUnit(ctx.atom());
+      if (!baseCtx) {
+        // the unit of exp(x) is not known.
+        return ctx.childCount === 1 ? atom : undefined;
+      }
+      const base: Unit | undefined = this.getUnit(baseCtx);
+      const exponent: number = Number(ctx.atom().text);
+      if (base?.isNumber) {
+        return base;
+      }
+      return base && !isNaN(exponent) ? base.power(exponent) : undefined;
+    }
+
+    const varNameCtx: Var_nameContext | undefined = ctx.var_name();
+    if (varNameCtx && ctx.NUMBER().length > 0) {
+      // a number with a unit, ie "3 mM"
+      return resolveUnitName(varNameCtx.NAME().text, this.globalST.getUnitMap());
+    }
+    if (varNameCtx) {
+      return this.getVarUnit(varNameCtx.NAME().text);
+    }
+    if (ctx.NUMBER().length > 0) {
+      return Unit.number();
+    }
+    const innerCtx: AtomContext | SumContext | undefined = ctx.atom() || ctx.sum();
+    // function calls and boolean expressions have no known unit.
+    return innerCtx && this.getUnit(innerCtx);
+  }
+
+  /**
+   * checks a model instantiation, ie "A: M(x, y)", against the parameters of the model.
+   * @param ctx 
+   */
+  visitMmodel_call(ctx: Mmodel_callContext) {
+    if (this.hasParseError(ctx)) {
+      return;
+    }
+
+    const modelName: string = ctx.NAME().text;
+    const callSrcRange: SrcRange = this.getSrcRange(ctx);
+    const modelST: ParamAndNameTable | undefined = this.globalST.getModelST(modelName);
+    if (!modelST) {
+      const warnMessage: string = undefinedModelWarning(modelName);
+      this.addError(this.getErrorUnderline(callSrcRange, warnMessage, false, diagnosticCodes.UndefinedModel));
+      this.visitChildren(ctx);
+      return;
+    }
+
+    // init_params alternates between the arguments and the commas between them.
+    const args: ParseTree[] = [];
+    const params: Init_paramsContext | undefined = ctx.init_params();
+    for (let i = 0; params && i < params.childCount; i += 2) {
+      args.push(params.getChild(i));
+    }
+
+    if (args.length !== modelST.params.length) {
+      const errorMessage: string = modelArityError(modelName, modelST.params.length, args.length);
+      this.addError(this.getErrorUnderline(callSrcRange, errorMessage, true, diagnosticCodes.ModelArity));
+    } else {
+      const currST: SymbolTable | undefined = this.getCurrST();
+      for (let i = 0; i < args.length; i++) {
+        const argInfo: Variable | undefined = currST?.getVar(args[i].text);
+        const paramInfo: Variable | undefined = modelST.getVar(modelST.params[i]);
+        if (argInfo && paramInfo && !this.isCompatibleType(argInfo.type, paramInfo.type)) {
+          const errorMessage: string = incompatibleModelArgumentError(
+            args[i].text, argInfo.type, modelST.params[i], paramInfo.type, modelName
+          );
+          this.addError(this.getErrorUnderline(this.getSrcRange(args[i]), errorMessage, true, diagnosticCodes.IncompatibleModelArgument));
+        }
+      }
+    }
+
+    const currModel: string | undefined = this.currNameAndScope?.scope === 'model' ? this.currNameAndScope.name : undefined;
+    if (currModel && this.instantiatesModel(modelName, currModel, new Set())) {
+      const warnMessage: string = recursiveModelWarning(modelName, currModel);
+      this.addError(this.getErrorUnderline(callSrcRange, warnMessage, false, diagnosticCodes.RecursiveModel));
+    }
+
+    this.visitChildren(ctx);
+  }
+
+  /**
+   * @param type1
+   * @param type2
+   * @returns true if a variable of type1 can be passed to a model parameter of type2, or the other way around
+   */
+  private isCompatibleType(type1: varTypes, type2: varTypes): boolean {
+    if (type1 === varTypes.PredefConstant || type2 === varTypes.PredefConstant) {
+      return true;
+    }
+    return isSubtTypeOf(type1, type2) || isSubtTypeOf(type2, type1);
+  }
+
+  /**
+   * finds if instantiating modelName ends up instantiating target
+   * @param modelName
+   * @param target
+   * @param visited the models already searched, so cycles that do not include target end
+   * @returns true if modelName is target or instantiates it, directly or through other models
+   */
+  private instantiatesModel(modelName: string, target: string, visited: Set<string>): boolean {
+    if (modelName === target) {
+      return true;
+    }
+    if (visited.has(modelName)) {
+      return false;
+    }
+    visited.add(modelName);
+    const submodelNames: Set<string> = this.globalST.getModelST(modelName)?.submodelNames || new Set();
+    for (const submodelName of submodelNames) {
+      if (this.instantiatesModel(submodelName, target, visited)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * reports an error if a function body uses an id that is not one of its parameters
+   * @param ctx an id within the body of the function
+   * @param funcName
+   */
+  private functionParameterCheck(ctx: Var_nameContext, funcName: string) {
+    const varName: string = ctx.NAME().text;
+    const funcST: ParamAndNameTable | undefined = this.globalST.getFunctionST(funcName);
+    if (funcST && !funcST.paramSet.has(varName) && !predefinedConstants.has(varName)) {
+      const errorMessage: string = functionNonParameterError(varName, funcName);
+      this.addError(this.getErrorUnderline(this.getSrcRange(ctx.NAME()), errorMessage, true, diagnosticCodes.FunctionNonParameter));
+    }
+  }
+
+  /**
+   * checks that a dotted name, ie "A.x", goes through submodels to an id that
+   * exists in the model the last submodel is an instance of.
+   * @param currST the ST the name is used in
+   * @param varName
+   * @param idSrcRange
+   */
+  private dottedNameCheck(currST: SymbolTable, varName: string, idSrcRange: SrcRange) {
+    const resolution: DottedNameResolution | undefined = this.globalST.resolveDottedName(currST, varName);
+    if (resolution?.kind === "notSubmodel") {
+      const errorMessage: string = notSubmodelError(resolution.submodelName, varName);
+      this.addError(this.getErrorUnderline(idSrcRange, errorMessage, true, diagnosticCodes.NotSubmodel));
+    } else if (resolution?.kind === "missingMember") {
+      const errorMessage: string = missingSubmodelMemberError(resolution.memberName, resolution.modelName);
+      this.addError(this.getErrorUnderline(idSrcRange, errorMessage, true, diagnosticCodes.MissingSubmodelMember));
+    }
   }
 
   /**
@@ -135,7 +744,10 @@ export class SemanticVisitor extends ErrorVisitor implements AntimonyGrammarVisi
     const currST: SymbolTable | undefined = this.getCurrST();
     const varName = ctx.NAME().text;
     const idSrcRange: SrcRange = this.getSrcRange(ctx.NAME());
-    if (currST) {
+    if (currST && varName.includes(".")) {
+      // initialized (or not) inside of the submodel.
+      this.dottedNameCheck(currST, varName, idSrcRange);
+    } else if (currST) {
       const varInfo = currST.getVar(varName);
       if (this.currNameAndScope?.scope !== 'function' && varInfo && varInfo.initSrcRange === undefined) {
         if (varInfo.type === varTypes.Parameter) {
@@ -144,14 +756,16 @@ export class SemanticVisitor extends ErrorVisitor implements AntimonyGrammarVisi
             // error, needs initialized value
             //Parameter 'k' missing value assignment
             const errorMessage: string = unitializedParameterError(varName);
-            const errorUnderline: ErrorUnderline = this.getErrorUnderline(idSrcRange, errorMessage, true);
+            const errorUnderline: ErrorUnderline =
+              this.getErrorUnderline(idSrcRange, errorMessage, true, diagnosticCodes.UninitializedParameter);
             this.addError(errorUnderline);
           }
         } else if (isSubtTypeOf(varInfo.type, varTypes.Parameter) && varInfo.type !== varTypes.Reaction && varInfo.type !== varTypes.Event) {
           // warning, using default value
           // Species 'Z' has not been initialized, using default value
           const errorMessage: string = defaultValueWarning(varName, varInfo.type);
-          const errorUnderline: ErrorUnderline = this.getErrorUnderline(idSrcRange, errorMessage, false);
+          const errorUnderline: ErrorUnderline =
+            this.getErrorUnderline(idSrcRange, errorMessage, false, diagnosticCodes.DefaultValue);
           this.addError(errorUnderline);
         }
       }
@@ -0,0 +1,124 @@
+import { BuiltinFunction, builtinFunctions } from "./BuiltinFunctions";
+import { GlobalST, ParamAndNameTable } from "./SymbolTableClasses";
+
+/**
+ * The signature of a function or modular model. Each parameter is given as
+ * the start and end of its name in label, so that a parameter named like the
+ * function, ie the "x" in "max(x, ...)", is still highlighted in the right place.
+ */
+export type AntimonySignature = {
+  label: string;
+  documentation: string | undefined;
+  parameters: [number, number][];
+};
+
+/**
+ * The signature of the call the cursor is in, and the argument the cursor is at.
+ * activeParameter is -1 when there are more arguments than parameters.
+ */
+export type AntimonySignatureHelp = {
+  signature: AntimonySignature;
+  activeParameter: number;
+};
+
+// matches the name of a call right before its "(", ie "f" in "x = f(", but not model or function definitions.
+const callNameRegex = /(?<!\b(?:model|module|function)\s+\*?\s*)(?<![\w.])([A-Za-z_]\w*)\s*$/;
+
+/**
+ * @description finds the call that the end of linePrefix is inside of.
+ * @param linePrefix the text of the current line up until the cursor
+ * @returns the name of the called function or model, and the index of the argument
+ *          being typed, or undefined if the cursor is not inside of a call
+ */
+export function getCallAtPosition(linePrefix: string): { name: string; argumentIndex: number } | undefined {
+  // the argument counts of the parentheses that are still open.
+  const openCalls: { start: number; argumentIndex: number }[] = [];
+  let inString: boolean = false;
+  for (let i = 0; i < linePrefix.length; i++) {
+    const char: string = linePrefix[i];
+    if (char === "\"") {
+      inString = !inString;
+    } else if (inString) {
+      continue;
+    } else if (char === "/" && linePrefix[i + 1] === "/") {
+      return undefined;
+    } else if (char === "(") {
+      openCalls.push({ start: i, argumentIndex: 0 });
+    } else if (char === ")") {
+      openCalls.pop();
+    } else if (char === "," && openCalls.length > 0) {
+      openCalls[openCalls.length - 1].argumentIndex++;
+    }
+  }
+
+  const call = openCalls[openCalls.length - 1];
+  const nameMatch: RegExpMatchArray | null = call && !inString ? linePrefix.substring(0, call.start).match(callNameRegex) : null;
+  if (!call || !nameMatch) {
+    return undefined;
+  }
+  return { name: nameMatch[1], argumentIndex: call.argumentIndex };
+}
+
+/**
+ * @param name
+ * @param params
+ * @param documentation
+ * @returns the signature "name(param1, param2)", with the location of each parameter
+ */
+function createSignature(name: string, params: string[], documentation: string | undefined): AntimonySignature {
+  let label: string = name + "(";
+  const parameters: [number, number][] = [];
+  params.forEach((param, i) => {
+    if (i > 0) {
+      label += ", ";
+    }
+    parameters.push([label.length, label.length + param.length]);
+    label += param;
+  });
+  return { label: label + ")", documentation: documentation, parameters: parameters };
+}
+
+/**
+ * @param globalST symbol table of the analyzed program
+ * @param name the name of the called function or model
+ * @returns the signature of the function or modular model, functions of the
+ *          program first, then antimony's math functions
+ */
+function getSignature(globalST: GlobalST, name: string): AntimonySignature | undefined {
+  const funcST: ParamAndNameTable | undefined = globalST.getFunctionST(name);
+  if (funcST) {
+    return createSignature(name, funcST.params, funcST.body);
+  }
+  const modelST: ParamAndNameTable | undefined = globalST.getModelST(name);
+  if (modelST) {
+    return createSignature(name, modelST.params, modelST.notes);
+  }
+  const builtin: BuiltinFunction | undefined = builtinFunctions.get(name);
+  if (builtin) {
+    return createSignature(name, builtin.params, builtin.description);
+  }
+  return undefined;
+}
+
+/**
+ * @description builds the signature help for the call the cursor is in.
+ * @param globalST symbol table of the analyzed program
+ * @param linePrefix the text of the current line up until the cursor
+ * @returns the signature help, or undefined if the cursor is not
+ *          inside of a call to a function or modular model
+ */
+export function getSignatureHelp(globalST: GlobalST, linePrefix: string): AntimonySignatureHelp | undefined {
+  const call = getCallAtPosition(linePrefix);
+  const signature: AntimonySignature | undefined = call && getSignature(globalST, call.name);
+  if (!call || !signature) {
+    return undefined;
+  }
+
+  let activeParameter: number = call.argumentIndex;
+  const label = (index: number) => signature.label.substring(...signature.parameters[index]);
+  if (activeParameter >= signature.parameters.length) {
+    // "..." stands for any number of arguments, so the arguments past the parameters are at it.
+    activeParameter = signature.parameters.findIndex((_, index) => label(index) === "...");
+  }
+  return { signature: signature, activeParameter: activeParameter };
+}
@@ -0,0 +1,40 @@
+import * as monaco from "monaco-editor";
+import { AntimonySignatureHelp, getSignatureHelp } from "./SignatureHelp";
+import { GlobalST } from "./SymbolTableClasses";
+
+/**
+ * @description registers a signature help provider, which shows the parameters
+ *              of the function or modular model being called at the cursor.
+ * @param globalST symbol table of the analyzed program
+ * @returns disposable that removes the signature help provider
+ */
+export function registerSignatureHelpProvider(globalST: GlobalST): monaco.IDisposable {
+  return monaco.languages.registerSignatureHelpProvider("antimony", {
+    signatureHelpTriggerCharacters: ["(", ","],
+    signatureHelpRetriggerCharacters: [")"],
+    provideSignatureHelp: (model, position) => {
+      if (model.isDisposed()) {
+        return null;
+      }
+      const linePrefix: string = model.getValueInRange(
+        new monaco.Range(position.lineNumber, 1, position.lineNumber, position.column)
+      );
+      const help: AntimonySignatureHelp | undefined = getSignatureHelp(globalST, linePrefix);
+      if (!help) {
+        return null;
+      }
+      return {
+        value: {
+          signatures: [{
+            label: help.signature.label,
+            documentation: help.signature.documentation,
+            parameters: help.signature.parameters.map((parameter) => ({ label: parameter })),
+          }],
+          activeSignature: 0,
+          activeParameter: help.activeParameter,
+        },
+        dispose: () => {},
+      };
+    },
+  });
+}
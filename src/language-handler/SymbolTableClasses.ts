@@ -1,5 +1,6 @@
 import { SrcPosition, SrcRange, varTypes } from "./Types";
 import { predefinedConstants, Variable } from "./Variable";
+import { UnitDefinition } from "./Units";
 
 
 /**
@@ -12,10 +13,23 @@ export class SymbolTable {
     private varMap: Map<string, Variable>;
     public endLine: number | undefined;
     public annotationSet: Set<string>;
+    // the model each submodel in this scope is an instance of, ie A to M for "A: M(x)"
+    public submodels: Map<string, string>;
+    // the arguments each submodel in this scope is given, ie ["x"] for "A: M(x)"
+    public submodelArguments: Map<string, string[]>;
+    // the reactions, rules and events written in this scope, in the order they are written
+    public reactions: Reaction[];
+    public rules: Rule[];
+    public events: ModelEvent[];
 
     constructor() {
         this.varMap = new Map();
         this.annotationSet = new Set();
+        this.submodels = new Map();
+        this.submodelArguments = new Map();
+        this.reactions = [];
+        this.rules = [];
+        this.events = [];
     }
 
     /**
@@ -50,17 +64,92 @@ export class SymbolTable {
     }
 }
 
+/**
+ * A reactant or product of a reaction, ie "2 $S1", where "$" marks a boundary species.
+ */
+export type ReactionSpecies = {
+    name: string;
+    stoichiometry: number;
+    isBoundary: boolean;
+};
+
+/**
+ * A reaction as it is written in the program, ie "J0: 2 $S1 -> S2; k*S1". id is undefined
+ * for a reaction without a name, and srcRange covers the whole reaction from its name on.
+ */
+export type Reaction = {
+    id: string | undefined;
+    reactants: ReactionSpecies[];
+    products: ReactionSpecies[];
+    // "->" is reversible, "=>" is not
+    isReversible: boolean;
+    rateLaw: string | undefined;
+    srcRange: SrcRange;
+};
+
+/**
+ * An assignment rule, ie "w := k*S1", which holds at all times, or
+ * a rate rule, ie "S1' = -k*S1", which gives how fast variable changes.
+ */
+export type Rule = {
+    kind: "assignment" | "rate";
+    variable: string;
+    formula: string;
+    srcRange: SrcRange;
+};
+
+/**
+ * An event, ie "E1: at 2 after time > 5, priority = 1: S1 = 0". Options that are left out
+ * have their defaults, no delay and no priority, and t0, persistent and fromTrigger true.
+ */
+export type ModelEvent = {
+    id: string | undefined;
+    trigger: string;
+    delay: string | undefined;
+    priority: string | undefined;
+    t0: boolean;
+    persistent: boolean;
+    fromTrigger: boolean;
+    assignments: { variable: string; formula: string }[];
+    srcRange: SrcRange;
+};
+
+/**
+ * A part of the program that spans several lines, which the editor can fold, ie a model
+ * from its name to "end", or an annotation continued on the lines after it.
+ */
+export type FoldableBlock = {
+    kind: "model" | "function" | "annotation" | "notes";
+    startLine: number;
+    endLine: number;
+};
+
+/**
+ * What a dotted name such as "A.x" refers to. "member" holds the variable x
+ * of the model that A is an instance of, "missingMember" is for a model without
+ * such an id, and "notSubmodel" is for a part of the name that is not a submodel.
+ */
+export type DottedNameResolution =
+    | { kind: "member"; modelName: string; memberName: string; varInfo: Variable; modelST: ParamAndNameTable }
+    | { kind: "missingMember"; modelName: string; memberName: string }
+    | { kind: "notSubmodel"; submodelName: string };
+
 /**
  * symbol table for the global scope in an Antimony file
  */
 export class GlobalST extends SymbolTable {
     private funcMap: Map<string, ParamAndNameTable>;
     private modelMap: Map<string, ParamAndNameTable>;
+    private unitMap: Map<string, UnitDefinition>;
+    // the blocks of the analyzed file, in the order they end
+    public foldableBlocks: FoldableBlock[];
 
     constructor() {
         super();
         this.funcMap = new Map();
         this.modelMap = new Map();
+        this.unitMap = new Map();
+        this.foldableBlocks = [];
 
         for (const predefConst of predefinedConstants) {
             // have a dummy srcRange for predef constants
@@ -80,6 +169,23 @@ export class GlobalST extends SymbolTable {
         return this.modelMap;
     }
 
+    /**
+     * @returns map from the name of each unit declared in the program to its definition
+     */
+    getUnitMap(): Map<string, UnitDefinition> {
+        return this.unitMap;
+    }
+
+    /**
+     * records a unit declaration, ie "unit mM = 0.001 mole / litre". Units are
+     * global, so this holds the units declared within models as well.
+     * @param unitName 
+     * @param definition the units unitName is made of
+     */
+    setUnit(unitName: string, definition: UnitDefinition): void {
+        this.unitMap.set(unitName, definition);
+    }
+
     /**
      * inserts a function into the global ST, creating a corresponding function ST for it
      * @param funcName 
@@ -128,6 +234,85 @@ export class GlobalST extends SymbolTable {
         return this.modelMap.get(modelName);
     }
 
+    /**
+     * @description finds what a dotted name such as "A.x" refers to, through the model
+     *              that the submodel A is an instance of, and on through names such as "A.B.x".
+     * @param table the ST the name is used in
+     * @param name
+     * @returns the resolution, or undefined if a submodel is an instance of a model that
+     *          does not exist, as that is reported where it is instantiated.
+     */
+    resolveDottedName(table: SymbolTable, name: string): DottedNameResolution | undefined {
+        const parts: string[] = name.split(".");
+        let currST: SymbolTable = table;
+        let modelName: string = "";
+        for (const submodelName of parts.slice(0, -1)) {
+            const submodelModel: string | undefined = currST.submodels.get(submodelName);
+            if (submodelModel === undefined) {
+                return { kind: "notSubmodel", submodelName: submodelName };
+            }
+            const modelST: ParamAndNameTable | undefined = this.getModelST(submodelModel);
+            if (!modelST) {
+                return undefined;
+            }
+            currST = modelST;
+            modelName = submodelModel;
+        }
+
+        const memberName: string = parts[parts.length - 1];
+        const varInfo: Variable | undefined = currST.getVar(memberName);
+        if (!varInfo) {
+            return { kind: "missingMember", modelName: modelName, memberName: memberName };
+        }
+        return { kind: "member", modelName: modelName, memberName: memberName, varInfo: varInfo, modelST: currST as ParamAndNameTable };
+    }
+
+    /**
+     * @description takes the models and functions of an imported file into this ST,
+     *              skipping any whose name is already used here.
+     * @param importedST symbol table of the imported file
+     * @param fileName name of the imported file
+     */
+    importFrom(importedST: GlobalST, fileName: string): void {
+        const imports: [Map<string, ParamAndNameTable>, Map<string, ParamAndNameTable>, varTypes][] = [
+            [importedST.modelMap, this.modelMap, varTypes.Model],
+            [importedST.funcMap, this.funcMap, varTypes.Function],
+        ];
+        for (const [importedMap, map, type] of imports) {
+            for (const [name, table] of importedMap) {
+                if (this.getVar(name)) {
+                    continue;
+                }
+                // models imported by the imported file keep the file they are written in.
+                if (table.fileName === undefined) {
+                    table.fileName = fileName;
+                }
+                map.set(name, table);
+                const varInfo: Variable = new Variable(type, false, undefined, table.getPosition(), table.getPosition(), false);
+                // the id is in the other file, so only references in this file are recorded.
+                varInfo.refLocations.clear();
+                this.setVar(name, varInfo);
+            }
+        }
+    }
+
+    /**
+     * @param name
+     * @returns the file the model or function called name is imported from,
+     *          or undefined if it is written in this file or does not exist.
+     */
+    getImportedFileName(name: string): string | undefined {
+        return (this.modelMap.get(name) || this.funcMap.get(name))?.fileName;
+    }
+
+    /**
+     * @returns the symbol tables of the models and functions written in this file,
+     *          leaving out imported ones as their locations are in other files.
+     */
+    getLocalTables(): ParamAndNameTable[] {
+        return [...this.modelMap.values(), ...this.funcMap.values()].filter((table) => table.fileName === undefined);
+    }
+
     /**
      * @description looks up a var with id that exists at srcRange
      *              checks if this variable exists in a non function context.
@@ -148,7 +333,10 @@ export class GlobalST extends SymbolTable {
             return {varInfo: varInfo, annotationPositon: new SrcPosition(line, 0)};
         }
         
-        for (const [key, modelST] of this.modelMap) {
+        for (const modelST of this.modelMap.values()) {
+            if (modelST.fileName !== undefined) {
+                continue;
+            }
             varInfo = modelST.getVar(id);
             if (varInfo && varInfo.refLocations.has(srcRange.toString())) {
                 let line = 0;
@@ -163,6 +351,46 @@ export class GlobalST extends SymbolTable {
 
         return undefined;
     }
+
+    /**
+     * @description looks up a var with id that is referenced at srcRange in any scope,
+     *              including function scopes (unlike hasVarAtLocation).
+     * @param id
+     * @param srcRange
+     * @returns the Variable if it exists, undefined otherwise.
+     */
+    getVarAtLocation(id: string, srcRange: SrcRange): Variable | undefined {
+        const tables: SymbolTable[] = [this, ...this.getLocalTables()];
+        for (const table of tables) {
+            const varInfo: Variable | undefined = table.getVar(id);
+            if (varInfo && varInfo.refLocations.has(srcRange.toString())) {
+                return varInfo;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * @description finds the model or function whose body contains line.
+     * @param line
+     * @returns a record holding the name, scope and symbol table of the enclosing
+     *          model or function, or undefined if line is in the global scope.
+     */
+    getScopeAtLine(line: number) {
+        for (const [name, modelST] of this.modelMap) {
+            if (modelST.fileName === undefined && modelST.containsLine(line)) {
+                return {name: name, scope: "model" as const, st: modelST};
+            }
+        }
+
+        for (const [name, funcST] of this.funcMap) {
+            if (funcST.fileName === undefined && funcST.containsLine(line)) {
+                return {name: name, scope: "function" as const, st: funcST};
+            }
+        }
+
+        return undefined;
+    }
 }
 
 /**
@@ -172,12 +400,24 @@ export class ParamAndNameTable extends SymbolTable {
     private srcRange: SrcRange;
     public params: string[];
     public paramSet: Set<string>;
+    // names of the models instantiated inside this model, ie M for "A: M(x)"
+    public submodelNames: Set<string>;
+    // the file the model or function is imported from, undefined if it is written in the analyzed file
+    public fileName: string | undefined;
+    // the expression a function returns, ie "a*2"
+    public body: string | undefined;
+    // the notes of a model, without the ``` around them
+    public notes: string | undefined;
 
     constructor(srcRange: SrcRange) {
         super();
         this.srcRange = srcRange;
         this.params = []
         this.paramSet = new Set();
+        this.submodelNames = new Set();
+        this.fileName = undefined;
+        this.body = undefined;
+        this.notes = undefined;
     }
 
     /**
@@ -188,6 +428,18 @@ export class ParamAndNameTable extends SymbolTable {
         return this.srcRange;
     }
 
+    /**
+     * checks if line is between the id of the model or function and its "end"
+     * @param line
+     * @returns true if line is inside this model or function, false otherwise
+     */
+    public containsLine(line: number): boolean {
+        if (this.endLine === undefined) {
+            return false;
+        }
+        return this.srcRange.start.line <= line && line <= this.endLine;
+    }
+
     /**
      * adds a parameter to either a model or function
      * assumes that this parameter name is unique and has not been added before.
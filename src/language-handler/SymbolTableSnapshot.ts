@@ -0,0 +1,270 @@
+import { FoldableBlock, GlobalST, ModelEvent, ParamAndNameTable, Reaction, Rule, SymbolTable } from "./SymbolTableClasses";
+import { SrcPosition, SrcRange, varTypes } from "./Types";
+import { Variable } from "./Variable";
+
+/**
+ * The plain data of a SrcRange.
+ */
+export type SrcRangeSnapshot = {
+  start: { line: number; column: number };
+  end: { line: number; column: number };
+};
+
+/**
+ * The plain data of a Variable. Maps are kept as lists of entries,
+ * so that a snapshot can be sent to and from a worker or written as JSON.
+ */
+export type VariableSnapshot = {
+  type: varTypes;
+  isConst: boolean;
+  compartment: string | undefined;
+  idSrcRange: SrcRangeSnapshot;
+  initSrcRange: SrcRangeSnapshot | undefined;
+  declSrcRange: SrcRangeSnapshot | undefined;
+  substanceOnly: boolean;
+  unit: string | undefined;
+  unitDefinition: [string, number][] | undefined;
+  value: string | undefined;
+  displayName: string | undefined;
+  annotations: string[];
+  annotationKeywords: [string, string][];
+  annotationLineNums: [string, SrcRangeSnapshot][];
+  refLocations: SrcRangeSnapshot[];
+};
+
+/**
+ * The plain data of a statement that keeps its range, ie a Reaction.
+ */
+export type StatementSnapshot<Statement extends { srcRange: SrcRange }> = Omit<Statement, "srcRange"> & {
+  srcRange: SrcRangeSnapshot;
+};
+
+/**
+ * The plain data of a SymbolTable.
+ */
+export type SymbolTableSnapshot = {
+  endLine: number | undefined;
+  annotations: string[];
+  submodels: [string, string][];
+  vars: [string, VariableSnapshot][];
+  submodelArguments: [string, string[]][];
+  reactions: StatementSnapshot<Reaction>[];
+  rules: StatementSnapshot<Rule>[];
+  events: StatementSnapshot<ModelEvent>[];
+};
+
+/**
+ * The plain data of the table of a model or function.
+ */
+export type ParamAndNameTableSnapshot = SymbolTableSnapshot & {
+  position: SrcRangeSnapshot;
+  params: string[];
+  submodelNames: string[];
+  fileName: string | undefined;
+  body: string | undefined;
+  notes: string | undefined;
+};
+
+/**
+ * The plain data of a GlobalST, with the tables of its models and functions.
+ */
+export type GlobalSTSnapshot = SymbolTableSnapshot & {
+  functions: [string, ParamAndNameTableSnapshot][];
+  models: [string, ParamAndNameTableSnapshot][];
+  units: [string, [string, number][]][];
+  foldableBlocks: FoldableBlock[];
+};
+
+/**
+ * @param globalST
+ * @returns a snapshot of globalST that can be sent to and from a worker or written as JSON
+ */
+export function getGlobalSTSnapshot(globalST: GlobalST): GlobalSTSnapshot {
+  const getTablesSnapshot = (tables: Map<string, ParamAndNameTable>): [string, ParamAndNameTableSnapshot][] =>
+    Array.from(tables, ([name, table]) => [name, getParamAndNameTableSnapshot(table)]);
+  return {
+    ...getSymbolTableSnapshot(globalST),
+    functions: getTablesSnapshot(globalST.getFuncMap()),
+    models: getTablesSnapshot(globalST.getModelMap()),
+    units: Array.from(globalST.getUnitMap(), ([name, definition]) => [name, Array.from(definition)]),
+    foldableBlocks: globalST.foldableBlocks.map((block) => ({ ...block })),
+  };
+}
+
+/**
+ * @param snapshot a snapshot made by getGlobalSTSnapshot
+ * @returns a GlobalST holding the same symbols as the one the snapshot was made of
+ */
+export function getGlobalSTFromSnapshot(snapshot: GlobalSTSnapshot): GlobalST {
+  const globalST: GlobalST = new GlobalST();
+  setSymbolTableFromSnapshot(globalST, snapshot);
+  for (const [name, tableSnapshot] of snapshot.functions) {
+    globalST.getFuncMap().set(name, getParamAndNameTableFromSnapshot(tableSnapshot));
+  }
+  for (const [name, tableSnapshot] of snapshot.models) {
+    globalST.getModelMap().set(name, getParamAndNameTableFromSnapshot(tableSnapshot));
+  }
+  for (const [name, definition] of snapshot.units) {
+    globalST.setUnit(name, new Map(definition));
+  }
+  globalST.foldableBlocks = snapshot.foldableBlocks.map((block) => ({ ...block }));
+  return globalST;
+}
+
+/**
+ * @param table
+ */
+function getSymbolTableSnapshot(table: SymbolTable): SymbolTableSnapshot {
+  return {
+    endLine: table.endLine,
+    annotations: Array.from(table.annotationSet),
+    submodels: Array.from(table.submodels),
+    vars: Array.from(table.getVarMap(), ([name, varInfo]) => [name, getVariableSnapshot(varInfo)]),
+    submodelArguments: Array.from(table.submodelArguments, ([name, args]) => [name, [...args]]),
+    reactions: table.reactions.map((reaction) => ({
+      ...reaction,
+      reactants: reaction.reactants.map((species) => ({ ...species })),
+      products: reaction.products.map((species) => ({ ...species })),
+      srcRange: getSrcRangeSnapshot(reaction.srcRange),
+    })),
+    rules: table.rules.map((rule) => ({ ...rule, srcRange: getSrcRangeSnapshot(rule.srcRange) })),
+    events: table.events.map((event) => ({
+      ...event,
+      assignments: event.assignments.map((assignment) => ({ ...assignment })),
+      srcRange: getSrcRangeSnapshot(event.srcRange),
+    })),
+  };
+}
+
+/**
+ * copies the symbols of a snapshot into table
+ * @param table
+ * @param snapshot
+ */
+function setSymbolTableFromSnapshot(table: SymbolTable, snapshot: SymbolTableSnapshot): void {
+  table.endLine = snapshot.endLine;
+  table.annotationSet = new Set(snapshot.annotations);
+  table.submodels = new Map(snapshot.submodels);
+  for (const [name, varSnapshot] of snapshot.vars) {
+    table.setVar(name, getVariableFromSnapshot(varSnapshot));
+  }
+  table.submodelArguments = new Map(snapshot.submodelArguments.map(([name, args]) => [name, [...args]]));
+  table.reactions = snapshot.reactions.map((reaction) => ({
+    ...reaction,
+    reactants: reaction.reactants.map((species) => ({ ...species })),
+    products: reaction.products.map((species) => ({ ...species })),
+    srcRange: getSrcRange(reaction.srcRange),
+  }));
+  table.rules = snapshot.rules.map((rule) => ({ ...rule, srcRange: getSrcRange(rule.srcRange) }));
+  table.events = snapshot.events.map((event) => ({
+    ...event,
+    assignments: event.assignments.map((assignment) => ({ ...assignment })),
+    srcRange: getSrcRange(event.srcRange),
+  }));
+}
+
+/**
+ * @param table
+ */
+function getParamAndNameTableSnapshot(table: ParamAndNameTable): ParamAndNameTableSnapshot {
+  return {
+    ...getSymbolTableSnapshot(table),
+    position: getSrcRangeSnapshot(table.getPosition()),
+    params: [...table.params],
+    submodelNames: Array.from(table.submodelNames),
+    fileName: table.fileName,
+    body: table.body,
+    notes: table.notes,
+  };
+}
+
+/**
+ * @param snapshot
+ */
+function getParamAndNameTableFromSnapshot(snapshot: ParamAndNameTableSnapshot): ParamAndNameTable {
+  const table: ParamAndNameTable = new ParamAndNameTable(getSrcRange(snapshot.position));
+  setSymbolTableFromSnapshot(table, snapshot);
+  snapshot.params.forEach((param) => table.addParameter(param));
+  table.submodelNames = new Set(snapshot.submodelNames);
+  table.fileName = snapshot.fileName;
+  table.body = snapshot.body;
+  table.notes = snapshot.notes;
+  return table;
+}
+
+/**
+ * @param varInfo
+ * @returns a snapshot of varInfo
+ */
+export function getVariableSnapshot(varInfo: Variable): VariableSnapshot {
+  return {
+    type: varInfo.type,
+    isConst: varInfo.isConst,
+    compartment: varInfo.compartment,
+    idSrcRange: getSrcRangeSnapshot(varInfo.idSrcRange),
+    initSrcRange: varInfo.initSrcRange && getSrcRangeSnapshot(varInfo.initSrcRange),
+    declSrcRange: varInfo.declSrcRange && getSrcRangeSnapshot(varInfo.declSrcRange),
+    substanceOnly: varInfo.substanceOnly,
+    unit: varInfo.unit,
+    unitDefinition: varInfo.unitDefinition && Array.from(varInfo.unitDefinition),
+    value: varInfo.value,
+    displayName: varInfo.displayName,
+    annotations: [...varInfo.annotations],
+    annotationKeywords: Array.from(varInfo.annotationKeywordMap),
+    annotationLineNums: Array.from(varInfo.annotationLineNum,
+        ([annotation, range]) => [annotation, getSrcRangeSnapshot(range)]),
+    refLocations: Array.from(varInfo.refLocations.values(), getSrcRangeSnapshot),
+  };
+}
+
+/**
+ * @param snapshot a snapshot made by getVariableSnapshot
+ * @returns a Variable with the same information as the one the snapshot was made of
+ */
+export function getVariableFromSnapshot(snapshot: VariableSnapshot): Variable {
+  const varInfo: Variable = new Variable(
+      snapshot.type,
+      snapshot.isConst,
+      snapshot.compartment,
+      getSrcRange(snapshot.idSrcRange),
+      snapshot.initSrcRange && getSrcRange(snapshot.initSrcRange),
+      snapshot.substanceOnly
+  );
+  varInfo.declSrcRange = snapshot.declSrcRange && getSrcRange(snapshot.declSrcRange);
+  varInfo.unit = snapshot.unit;
+  varInfo.unitDefinition = snapshot.unitDefinition && new Map(snapshot.unitDefinition);
+  varInfo.value = snapshot.value;
+  varInfo.displayName = snapshot.displayName;
+  varInfo.annotations = [...snapshot.annotations];
+  varInfo.annotationKeywordMap = new Map(snapshot.annotationKeywords);
+  varInfo.annotationLineNum = new Map(
+      snapshot.annotationLineNums.map(([annotation, range]) => [annotation, getSrcRange(range)])
+  );
+  varInfo.refLocations = new Map(snapshot.refLocations.map((range) => {
+    const srcRange: SrcRange = getSrcRange(range);
+    return [srcRange.toString(), srcRange];
+  }));
+  return varInfo;
+}
+
+/**
+ * @param range
+ * @returns the positions of range as plain data
+ */
+export function getSrcRangeSnapshot(range: SrcRange): SrcRangeSnapshot {
+  return {
+    start: { line: range.start.line, column: range.start.column },
+    end: { line: range.end.line, column: range.end.column },
+  };
+}
+
+/**
+ * @param snapshot
+ * @returns a SrcRange with the positions of snapshot
+ */
+export function getSrcRange(snapshot: SrcRangeSnapshot): SrcRange {
+  return new SrcRange(
+      new SrcPosition(snapshot.start.line, snapshot.start.column),
+      new SrcPosition(snapshot.end.line, snapshot.end.column)
+  );
+}
@@ -1,19 +1,58 @@
-import {Annot_listContext, AnnotationContext, AssignmentContext, AtomContext, Decl_itemContext, Decl_modifiersContext, DeclarationContext, EventContext, Event_assignmentContext, FunctionContext, In_compContext, Init_paramsContext, Modular_modelContext, NamemaybeinContext, New_annotContext, ReactionContext, Reaction_nameContext, SpeciesContext, Species_listContext, SumContext, UnitContext, Unit_assignmentContext, Unit_declarationContext, Var_nameContext, Variable_inContext } from './antlr/AntimonyGrammarParser';
+import {Annot_listContext, AnnotationContext, AssignmentContext, AtomContext, Decl_itemContext, Decl_modifiersContext, DeclarationContext, EventContext, Event_assignmentContext, Func_callContext, FunctionContext, Import_Context, In_compContext, Init_paramsContext, Mmodel_callContext, Model_notesContext, Modular_modelContext, NamemaybeinContext, New_annotContext, ParametersContext, Rate_ruleContext, ReactionContext, Reaction_nameContext, SpeciesContext, Species_listContext, SumContext, UnitContext, Unit_assignmentContext, Unit_declarationContext, Var_nameContext, Variable_inContext } from './antlr/AntimonyGrammarParser';
 import { ModelContext } from './antlr/AntimonyGrammarParser'
-import { SymbolTable, ParamAndNameTable} from './SymbolTableClasses';
+import { FoldableBlock, GlobalST, ModelEvent, SymbolTable, ParamAndNameTable, Reaction, ReactionSpecies } from './SymbolTableClasses';
 import { predefinedConstants, Variable } from './Variable';
-import { ErrorUnderline, SrcRange, getTypeFromString, isSubtTypeOf, varTypes } from './Types';
-import { duplicateParameterError, functionAlreadyExistsError, incompatibleTypesError, modelAlreadyExistsError, overriddenValueWarning, overridingValueWarning, predefConstantValueAssignmentError } from './SemanticErrors';
+import { diagnosticCodes, ErrorUnderline, SrcPosition, SrcRange, getTypeFromString, isSubtTypeOf, varTypes } from './Types';
+import { duplicateParameterError, functionAlreadyExistsError, importCycleError, importNotFoundWarning, incompatibleTypesError, invalidUnitError, modelAlreadyExistsError, overriddenValueWarning, overridingValueWarning, predefConstantValueAssignmentError } from './SemanticErrors';
+import { getUnitDefinition, getUnitNames, getUnitText, getValueUnitName, UnitDefinition } from './Units';
 import { ErrorVisitor } from './ErrorVisitor';
+import { ImportResolver, ImportResult } from './ImportResolver';
 import { AntimonyGrammarVisitor } from './antlr/AntimonyGrammarVisitor';
+import { ParserRuleContext, Token } from 'antlr4ts';
 
 
 export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarVisitor<void> {
+  // resolves import statements, imports are not followed when there is none.
+  private importResolver: ImportResolver | undefined;
+
+  constructor(globalST: GlobalST, importResolver?: ImportResolver) {
+    super(globalST);
+    this.importResolver = importResolver;
+  }
+
+  /**
+   * takes the models and functions of an imported file into the global ST,
+   * reporting files that can not be found or that end up importing themselves.
+   * @param ctx 
+   */
+  visitImport_(ctx: Import_Context) {
+    if (this.hasParseError(ctx) || !this.importResolver) {
+      return;
+    }
+
+    const importName: string = ctx.ESCAPED_STRING().text.replace(/^"|"$/g, "");
+    const srcRange: SrcRange = this.getSrcRange(ctx.ESCAPED_STRING());
+    const result: ImportResult = this.importResolver.resolve(importName);
+    if (result.kind === "notFound") {
+      const warningMessage: string = importNotFoundWarning(importName);
+      this.addError(this.getErrorUnderline(srcRange, warningMessage, false, diagnosticCodes.ImportNotFound));
+      return;
+    }
+
+    if (result.cycle) {
+      const errorMessage: string = importCycleError(result.cycle);
+      this.addError(this.getErrorUnderline(srcRange, errorMessage, true, diagnosticCodes.ImportCycle));
+    }
+    if (result.kind === "found") {
+      this.globalST.importFrom(result.globalST, result.fileName);
+    }
+  }
   
   visitFunction(ctx: FunctionContext) {
     if (this.hasParseError(ctx)) {
       return;
     }
+    this.addFoldableBlock("function", ctx.NAME().symbol.line, ctx.END().symbol.line);
 
     if (ctx.children) {
       const funcName = this.getVarName(ctx.NAME().text);
@@ -27,11 +66,19 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
         if (existingVarInfo) {
           // error, already exists!
           const errorMessage: string = incompatibleTypesError(varTypes.Function, existingVarInfo);
-          const errorUnderline: ErrorUnderline = this.getErrorUnderline(funcIDSrcRange, errorMessage, true);
+          const errorUnderline: ErrorUnderline = this.getErrorUnderline(funcIDSrcRange, errorMessage, true, diagnosticCodes.IncompatibleTypes);
           this.addError(errorUnderline);
         } else {
           this.globalST.setFunction(funcName, funcIDSrcRange)
 
+          // record end position so we know what lines are in the function's scope
+          let currST = this.globalST.getFunctionST(funcName);
+          if (currST) {
+            currST.endLine = ctx._stop?.line;
+            // kept for signature help
+            currST.body = ctx.sum().text;
+          }
+
           // look for function params
           let params: Init_paramsContext | undefined = ctx.init_params();
 
@@ -44,11 +91,12 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
               if (seenParams.has(paramId)) {
                 // handle repeat params ids in parameter list!!
                 const errorMessage = duplicateParameterError(paramId);
-                const errorUnderline = this.getErrorUnderline(this.getSrcRange(params.children[i]), errorMessage, true);
+                const errorUnderline = this.getErrorUnderline(this.getSrcRange(params.children[i]), errorMessage, true, diagnosticCodes.DuplicateParameter);
                 this.addError(errorUnderline);
               } else {
                 const idSrcRange: SrcRange = this.getSrcRange(params.children[i]);
                 const paramInfo: Variable = new Variable(varTypes.Unknown, false, undefined, idSrcRange, undefined, false);
+                paramInfo.declSrcRange = idSrcRange;
                 seenParams.set(paramId, paramInfo);
 
                 // keep track of all locations this param is referenced for hovers
@@ -65,7 +113,7 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
       } else {
         // redeclared function, error
         const errorMessage: string = functionAlreadyExistsError(funcName, funcST.getPosition());
-        let errorUnderline: ErrorUnderline = this.getErrorUnderline(funcIDSrcRange, errorMessage, true);
+        let errorUnderline: ErrorUnderline = this.getErrorUnderline(funcIDSrcRange, errorMessage, true, diagnosticCodes.FunctionAlreadyExists);
         this.addError(errorUnderline);
       }
 
@@ -82,6 +130,7 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
     if (this.hasParseError(ctx)) {
       return;
     }
+    this.addFoldableBlock("model", ctx.NAME().symbol.line, ctx.END().symbol.line);
 
     if (ctx.children) {
       let idIndex = 1;
@@ -111,10 +160,11 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
               if (seenParams.has(paramId)) {
                 // handle repeat params ids in parameter list!!
                 const errorMessage = duplicateParameterError(paramId);
-                const errorUnderline = this.getErrorUnderline(paramIdSrcRange, errorMessage, true);
+                const errorUnderline = this.getErrorUnderline(paramIdSrcRange, errorMessage, true, diagnosticCodes.DuplicateParameter);
                 this.addError(errorUnderline);
               } else {
                 const paramInfo: Variable = new Variable(varTypes.Unknown, false, undefined, paramIdSrcRange, paramIdSrcRange, false);
+                paramInfo.declSrcRange = paramIdSrcRange;
                 seenParams.set(paramId, paramInfo);
                 // we need to know what the params are if we want to
                 // initialize this model as a variable somwewhere.
@@ -139,7 +189,7 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
         // redeclared Model, error
         // should make a function to return errorUnderlines.
         const errorMessage = modelAlreadyExistsError(modName, modelST.getPosition());
-        let errorUnderline: ErrorUnderline = this.getErrorUnderline(this.getSrcRange(ctx), errorMessage, true);
+        let errorUnderline: ErrorUnderline = this.getErrorUnderline(this.getSrcRange(ctx), errorMessage, true, diagnosticCodes.ModelAlreadyExists);
         this.addError(errorUnderline);
       }
     }
@@ -153,6 +203,24 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
     this.handleModelVisit(ctx);
   }
 
+  /**
+   * keeps the notes of the model they are in, which signature help shows,
+   * and lets notes that span lines be folded.
+   * @param ctx 
+   */
+  visitModel_notes(ctx: Model_notesContext) {
+    if (this.hasParseError(ctx)) {
+      return;
+    }
+    const notes: Token = ctx.MULTILINE_STRING().symbol;
+    this.addFoldableBlock("notes", notes.line, notes.line + (notes.text || "").split("\n").length - 1);
+
+    const currST: SymbolTable | undefined = this.getCurrST();
+    if (currST instanceof ParamAndNameTable) {
+      currST.notes = ctx.MULTILINE_STRING().text.replace(/^```|```$/g, "").trim();
+    }
+  }
+
   /**
    * Main thing this does, any variable inside a reaction is being declared to be
    * a species type, this takes care of that. May need to add erroring.
@@ -183,7 +251,7 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
           existingVarInfo.refLocations.set(varIdSrcRange.toString(), varIdSrcRange);
         } else {
           const errorMessage = incompatibleTypesError(varTypes.Species, existingVarInfo);
-          const errorUnderline: ErrorUnderline = this.getErrorUnderline(varInfo.idSrcRange, errorMessage, true);
+          const errorUnderline: ErrorUnderline = this.getErrorUnderline(varInfo.idSrcRange, errorMessage, true, diagnosticCodes.IncompatibleTypes);
           this.addError(errorUnderline);
         }
       } else {
@@ -227,7 +295,7 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
           // check for predef constant, should not allow reassignment of values here
           if (varInfo.type === varTypes.PredefConstant) {
             const errorMessage: string = predefConstantValueAssignmentError(varName);
-            const errorUnderline: ErrorUnderline = this.getErrorUnderline(currSrcRange, errorMessage, true);
+            const errorUnderline: ErrorUnderline = this.getErrorUnderline(currSrcRange, errorMessage, true, diagnosticCodes.PredefConstantAssignment);
             this.addError(errorUnderline);
             return;
           }
@@ -237,12 +305,12 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
             if (varInfo.initSrcRange && !predefinedConstants.has(varName)) {
               // adds warning to current id location
               const errorMessage1: string = overriddenValueWarning(varName, currSrcRange);
-              const errorUnderline1: ErrorUnderline = this.getErrorUnderline(varInfo.initSrcRange, errorMessage1, false);
+              const errorUnderline1: ErrorUnderline = this.getErrorUnderline(varInfo.initSrcRange, errorMessage1, false, diagnosticCodes.OverriddenValue);
               this.addError(errorUnderline1);
 
               // adds warning to previous id initialization location
               const errorMessage2: string = overridingValueWarning(varName, varInfo.initSrcRange);
-              const errorUnderline2: ErrorUnderline = this.getErrorUnderline(currSrcRange, errorMessage2, false);
+              const errorUnderline2: ErrorUnderline = this.getErrorUnderline(currSrcRange, errorMessage2, false, diagnosticCodes.OverridingValue);
               this.addError(errorUnderline2);
             }
           }
@@ -255,6 +323,7 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
           }
           // for hovers
           varInfo.value = ctx.decl_assignment()?.sum().text;
+          this.setUnitFromValue(varInfo, ctx.decl_assignment()!!.sum());
           const refSrcRange: SrcRange = this.getSrcRange(nmbi.var_name().NAME())
           varInfo.refLocations.set(refSrcRange.toString(), refSrcRange);
         }
@@ -311,6 +380,11 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
             // should this continue being the case, or should both cases be reported?
             // for now keep it as report both.
 
+            // for go to definition
+            if (varInfo.declSrcRange === undefined) {
+              varInfo.declSrcRange = currIdSrcRange;
+            }
+
             // take care of modifiers
             let declModifiers: Decl_modifiersContext = ctx.decl_modifiers();
             varInfo.substanceOnly = (declModifiers.SUB_MODIFIER() !== undefined) || varInfo.substanceOnly;
@@ -326,7 +400,7 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
               } else {
                 // error! trying to overried previous type decl
                 const errorMessage = incompatibleTypesError(type, varInfo);
-                const errorUnderline: ErrorUnderline = this.getErrorUnderline(currIdSrcRange, errorMessage, true);
+                const errorUnderline: ErrorUnderline = this.getErrorUnderline(currIdSrcRange, errorMessage, true, diagnosticCodes.IncompatibleTypes);
                 this.addError(errorUnderline);
               }
             }
@@ -342,11 +416,11 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
                   && !predefinedConstants.has(varName)
                 ) {
                   const errorMessage1: string = overriddenValueWarning(varName, currAssignSrcRange);
-                  const errorUnderline1: ErrorUnderline = this.getErrorUnderline(varInfo.initSrcRange, errorMessage1, false);
+                  const errorUnderline1: ErrorUnderline = this.getErrorUnderline(varInfo.initSrcRange, errorMessage1, false, diagnosticCodes.OverriddenValue);
                   this.addError(errorUnderline1);
 
                   const errorMessage2: string = overridingValueWarning(varName, varInfo.initSrcRange);
-                  const errorUnderline2: ErrorUnderline = this.getErrorUnderline(currAssignSrcRange, errorMessage2, false);
+                  const errorUnderline2: ErrorUnderline = this.getErrorUnderline(currAssignSrcRange, errorMessage2, false, diagnosticCodes.OverridingValue);
                   this.addError(errorUnderline2);
                 }
               }
@@ -372,6 +446,16 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
         this.visit(ctx.children[i]);
       }
 
+      // ":=" makes an assignment rule, which the simulator keeps true at all times.
+      if (ctx.getChild(1).text === ":=") {
+        this.getCurrST()?.rules.push({
+          kind: "assignment",
+          variable: ctx.namemaybein().var_name().NAME().text,
+          formula: ctx.sum().text,
+          srcRange: this.getStatementSrcRange(ctx),
+        });
+      }
+
       // now record the assigned variable as assigned.
       const nmbi: NamemaybeinContext = ctx.children[0] as NamemaybeinContext;
       const varName: string = nmbi.var_name().text;
@@ -389,7 +473,7 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
             // check if this is a predefined constant
             if (varInfo.type === varTypes.PredefConstant) {
               const errorMessage: string = predefConstantValueAssignmentError(varName);
-              const errorUnderline: ErrorUnderline = this.getErrorUnderline(currSrcRange, errorMessage, true);
+              const errorUnderline: ErrorUnderline = this.getErrorUnderline(currSrcRange, errorMessage, true, diagnosticCodes.PredefConstantAssignment);
               this.addError(errorUnderline);
               return;
             }
@@ -398,12 +482,12 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
             if (varInfo.initSrcRange && !predefinedConstants.has(varName)) {
               // adds warning to current id location
               const errorMessage1: string = overriddenValueWarning(varName, currSrcRange);
-              const errorUnderline1: ErrorUnderline = this.getErrorUnderline(varInfo.initSrcRange, errorMessage1, false);
+              const errorUnderline1: ErrorUnderline = this.getErrorUnderline(varInfo.initSrcRange, errorMessage1, false, diagnosticCodes.OverriddenValue);
               this.addError(errorUnderline1);
 
               // adds warning to previous id initialization location
               const errorMessage2: string = overridingValueWarning(varName, varInfo.initSrcRange);
-              const errorUnderline2: ErrorUnderline = this.getErrorUnderline(currSrcRange, errorMessage2, false);
+              const errorUnderline2: ErrorUnderline = this.getErrorUnderline(currSrcRange, errorMessage2, false, diagnosticCodes.OverridingValue);
               this.addError(errorUnderline2);
             }
           }
@@ -416,6 +500,7 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
 
           // for hovers
           varInfo.value = ctx.sum().text;
+          this.setUnitFromValue(varInfo, ctx.sum());
           const refSrcRange: SrcRange = this.getSrcRange(nmbi.var_name().NAME())
           varInfo.refLocations.set(refSrcRange.toString(), refSrcRange);
         }
@@ -479,7 +564,7 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
           } else {
             //error, trying to say some value is in a noncompartment type
             const errorMessage = incompatibleTypesError(varTypes.Compartment, id2VarInfo);
-            const errorUnderline = this.getErrorUnderline(id2SrcRange, errorMessage, true);
+            const errorUnderline = this.getErrorUnderline(id2SrcRange, errorMessage, true, diagnosticCodes.IncompatibleTypes);
             this.addError(errorUnderline);
           }
         } else {
@@ -598,7 +683,7 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
             validCompartment = false;
             // type issue!
             const errorMessage = incompatibleTypesError(varTypes.Compartment, compartmentInfo);
-            this.addError(this.getErrorUnderline(compartmentIDsrcRange, errorMessage, true));
+            this.addError(this.getErrorUnderline(compartmentIDsrcRange, errorMessage, true, diagnosticCodes.IncompatibleTypes));
           }
         } else {
           // compartment id does not exist as a variable yet
@@ -626,6 +711,67 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
         }
       }
     }
+
+    if (currST) {
+      currST.reactions.push(this.getReaction(reactionName ? id : undefined, ctx));
+    }
+  }
+
+  /**
+   * @param id the id of the reaction, undefined if it has none
+   * @param ctx
+   * @returns the reaction as it is written, for inlay hints and simulation
+   */
+  private getReaction(id: string | undefined, ctx: ReactionContext): Reaction {
+    const arrowIndex: number = ctx.ARROW().symbol.tokenIndex;
+    const toReactionSpecies = (species: SpeciesContext): ReactionSpecies => ({
+      name: species.NAME().text,
+      stoichiometry: species.NUMBER() ? Number(species.NUMBER()!!.text) : 1,
+      isBoundary: species.children?.some((child) => child.text === "$") || false,
+    });
+    let reactants: ReactionSpecies[] = [];
+    let products: ReactionSpecies[] = [];
+    for (const speciesList of ctx.species_list()) {
+      if (speciesList.stop && speciesList.stop.tokenIndex < arrowIndex) {
+        reactants = speciesList.species().map(toReactionSpecies);
+      } else {
+        products = speciesList.species().map(toReactionSpecies);
+      }
+    }
+
+    return {
+      id: id,
+      reactants: reactants,
+      products: products,
+      isReversible: ctx.ARROW().text === "->",
+      rateLaw: ctx.sum()?.text,
+      srcRange: this.getStatementSrcRange(ctx),
+    };
+  }
+
+  /**
+   * @param ctx a statement, ie a reaction
+   * @returns the range of the whole statement. Unlike getSrcRange, it ends after
+   *          the last token of ctx even when that token is longer than one character.
+   */
+  private getStatementSrcRange(ctx: ParserRuleContext): SrcRange {
+    const stop: Token = ctx.stop || ctx.start;
+    return new SrcRange(
+      new SrcPosition(ctx.start.line, ctx.start.charPositionInLine + 1),
+      new SrcPosition(stop.line, stop.charPositionInLine + (stop.text || "").length + 1)
+    );
+  }
+
+  /**
+   * records a block of the program that the editor can fold, if it spans more than one line
+   * @param kind
+   * @param startLine
+   * @param endLine
+   */
+  private addFoldableBlock(kind: FoldableBlock["kind"], startLine: number, endLine: number) {
+    if (endLine > startLine) {
+      this.globalST.foldableBlocks.push({ kind: kind, startLine: startLine, endLine: endLine });
+    }
   }
 
   /**
@@ -660,6 +806,48 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
         this.visit(ctx.children[i]);
       }
     }
+
+    const event: ModelEvent = {
+      id: eventName ? id : undefined,
+      trigger: ctx.bool_exp().text,
+      delay: ctx.event_delay()?.bool_exp().text,
+      priority: undefined,
+      t0: true,
+      persistent: true,
+      fromTrigger: true,
+      assignments: ctx.event_assignment_list().event_assignment().map((assignment) => ({
+        variable: assignment.var_name().NAME().text,
+        formula: assignment.sum().text,
+      })),
+      srcRange: this.getStatementSrcRange(ctx),
+    };
+    for (const option of ctx.event_trigger_list()?.event_trigger() || []) {
+      const optionName: string = option.getChild(0).text;
+      if (optionName === "priority") {
+        event.priority = option.sum()?.text;
+      } else if (optionName === "t0" || optionName === "persistent" || optionName === "fromTrigger") {
+        event[optionName] = option.BOOLEAN()?.text.toLowerCase() === "true";
+      }
+    }
+    this.getCurrST()?.events.push(event);
+  }
+
+  /**
+   * records the rate rule, ie "S1' = -k*S1", for the simulator
+   * @param ctx
+   */
+  visitRate_rule(ctx: Rate_ruleContext) {
+    if (this.hasParseError(ctx)) {
+      return;
+    }
+
+    this.visitChildren(ctx);
+    this.getCurrST()?.rules.push({
+      kind: "rate",
+      variable: ctx.NAME().text,
+      formula: ctx.sum().text,
+      srcRange: this.getStatementSrcRange(ctx),
+    });
   }
 
   visitEvent_assignment(ctx: Event_assignmentContext) {
@@ -699,7 +887,7 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
           varInfo.type = type;
         } else {
           const errorMessage = incompatibleTypesError(type, varInfo);
-          const errorUnderline: ErrorUnderline = this.getErrorUnderline(idSrcRange, errorMessage, true);
+          const errorUnderline: ErrorUnderline = this.getErrorUnderline(idSrcRange, errorMessage, true, diagnosticCodes.IncompatibleTypes);
           this.addError(errorUnderline);
         }
       }
@@ -735,7 +923,7 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
           existingVarInfo.idSrcRange = idSrcRange;
         } else if (!isSubtTypeOf(existingVarInfo.type, varTypes.Parameter) && existingVarInfo.type !== varTypes.PredefConstant) {
           const errorMessage = incompatibleTypesError(varTypes.Parameter, existingVarInfo);
-          const errorUnderline: ErrorUnderline = this.getErrorUnderline(idSrcRange, errorMessage, true);
+          const errorUnderline: ErrorUnderline = this.getErrorUnderline(idSrcRange, errorMessage, true, diagnosticCodes.IncompatibleTypes);
           this.addError(errorUnderline);
         }
 
@@ -755,7 +943,10 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
     }
 
     const varNameCtx: Var_nameContext | undefined = ctx.var_name();
-    if (varNameCtx) {
+    if (varNameCtx && ctx.NUMBER().length > 0) {
+      // a number with a unit, ie "3 mM"
+      this.handleUnitVarNameContext(varNameCtx);
+    } else if (varNameCtx) {
       this.handleParameterVarNameContext(varNameCtx);
     } else {
       // not at an atom that has a varname
@@ -770,11 +961,86 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
     }
   }
 
+  /**
+   * records where a function is called, so that the
+   * call can be used for go to definition and find references.
+   * @param ctx 
+   */
+  visitFunc_call(ctx: Func_callContext) {
+    if (this.hasParseError(ctx)) {
+      return;
+    }
+
+    const funcName: string = this.getVarName(ctx.var_name().text);
+    const funcInfo: Variable | undefined = this.globalST.getVar(funcName);
+    if (funcInfo && funcInfo.type === varTypes.Function) {
+      const idSrcRange: SrcRange = this.getSrcRange(ctx.var_name().NAME());
+      funcInfo.refLocations.set(idSrcRange.toString(), idSrcRange);
+    }
+
+    const params: ParametersContext | undefined = ctx.parameters();
+    if (params) {
+      this.visit(params);
+    }
+  }
+
+  /**
+   * records where a model is instantiated, ie "A: M(x, y)", along with
+   * the ids passed to it, for go to definition and find references.
+   * @param ctx 
+   */
+  visitMmodel_call(ctx: Mmodel_callContext) {
+    if (this.hasParseError(ctx)) {
+      return;
+    }
+
+    const reactionName: Reaction_nameContext | undefined = ctx.reaction_name();
+    if (reactionName) {
+      this.visit(reactionName);
+    }
+
+    const modelInfo: Variable | undefined = this.globalST.getVar(ctx.NAME().text);
+    if (modelInfo && modelInfo.type === varTypes.Model) {
+      const modelIdSrcRange: SrcRange = this.getSrcRange(ctx.NAME());
+      modelInfo.refLocations.set(modelIdSrcRange.toString(), modelIdSrcRange);
+    }
+
+    // remember which models are instantiated where, to find recursive instantiations.
+    if (this.currNameAndScope?.scope === 'model') {
+      this.globalST.getModelST(this.currNameAndScope.name)?.submodelNames.add(ctx.NAME().text);
+    }
+
+    const currST: SymbolTable | undefined = this.getCurrST();
+    // so that dotted names such as "A.x" can be looked up in the model.
+    if (currST && reactionName) {
+      currST.submodels.set(this.getVarName(reactionName.namemaybein().var_name().NAME().text), ctx.NAME().text);
+    }
+    const params: Init_paramsContext | undefined = ctx.init_params();
+    if (currST && reactionName) {
+      // the arguments are the names and numbers of init_params, without the commas between them.
+      const args: string[] = params?.children?.map((child) => child.text).filter((text) => text !== ",") || [];
+      currST.submodelArguments.set(this.getVarName(reactionName.namemaybein().var_name().NAME().text), args);
+    }
+    if (currST && params) {
+      for (const param of params.NAME()) {
+        const paramInfo: Variable | undefined = currST.getVar(param.text);
+        if (paramInfo) {
+          const paramSrcRange: SrcRange = this.getSrcRange(param);
+          paramInfo.refLocations.set(paramSrcRange.toString(), paramSrcRange);
+        }
+      }
+    }
+  }
+
   //TODO: make a function for the "annotation already exists" warning.
   visitAnnotation(ctx: AnnotationContext) {
     if (this.hasParseError(ctx)) {
       return;
     }
+    // the annotations that BioModels conversions give are often continued over many lines.
+    if (ctx.annot_list() && ctx.stop) {
+      this.addFoldableBlock("annotation", ctx.start.line, ctx.stop.line);
+    }
 
     const varName: string = ctx.var_name().text; // Get the species name
     const annotationLink: string = ctx.ESCAPED_STRING().text; // Get the annotation
@@ -800,7 +1066,7 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
         // case where there is only one annotation for each keyword used.
         const currAnnotSrcRange = this.getSrcRange(ctx.ESCAPED_STRING());
         const errorMessage: string = "this annotation already exists";
-        const errorUnderline: ErrorUnderline = this.getErrorUnderline(currAnnotSrcRange, errorMessage, false);
+        const errorUnderline: ErrorUnderline = this.getErrorUnderline(currAnnotSrcRange, errorMessage, false, diagnosticCodes.DuplicateAnnotation);
         this.addError(errorUnderline);
       }
       // update ref locations for hover
@@ -837,7 +1103,7 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
             } else {
               const currAnnotSrcRange = this.getSrcRange(singleAnnot.ESCAPED_STRING());
               const errorMessage: string = "this annotation already exists";
-              const errorUnderline: ErrorUnderline = this.getErrorUnderline(currAnnotSrcRange, errorMessage, false);
+              const errorUnderline: ErrorUnderline = this.getErrorUnderline(currAnnotSrcRange, errorMessage, false, diagnosticCodes.DuplicateAnnotation);
               this.addError(errorUnderline);
             }
           }
@@ -866,17 +1132,101 @@ export class SymbolTableVisitor extends ErrorVisitor implements AntimonyGrammarV
     if (varNameCtx && sum) {
       // handle the var name
       this.handleParameterVarNameContext(varNameCtx);
+      const definition: UnitDefinition | undefined = this.handleUnitExpression(sum);
 
       // now we want to add the sum as the unit for this variable within the ST.
       let ST: SymbolTable | undefined = this.getCurrST();
       if (ST) {
         let varInfo: Variable | undefined = ST.getVar(varNameCtx.NAME().text);
-        varInfo!!.unit = sum.text;
+        varInfo!!.unit = getUnitText(sum);
+        varInfo!!.unitDefinition = definition;
       }
     }
   }
 
+  /**
+   * records a unit declaration, ie "unit mM = 0.001 mole / litre", in the global ST.
+   * @param ctx 
+   */
   visitUnit_declaration(ctx: Unit_declarationContext) {
+    if (this.hasParseError(ctx)) {
+      return;
+    }
+
+    const varNameCtx: Var_nameContext = ctx.var_name();
+    const varInfo: Variable | undefined = this.handleUnitVarNameContext(varNameCtx);
+    const definition: UnitDefinition | undefined = this.handleUnitExpression(ctx.sum());
+    if (varInfo) {
+      if (varInfo.declSrcRange === undefined) {
+        varInfo.declSrcRange = this.getSrcRange(varNameCtx.NAME());
+      }
+      varInfo.initSrcRange = this.getSrcRange(ctx);
+      // for hovers, the unit of a unit is what it is defined as.
+      varInfo.unit = getUnitText(ctx.sum());
+      varInfo.unitDefinition = definition;
+      if (definition) {
+        this.globalST.setUnit(varNameCtx.NAME().text, definition);
+      }
+    }
+  }
+
+  /**
+   * records the unit names in a unit expression, reporting
+   * an error if it is not a valid unit expression.
+   * @param ctx the unit expression
+   * @returns what ctx is made of, undefined if it is not valid
+   */
+  private handleUnitExpression(ctx: SumContext): UnitDefinition | undefined {
+    for (const unitNameCtx of getUnitNames(ctx)) {
+      this.handleUnitVarNameContext(unitNameCtx);
+    }
 
+    const definition: UnitDefinition | undefined = getUnitDefinition(ctx);
+    if (!definition) {
+      const errorMessage: string = invalidUnitError(getUnitText(ctx));
+      this.addError(this.getErrorUnderline(this.getSrcRange(ctx), errorMessage, true, diagnosticCodes.InvalidUnit));
+    }
+    return definition;
+  }
+
+  /**
+   * deals with unit names. Units are global, so they are inserted into the
+   * global ST, whatever scope they are used in.
+   * @param varNameCtx 
+   * @returns the Variable of the unit, undefined if the name is taken by another type
+   */
+  private handleUnitVarNameContext(varNameCtx: Var_nameContext): Variable | undefined {
+    const unitName: string = varNameCtx.NAME().text;
+    const idSrcRange: SrcRange = this.getSrcRange(varNameCtx.NAME());
+    const varInfo: Variable | undefined = this.globalST.getVar(unitName);
+
+    if (!varInfo) {
+      const unitInfo = new Variable(varTypes.Unit, false, undefined, idSrcRange, undefined, false);
+      this.globalST.setVar(unitName, unitInfo);
+      return unitInfo;
+    }
+
+    if (!varInfo.canSetType(varTypes.Unit)) {
+      const errorMessage = incompatibleTypesError(varTypes.Unit, varInfo);
+      this.addError(this.getErrorUnderline(idSrcRange, errorMessage, true, diagnosticCodes.IncompatibleTypes));
+      return undefined;
+    }
+    varInfo.type = varTypes.Unit;
+    varInfo.refLocations.set(idSrcRange.toString(), idSrcRange);
+    return varInfo;
+  }
+
+  /**
+   * gives varInfo the unit its value is written with, ie "x = 3 mM",
+   * unless it already has one from "x has ...".
+   * @param varInfo 
+   * @param value 
+   */
+  private setUnitFromValue(varInfo: Variable, value: SumContext) {
+    const unitNameCtx: Var_nameContext | undefined = getValueUnitName(value);
+    if (unitNameCtx && varInfo.unit === undefined) {
+      varInfo.unit = unitNameCtx.NAME().text;
+      varInfo.unitDefinition = new Map([[unitNameCtx.NAME().text, 1]]);
+    }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,51 @@
+import { ANTLRErrorListener, ANTLRInputStream, CommonToken, CommonTokenStream, Token } from "antlr4ts";
+import { AntimonyGrammarLexer } from "./antlr/AntimonyGrammarLexer";
+
+// an id followed by a dot and another id, ie the "A." in "A.x" or "A.B.x".
+const dottedNameRegex = /(?<!\w)([A-Za-z_]\w*)\.(?=[A-Za-z_])/g;
+// the start of model creator annotations, ie "creator1.name", whose dot is part of the token.
+const creatorFieldRegex = /^creator\d+$/;
+
+/**
+ * @description lexes an antimony program. The grammar has no dotted names such as "A.x",
+ *              which refer to x inside of the submodel A, and the lexer on its own silently
+ *              drops the ".x". So each dot joining two ids is lexed as part of a single name,
+ *              and the NAME token is given back the text "A.x".
+ * @param text the antimony program
+ * @param errorListener replaces the default lexer error listener, if given
+ * @returns the filled token stream, ready to be parsed
+ */
+export function createTokenStream(text: string, errorListener?: ANTLRErrorListener<number>): CommonTokenStream {
+  const dotIndexes: number[] = [];
+  const lexableText: string = text.replace(dottedNameRegex, (match: string, id: string, offset: number) => {
+    if (creatorFieldRegex.test(id) || text.startsWith(".sboTerm", offset + id.length)) {
+      return match;
+    }
+    dotIndexes.push(offset + id.length);
+    // "_" keeps the length, so token positions match the original text.
+    return id + "_";
+  });
+
+  const lexer = new AntimonyGrammarLexer(new ANTLRInputStream(lexableText));
+  if (errorListener) {
+    lexer.removeErrorListeners();
+    lexer.addErrorListener(errorListener);
+  }
+  const tokenStream = new CommonTokenStream(lexer);
+  tokenStream.fill();
+  if (dotIndexes.length === 0) {
+    return tokenStream;
+  }
+
+  // strings and notes can hold dots too, so every token covering one gets its text back.
+  let dot: number = 0;
+  for (const token of tokenStream.getTokens()) {
+    while (dot < dotIndexes.length && dotIndexes[dot] < token.startIndex) {
+      dot++;
+    }
+    if (dot < dotIndexes.length && dotIndexes[dot] <= token.stopIndex && token.type !== Token.EOF) {
+      (token as CommonToken).text = text.substring(token.startIndex, token.stopIndex + 1);
+    }
+  }
+  return tokenStream;
+}
@@ -1,5 +1,4 @@
-import * as monaco from "monaco-editor";
-import { predefinedConstants } from "./Variable";
+import type * as monaco from "monaco-editor";
 
 /**
  * represents a single location
@@ -57,8 +56,65 @@ export type ErrorUnderline = {
   endColumn: number;
   message: string;
   severity: monaco.MarkerSeverity;
+  // set on every diagnostic, only left out for highlights such as unannotated variables.
+  code?: diagnosticCodes;
 };
 
+/**
+ * The values of monaco.MarkerSeverity. Programs are analyzed without
+ * loading monaco (ie in the analysis worker), so these are used instead.
+ */
+export const markerSeverity = {
+  Hint: 1,
+  Info: 2,
+  Warning: 4,
+  Error: 8,
+} as const;
+
+/**
+ * Stable codes for diagnostics, shown alongside the message.
+ * Never renumber these, as quick fixes, severity settings and
+ * antimony-disable-next-line comments refer to them.
+ */
+export enum diagnosticCodes {
+  UninitializedParameter = "ANT001",
+  DefaultValue = "ANT002",
+  MissingRateLaw = "ANT003",
+  VarNotFound = "ANT004",
+  OverriddenValue = "ANT005",
+  IncompatibleTypes = "ANT006",
+  PredefConstantAssignment = "ANT007",
+  ModelAlreadyExists = "ANT008",
+  FunctionAlreadyExists = "ANT009",
+  DuplicateParameter = "ANT010",
+  OverridingValue = "ANT011",
+  OverridingDisplayName = "ANT012",
+  DuplicateAnnotation = "ANT013",
+  SyntaxError = "ANT014",
+  InconsistentUnits = "ANT015",
+  InvalidUnit = "ANT016",
+  NonBooleanTrigger = "ANT017",
+  InvalidEventDelay = "ANT018",
+  ConstantEventAssignment = "ANT019",
+  InvalidEventOption = "ANT020",
+  ReactionEventAssignment = "ANT021",
+  RateLawMissingReactants = "ANT022",
+  ReversedRateLaw = "ANT023",
+  UndefinedRateLawId = "ANT024",
+  ConsumedBoundarySpecies = "ANT025",
+  FunctionArity = "ANT026",
+  UndefinedFunction = "ANT027",
+  FunctionNonParameter = "ANT028",
+  UndefinedModel = "ANT029",
+  ModelArity = "ANT030",
+  IncompatibleModelArgument = "ANT031",
+  RecursiveModel = "ANT032",
+  ImportNotFound = "ANT033",
+  ImportCycle = "ANT034",
+  NotSubmodel = "ANT035",
+  MissingSubmodelMember = "ANT036",
+}
+
 //---------------------------------------//
 
 // copied from vscode-antimony types file.
@@ -0,0 +1,279 @@
+import { ParserRuleContext } from "antlr4ts";
+import { Interval } from "antlr4ts/misc";
+import { ParseTree } from "antlr4ts/tree";
+import { AtomContext, PowerContext, ProductContext, SumContext, Var_nameContext } from "./antlr/AntimonyGrammarParser";
+
+/**
+ * The units a unit is written in terms of, as a map from unit name to
+ * its power, ie "mole / litre" is {mole: 1, litre: -1}. Numbers such as the
+ * 0.001 in "unit mM = 0.001 mole / litre" only scale a unit, so they are left out.
+ */
+export type UnitDefinition = Map<string, number>;
+
+// the base units that each predefined unit is made of.
+const predefinedUnits: Map<string, [string, number][]> = new Map([
+  ["dimensionless", []],
+  ["item", [["item", 1]]],
+  ["mole", [["mole", 1]]],
+  ["second", [["second", 1]]],
+  ["metre", [["metre", 1]]],
+  ["meter", [["metre", 1]]],
+  ["litre", [["metre", 3]]],
+  ["liter", [["metre", 3]]],
+  ["gram", [["gram", 1]]],
+  ["kilogram", [["gram", 1]]],
+  ["ampere", [["ampere", 1]]],
+  ["kelvin", [["kelvin", 1]]],
+  ["candela", [["candela", 1]]],
+  ["hertz", [["second", -1]]],
+  ["katal", [["mole", 1], ["second", -1]]],
+]);
+
+// the name of the unit model time is in, which is second unless the program declares it.
+export const timeUnitName = "time_unit";
+
+/**
+ * adds the powers of b, multiplied by scale, to the powers of a
+ * @param a
+ * @param b
+ * @param scale
+ * @returns a new map, without any powers of 0
+ */
+function combinePowers(a: Map<string, number>, b: Map<string, number>, scale: number): Map<string, number> {
+  const result: Map<string, number> = new Map(a);
+  for (const [name, power] of b) {
+    const newPower: number = (result.get(name) || 0) + power * scale;
+    if (newPower === 0) {
+      result.delete(name);
+    } else {
+      result.set(name, newPower);
+    }
+  }
+  return result;
+}
+
+/**
+ * puts name in parentheses if it is made of more than one unit
+ * @param name
+ */
+function wrapName(name: string): string {
+  return /[*/^]/.test(name) ? "(" + name + ")" : name;
+}
+
+/**
+ * A unit as the powers of the base units it is made of, which is
+ * what two units are compared by. A unit made from a plain number is
+ * dimensionless when multiplied, but takes on the unit of whatever it is
+ * added to, as numbers in antimony are usually written without units.
+ */
+export class Unit {
+  // the power of each base unit, base units with a power of 0 are left out.
+  public readonly dimensions: Map<string, number>;
+  // how the unit is written, used in messages.
+  public readonly name: string;
+  public readonly isNumber: boolean;
+
+  constructor(dimensions: Map<string, number>, name: string, isNumber: boolean = false) {
+    this.dimensions = dimensions;
+    this.name = name;
+    this.isNumber = isNumber;
+  }
+
+  /**
+   * @returns the unit of a plain number
+   */
+  static number(): Unit {
+    return new Unit(new Map(), "dimensionless", true);
+  }
+
+  multiply(other: Unit): Unit {
+    if (this.isNumber || other.isNumber) {
+      return this.isNumber ? other : this;
+    }
+    return new Unit(combinePowers(this.dimensions, other.dimensions, 1), this.name + "*" + other.name);
+  }
+
+  divide(other: Unit): Unit {
+    if (other.isNumber) {
+      return this;
+    }
+    const name: string = (this.isNumber ? "1" : this.name) + "/" + wrapName(other.name);
+    return new Unit(combinePowers(this.dimensions, other.dimensions, -1), name);
+  }
+
+  power(exponent: number): Unit {
+    if (this.isNumber || exponent === 1) {
+      return this;
+    }
+    return new Unit(combinePowers(new Map(), this.dimensions, exponent), wrapName(this.name) + "^" + exponent);
+  }
+
+  /**
+   * @param other
+   * @returns true if this and other are made of the same powers of base units
+   */
+  hasSameDimensions(other: Unit): boolean {
+    if (this.dimensions.size !== other.dimensions.size) {
+      return false;
+    }
+    for (const [name, power] of this.dimensions) {
+      if (other.dimensions.get(name) !== power) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  toString(): string {
+    return this.name;
+  }
+}
+
+/**
+ * gets the value of an atom that is a plain number, ie the 2 in "litre^2"
+ * @param ctx
+ * @returns the number, or undefined if ctx is not a plain number
+ */
+function getAtomNumber(ctx: AtomContext): number | undefined {
+  const numbers = ctx.NUMBER();
+  if (numbers.length === 1 && !ctx.var_name()) {
+    return parseFloat(numbers[0].text);
+  }
+  const innerAtom: AtomContext | undefined = ctx.atom();
+  if (innerAtom) {
+    const value: number | undefined = getAtomNumber(innerAtom);
+    return value !== undefined && ctx.getChild(0).text === "-" ? -value : value;
+  }
+  return undefined;
+}
+
+/**
+ * @description gets what a unit expression, such as the right hand side of
+ *              "unit mM = 0.001 mole / litre" or "x has mole / litre", is made of.
+ * @param ctx the unit expression
+ * @returns the definition, or undefined if ctx is not a valid unit expression,
+ *          as units can only be multiplied, divided and raised to a number.
+ */
+export function getUnitDefinition(ctx: SumContext | ProductContext | PowerContext | AtomContext): UnitDefinition | undefined {
+  if (ctx instanceof SumContext) {
+    return ctx.sum() ? undefined : getUnitDefinition(ctx.product());
+  }
+
+  if (ctx instanceof ProductContext) {
+    const right: UnitDefinition | undefined = getUnitDefinition(ctx.power());
+    const leftCtx: ProductContext | undefined = ctx.product();
+    if (!leftCtx || !right) {
+      return right;
+    }
+    const left: UnitDefinition | undefined = getUnitDefinition(leftCtx);
+    return left && combinePowers(left, right, ctx.getChild(1).text === "/" ? -1 : 1);
+  }
+
+  if (ctx instanceof PowerContext) {
+    const baseCtx: PowerContext | undefined = ctx.power();
+    if (!baseCtx) {
+      // "exp" is not a unit.
+      return ctx.childCount === 1 ? getUnitDefinition(ctx.atom()) : undefined;
+    }
+    const base: UnitDefinition | undefined = getUnitDefinition(baseCtx);
+    const exponent: number | undefined = getAtomNumber(ctx.atom());
+    return base && exponent !== undefined ? combinePowers(new Map(), base, exponent) : undefined;
+  }
+
+  const varNameCtx: Var_nameContext | undefined = ctx.var_name();
+  if (varNameCtx) {
+    return new Map([[varNameCtx.NAME().text, 1]]);
+  }
+  if (ctx.NUMBER().length > 0) {
+    return new Map();
+  }
+  const sum: SumContext | undefined = ctx.sum();
+  return sum ? getUnitDefinition(sum) : undefined;
+}
+
+/**
+ * @description finds every unit name within a unit expression.
+ * @param ctx the unit expression
+ * @returns the contexts of the unit names, in order
+ */
+export function getUnitNames(ctx: ParseTree): Var_nameContext[] {
+  if (ctx instanceof Var_nameContext) {
+    return [ctx];
+  }
+  const names: Var_nameContext[] = [];
+  for (let i = 0; i < ctx.childCount; i++) {
+    names.push(...getUnitNames(ctx.getChild(i)));
+  }
+  return names;
+}
+
+/**
+ * @description gets a unit expression as it is written, keeping the spaces
+ *              between tokens, unlike ctx.text.
+ * @param ctx the unit expression
+ * @returns the source text of ctx
+ */
+export function getUnitText(ctx: ParserRuleContext): string {
+  if (!ctx.stop) {
+    return ctx.text;
+  }
+  return ctx.start.inputStream?.getText(Interval.of(ctx.start.startIndex, ctx.stop.stopIndex)) || ctx.text;
+}
+
+/**
+ * @description gets the unit a value is written with, ie the mM in "x = 3 mM".
+ * @param ctx the value
+ * @returns the context of the unit name, or undefined if ctx is not a number with a unit
+ */
+export function getValueUnitName(ctx: SumContext): Var_nameContext | undefined {
+  const product: ProductContext = ctx.product();
+  if (ctx.sum() || product.product() || product.power().childCount !== 1) {
+    return undefined;
+  }
+  const atom: AtomContext = product.power().atom();
+  return atom.NUMBER().length > 0 ? atom.var_name() : undefined;
+}
+
+/**
+ * @description works out the base units a unit name is made of. Units declared in the
+ *              program are used first, then predefined units (in the singular or plural),
+ *              and any other name is treated as a base unit of its own.
+ * @param name the unit name
+ * @param unitMap the units declared in the program
+ * @param resolving the unit names being resolved, to stop on circular declarations
+ * @returns the unit
+ */
+export function resolveUnitName(name: string, unitMap: Map<string, UnitDefinition>, resolving: Set<string> = new Set()): Unit {
+  const definition: UnitDefinition | undefined = unitMap.get(name);
+  if (definition && !resolving.has(name)) {
+    resolving.add(name);
+    const unit: Unit = resolveUnit(definition, unitMap, name, resolving);
+    resolving.delete(name);
+    return unit;
+  }
+
+  const singular: string = !predefinedUnits.has(name) && name.endsWith("s") ? name.slice(0, -1) : name;
+  const baseUnits: [string, number][] = predefinedUnits.get(singular) || [[name, 1]];
+  return new Unit(new Map(baseUnits), name);
+}
+
+/**
+ * @description works out the base units a unit definition is made of.
+ * @param definition
+ * @param unitMap the units declared in the program
+ * @param name how the unit is written
+ * @param resolving the unit names being resolved, to stop on circular declarations
+ * @returns the unit
+ */
+export function resolveUnit(
+  definition: UnitDefinition,
+  unitMap: Map<string, UnitDefinition>,
+  name: string,
+  resolving: Set<string> = new Set()
+): Unit {
+  let dimensions: Map<string, number> = new Map();
+  for (const [unitName, power] of definition) {
+    dimensions = combinePowers(dimensions, resolveUnitName(unitName, unitMap, resolving).dimensions, power);
+  }
+  return new Unit(dimensions, name);
+}
@@ -1,4 +1,5 @@
 import { SrcRange, isSubtTypeOf, varTypes } from "./Types"
+import { UnitDefinition } from "./Units";
 
 export class Variable {
     /**
@@ -9,6 +10,7 @@ export class Variable {
      * initialzied: has this variable been initalized? ie A = 1 initializes value to A
      * idSrcRange: the editor location of the id of this variable
      * initSrcRange: the editor location where this variable is initialized.
+     * declSrcRange: the editor location of the id where this variable is first declared.
      */
     // public id: string;
     public type: varTypes;
@@ -22,8 +24,13 @@ export class Variable {
     // This is typically the range of the whole assignment statement, so eg: "a = 1" would be the range
     // NOTE: this is not the case for reactions as a choice.
     public initSrcRange: SrcRange | undefined;
+    // This is the range of the id in the first declaration, ie "species A" or a param
+    // of a function or model. Unlike idSrcRange this is not moved when the id is used again.
+    public declSrcRange: SrcRange | undefined;
     public substanceOnly: boolean;
     public unit: string | undefined;
+    // the units that unit is made of, undefined if unit is not a valid unit expression
+    public unitDefinition: UnitDefinition | undefined;
     public value: string | undefined; // for numerical values
     public displayName: string | undefined;
     public annotations: string[];
@@ -43,8 +50,10 @@ export class Variable {
         this.compartment = compartment;
         this.idSrcRange = idSrcRange;
         this.initSrcRange = initSrcRange;
+        this.declSrcRange = undefined;
         this.substanceOnly = substanceOnly;
         this.unit = undefined;
+        this.unitDefinition = undefined;
         this.value = undefined;
         this.displayName = undefined;
         this.annotations = [];
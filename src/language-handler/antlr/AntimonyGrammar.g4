@@ -161,7 +161,7 @@ atom : NUMBER
     | '(' sum ')'
     | func_call
     | '(' bool_exp ')'
-    | NUMBER 'e' ('-' | '+') NUMBER;
+    | NUMBER 'e' ('-' | '+') NUMBER (var_name)?;
 
 func_call : var_name '(' (parameters)? ')';
 
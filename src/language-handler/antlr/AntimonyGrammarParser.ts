@@ -2052,9 +2052,9 @@ export class AntimonyGrammarParser extends Parser {
 		this.enterRule(_localctx, 78, AntimonyGrammarParser.RULE_atom);
 		let _la: number;
 		try {
-			this.state = 426;
+			this.state = 429;
 			this._errHandler.sync(this);
-			switch ( this.interpreter.adaptivePredict(this._input, 46, this._ctx) ) {
+			switch ( this.interpreter.adaptivePredict(this._input, 47, this._ctx) ) {
 			case 1:
 				this.enterOuterAlt(_localctx, 1);
 				{
@@ -2154,6 +2154,16 @@ export class AntimonyGrammarParser extends Parser {
 				}
 				this.state = 425;
 				this.match(AntimonyGrammarParser.NUMBER);
+				this.state = 427;
+				this._errHandler.sync(this);
+				switch ( this.interpreter.adaptivePredict(this._input, 46, this._ctx) ) {
+				case 1:
+					{
+					this.state = 426;
+					this.var_name();
+					}
+					break;
+				}
 				}
 				break;
 			}
@@ -2180,21 +2190,21 @@ export class AntimonyGrammarParser extends Parser {
 		try {
 			this.enterOuterAlt(_localctx, 1);
 			{
-			this.state = 428;
+			this.state = 431;
 			this.var_name();
-			this.state = 429;
+			this.state = 432;
 			this.match(AntimonyGrammarParser.T__21);
-			this.state = 431;
+			this.state = 434;
 			this._errHandler.sync(this);
 			_la = this._input.LA(1);
 			if ((((_la) & ~0x1F) === 0 && ((1 << _la) & ((1 << AntimonyGrammarParser.T__3) | (1 << AntimonyGrammarParser.T__15) | (1 << AntimonyGrammarParser.T__21) | (1 << AntimonyGrammarParser.T__23) | (1 << AntimonyGrammarParser.T__26))) !== 0) || _la === AntimonyGrammarParser.NUMBER || _la === AntimonyGrammarParser.NAME) {
 				{
-				this.state = 430;
+				this.state = 433;
 				this.parameters();
 				}
 			}
 
-			this.state = 433;
+			this.state = 436;
 			this.match(AntimonyGrammarParser.T__22);
 			}
 		}
@@ -2220,17 +2230,17 @@ export class AntimonyGrammarParser extends Parser {
 		try {
 			this.enterOuterAlt(_localctx, 1);
 			{
-			this.state = 436;
+			this.state = 439;
 			this._errHandler.sync(this);
 			_la = this._input.LA(1);
 			if ((((_la) & ~0x1F) === 0 && ((1 << _la) & ((1 << AntimonyGrammarParser.T__3) | (1 << AntimonyGrammarParser.T__5) | (1 << AntimonyGrammarParser.T__19) | (1 << AntimonyGrammarParser.T__28))) !== 0) || ((((_la - 33)) & ~0x1F) === 0 && ((1 << (_la - 33)) & ((1 << (AntimonyGrammarParser.ARROW - 33)) | (1 << (AntimonyGrammarParser.NUMBER - 33)) | (1 << (AntimonyGrammarParser.MODEL - 33)) | (1 << (AntimonyGrammarParser.VAR_MODIFIER - 33)) | (1 << (AntimonyGrammarParser.SUB_MODIFIER - 33)) | (1 << (AntimonyGrammarParser.TYPE_MODIFIER - 33)) | (1 << (AntimonyGrammarParser.NAME - 33)))) !== 0)) {
 				{
-				this.state = 435;
+				this.state = 438;
 				this.small_stmt();
 				}
 			}
 
-			this.state = 438;
+			this.state = 441;
 			_la = this._input.LA(1);
 			if (!(_la === AntimonyGrammarParser.T__14 || _la === AntimonyGrammarParser.NEWLINE)) {
 			this._errHandler.recoverInline(this);
@@ -2263,13 +2273,13 @@ export class AntimonyGrammarParser extends Parser {
 		let _localctx: Small_stmtContext = new Small_stmtContext(this._ctx, this.state);
 		this.enterRule(_localctx, 84, AntimonyGrammarParser.RULE_small_stmt);
 		try {
-			this.state = 456;
+			this.state = 459;
 			this._errHandler.sync(this);
-			switch ( this.interpreter.adaptivePredict(this._input, 49, this._ctx) ) {
+			switch ( this.interpreter.adaptivePredict(this._input, 50, this._ctx) ) {
 			case 1:
 				this.enterOuterAlt(_localctx, 1);
 				{
-				this.state = 440;
+				this.state = 443;
 				this.reaction();
 				}
 				break;
@@ -2277,7 +2287,7 @@ export class AntimonyGrammarParser extends Parser {
 			case 2:
 				this.enterOuterAlt(_localctx, 2);
 				{
-				this.state = 441;
+				this.state = 444;
 				this.assignment();
 				}
 				break;
@@ -2285,7 +2295,7 @@ export class AntimonyGrammarParser extends Parser {
 			case 3:
 				this.enterOuterAlt(_localctx, 3);
 				{
-				this.state = 442;
+				this.state = 445;
 				this.declaration();
 				}
 				break;
@@ -2293,7 +2303,7 @@ export class AntimonyGrammarParser extends Parser {
 			case 4:
 				this.enterOuterAlt(_localctx, 4);
 				{
-				this.state = 443;
+				this.state = 446;
 				this.model_notes();
 				}
 				break;
@@ -2301,7 +2311,7 @@ export class AntimonyGrammarParser extends Parser {
 			case 5:
 				this.enterOuterAlt(_localctx, 5);
 				{
-				this.state = 444;
+				this.state = 447;
 				this.model_annotation();
 				}
 				break;
@@ -2309,7 +2319,7 @@ export class AntimonyGrammarParser extends Parser {
 			case 6:
 				this.enterOuterAlt(_localctx, 6);
 				{
-				this.state = 445;
+				this.state = 448;
 				this.annotation();
 				}
 				break;
@@ -2317,7 +2327,7 @@ export class AntimonyGrammarParser extends Parser {
 			case 7:
 				this.enterOuterAlt(_localctx, 7);
 				{
-				this.state = 446;
+				this.state = 449;
 				this.unit_declaration();
 				}
 				break;
@@ -2325,7 +2335,7 @@ export class AntimonyGrammarParser extends Parser {
 			case 8:
 				this.enterOuterAlt(_localctx, 8);
 				{
-				this.state = 447;
+				this.state = 450;
 				this.unit_assignment();
 				}
 				break;
@@ -2333,7 +2343,7 @@ export class AntimonyGrammarParser extends Parser {
 			case 9:
 				this.enterOuterAlt(_localctx, 9);
 				{
-				this.state = 448;
+				this.state = 451;
 				this.mmodel_call();
 				}
 				break;
@@ -2341,7 +2351,7 @@ export class AntimonyGrammarParser extends Parser {
 			case 10:
 				this.enterOuterAlt(_localctx, 10);
 				{
-				this.state = 449;
+				this.state = 452;
 				this.variable_in();
 				}
 				break;
@@ -2349,7 +2359,7 @@ export class AntimonyGrammarParser extends Parser {
 			case 11:
 				this.enterOuterAlt(_localctx, 11);
 				{
-				this.state = 450;
+				this.state = 453;
 				this.is_assignment();
 				}
 				break;
@@ -2357,7 +2367,7 @@ export class AntimonyGrammarParser extends Parser {
 			case 12:
 				this.enterOuterAlt(_localctx, 12);
 				{
-				this.state = 451;
+				this.state = 454;
 				this.import_();
 				}
 				break;
@@ -2365,7 +2375,7 @@ export class AntimonyGrammarParser extends Parser {
 			case 13:
 				this.enterOuterAlt(_localctx, 13);
 				{
-				this.state = 452;
+				this.state = 455;
 				this.interaction();
 				}
 				break;
@@ -2373,7 +2383,7 @@ export class AntimonyGrammarParser extends Parser {
 			case 14:
 				this.enterOuterAlt(_localctx, 14);
 				{
-				this.state = 453;
+				this.state = 456;
 				this.rate_rule();
 				}
 				break;
@@ -2381,7 +2391,7 @@ export class AntimonyGrammarParser extends Parser {
 			case 15:
 				this.enterOuterAlt(_localctx, 15);
 				{
-				this.state = 454;
+				this.state = 457;
 				this.sboterm();
 				}
 				break;
@@ -2389,7 +2399,7 @@ export class AntimonyGrammarParser extends Parser {
 			case 16:
 				this.enterOuterAlt(_localctx, 16);
 				{
-				this.state = 455;
+				this.state = 458;
 				this.event();
 				}
 				break;
@@ -2417,17 +2427,17 @@ export class AntimonyGrammarParser extends Parser {
 		try {
 			this.enterOuterAlt(_localctx, 1);
 			{
-			this.state = 459;
+			this.state = 462;
 			this._errHandler.sync(this);
 			_la = this._input.LA(1);
 			do {
 				{
 				{
-				this.state = 458;
+				this.state = 461;
 				this.simple_stmt();
 				}
 				}
-				this.state = 461;
+				this.state = 464;
 				this._errHandler.sync(this);
 				_la = this._input.LA(1);
 			} while ((((_la) & ~0x1F) === 0 && ((1 << _la) & ((1 << AntimonyGrammarParser.T__3) | (1 << AntimonyGrammarParser.T__5) | (1 << AntimonyGrammarParser.T__14) | (1 << AntimonyGrammarParser.T__19) | (1 << AntimonyGrammarParser.T__28))) !== 0) || ((((_la - 33)) & ~0x1F) === 0 && ((1 << (_la - 33)) & ((1 << (AntimonyGrammarParser.ARROW - 33)) | (1 << (AntimonyGrammarParser.NUMBER - 33)) | (1 << (AntimonyGrammarParser.MODEL - 33)) | (1 << (AntimonyGrammarParser.VAR_MODIFIER - 33)) | (1 << (AntimonyGrammarParser.SUB_MODIFIER - 33)) | (1 << (AntimonyGrammarParser.TYPE_MODIFIER - 33)) | (1 << (AntimonyGrammarParser.NAME - 33)) | (1 << (AntimonyGrammarParser.NEWLINE - 33)))) !== 0));
@@ -2454,9 +2464,9 @@ export class AntimonyGrammarParser extends Parser {
 		try {
 			this.enterOuterAlt(_localctx, 1);
 			{
-			this.state = 463;
+			this.state = 466;
 			this.match(AntimonyGrammarParser.T__28);
-			this.state = 464;
+			this.state = 467;
 			this.match(AntimonyGrammarParser.ESCAPED_STRING);
 			}
 		}
@@ -2482,37 +2492,37 @@ export class AntimonyGrammarParser extends Parser {
 		try {
 			this.enterOuterAlt(_localctx, 1);
 			{
-			this.state = 466;
+			this.state = 469;
 			this.match(AntimonyGrammarParser.MODEL);
-			this.state = 468;
+			this.state = 471;
 			this._errHandler.sync(this);
 			_la = this._input.LA(1);
 			if (_la === AntimonyGrammarParser.T__1) {
 				{
-				this.state = 467;
+				this.state = 470;
 				this.match(AntimonyGrammarParser.T__1);
 				}
 			}
 
-			this.state = 470;
+			this.state = 473;
 			this.match(AntimonyGrammarParser.NAME);
-			this.state = 471;
+			this.state = 474;
 			this.match(AntimonyGrammarParser.T__21);
-			this.state = 473;
+			this.state = 476;
 			this._errHandler.sync(this);
 			_la = this._input.LA(1);
 			if (_la === AntimonyGrammarParser.NUMBER || _la === AntimonyGrammarParser.NAME) {
 				{
-				this.state = 472;
+				this.state = 475;
 				this.init_params();
 				}
 			}
 
-			this.state = 475;
+			this.state = 478;
 			this.match(AntimonyGrammarParser.T__22);
-			this.state = 476;
+			this.state = 479;
 			this.simple_stmt_list();
-			this.state = 477;
+			this.state = 480;
 			this.match(AntimonyGrammarParser.END);
 			}
 		}
@@ -2538,41 +2548,41 @@ export class AntimonyGrammarParser extends Parser {
 		try {
 			this.enterOuterAlt(_localctx, 1);
 			{
-			this.state = 479;
+			this.state = 482;
 			this.match(AntimonyGrammarParser.T__29);
-			this.state = 480;
+			this.state = 483;
 			this.match(AntimonyGrammarParser.NAME);
-			this.state = 481;
+			this.state = 484;
 			this.match(AntimonyGrammarParser.T__21);
-			this.state = 483;
+			this.state = 486;
 			this._errHandler.sync(this);
 			_la = this._input.LA(1);
 			if (_la === AntimonyGrammarParser.NUMBER || _la === AntimonyGrammarParser.NAME) {
 				{
-				this.state = 482;
+				this.state = 485;
 				this.init_params();
 				}
 			}
 
-			this.state = 485;
+			this.state = 488;
 			this.match(AntimonyGrammarParser.T__22);
-			this.state = 486;
+			this.state = 489;
 			this.match(AntimonyGrammarParser.NEWLINE);
-			this.state = 487;
+			this.state = 490;
 			this.sum(0);
-			this.state = 489;
+			this.state = 492;
 			this._errHandler.sync(this);
 			_la = this._input.LA(1);
 			if (_la === AntimonyGrammarParser.T__14) {
 				{
-				this.state = 488;
+				this.state = 491;
 				this.match(AntimonyGrammarParser.T__14);
 				}
 			}
 
-			this.state = 491;
+			this.state = 494;
 			this.match(AntimonyGrammarParser.NEWLINE);
-			this.state = 492;
+			this.state = 495;
 			this.match(AntimonyGrammarParser.END);
 			}
 		}
@@ -2599,24 +2609,24 @@ export class AntimonyGrammarParser extends Parser {
 			this.enterOuterAlt(_localctx, 1);
 			{
 			{
-			this.state = 494;
+			this.state = 497;
 			this.bool_exp();
 			}
-			this.state = 499;
+			this.state = 502;
 			this._errHandler.sync(this);
 			_la = this._input.LA(1);
 			while (_la === AntimonyGrammarParser.T__8) {
 				{
 				{
-				this.state = 495;
+				this.state = 498;
 				this.match(AntimonyGrammarParser.T__8);
 				{
-				this.state = 496;
+				this.state = 499;
 				this.bool_exp();
 				}
 				}
 				}
-				this.state = 501;
+				this.state = 504;
 				this._errHandler.sync(this);
 				_la = this._input.LA(1);
 			}
@@ -2644,7 +2654,7 @@ export class AntimonyGrammarParser extends Parser {
 		try {
 			this.enterOuterAlt(_localctx, 1);
 			{
-			this.state = 502;
+			this.state = 505;
 			_la = this._input.LA(1);
 			if (!(_la === AntimonyGrammarParser.NUMBER || _la === AntimonyGrammarParser.NAME)) {
 			this._errHandler.recoverInline(this);
@@ -2656,15 +2666,15 @@ export class AntimonyGrammarParser extends Parser {
 				this._errHandler.reportMatch(this);
 				this.consume();
 			}
-			this.state = 507;
+			this.state = 510;
 			this._errHandler.sync(this);
 			_la = this._input.LA(1);
 			while (_la === AntimonyGrammarParser.T__8) {
 				{
 				{
-				this.state = 503;
+				this.state = 506;
 				this.match(AntimonyGrammarParser.T__8);
-				this.state = 504;
+				this.state = 507;
 				_la = this._input.LA(1);
 				if (!(_la === AntimonyGrammarParser.NUMBER || _la === AntimonyGrammarParser.NAME)) {
 				this._errHandler.recoverInline(this);
@@ -2678,7 +2688,7 @@ export class AntimonyGrammarParser extends Parser {
 				}
 				}
 				}
-				this.state = 509;
+				this.state = 512;
 				this._errHandler.sync(this);
 				_la = this._input.LA(1);
 			}
@@ -2705,9 +2715,9 @@ export class AntimonyGrammarParser extends Parser {
 		try {
 			this.enterOuterAlt(_localctx, 1);
 			{
-			this.state = 510;
+			this.state = 513;
 			this.var_name();
-			this.state = 511;
+			this.state = 514;
 			this.in_comp();
 			}
 		}
@@ -2732,11 +2742,11 @@ export class AntimonyGrammarParser extends Parser {
 		try {
 			this.enterOuterAlt(_localctx, 1);
 			{
-			this.state = 513;
+			this.state = 516;
 			this.match(AntimonyGrammarParser.NAME);
-			this.state = 514;
+			this.state = 517;
 			this.match(AntimonyGrammarParser.T__30);
-			this.state = 515;
+			this.state = 518;
 			this.match(AntimonyGrammarParser.ESCAPED_STRING);
 			}
 		}
@@ -2797,7 +2807,7 @@ export class AntimonyGrammarParser extends Parser {
 	}
 
 	public static readonly _serializedATN: string =
-		"\x03\uC91D\uCABA\u058D\uAFBA\u4F53\u0607\uEA8B\uC241\x03=\u0208\x04\x02" +
+		"\x03\uC91D\uCABA\u058D\uAFBA\u4F53\u0607\uEA8B\uC241\x03=\u020B\x04\x02" +
 		"\t\x02\x04\x03\t\x03\x04\x04\t\x04\x04\x05\t\x05\x04\x06\t\x06\x04\x07" +
 		"\t\x07\x04\b\t\b\x04\t\t\t\x04\n\t\n\x04\v\t\v\x04\f\t\f\x04\r\t\r\x04" +
 		"\x0E\t\x0E\x04\x0F\t\x0F\x04\x10\t\x10\x04\x11\t\x11\x04\x12\t\x12\x04" +
@@ -2838,111 +2848,111 @@ export class AntimonyGrammarParser extends Parser {
 		"\'\x03\'\x03\'\x07\'\u0185\n\'\f\'\x0E\'\u0188\v\'\x03(\x03(\x03(\x03" +
 		"(\x05(\u018E\n(\x03(\x03(\x03(\x07(\u0193\n(\f(\x0E(\u0196\v(\x03)\x03" +
 		")\x03)\x03)\x03)\x03)\x03)\x03)\x03)\x03)\x03)\x03)\x03)\x03)\x03)\x03" +
-		")\x03)\x03)\x03)\x03)\x03)\x05)\u01AD\n)\x03*\x03*\x03*\x05*\u01B2\n*" +
-		"\x03*\x03*\x03+\x05+\u01B7\n+\x03+\x03+\x03,\x03,\x03,\x03,\x03,\x03," +
-		"\x03,\x03,\x03,\x03,\x03,\x03,\x03,\x03,\x03,\x03,\x05,\u01CB\n,\x03-" +
-		"\x06-\u01CE\n-\r-\x0E-\u01CF\x03.\x03.\x03.\x03/\x03/\x05/\u01D7\n/\x03" +
-		"/\x03/\x03/\x05/\u01DC\n/\x03/\x03/\x03/\x03/\x030\x030\x030\x030\x05" +
-		"0\u01E6\n0\x030\x030\x030\x030\x050\u01EC\n0\x030\x030\x030\x031\x031" +
-		"\x031\x071\u01F4\n1\f1\x0E1\u01F7\v1\x032\x032\x032\x072\u01FC\n2\f2\x0E" +
-		"2\u01FF\v2\x033\x033\x033\x034\x034\x034\x034\x034\x02\x02\x05JLN5\x02" +
-		"\x02\x04\x02\x06\x02\b\x02\n\x02\f\x02\x0E\x02\x10\x02\x12\x02\x14\x02" +
-		"\x16\x02\x18\x02\x1A\x02\x1C\x02\x1E\x02 \x02\"\x02$\x02&\x02(\x02*\x02" +
-		",\x02.\x020\x022\x024\x026\x028\x02:\x02<\x02>\x02@\x02B\x02D\x02F\x02" +
-		"H\x02J\x02L\x02N\x02P\x02R\x02T\x02V\x02X\x02Z\x02\\\x02^\x02`\x02b\x02" +
-		"d\x02f\x02\x02\b\x04\x02\x03\x03..\x04\x02\r\r**\x03\x02+,\x04\x02\x12" +
-		"\x12\x1A\x1A\x04\x02\x11\x11;;\x04\x02%%44\x02\u0229\x02n\x03\x02\x02" +
-		"\x02\x04r\x03\x02\x02\x02\x06\x83\x03\x02\x02\x02\b\x87\x03\x02\x02\x02" +
-		"\n\x8A\x03\x02\x02\x02\f\x8F\x03\x02\x02\x02\x0E\x9C\x03\x02\x02\x02\x10" +
-		"\xA3\x03\x02\x02\x02\x12\xB2\x03\x02\x02\x02\x14\xB4\x03\x02\x02\x02\x16" +
-		"\xB6\x03\x02\x02\x02\x18\xD7\x03\x02\x02\x02\x1A\xD9\x03\x02\x02\x02\x1C" +
-		"\xE2\x03\x02\x02\x02\x1E\xEA\x03\x02\x02\x02 \xF0\x03\x02\x02\x02\"\xF8" +
-		"\x03\x02\x02\x02$\xFC\x03\x02\x02\x02&\u0101\x03\x02\x02\x02(\u0105\x03" +
-		"\x02\x02\x02*\u0107\x03\x02\x02\x02,\u010C\x03\x02\x02\x02.\u0113\x03" +
-		"\x02\x02\x020\u0117\x03\x02\x02\x022\u011B\x03\x02\x02\x024\u0121\x03" +
-		"\x02\x02\x026\u0127\x03\x02\x02\x028\u0139\x03\x02\x02\x02:\u013B\x03" +
-		"\x02\x02\x02<\u013F\x03\x02\x02\x02>\u0142\x03\x02\x02\x02@\u0144\x03" +
-		"\x02\x02\x02B\u0149\x03\x02\x02\x02D\u014E\x03\x02\x02\x02F\u0160\x03" +
-		"\x02\x02\x02H\u016B\x03\x02\x02\x02J\u016D\x03\x02\x02\x02L\u017B\x03" +
-		"\x02\x02\x02N\u018D\x03\x02\x02\x02P\u01AC\x03\x02\x02\x02R\u01AE\x03" +
-		"\x02\x02\x02T\u01B6\x03\x02\x02\x02V\u01CA\x03\x02\x02\x02X\u01CD\x03" +
-		"\x02\x02\x02Z\u01D1\x03\x02\x02\x02\\\u01D4\x03\x02\x02\x02^\u01E1\x03" +
-		"\x02\x02\x02`\u01F0\x03\x02\x02\x02b\u01F8\x03\x02\x02\x02d\u0200\x03" +
-		"\x02\x02\x02f\u0203\x03\x02\x02\x02hm\x05T+\x02im\x05\x04\x03\x02jm\x05" +
-		"^0\x02km\x05\\/\x02lh\x03\x02\x02\x02li\x03\x02\x02\x02lj\x03\x02\x02" +
-		"\x02lk\x03\x02\x02\x02mp\x03\x02\x02\x02nl\x03\x02\x02\x02no\x03\x02\x02" +
-		"\x02o\x03\x03\x02\x02\x02pn\x03\x02\x02\x02qs\x07;\x02\x02rq\x03\x02\x02" +
-		"\x02rs\x03\x02\x02\x02su\x03\x02\x02\x02tv\x073\x02\x02ut\x03\x02\x02" +
-		"\x02uv\x03\x02\x02\x02vw\x03\x02\x02\x02wy\t\x02\x02\x02xz\x07\x04\x02" +
-		"\x02yx\x03\x02\x02\x02yz\x03\x02\x02\x02z{\x03\x02\x02\x02{}\x074\x02" +
-		"\x02|~\x07\x05\x02\x02}|\x03\x02\x02\x02}~\x03\x02\x02\x02~\x7F\x03\x02" +
-		"\x02\x02\x7F\x80\x05X-\x02\x80\x81\x07\"\x02\x02\x81\x05\x03\x02\x02\x02" +
-		"\x82\x84\x07\x06\x02\x02\x83\x82\x03\x02\x02\x02\x83\x84\x03\x02\x02\x02" +
-		"\x84\x85\x03\x02\x02\x02\x85\x86\x074\x02\x02\x86\x07\x03\x02\x02\x02" +
-		"\x87\x88\x07\x07\x02\x02\x88\x89\x05\x06\x04\x02\x89\t\x03\x02\x02\x02" +
-		"\x8A\x8C\x05\x06\x04\x02\x8B\x8D\x05\b\x05\x02\x8C\x8B\x03\x02\x02\x02" +
-		"\x8C\x8D\x03\x02\x02\x02\x8D\v\x03\x02\x02\x02\x8E\x90\x05\x16\f\x02\x8F" +
-		"\x8E\x03\x02\x02\x02\x8F\x90\x03\x02\x02\x02\x90\x91\x03\x02\x02\x02\x91" +
-		"\x93\x07\b\x02\x02\x92\x94\x05\x0E\b\x02\x93\x92\x03\x02\x02\x02\x93\x94" +
-		"\x03\x02\x02\x02\x94\x95\x03\x02\x02\x02\x95\x97\x05F$\x02\x96\x98\x05" +
-		"\x10\t\x02\x97\x96\x03\x02\x02\x02\x97\x98\x03\x02\x02\x02\x98\x99\x03" +
-		"\x02\x02\x02\x99\x9A\x07\t\x02\x02\x9A\x9B\x05 \x11\x02\x9B\r\x03\x02" +
-		"\x02\x02\x9C\x9D\x05F$\x02\x9D\x9E\x07\n\x02\x02\x9E\x0F\x03\x02\x02\x02" +
-		"\x9F\xA0\x07\v\x02\x02\xA0\xA2\x05\x12\n\x02\xA1\x9F\x03\x02\x02\x02\xA2" +
-		"\xA5\x03\x02\x02\x02\xA3\xA1\x03\x02\x02\x02\xA3\xA4\x03\x02\x02\x02\xA4" +
-		"\x11\x03\x02\x02\x02\xA5\xA3\x03\x02\x02\x02\xA6\xA7\x07\f\x02\x02\xA7" +
-		"\xA8\x07\r\x02\x02\xA8\xB3\x07&\x02\x02\xA9\xAA\x07\x0E\x02\x02\xAA\xAB" +
-		"\x07\r\x02\x02\xAB\xB3\x05J&\x02\xAC\xAD\x07\x0F\x02\x02\xAD\xAE\x07\r" +
-		"\x02\x02\xAE\xB3\x07&\x02\x02\xAF\xB0\x07\x10\x02\x02\xB0\xB1\x07\r\x02" +
-		"\x02\xB1\xB3\x07&\x02\x02\xB2\xA6\x03\x02\x02\x02\xB2\xA9\x03\x02\x02" +
-		"\x02\xB2\xAC\x03\x02\x02\x02\xB2\xAF\x03\x02\x02\x02\xB3\x13\x03\x02\x02" +
-		"\x02\xB4\xB5\x03\x02\x02\x02\xB5\x15\x03\x02\x02\x02\xB6\xB7\x05\n\x06" +
-		"\x02\xB7\xB8\x07\t\x02\x02\xB8\x17\x03\x02\x02\x02\xB9\xBB\x05\x16\f\x02" +
-		"\xBA\xB9\x03\x02\x02\x02\xBA\xBB\x03\x02\x02\x02\xBB\xBC\x03\x02\x02\x02" +
-		"\xBC\xBD\x05\x1A\x0E\x02\xBD\xBF\x07#\x02\x02\xBE\xC0\x05\x1A\x0E\x02" +
-		"\xBF\xBE\x03\x02\x02\x02\xBF\xC0\x03\x02\x02\x02\xC0\xC1\x03\x02\x02\x02" +
-		"\xC1\xC3\x07\x11\x02\x02\xC2\xC4\x05J&\x02\xC3\xC2\x03\x02\x02\x02\xC3" +
-		"\xC4\x03\x02\x02\x02\xC4\xC6\x03\x02\x02\x02\xC5\xC7\x05\b\x05\x02\xC6" +
-		"\xC5\x03\x02\x02\x02\xC6\xC7\x03\x02\x02\x02\xC7\xD8\x03\x02\x02\x02\xC8" +
-		"\xCA\x05\x16\f\x02\xC9\xC8\x03\x02\x02\x02\xC9\xCA\x03\x02\x02\x02\xCA" +
-		"\xCC\x03\x02\x02\x02\xCB\xCD\x05\x1A\x0E\x02\xCC\xCB\x03\x02\x02\x02\xCC" +
-		"\xCD\x03\x02\x02\x02\xCD\xCE\x03\x02\x02\x02\xCE\xCF\x07#\x02\x02\xCF" +
-		"\xD0\x05\x1A\x0E\x02\xD0\xD2\x07\x11\x02\x02\xD1\xD3\x05J&\x02\xD2\xD1" +
-		"\x03\x02\x02\x02\xD2\xD3\x03\x02\x02\x02\xD3\xD5\x03\x02\x02\x02\xD4\xD6" +
-		"\x05\b\x05\x02\xD5\xD4\x03\x02\x02\x02\xD5\xD6\x03\x02\x02\x02\xD6\xD8" +
-		"\x03\x02\x02\x02\xD7\xBA\x03\x02\x02\x02\xD7\xC9\x03\x02\x02\x02\xD8\x19" +
-		"\x03\x02\x02\x02\xD9\xDE\x05\x1C\x0F\x02\xDA\xDB\x07\x12\x02\x02\xDB\xDD" +
-		"\x05\x1C\x0F\x02\xDC\xDA\x03\x02\x02\x02\xDD\xE0\x03\x02\x02\x02\xDE\xDC" +
-		"\x03\x02\x02\x02\xDE\xDF\x03\x02\x02\x02\xDF\x1B\x03\x02\x02\x02\xE0\xDE" +
-		"\x03\x02\x02\x02\xE1\xE3\x07%\x02\x02\xE2\xE1\x03\x02\x02\x02\xE2\xE3" +
-		"\x03\x02\x02\x02\xE3\xE5\x03\x02\x02\x02\xE4\xE6\x07\x06\x02\x02\xE5\xE4" +
-		"\x03\x02\x02\x02\xE5\xE6\x03\x02\x02\x02\xE6\xE7\x03\x02\x02\x02\xE7\xE8" +
-		"\x074\x02\x02\xE8\x1D\x03\x02\x02\x02\xE9\xEB\x05\x16\f\x02\xEA\xE9\x03" +
-		"\x02\x02\x02\xEA\xEB\x03\x02\x02\x02\xEB\xEC\x03\x02\x02\x02\xEC\xED\x05" +
-		"\x1C\x0F\x02\xED\xEE\x07$\x02\x02\xEE\xEF\x05\n\x06\x02\xEF\x1F\x03\x02" +
-		"\x02\x02\xF0\xF5\x05\"\x12\x02\xF1\xF2\x07\v\x02\x02\xF2\xF4\x05\"\x12" +
-		"\x02\xF3\xF1\x03\x02\x02\x02\xF4\xF7\x03\x02\x02\x02\xF5\xF3\x03\x02\x02" +
-		"\x02\xF5\xF6\x03\x02\x02\x02\xF6!\x03\x02\x02\x02\xF7\xF5\x03\x02\x02" +
-		"\x02\xF8\xF9\x05\x06\x04\x02\xF9\xFA\x07\r\x02\x02\xFA\xFB\x05J&\x02\xFB" +
-		"#\x03\x02\x02\x02\xFC\xFD\x05\x06\x04\x02\xFD\xFE\x07\x13\x02\x02\xFE" +
-		"\xFF\x07\r\x02\x02\xFF\u0100\x07)\x02\x02\u0100%\x03\x02\x02\x02\u0101" +
-		"\u0102\x05\n\x06\x02\u0102\u0103\t\x03\x02\x02\u0103\u0104\x05J&\x02\u0104" +
-		"\'\x03\x02\x02\x02\u0105\u0106\x07\x14\x02\x02\u0106)\x03\x02\x02\x02" +
-		"\u0107\u0108\x074\x02\x02\u0108\u0109\x05(\x15\x02\u0109\u010A\x07\r\x02" +
-		"\x02\u010A\u010B\x05J&\x02\u010B+\x03\x02\x02\x02\u010C\u010D\x05\x06" +
-		"\x04\x02\u010D\u010E\t\x04\x02\x02\u010E\u0110\x07=\x02\x02\u010F\u0111" +
-		"\x05.\x18\x02\u0110\u010F\x03\x02\x02\x02\u0110\u0111\x03\x02\x02\x02" +
-		"\u0111-\x03\x02\x02\x02\u0112\u0114\x050\x19\x02\u0113\u0112\x03\x02\x02" +
-		"\x02\u0114\u0115\x03\x02\x02\x02\u0115\u0113\x03\x02\x02\x02\u0115\u0116" +
-		"\x03\x02\x02\x02\u0116/\x03\x02\x02\x02\u0117\u0118\x07\v\x02\x02\u0118" +
-		"\u0119\x07;\x02\x02\u0119\u011A\x07=\x02\x02\u011A1\x03\x02\x02\x02\u011B" +
-		"\u011C\x07.\x02\x02\u011C\u011D\t\x04\x02\x02\u011D\u011F\x07=\x02\x02" +
-		"\u011E\u0120\x05.\x18\x02\u011F\u011E\x03\x02\x02\x02\u011F\u0120\x03" +
-		"\x02\x02\x02\u01203\x03\x02\x02\x02\u0121\u0122\x07.\x02\x02\u0122\u0123" +
-		"\x07\x15\x02\x02\u0123\u0125\x07/\x02\x02\u0124\u0126\x07;\x02\x02\u0125" +
-		"\u0124\x03\x02\x02\x02\u0125\u0126\x03\x02\x02\x02\u01265\x03\x02\x02" +
-		"\x02\u0127\u0128\x058\x1D\x02\u0128\u012D\x05:\x1E\x02\u0129\u012A\x07" +
-		"\v\x02\x02\u012A\u012C\x05:\x1E\x02\u012B\u0129\x03\x02\x02\x02\u012C" +
+		")\x03)\x03)\x03)\x03)\x03)\x03)\x05)\u01AE\n)\x05)\u01B0\n)\x03*\x03*" +
+		"\x03*\x05*\u01B5\n*\x03*\x03*\x03+\x05+\u01BA\n+\x03+\x03+\x03,\x03,\x03" +
+		",\x03,\x03,\x03,\x03,\x03,\x03,\x03,\x03,\x03,\x03,\x03,\x03,\x03,\x05" +
+		",\u01CE\n,\x03-\x06-\u01D1\n-\r-\x0E-\u01D2\x03.\x03.\x03.\x03/\x03/\x05" +
+		"/\u01DA\n/\x03/\x03/\x03/\x05/\u01DF\n/\x03/\x03/\x03/\x03/\x030\x030" +
+		"\x030\x030\x050\u01E9\n0\x030\x030\x030\x030\x050\u01EF\n0\x030\x030\x03" +
+		"0\x031\x031\x031\x071\u01F7\n1\f1\x0E1\u01FA\v1\x032\x032\x032\x072\u01FF" +
+		"\n2\f2\x0E2\u0202\v2\x033\x033\x033\x034\x034\x034\x034\x034\x02\x02\x05" +
+		"JLN5\x02\x02\x04\x02\x06\x02\b\x02\n\x02\f\x02\x0E\x02\x10\x02\x12\x02" +
+		"\x14\x02\x16\x02\x18\x02\x1A\x02\x1C\x02\x1E\x02 \x02\"\x02$\x02&\x02" +
+		"(\x02*\x02,\x02.\x020\x022\x024\x026\x028\x02:\x02<\x02>\x02@\x02B\x02" +
+		"D\x02F\x02H\x02J\x02L\x02N\x02P\x02R\x02T\x02V\x02X\x02Z\x02\\\x02^\x02" +
+		"`\x02b\x02d\x02f\x02\x02\b\x04\x02\x03\x03..\x04\x02\r\r**\x03\x02+,\x04" +
+		"\x02\x12\x12\x1A\x1A\x04\x02\x11\x11;;\x04\x02%%44\x02\u022D\x02n\x03" +
+		"\x02\x02\x02\x04r\x03\x02\x02\x02\x06\x83\x03\x02\x02\x02\b\x87\x03\x02" +
+		"\x02\x02\n\x8A\x03\x02\x02\x02\f\x8F\x03\x02\x02\x02\x0E\x9C\x03\x02\x02" +
+		"\x02\x10\xA3\x03\x02\x02\x02\x12\xB2\x03\x02\x02\x02\x14\xB4\x03\x02\x02" +
+		"\x02\x16\xB6\x03\x02\x02\x02\x18\xD7\x03\x02\x02\x02\x1A\xD9\x03\x02\x02" +
+		"\x02\x1C\xE2\x03\x02\x02\x02\x1E\xEA\x03\x02\x02\x02 \xF0\x03\x02\x02" +
+		"\x02\"\xF8\x03\x02\x02\x02$\xFC\x03\x02\x02\x02&\u0101\x03\x02\x02\x02" +
+		"(\u0105\x03\x02\x02\x02*\u0107\x03\x02\x02\x02,\u010C\x03\x02\x02\x02" +
+		".\u0113\x03\x02\x02\x020\u0117\x03\x02\x02\x022\u011B\x03\x02\x02\x02" +
+		"4\u0121\x03\x02\x02\x026\u0127\x03\x02\x02\x028\u0139\x03\x02\x02\x02" +
+		":\u013B\x03\x02\x02\x02<\u013F\x03\x02\x02\x02>\u0142\x03\x02\x02\x02" +
+		"@\u0144\x03\x02\x02\x02B\u0149\x03\x02\x02\x02D\u014E\x03\x02\x02\x02" +
+		"F\u0160\x03\x02\x02\x02H\u016B\x03\x02\x02\x02J\u016D\x03\x02\x02\x02" +
+		"L\u017B\x03\x02\x02\x02N\u018D\x03\x02\x02\x02P\u01AF\x03\x02\x02\x02" +
+		"R\u01B1\x03\x02\x02\x02T\u01B9\x03\x02\x02\x02V\u01CD\x03\x02\x02\x02" +
+		"X\u01D0\x03\x02\x02\x02Z\u01D4\x03\x02\x02\x02\\\u01D7\x03\x02\x02\x02" +
+		"^\u01E4\x03\x02\x02\x02`\u01F3\x03\x02\x02\x02b\u01FB\x03\x02\x02\x02" +
+		"d\u0203\x03\x02\x02\x02f\u0206\x03\x02\x02\x02hm\x05T+\x02im\x05\x04\x03" +
+		"\x02jm\x05^0\x02km\x05\\/\x02lh\x03\x02\x02\x02li\x03\x02\x02\x02lj\x03" +
+		"\x02\x02\x02lk\x03\x02\x02\x02mp\x03\x02\x02\x02nl\x03\x02\x02\x02no\x03" +
+		"\x02\x02\x02o\x03\x03\x02\x02\x02pn\x03\x02\x02\x02qs\x07;\x02\x02rq\x03" +
+		"\x02\x02\x02rs\x03\x02\x02\x02su\x03\x02\x02\x02tv\x073\x02\x02ut\x03" +
+		"\x02\x02\x02uv\x03\x02\x02\x02vw\x03\x02\x02\x02wy\t\x02\x02\x02xz\x07" +
+		"\x04\x02\x02yx\x03\x02\x02\x02yz\x03\x02\x02\x02z{\x03\x02\x02\x02{}\x07" +
+		"4\x02\x02|~\x07\x05\x02\x02}|\x03\x02\x02\x02}~\x03\x02\x02\x02~\x7F\x03" +
+		"\x02\x02\x02\x7F\x80\x05X-\x02\x80\x81\x07\"\x02\x02\x81\x05\x03\x02\x02" +
+		"\x02\x82\x84\x07\x06\x02\x02\x83\x82\x03\x02\x02\x02\x83\x84\x03\x02\x02" +
+		"\x02\x84\x85\x03\x02\x02\x02\x85\x86\x074\x02\x02\x86\x07\x03\x02\x02" +
+		"\x02\x87\x88\x07\x07\x02\x02\x88\x89\x05\x06\x04\x02\x89\t\x03\x02\x02" +
+		"\x02\x8A\x8C\x05\x06\x04\x02\x8B\x8D\x05\b\x05\x02\x8C\x8B\x03\x02\x02" +
+		"\x02\x8C\x8D\x03\x02\x02\x02\x8D\v\x03\x02\x02\x02\x8E\x90\x05\x16\f\x02" +
+		"\x8F\x8E\x03\x02\x02\x02\x8F\x90\x03\x02\x02\x02\x90\x91\x03\x02\x02\x02" +
+		"\x91\x93\x07\b\x02\x02\x92\x94\x05\x0E\b\x02\x93\x92\x03\x02\x02\x02\x93" +
+		"\x94\x03\x02\x02\x02\x94\x95\x03\x02\x02\x02\x95\x97\x05F$\x02\x96\x98" +
+		"\x05\x10\t\x02\x97\x96\x03\x02\x02\x02\x97\x98\x03\x02\x02\x02\x98\x99" +
+		"\x03\x02\x02\x02\x99\x9A\x07\t\x02\x02\x9A\x9B\x05 \x11\x02\x9B\r\x03" +
+		"\x02\x02\x02\x9C\x9D\x05F$\x02\x9D\x9E\x07\n\x02\x02\x9E\x0F\x03\x02\x02" +
+		"\x02\x9F\xA0\x07\v\x02\x02\xA0\xA2\x05\x12\n\x02\xA1\x9F\x03\x02\x02\x02" +
+		"\xA2\xA5\x03\x02\x02\x02\xA3\xA1\x03\x02\x02\x02\xA3\xA4\x03\x02\x02\x02" +
+		"\xA4\x11\x03\x02\x02\x02\xA5\xA3\x03\x02\x02\x02\xA6\xA7\x07\f\x02\x02" +
+		"\xA7\xA8\x07\r\x02\x02\xA8\xB3\x07&\x02\x02\xA9\xAA\x07\x0E\x02\x02\xAA" +
+		"\xAB\x07\r\x02\x02\xAB\xB3\x05J&\x02\xAC\xAD\x07\x0F\x02\x02\xAD\xAE\x07" +
+		"\r\x02\x02\xAE\xB3\x07&\x02\x02\xAF\xB0\x07\x10\x02\x02\xB0\xB1\x07\r" +
+		"\x02\x02\xB1\xB3\x07&\x02\x02\xB2\xA6\x03\x02\x02\x02\xB2\xA9\x03\x02" +
+		"\x02\x02\xB2\xAC\x03\x02\x02\x02\xB2\xAF\x03\x02\x02\x02\xB3\x13\x03\x02" +
+		"\x02\x02\xB4\xB5\x03\x02\x02\x02\xB5\x15\x03\x02\x02\x02\xB6\xB7\x05\n" +
+		"\x06\x02\xB7\xB8\x07\t\x02\x02\xB8\x17\x03\x02\x02\x02\xB9\xBB\x05\x16" +
+		"\f\x02\xBA\xB9\x03\x02\x02\x02\xBA\xBB\x03\x02\x02\x02\xBB\xBC\x03\x02" +
+		"\x02\x02\xBC\xBD\x05\x1A\x0E\x02\xBD\xBF\x07#\x02\x02\xBE\xC0\x05\x1A" +
+		"\x0E\x02\xBF\xBE\x03\x02\x02\x02\xBF\xC0\x03\x02\x02\x02\xC0\xC1\x03\x02" +
+		"\x02\x02\xC1\xC3\x07\x11\x02\x02\xC2\xC4\x05J&\x02\xC3\xC2\x03\x02\x02" +
+		"\x02\xC3\xC4\x03\x02\x02\x02\xC4\xC6\x03\x02\x02\x02\xC5\xC7\x05\b\x05" +
+		"\x02\xC6\xC5\x03\x02\x02\x02\xC6\xC7\x03\x02\x02\x02\xC7\xD8\x03\x02\x02" +
+		"\x02\xC8\xCA\x05\x16\f\x02\xC9\xC8\x03\x02\x02\x02\xC9\xCA\x03\x02\x02" +
+		"\x02\xCA\xCC\x03\x02\x02\x02\xCB\xCD\x05\x1A\x0E\x02\xCC\xCB\x03\x02\x02" +
+		"\x02\xCC\xCD\x03\x02\x02\x02\xCD\xCE\x03\x02\x02\x02\xCE\xCF\x07#\x02" +
+		"\x02\xCF\xD0\x05\x1A\x0E\x02\xD0\xD2\x07\x11\x02\x02\xD1\xD3\x05J&\x02" +
+		"\xD2\xD1\x03\x02\x02\x02\xD2\xD3\x03\x02\x02\x02\xD3\xD5\x03\x02\x02\x02" +
+		"\xD4\xD6\x05\b\x05\x02\xD5\xD4\x03\x02\x02\x02\xD5\xD6\x03\x02\x02\x02" +
+		"\xD6\xD8\x03\x02\x02\x02\xD7\xBA\x03\x02\x02\x02\xD7\xC9\x03\x02\x02\x02" +
+		"\xD8\x19\x03\x02\x02\x02\xD9\xDE\x05\x1C\x0F\x02\xDA\xDB\x07\x12\x02\x02" +
+		"\xDB\xDD\x05\x1C\x0F\x02\xDC\xDA\x03\x02\x02\x02\xDD\xE0\x03\x02\x02\x02" +
+		"\xDE\xDC\x03\x02\x02\x02\xDE\xDF\x03\x02\x02\x02\xDF\x1B\x03\x02\x02\x02" +
+		"\xE0\xDE\x03\x02\x02\x02\xE1\xE3\x07%\x02\x02\xE2\xE1\x03\x02\x02\x02" +
+		"\xE2\xE3\x03\x02\x02\x02\xE3\xE5\x03\x02\x02\x02\xE4\xE6\x07\x06\x02\x02" +
+		"\xE5\xE4\x03\x02\x02\x02\xE5\xE6\x03\x02\x02\x02\xE6\xE7\x03\x02\x02\x02" +
+		"\xE7\xE8\x074\x02\x02\xE8\x1D\x03\x02\x02\x02\xE9\xEB\x05\x16\f\x02\xEA" +
+		"\xE9\x03\x02\x02\x02\xEA\xEB\x03\x02\x02\x02\xEB\xEC\x03\x02\x02\x02\xEC" +
+		"\xED\x05\x1C\x0F\x02\xED\xEE\x07$\x02\x02\xEE\xEF\x05\n\x06\x02\xEF\x1F" +
+		"\x03\x02\x02\x02\xF0\xF5\x05\"\x12\x02\xF1\xF2\x07\v\x02\x02\xF2\xF4\x05" +
+		"\"\x12\x02\xF3\xF1\x03\x02\x02\x02\xF4\xF7\x03\x02\x02\x02\xF5\xF3\x03" +
+		"\x02\x02\x02\xF5\xF6\x03\x02\x02\x02\xF6!\x03\x02\x02\x02\xF7\xF5\x03" +
+		"\x02\x02\x02\xF8\xF9\x05\x06\x04\x02\xF9\xFA\x07\r\x02\x02\xFA\xFB\x05" +
+		"J&\x02\xFB#\x03\x02\x02\x02\xFC\xFD\x05\x06\x04\x02\xFD\xFE\x07\x13\x02" +
+		"\x02\xFE\xFF\x07\r\x02\x02\xFF\u0100\x07)\x02\x02\u0100%\x03\x02\x02\x02" +
+		"\u0101\u0102\x05\n\x06\x02\u0102\u0103\t\x03\x02\x02\u0103\u0104\x05J" +
+		"&\x02\u0104\'\x03\x02\x02\x02\u0105\u0106\x07\x14\x02\x02\u0106)\x03\x02" +
+		"\x02\x02\u0107\u0108\x074\x02\x02\u0108\u0109\x05(\x15\x02\u0109\u010A" +
+		"\x07\r\x02\x02\u010A\u010B\x05J&\x02\u010B+\x03\x02\x02\x02\u010C\u010D" +
+		"\x05\x06\x04\x02\u010D\u010E\t\x04\x02\x02\u010E\u0110\x07=\x02\x02\u010F" +
+		"\u0111\x05.\x18\x02\u0110\u010F\x03\x02\x02\x02\u0110\u0111\x03\x02\x02" +
+		"\x02\u0111-\x03\x02\x02\x02\u0112\u0114\x050\x19\x02\u0113\u0112\x03\x02" +
+		"\x02\x02\u0114\u0115\x03\x02\x02\x02\u0115\u0113\x03\x02\x02\x02\u0115" +
+		"\u0116\x03\x02\x02\x02\u0116/\x03\x02\x02\x02\u0117\u0118\x07\v\x02\x02" +
+		"\u0118\u0119\x07;\x02\x02\u0119\u011A\x07=\x02\x02\u011A1\x03\x02\x02" +
+		"\x02\u011B\u011C\x07.\x02\x02\u011C\u011D\t\x04\x02\x02\u011D\u011F\x07" +
+		"=\x02\x02\u011E\u0120\x05.\x18\x02\u011F\u011E\x03\x02\x02\x02\u011F\u0120" +
+		"\x03\x02\x02\x02\u01203\x03\x02\x02\x02\u0121\u0122\x07.\x02\x02\u0122" +
+		"\u0123\x07\x15\x02\x02\u0123\u0125\x07/\x02\x02\u0124\u0126\x07;\x02\x02" +
+		"\u0125\u0124\x03\x02\x02\x02\u0125\u0126\x03\x02\x02\x02\u01265\x03\x02" +
+		"\x02\x02\u0127\u0128\x058\x1D\x02\u0128\u012D\x05:\x1E\x02\u0129\u012A" +
+		"\x07\v\x02\x02\u012A\u012C\x05:\x1E\x02\u012B\u0129\x03\x02\x02\x02\u012C" +
 		"\u012F\x03\x02\x02\x02\u012D\u012B\x03\x02\x02\x02\u012D\u012E\x03\x02" +
 		"\x02\x02\u012E7\x03\x02\x02\x02\u012F\u012D\x03\x02\x02\x02\u0130\u013A" +
 		"\x070\x02\x02\u0131\u013A\x072\x02\x02\u0132\u0133\x070\x02\x02\u0133" +
@@ -2989,63 +2999,65 @@ export class AntimonyGrammarParser extends Parser {
 		"\u0190\u0191\x07\x1C\x02\x02\u0191\u0193\x05P)\x02\u0192\u018F\x03\x02" +
 		"\x02\x02\u0193\u0196\x03\x02\x02\x02\u0194\u0192\x03\x02\x02\x02\u0194" +
 		"\u0195\x03\x02\x02\x02\u0195O\x03\x02\x02\x02\u0196\u0194\x03\x02\x02" +
-		"\x02\u0197\u01AD\x07%\x02\x02\u0198\u01AD\x05\x06\x04\x02\u0199\u019A" +
-		"\x07%\x02\x02\u019A\u01AD\x05\x06\x04\x02\u019B\u019C\x07\x1A\x02\x02" +
-		"\u019C\u01AD\x05P)\x02\u019D\u019E\x07\x12\x02\x02\u019E\u01AD\x05P)\x02" +
+		"\x02\u0197\u01B0\x07%\x02\x02\u0198\u01B0\x05\x06\x04\x02\u0199\u019A" +
+		"\x07%\x02\x02\u019A\u01B0\x05\x06\x04\x02\u019B\u019C\x07\x1A\x02\x02" +
+		"\u019C\u01B0\x05P)\x02\u019D\u019E\x07\x12\x02\x02\u019E\u01B0\x05P)\x02" +
 		"\u019F\u01A0\x07\x18\x02\x02\u01A0\u01A1\x05J&\x02\u01A1\u01A2\x07\x19" +
-		"\x02\x02\u01A2\u01AD\x03\x02\x02\x02\u01A3\u01AD\x05R*\x02\u01A4\u01A5" +
+		"\x02\x02\u01A2\u01B0\x03\x02\x02\x02\u01A3\u01B0\x05R*\x02\u01A4\u01A5" +
 		"\x07\x18\x02\x02\u01A5\u01A6\x05F$\x02\u01A6\u01A7\x07\x19\x02\x02\u01A7" +
-		"\u01AD\x03\x02\x02\x02\u01A8\u01A9\x07%\x02\x02\u01A9\u01AA\x07\x1E\x02" +
-		"\x02\u01AA\u01AB\t\x05\x02\x02\u01AB\u01AD\x07%\x02\x02\u01AC\u0197\x03" +
-		"\x02\x02\x02\u01AC\u0198\x03\x02\x02\x02\u01AC\u0199\x03\x02\x02\x02\u01AC" +
-		"\u019B\x03\x02\x02\x02\u01AC\u019D\x03\x02\x02\x02\u01AC\u019F\x03\x02" +
-		"\x02\x02\u01AC\u01A3\x03\x02\x02\x02\u01AC\u01A4\x03\x02\x02\x02\u01AC" +
-		"\u01A8\x03\x02\x02\x02\u01ADQ\x03\x02\x02\x02\u01AE\u01AF\x05\x06\x04" +
-		"\x02\u01AF\u01B1\x07\x18\x02\x02\u01B0\u01B2\x05`1\x02\u01B1\u01B0\x03" +
-		"\x02\x02\x02\u01B1\u01B2\x03\x02\x02\x02\u01B2\u01B3\x03\x02\x02\x02\u01B3" +
-		"\u01B4\x07\x19\x02\x02\u01B4S\x03\x02\x02\x02\u01B5\u01B7\x05V,\x02\u01B6" +
-		"\u01B5\x03\x02\x02\x02\u01B6\u01B7\x03\x02\x02\x02\u01B7\u01B8\x03\x02" +
-		"\x02\x02\u01B8\u01B9\t\x06\x02\x02\u01B9U\x03\x02\x02\x02\u01BA\u01CB" +
-		"\x05\x18\r\x02\u01BB\u01CB\x05&\x14\x02\u01BC\u01CB\x056\x1C\x02\u01BD" +
-		"\u01CB\x054\x1B\x02\u01BE\u01CB\x052\x1A\x02\u01BF\u01CB\x05,\x17\x02" +
-		"\u01C0\u01CB\x05@!\x02\u01C1\u01CB\x05B\"\x02\u01C2\u01CB\x05D#\x02\u01C3" +
-		"\u01CB\x05d3\x02\u01C4\u01CB\x05f4\x02\u01C5\u01CB\x05Z.\x02\u01C6\u01CB" +
-		"\x05\x1E\x10\x02\u01C7\u01CB\x05*\x16\x02\u01C8\u01CB\x05$\x13\x02\u01C9" +
-		"\u01CB\x05\f\x07\x02\u01CA\u01BA\x03\x02\x02\x02\u01CA\u01BB\x03\x02\x02" +
-		"\x02\u01CA\u01BC\x03\x02\x02\x02\u01CA\u01BD\x03\x02\x02\x02\u01CA\u01BE" +
-		"\x03\x02\x02\x02\u01CA\u01BF\x03\x02\x02\x02\u01CA\u01C0\x03\x02\x02\x02" +
-		"\u01CA\u01C1\x03\x02\x02\x02\u01CA\u01C2\x03\x02\x02\x02\u01CA\u01C3\x03" +
-		"\x02\x02\x02\u01CA\u01C4\x03\x02\x02\x02\u01CA\u01C5\x03\x02\x02\x02\u01CA" +
-		"\u01C6\x03\x02\x02\x02\u01CA\u01C7\x03\x02\x02\x02\u01CA\u01C8\x03\x02" +
-		"\x02\x02\u01CA\u01C9\x03\x02\x02\x02\u01CBW\x03\x02\x02\x02\u01CC\u01CE" +
-		"\x05T+\x02\u01CD\u01CC\x03\x02\x02\x02\u01CE\u01CF\x03\x02\x02\x02\u01CF" +
-		"\u01CD\x03\x02\x02\x02\u01CF\u01D0\x03\x02\x02\x02\u01D0Y\x03\x02\x02" +
-		"\x02\u01D1\u01D2\x07\x1F\x02\x02\u01D2\u01D3\x07=\x02\x02\u01D3[\x03\x02" +
-		"\x02\x02\u01D4\u01D6\x07.\x02\x02\u01D5\u01D7\x07\x04\x02\x02\u01D6\u01D5" +
-		"\x03\x02\x02\x02\u01D6\u01D7\x03\x02\x02\x02\u01D7\u01D8\x03\x02\x02\x02" +
-		"\u01D8\u01D9\x074\x02\x02\u01D9\u01DB\x07\x18\x02\x02\u01DA\u01DC\x05" +
-		"b2\x02\u01DB\u01DA\x03\x02\x02\x02\u01DB\u01DC\x03\x02\x02\x02\u01DC\u01DD" +
-		"\x03\x02\x02\x02\u01DD\u01DE\x07\x19\x02\x02\u01DE\u01DF\x05X-\x02\u01DF" +
-		"\u01E0\x07\"\x02\x02\u01E0]\x03\x02\x02\x02\u01E1\u01E2\x07 \x02\x02\u01E2" +
-		"\u01E3\x074\x02\x02\u01E3\u01E5\x07\x18\x02\x02\u01E4\u01E6\x05b2\x02" +
-		"\u01E5\u01E4\x03\x02\x02\x02\u01E5\u01E6\x03\x02\x02\x02\u01E6\u01E7\x03" +
-		"\x02\x02\x02\u01E7\u01E8\x07\x19\x02\x02\u01E8\u01E9\x07;\x02\x02\u01E9" +
-		"\u01EB\x05J&\x02\u01EA\u01EC\x07\x11\x02\x02\u01EB\u01EA\x03\x02\x02\x02" +
-		"\u01EB\u01EC\x03\x02\x02\x02\u01EC\u01ED\x03\x02\x02\x02\u01ED\u01EE\x07" +
-		";\x02\x02\u01EE\u01EF\x07\"\x02\x02\u01EF_\x03\x02\x02\x02\u01F0\u01F5" +
-		"\x05F$\x02\u01F1\u01F2\x07\v\x02\x02\u01F2\u01F4\x05F$\x02\u01F3\u01F1" +
-		"\x03\x02\x02\x02\u01F4\u01F7\x03\x02\x02\x02\u01F5\u01F3\x03\x02\x02\x02" +
-		"\u01F5\u01F6\x03\x02\x02\x02\u01F6a\x03\x02\x02\x02\u01F7\u01F5\x03\x02" +
-		"\x02\x02\u01F8\u01FD\t\x07\x02\x02\u01F9\u01FA\x07\v\x02\x02\u01FA\u01FC" +
-		"\t\x07\x02\x02\u01FB\u01F9\x03\x02\x02\x02\u01FC\u01FF\x03\x02\x02\x02" +
-		"\u01FD\u01FB\x03\x02\x02\x02\u01FD\u01FE\x03\x02\x02\x02\u01FEc\x03\x02" +
-		"\x02\x02\u01FF\u01FD\x03\x02\x02\x02\u0200\u0201\x05\x06\x04\x02\u0201" +
-		"\u0202\x05\b\x05\x02\u0202e\x03\x02\x02\x02\u0203\u0204\x074\x02\x02\u0204" +
-		"\u0205\x07!\x02\x02\u0205\u0206\x07=\x02\x02\u0206g\x03\x02\x02\x02;l" +
-		"nruy}\x83\x8C\x8F\x93\x97\xA3\xB2\xBA\xBF\xC3\xC6\xC9\xCC\xD2\xD5\xD7" +
-		"\xDE\xE2\xE5\xEA\xF5\u0110\u0115\u011F\u0125\u012D\u0139\u013D\u014E\u0153" +
-		"\u015D\u0160\u0168\u016B\u0176\u0178\u0184\u0186\u018D\u0194\u01AC\u01B1" +
-		"\u01B6\u01CA\u01CF\u01D6\u01DB\u01E5\u01EB\u01F5\u01FD";
+		"\u01B0\x03\x02\x02\x02\u01A8\u01A9\x07%\x02\x02\u01A9\u01AA\x07\x1E\x02" +
+		"\x02\u01AA\u01AB\t\x05\x02\x02\u01AB\u01AD\x07%\x02\x02\u01AC\u01AE\x05" +
+		"\x06\x04\x02\u01AD\u01AC\x03\x02\x02\x02\u01AD\u01AE\x03\x02\x02\x02\u01AE" +
+		"\u01B0\x03\x02\x02\x02\u01AF\u0197\x03\x02\x02\x02\u01AF\u0198\x03\x02" +
+		"\x02\x02\u01AF\u0199\x03\x02\x02\x02\u01AF\u019B\x03\x02\x02\x02\u01AF" +
+		"\u019D\x03\x02\x02\x02\u01AF\u019F\x03\x02\x02\x02\u01AF\u01A3\x03\x02" +
+		"\x02\x02\u01AF\u01A4\x03\x02\x02\x02\u01AF\u01A8\x03\x02\x02\x02\u01B0" +
+		"Q\x03\x02\x02\x02\u01B1\u01B2\x05\x06\x04\x02\u01B2\u01B4\x07\x18\x02" +
+		"\x02\u01B3\u01B5\x05`1\x02\u01B4\u01B3\x03\x02\x02\x02\u01B4\u01B5\x03" +
+		"\x02\x02\x02\u01B5\u01B6\x03\x02\x02\x02\u01B6\u01B7\x07\x19\x02\x02\u01B7" +
+		"S\x03\x02\x02\x02\u01B8\u01BA\x05V,\x02\u01B9\u01B8\x03\x02\x02\x02\u01B9" +
+		"\u01BA\x03\x02\x02\x02\u01BA\u01BB\x03\x02\x02\x02\u01BB\u01BC\t\x06\x02" +
+		"\x02\u01BCU\x03\x02\x02\x02\u01BD\u01CE\x05\x18\r\x02\u01BE\u01CE\x05" +
+		"&\x14\x02\u01BF\u01CE\x056\x1C\x02\u01C0\u01CE\x054\x1B\x02\u01C1\u01CE" +
+		"\x052\x1A\x02\u01C2\u01CE\x05,\x17\x02\u01C3\u01CE\x05@!\x02\u01C4\u01CE" +
+		"\x05B\"\x02\u01C5\u01CE\x05D#\x02\u01C6\u01CE\x05d3\x02\u01C7\u01CE\x05" +
+		"f4\x02\u01C8\u01CE\x05Z.\x02\u01C9\u01CE\x05\x1E\x10\x02\u01CA\u01CE\x05" +
+		"*\x16\x02\u01CB\u01CE\x05$\x13\x02\u01CC\u01CE\x05\f\x07\x02\u01CD\u01BD" +
+		"\x03\x02\x02\x02\u01CD\u01BE\x03\x02\x02\x02\u01CD\u01BF\x03\x02\x02\x02" +
+		"\u01CD\u01C0\x03\x02\x02\x02\u01CD\u01C1\x03\x02\x02\x02\u01CD\u01C2\x03" +
+		"\x02\x02\x02\u01CD\u01C3\x03\x02\x02\x02\u01CD\u01C4\x03\x02\x02\x02\u01CD" +
+		"\u01C5\x03\x02\x02\x02\u01CD\u01C6\x03\x02\x02\x02\u01CD\u01C7\x03\x02" +
+		"\x02\x02\u01CD\u01C8\x03\x02\x02\x02\u01CD\u01C9\x03\x02\x02\x02\u01CD" +
+		"\u01CA\x03\x02\x02\x02\u01CD\u01CB\x03\x02\x02\x02\u01CD\u01CC\x03\x02" +
+		"\x02\x02\u01CEW\x03\x02\x02\x02\u01CF\u01D1\x05T+\x02\u01D0\u01CF\x03" +
+		"\x02\x02\x02\u01D1\u01D2\x03\x02\x02\x02\u01D2\u01D0\x03\x02\x02\x02\u01D2" +
+		"\u01D3\x03\x02\x02\x02\u01D3Y\x03\x02\x02\x02\u01D4\u01D5\x07\x1F\x02" +
+		"\x02\u01D5\u01D6\x07=\x02\x02\u01D6[\x03\x02\x02\x02\u01D7\u01D9\x07." +
+		"\x02\x02\u01D8\u01DA\x07\x04\x02\x02\u01D9\u01D8\x03\x02\x02\x02\u01D9" +
+		"\u01DA\x03\x02\x02\x02\u01DA\u01DB\x03\x02\x02\x02\u01DB\u01DC\x074\x02" +
+		"\x02\u01DC\u01DE\x07\x18\x02\x02\u01DD\u01DF\x05b2\x02\u01DE\u01DD\x03" +
+		"\x02\x02\x02\u01DE\u01DF\x03\x02\x02\x02\u01DF\u01E0\x03\x02\x02\x02\u01E0" +
+		"\u01E1\x07\x19\x02\x02\u01E1\u01E2\x05X-\x02\u01E2\u01E3\x07\"\x02\x02" +
+		"\u01E3]\x03\x02\x02\x02\u01E4\u01E5\x07 \x02\x02\u01E5\u01E6\x074\x02" +
+		"\x02\u01E6\u01E8\x07\x18\x02\x02\u01E7\u01E9\x05b2\x02\u01E8\u01E7\x03" +
+		"\x02\x02\x02\u01E8\u01E9\x03\x02\x02\x02\u01E9\u01EA\x03\x02\x02\x02\u01EA" +
+		"\u01EB\x07\x19\x02\x02\u01EB\u01EC\x07;\x02\x02\u01EC\u01EE\x05J&\x02" +
+		"\u01ED\u01EF\x07\x11\x02\x02\u01EE\u01ED\x03\x02\x02\x02\u01EE\u01EF\x03" +
+		"\x02\x02\x02\u01EF\u01F0\x03\x02\x02\x02\u01F0\u01F1\x07;\x02\x02\u01F1" +
+		"\u01F2\x07\"\x02\x02\u01F2_\x03\x02\x02\x02\u01F3\u01F8\x05F$\x02\u01F4" +
+		"\u01F5\x07\v\x02\x02\u01F5\u01F7\x05F$\x02\u01F6\u01F4\x03\x02\x02\x02" +
+		"\u01F7\u01FA\x03\x02\x02\x02\u01F8\u01F6\x03\x02\x02\x02\u01F8\u01F9\x03" +
+		"\x02\x02\x02\u01F9a\x03\x02\x02\x02\u01FA\u01F8\x03\x02\x02\x02\u01FB" +
+		"\u0200\t\x07\x02\x02\u01FC\u01FD\x07\v\x02\x02\u01FD\u01FF\t\x07\x02\x02" +
+		"\u01FE\u01FC\x03\x02\x02\x02\u01FF\u0202\x03\x02\x02\x02\u0200\u01FE\x03" +
+		"\x02\x02\x02\u0200\u0201\x03\x02\x02\x02\u0201c\x03\x02\x02\x02\u0202" +
+		"\u0200\x03\x02\x02\x02\u0203\u0204\x05\x06\x04\x02\u0204\u0205\x05\b\x05" +
+		"\x02\u0205e\x03\x02\x02\x02\u0206\u0207\x074\x02\x02\u0207\u0208\x07!" +
+		"\x02\x02\u0208\u0209\x07=\x02\x02\u0209g\x03\x02\x02\x02<lnruy}\x83\x8C" +
+		"\x8F\x93\x97\xA3\xB2\xBA\xBF\xC3\xC6\xC9\xCC\xD2\xD5\xD7\xDE\xE2\xE5\xEA" +
+		"\xF5\u0110\u0115\u011F\u0125\u012D\u0139\u013D\u014E\u0153\u015D\u0160" +
+		"\u0168\u016B\u0176\u0178\u0184\u0186\u018D\u0194\u01AD\u01AF\u01B4\u01B9" +
+		"\u01CD\u01D2\u01D9\u01DE\u01E8\u01EE\u01F8\u0200";
 	public static __ATN: ATN;
 	public static get _ATN(): ATN {
 		if (!AntimonyGrammarParser.__ATN) {
@@ -0,0 +1,506 @@
+import { AnalysisService, getHoverLookup } from "../language-handler/AnalysisService";
+import { AntimonyDiagnostic, getAntimonyDiagnostics } from "../language-handler/AnalyzeAntimony";
+import { AntimonyCompletionItem, getCompletionItems } from "../language-handler/Completion";
+import { applyDiagnosticSettings, DiagnosticSettings } from "../language-handler/DiagnosticSettings";
+import { AntimonySymbol, getDocumentSymbols } from "../language-handler/DocumentSymbols";
+import { AntimonyFoldingRange, getFoldingRanges } from "../language-handler/FoldingRanges";
+import { AntimonyInlayHint, getInlayHints } from "../language-handler/InlayHints";
+import { getDefinitionFileName, getDefinitionRanges, getWordAtColumn } from "../language-handler/Navigation";
+import { ProgramAnalysis } from "../language-handler/ProgramAnalysis";
+import {
+  encodeSemanticTokens,
+  getSemanticTokens,
+  semanticTokenModifiers,
+  semanticTokenTypes,
+} from "../language-handler/SemanticTokens";
+import { AntimonySignatureHelp, getSignatureHelp } from "../language-handler/SignatureHelp";
+import { GlobalST } from "../language-handler/SymbolTableClasses";
+import { SrcRange, varTypes } from "../language-handler/Types";
+import { getHoverMarkdown } from "./Hover";
+import {
+  CompletionItem,
+  CompletionItemKind,
+  Diagnostic,
+  DiagnosticSeverity,
+  DocumentSymbol,
+  ErrorCodes,
+  FoldingRange,
+  Hover,
+  InlayHint,
+  InlayHintKind,
+  Location,
+  Message,
+  Position,
+  Range,
+  SignatureHelp,
+  SymbolKind,
+  TextDocumentSyncKind,
+} from "./Protocol";
+
+/**
+ * An error that is sent back as the response to a request.
+ */
+class ResponseError extends Error {
+  code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+const diagnosticSeverities: Record<AntimonyDiagnostic["severity"], number> = {
+  error: DiagnosticSeverity.Error,
+  warning: DiagnosticSeverity.Warning,
+  info: DiagnosticSeverity.Information,
+  hint: DiagnosticSeverity.Hint,
+};
+
+/**
+ * A language server for editors other than the web editor. Documents are analyzed by
+ * the same AnalysisService the web editor's worker uses, and the language features
+ * are built by the same functions its monaco providers use, so they behave the same.
+ * Messages are handed to the server by a MessageConnection (see server.ts).
+ */
+export class AntimonyLanguageServer {
+  private send: (message: Message) => void;
+  private readDirectory: (directoryUri: string) => Map<string, string>;
+  private onExit: (code: number) => void;
+  private service: AnalysisService = new AnalysisService();
+  // the text of each open document, by uri.
+  private documents: Map<string, string> = new Map();
+  private settings: DiagnosticSettings = {};
+  private isInitialized: boolean = false;
+  private isShutDown: boolean = false;
+
+  /**
+   * @param send sends a message to the client
+   * @param readDirectory reads the .ant files in a directory, by name. Imports
+   *                      are resolved against the files in the directory of a document.
+   * @param onExit called with the exit code when the client asks the server to exit
+   */
+  constructor(
+      send: (message: Message) => void,
+      readDirectory: (directoryUri: string) => Map<string, string> = () => new Map(),
+      onExit: (code: number) => void = () => {}
+  ) {
+    this.send = send;
+    this.readDirectory = readDirectory;
+    this.onExit = onExit;
+  }
+
+  /**
+   * @description handles a request or notification from the client,
+   *              sending the response to requests.
+   * @param message
+   */
+  handleMessage(message: Message): void {
+    // responses from the client are ignored, the server does not send requests.
+    if (message.method === undefined) {
+      return;
+    }
+    const isRequest: boolean = message.id !== undefined && message.id !== null;
+    try {
+      if (!this.isInitialized && message.method !== "initialize" && message.method !== "exit") {
+        throw new ResponseError(ErrorCodes.ServerNotInitialized, "The server has not been initialized");
+      }
+      const result = this.handleMethod(message.method, message.params);
+      if (isRequest) {
+        this.send({ jsonrpc: "2.0", id: message.id, result: result === undefined ? null : result });
+      }
+    } catch (error) {
+      if (isRequest) {
+        const code: number = error instanceof ResponseError ? error.code : ErrorCodes.InternalError;
+        this.send({ jsonrpc: "2.0", id: message.id, error: { code: code, message: String((error as Error).message) } });
+      } else if (!(error instanceof ResponseError)) {
+        console.error(error);
+      }
+    }
+  }
+
+  /**
+   * @param method
+   * @param params
+   * @returns the result of a request, undefined for notifications
+   * @throws {ResponseError} if the method is a request that the server does not have
+   */
+  private handleMethod(method: string, params: any): any {
+    switch (method) {
+      case "initialize":
+        this.isInitialized = true;
+        this.settings = params?.initializationOptions?.diagnosticSettings || {};
+        return {
+          capabilities: {
+            textDocumentSync: { openClose: true, change: TextDocumentSyncKind.Full },
+            hoverProvider: true,
+            completionProvider: { triggerCharacters: ["."] },
+            signatureHelpProvider: { triggerCharacters: ["(", ","], retriggerCharacters: [")"] },
+            definitionProvider: true,
+            documentSymbolProvider: true,
+            semanticTokensProvider: {
+              legend: { tokenTypes: semanticTokenTypes, tokenModifiers: semanticTokenModifiers },
+              full: true,
+            },
+            inlayHintProvider: true,
+            foldingRangeProvider: true,
+          },
+          serverInfo: { name: "antimony-language-server" },
+        };
+      case "initialized":
+        return undefined;
+      case "shutdown":
+        this.isShutDown = true;
+        return null;
+      case "exit":
+        this.onExit(this.isShutDown ? 0 : 1);
+        return undefined;
+      case "workspace/didChangeConfiguration":
+        this.settings = params?.settings?.antimony?.diagnosticSettings || this.settings;
+        this.documents.forEach((text, uri) => this.analyzeDocument(uri));
+        return undefined;
+      case "textDocument/didOpen":
+        this.documents.set(params.textDocument.uri, params.textDocument.text);
+        this.analyzeDocument(params.textDocument.uri);
+        return undefined;
+      case "textDocument/didChange": {
+        // the server only asks for full changes, so the last change is the whole document.
+        const changes: { text: string }[] = params.contentChanges;
+        this.documents.set(params.textDocument.uri, changes[changes.length - 1].text);
+        this.analyzeDocument(params.textDocument.uri);
+        return undefined;
+      }
+      case "textDocument/didClose":
+        this.documents.delete(params.textDocument.uri);
+        this.service.handle({ id: 0, kind: "close", documentId: params.textDocument.uri });
+        this.publishDiagnostics(params.textDocument.uri, []);
+        return undefined;
+      case "textDocument/hover":
+        return this.getHover(params.textDocument.uri, params.position);
+      case "textDocument/completion":
+        return this.getCompletionItems(params.textDocument.uri, params.position);
+      case "textDocument/signatureHelp":
+        return this.getSignatureHelp(params.textDocument.uri, params.position);
+      case "textDocument/definition":
+        return this.getDefinitions(params.textDocument.uri, params.position);
+      case "textDocument/documentSymbol":
+        return this.getDocumentSymbols(params.textDocument.uri);
+      case "textDocument/semanticTokens/full":
+        return { data: encodeSemanticTokens(getSemanticTokens(this.getAnalysis(params.textDocument.uri).getProgramST())) };
+      case "textDocument/inlayHint":
+        return this.getInlayHints(params.textDocument.uri, params.range);
+      case "textDocument/foldingRange":
+        return getFoldingRanges(this.getAnalysis(params.textDocument.uri).getProgramST()).map(toLspFoldingRange);
+      default:
+        // notifications the server does not handle, ie "$/cancelRequest", are ignored.
+        throw new ResponseError(ErrorCodes.MethodNotFound, `Unhandled method ${method}`);
+    }
+  }
+
+  /**
+   * @description analyzes an open document, and sends the client its diagnostics.
+   * @param uri
+   */
+  private analyzeDocument(uri: string): void {
+    const text: string = this.documents.get(uri) || "";
+    this.service.handle({
+      id: 0,
+      kind: "parse",
+      documentId: uri,
+      text: text,
+      files: this.getFiles(uri),
+      fileName: getFileName(uri),
+    });
+    const errors = applyDiagnosticSettings(this.getAnalysis(uri).getErrors(true), text.replaceAll("\r", ""), this.settings);
+    this.publishDiagnostics(uri, getAntimonyDiagnostics(errors).map(toLspDiagnostic));
+  }
+
+  /**
+   * @param uri
+   * @param diagnostics
+   */
+  private publishDiagnostics(uri: string, diagnostics: Diagnostic[]): void {
+    this.send({
+      jsonrpc: "2.0",
+      method: "textDocument/publishDiagnostics",
+      params: { uri: uri, diagnostics: diagnostics },
+    });
+  }
+
+  /**
+   * @param uri
+   * @returns the files that imports in the document are resolved against, by name,
+   *          the open documents in the same directory replacing what is on disk.
+   */
+  private getFiles(uri: string): Map<string, string> {
+    const directoryUri: string = getDirectoryUri(uri);
+    const files: Map<string, string> = this.readDirectory(directoryUri);
+    this.documents.forEach((text, documentUri) => {
+      if (getDirectoryUri(documentUri) === directoryUri) {
+        files.set(getFileName(documentUri), text);
+      }
+    });
+    return files;
+  }
+
+  /**
+   * @param uri
+   * @returns the analysis of an open document
+   * @throws {ResponseError} if the document is not open
+   */
+  private getAnalysis(uri: string): ProgramAnalysis {
+    const analysis: ProgramAnalysis | undefined = this.service.getAnalysis(uri);
+    if (!analysis) {
+      throw new ResponseError(ErrorCodes.InvalidRequest, `${uri} is not open`);
+    }
+    return analysis;
+  }
+
+  /**
+   * @param uri
+   * @param position
+   * @returns the line of the document at position, with its line number starting at 1
+   */
+  private getLine(uri: string, position: Position): { lineContent: string; line: number } {
+    const lines: string[] = (this.documents.get(uri) || "").replaceAll("\r", "").split("\n");
+    return { lineContent: lines[position.line] || "", line: position.line + 1 };
+  }
+
+  /**
+   * @param uri
+   * @param position
+   * @returns the hover of the id at position, or null if there is no id there
+   */
+  private getHover(uri: string, position: Position): Hover | null {
+    const globalST: GlobalST = this.getAnalysis(uri).getProgramST();
+    const { lineContent, line } = this.getLine(uri, position);
+    const word = getWordAtColumn(lineContent, line, position.character + 1);
+    const lookup = word && getHoverLookup(globalST, word.id, word.srcRange);
+    if (!word || !lookup) {
+      return null;
+    }
+    return {
+      contents: { kind: "markdown", value: getHoverMarkdown(globalST, word.id, lookup) },
+      range: toLspRange(word.srcRange),
+    };
+  }
+
+  /**
+   * @param uri
+   * @param position
+   * @returns the completion items at position
+   */
+  private getCompletionItems(uri: string, position: Position): CompletionItem[] {
+    const globalST: GlobalST = this.getAnalysis(uri).getProgramST();
+    const { lineContent, line } = this.getLine(uri, position);
+    const column: number = position.character + 1;
+    const linePrefix: string = lineContent.substring(0, position.character);
+
+    // like in monaco, only the id after the last dot of the word being typed is replaced.
+    const word = getWordAtColumn(lineContent, line, column);
+    let startColumn: number = column;
+    if (word && word.srcRange.start.column < column) {
+      const typed: string = lineContent.substring(word.srcRange.start.column - 1, position.character);
+      startColumn = word.srcRange.start.column + typed.lastIndexOf(".") + 1;
+    }
+    const range: Range = {
+      start: { line: position.line, character: startColumn - 1 },
+      end: { line: position.line, character: position.character },
+    };
+    return getCompletionItems(globalST, line, linePrefix).map((item) => toLspCompletionItem(item, range));
+  }
+
+  /**
+   * @param uri
+   * @param position
+   * @returns the signature of the call at position, or null if position is not inside of a call
+   */
+  private getSignatureHelp(uri: string, position: Position): SignatureHelp | null {
+    const globalST: GlobalST = this.getAnalysis(uri).getProgramST();
+    const { lineContent } = this.getLine(uri, position);
+    const help: AntimonySignatureHelp | undefined = getSignatureHelp(globalST, lineContent.substring(0, position.character));
+    if (!help) {
+      return null;
+    }
+    return {
+      signatures: [{
+        label: help.signature.label,
+        documentation: help.signature.documentation,
+        parameters: help.signature.parameters.map((parameter) => ({ label: parameter })),
+      }],
+      activeSignature: 0,
+      activeParameter: help.activeParameter,
+    };
+  }
+
+  /**
+   * @param uri
+   * @param position
+   * @returns where the id at position is defined
+   */
+  private getDefinitions(uri: string, position: Position): Location[] {
+    const globalST: GlobalST = this.getAnalysis(uri).getProgramST();
+    const { lineContent, line } = this.getLine(uri, position);
+    const word = getWordAtColumn(lineContent, line, position.character + 1);
+    if (!word) {
+      return [];
+    }
+    const fileName: string | undefined = getDefinitionFileName(globalST, word.id, word.srcRange);
+    const definitionUri: string = fileName === undefined ? uri : getDirectoryUri(uri) + fileName;
+    return getDefinitionRanges(globalST, word.id, word.srcRange).map((range) => ({
+      uri: definitionUri,
+      range: toLspRange(range),
+    }));
+  }
+
+  /**
+   * @param uri
+   * @returns the outline of the document
+   */
+  private getDocumentSymbols(uri: string): DocumentSymbol[] {
+    const globalST: GlobalST = this.getAnalysis(uri).getProgramST();
+    const lines: string[] = (this.documents.get(uri) || "").replaceAll("\r", "").split("\n");
+    return getDocumentSymbols(globalST, lines).map(toLspSymbol);
+  }
+
+  /**
+   * @param uri
+   * @param range the part of the document that the client shows
+   * @returns the inlay hints in range
+   */
+  private getInlayHints(uri: string, range: Range): InlayHint[] {
+    const globalST: GlobalST = this.getAnalysis(uri).getProgramST();
+    return getInlayHints(globalST)
+      .filter((hint) => hint.line - 1 >= range.start.line && hint.line - 1 <= range.end.line)
+      .map(toLspInlayHint);
+  }
+}
+
+/**
+ * @param uri
+ * @returns the uri of the directory the document at uri is in, ending with "/"
+ */
+function getDirectoryUri(uri: string): string {
+  return uri.substring(0, uri.lastIndexOf("/") + 1);
+}
+
+/**
+ * @param uri
+ * @returns the name of the file at uri, which imports of it use
+ */
+function getFileName(uri: string): string {
+  return decodeURIComponent(uri.substring(uri.lastIndexOf("/") + 1));
+}
+
+/**
+ * @param srcRange
+ * @returns the range, with lines and characters starting at 0
+ */
+function toLspRange(srcRange: SrcRange): Range {
+  return {
+    start: { line: srcRange.start.line - 1, character: srcRange.start.column - 1 },
+    end: { line: srcRange.end.line - 1, character: srcRange.end.column - 1 },
+  };
+}
+
+/**
+ * @param diagnostic
+ * @returns the diagnostic in the form LSP clients expect
+ */
+function toLspDiagnostic(diagnostic: AntimonyDiagnostic): Diagnostic {
+  return {
+    range: {
+      start: { line: diagnostic.startLineNumber - 1, character: diagnostic.startColumn - 1 },
+      end: { line: diagnostic.endLineNumber - 1, character: diagnostic.endColumn - 1 },
+    },
+    severity: diagnosticSeverities[diagnostic.severity],
+    code: diagnostic.code,
+    source: "antimony",
+    message: diagnostic.message,
+  };
+}
+
+/**
+ * @param item
+ * @param range the text the item replaces
+ * @returns the completion item in the form LSP clients expect, with the icons the web editor shows
+ */
+function toLspCompletionItem(item: AntimonyCompletionItem, range: Range): CompletionItem {
+  let kind: number;
+  switch (item.type) {
+    case varTypes.Species:
+      kind = CompletionItemKind.Variable;
+      break;
+    case varTypes.Compartment:
+      kind = CompletionItemKind.Struct;
+      break;
+    case varTypes.Reaction:
+    case varTypes.Event:
+      kind = CompletionItemKind.Event;
+      break;
+    case varTypes.Function:
+      kind = CompletionItemKind.Function;
+      break;
+    case varTypes.Model:
+    case varTypes.ModularModel:
+      kind = CompletionItemKind.Module;
+      break;
+    case varTypes.PredefConstant:
+    case varTypes.Const:
+      kind = CompletionItemKind.Constant;
+      break;
+    default:
+      kind = CompletionItemKind.Field;
+  }
+  return {
+    label: item.label,
+    kind: kind,
+    detail: item.detail,
+    documentation: item.documentation,
+    sortText: item.sortText,
+    textEdit: { range: range, newText: item.label },
+  };
+}
+
+/**
+ * @param symbol
+ * @returns the outline symbol in the form LSP clients expect
+ */
+function toLspSymbol(symbol: AntimonySymbol): DocumentSymbol {
+  const symbolKinds: Map<varTypes, number> = new Map([
+    [varTypes.Model, SymbolKind.Module],
+    [varTypes.Function, SymbolKind.Function],
+    [varTypes.Reaction, SymbolKind.Operator],
+    [varTypes.Event, SymbolKind.Event],
+    [varTypes.Species, SymbolKind.Variable],
+    [varTypes.Compartment, SymbolKind.Namespace],
+  ]);
+  return {
+    name: symbol.name,
+    detail: symbol.detail,
+    kind: symbolKinds.get(symbol.type) || SymbolKind.Variable,
+    range: toLspRange(symbol.range),
+    selectionRange: toLspRange(symbol.selectionRange),
+    children: symbol.children.map(toLspSymbol),
+  };
+}
+
+/**
+ * @param hint
+ * @returns the inlay hint in the form LSP clients expect
+ */
+function toLspInlayHint(hint: AntimonyInlayHint): InlayHint {
+  return {
+    position: { line: hint.line - 1, character: hint.column - 1 },
+    label: hint.label,
+    kind: hint.kind === "value" ? InlayHintKind.Type : InlayHintKind.Parameter,
+    paddingLeft: true,
+  };
+}
+
+/**
+ * @param range
+ * @returns the folding range in the form LSP clients expect
+ */
+function toLspFoldingRange(range: AntimonyFoldingRange): FoldingRange {
+  return { startLine: range.startLine - 1, endLine: range.endLine - 1, kind: range.kind };
+}
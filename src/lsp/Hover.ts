@@ -0,0 +1,67 @@
+import { HoverLookup } from "../language-handler/AnalysisProtocol";
+import { GlobalST, ParamAndNameTable } from "../language-handler/SymbolTableClasses";
+import { isSubtTypeOf, varTypes } from "../language-handler/Types";
+import { predefinedConstants } from "../language-handler/Variable";
+
+/**
+ * @description builds the hover of an id as markdown, with the same information
+ *              the hover in the web editor shows.
+ * @param globalST symbol table of the analyzed program
+ * @param id the id being hovered over
+ * @param lookup the variable id refers to
+ * @returns the lines of the hover, as markdown
+ */
+export function getHoverMarkdown(globalST: GlobalST, id: string, lookup: HoverLookup): string {
+  const { varInfo, modelName } = lookup;
+  const lines: string[] = [];
+  if (varInfo.type === varTypes.Model) {
+    const modelST: ParamAndNameTable | undefined = globalST.getModelST(id);
+    const params: string[] = (modelST?.params || []).map((param) => `${modelST?.getVar(param)?.type}: ${param}`);
+    lines.push(`${id}(${params.join(", ")})`);
+    lines.push(...getImportedFromLines(globalST, id));
+  } else if (varInfo.type === varTypes.Function) {
+    lines.push(`${id}(${(globalST.getFunctionST(id)?.params || []).join(", ")})`);
+    lines.push(...getImportedFromLines(globalST, id));
+  } else if (predefinedConstants.has(id)) {
+    lines.push(`'${id}' is a predefined ${id === "time" ? "variable" : "constant"}`);
+  } else {
+    if (varInfo.isConst) {
+      lines.push("const");
+    } else if (isSubtTypeOf(varInfo.type, varTypes.Variable)) {
+      lines.push("var");
+    }
+    if (varInfo.displayName) {
+      lines.push(varInfo.displayName);
+    }
+    lines.push(`(${varInfo.type}) ${id}`);
+    if (modelName !== undefined) {
+      lines.push(`In ${varTypes.Model}: ${modelName}`);
+    }
+    if (varInfo.value) {
+      lines.push(`Initialized Value: ${varInfo.value}`);
+    }
+    if (varInfo.unit) {
+      lines.push(`unit: ${varInfo.unit}`);
+    }
+    if (varInfo.compartment) {
+      lines.push(`In ${varTypes.Compartment}: ${varInfo.compartment}`);
+    }
+    const keywords: Map<string, string> = new Map(varInfo.annotationKeywords);
+    for (const annotation of varInfo.annotations) {
+      const link: string = annotation.replace(/"/g, "");
+      lines.push(`${keywords.get(annotation)} [${link}](${link})`);
+    }
+  }
+  // two spaces before a new line is a line break in markdown.
+  return lines.join("  \n");
+}
+
+/**
+ * @param globalST
+ * @param id the id of a model or function
+ * @returns the line saying which file id is imported from, or nothing if it is not imported
+ */
+function getImportedFromLines(globalST: GlobalST, id: string): string[] {
+  const fileName: string | undefined = globalST.getImportedFileName(id);
+  return fileName === undefined ? [] : [`Imported from ${fileName}`];
+}
@@ -0,0 +1,76 @@
+import { Message } from "./Protocol";
+
+const headerEnd = "\r\n\r\n";
+
+/**
+ * Reads and writes JSON-RPC messages over streams such as stdin and stdout,
+ * each message being preceded by a Content-Length header like LSP clients expect.
+ */
+export class MessageConnection {
+  private input: NodeJS.ReadableStream;
+  private output: NodeJS.WritableStream;
+  // bytes read that are not a whole message yet.
+  private buffer: Buffer = Buffer.alloc(0);
+
+  /**
+   * @param input the stream messages are read from
+   * @param output the stream messages are written to
+   */
+  constructor(input: NodeJS.ReadableStream, output: NodeJS.WritableStream) {
+    this.input = input;
+    this.output = output;
+  }
+
+  /**
+   * @description starts reading messages from the input.
+   * @param onMessage called with each message read
+   * @param onError called with messages that are not valid JSON
+   */
+  listen(onMessage: (message: Message) => void, onError: (error: Error) => void): void {
+    this.input.on("data", (chunk: Buffer | string) => {
+      this.buffer = Buffer.concat([this.buffer, typeof chunk === "string" ? Buffer.from(chunk) : chunk]);
+      let body: string | undefined;
+      while ((body = this.readBody()) !== undefined) {
+        try {
+          onMessage(JSON.parse(body));
+        } catch (error) {
+          onError(error as Error);
+        }
+      }
+    });
+  }
+
+  /**
+   * @param message the message to write to the output
+   */
+  send(message: Message): void {
+    const body: string = JSON.stringify(message);
+    this.output.write(`Content-Length: ${Buffer.byteLength(body, "utf8")}${headerEnd}${body}`);
+  }
+
+  /**
+   * @description takes the body of the first message off of the buffer.
+   * @returns the body, or undefined if the buffer does not hold a whole message yet
+   */
+  private readBody(): string | undefined {
+    const headerLength: number = this.buffer.indexOf(headerEnd);
+    if (headerLength === -1) {
+      return undefined;
+    }
+    const header: string = this.buffer.subarray(0, headerLength).toString("ascii");
+    const contentLength: RegExpMatchArray | null = header.match(/Content-Length: *(\d+)/i);
+    const bodyStart: number = headerLength + headerEnd.length;
+    if (!contentLength) {
+      // skip the header, there is no way of telling where its body ends.
+      this.buffer = this.buffer.subarray(bodyStart);
+      return this.readBody();
+    }
+    const bodyEnd: number = bodyStart + Number(contentLength[1]);
+    if (this.buffer.length < bodyEnd) {
+      return undefined;
+    }
+    const body: string = this.buffer.subarray(bodyStart, bodyEnd).toString("utf8");
+    this.buffer = this.buffer.subarray(bodyEnd);
+    return body;
+  }
+}
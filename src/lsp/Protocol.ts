@@ -0,0 +1,125 @@
+/**
+ * The parts of the Language Server Protocol (3.17) that the antimony language server uses.
+ * Lines and characters start at 0, unlike the lines and columns of the analyzer.
+ * https://microsoft.github.io/language-server-protocol/specifications/lsp/3.17/specification/
+ */
+
+/**
+ * A JSON-RPC request, notification (which has no id) or response.
+ */
+export type Message = {
+  jsonrpc: "2.0";
+  id?: number | string | null;
+  method?: string;
+  params?: any;
+  result?: any;
+  error?: { code: number; message: string };
+};
+
+export type Position = {
+  line: number;
+  character: number;
+};
+
+export type Range = {
+  start: Position;
+  end: Position;
+};
+
+export type Location = {
+  uri: string;
+  range: Range;
+};
+
+export type Diagnostic = {
+  range: Range;
+  severity: number;
+  code: string;
+  source: string;
+  message: string;
+};
+
+export type CompletionItem = {
+  label: string;
+  kind: number;
+  detail: string;
+  documentation: string | undefined;
+  sortText: string;
+  textEdit: { range: Range; newText: string };
+};
+
+export type DocumentSymbol = {
+  name: string;
+  detail: string;
+  kind: number;
+  range: Range;
+  selectionRange: Range;
+  children: DocumentSymbol[];
+};
+
+export type SignatureHelp = {
+  signatures: { label: string; documentation: string | undefined; parameters: { label: [number, number] }[] }[];
+  activeSignature: number;
+  activeParameter: number;
+};
+
+export type Hover = {
+  contents: { kind: "markdown"; value: string };
+  range: Range;
+};
+
+export type InlayHint = {
+  position: Position;
+  label: string;
+  kind: number;
+  paddingLeft: boolean;
+};
+
+export type FoldingRange = {
+  startLine: number;
+  endLine: number;
+  kind: "comment" | "imports" | "region";
+};
+
+export const ErrorCodes = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InternalError: -32603,
+  ServerNotInitialized: -32002,
+} as const;
+
+export const DiagnosticSeverity = {
+  Error: 1,
+  Warning: 2,
+  Information: 3,
+  Hint: 4,
+} as const;
+
+export const CompletionItemKind = {
+  Function: 3,
+  Field: 5,
+  Variable: 6,
+  Module: 9,
+  Event: 23,
+  Constant: 21,
+  Struct: 22,
+} as const;
+
+export const SymbolKind = {
+  Module: 2,
+  Namespace: 3,
+  Function: 12,
+  Variable: 13,
+  Event: 24,
+  Operator: 25,
+} as const;
+
+export const InlayHintKind = {
+  Type: 1,
+  Parameter: 2,
+} as const;
+
+export const TextDocumentSyncKind = {
+  Full: 1,
+} as const;
@@ -0,0 +1,48 @@
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { AntimonyLanguageServer } from "./AntimonyLanguageServer";
+import { MessageConnection } from "./MessageConnection";
+import { ErrorCodes } from "./Protocol";
+
+/**
+ * Runs the antimony language server over stdin and stdout, ie
+ *   npm run build:cli && node build-cli/lsp/server.js
+ * is the command an editor is configured to start the server with.
+ */
+
+/**
+ * @param directoryUri
+ * @returns the .ant files in the directory, by name, or nothing if it is not on disk
+ */
+function readDirectory(directoryUri: string): Map<string, string> {
+  const files: Map<string, string> = new Map();
+  if (!directoryUri.startsWith("file:")) {
+    return files;
+  }
+  try {
+    const directory: string = fileURLToPath(directoryUri);
+    for (const name of fs.readdirSync(directory)) {
+      if (name.endsWith(".ant")) {
+        files.set(name, fs.readFileSync(path.join(directory, name), "utf8"));
+      }
+    }
+  } catch (error) {
+    // a directory that cannot be read has no files to import.
+  }
+  return files;
+}
+
+// stdout is where messages are sent, so anything logged goes to stderr instead.
+console.log = console.error;
+
+const connection = new MessageConnection(process.stdin, process.stdout);
+const server = new AntimonyLanguageServer(
+    (message) => connection.send(message),
+    readDirectory,
+    (code) => process.exit(code)
+);
+connection.listen(
+    (message) => server.handleMessage(message),
+    (error) => connection.send({ jsonrpc: "2.0", id: null, error: { code: ErrorCodes.ParseError, message: error.message } })
+);
@@ -0,0 +1,480 @@
+import { SimulationError } from "./SimulationError";
+
+/**
+ * A parsed math expression, ie a rate law or the formula of a rule.
+ */
+export type ExpressionNode =
+  | { kind: "number"; value: number }
+  | { kind: "name"; name: string }
+  | { kind: "unary"; operator: "-" | "!"; operand: ExpressionNode }
+  | { kind: "binary"; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { kind: "call"; name: string; args: ExpressionNode[] };
+
+/**
+ * A compiled expression, which reads the values of the names it uses from values.
+ */
+export type CompiledExpression = (values: Float64Array) => number;
+
+/**
+ * The predefined constants of antimony, time is left out as it changes during a simulation.
+ */
+export const constantValues: Map<string, number> = new Map([
+  ["true", 1], ["True", 1], ["TRUE", 1],
+  ["false", 0], ["False", 0], ["FALSE", 0],
+  ["pi", Math.PI],
+  ["exponentiale", Math.E],
+  ["avogadro", 6.02214076e23],
+  ["inf", Infinity], ["INF", Infinity], ["infinity", Infinity],
+  ["NaN", NaN], ["NAN", NaN], ["nan", NaN], ["notanumber", NaN],
+]);
+
+// numbers may be followed by their unit, ie "10mM" for "10 mM" once the spaces are gone.
+const numberRegex = /^(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?([A-Za-z_]\w*)?/;
+const nameRegex = /^[A-Za-z_][\w.]*/;
+const operators: string[] = ["&&", "||", ">=", "<=", "==", "!=", ">", "<", "+", "-", "*", "/", "^", "(", ")", ",", "!"];
+
+/**
+ * @param text an expression, with or without the spaces between its tokens
+ * @returns its numbers, names and operators
+ */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  let rest: string = text.trim();
+  while (rest.length > 0) {
+    const numberMatch: RegExpMatchArray | null = rest.match(numberRegex);
+    const nameMatch: RegExpMatchArray | null = rest.match(nameRegex);
+    const operator: string | undefined = getOperatorAt(rest);
+    let token: string;
+    if (numberMatch) {
+      // the unit does not change the value.
+      tokens.push(numberMatch[1] + (numberMatch[2] || ""));
+      token = numberMatch[0];
+    } else if (nameMatch) {
+      token = nameMatch[0];
+      tokens.push(token);
+    } else if (operator) {
+      token = operator;
+      tokens.push(token);
+    } else {
+      throw new SimulationError(`Unable to read "${rest.charAt(0)}" in ${text}`);
+    }
+    rest = rest.substring(token.length).trimStart();
+  }
+  return tokens;
+}
+
+/**
+ * @param text
+ * @returns the operator that text starts with, if any
+ */
+function getOperatorAt(text: string): string | undefined {
+  return operators.find((operator) => text.startsWith(operator));
+}
+
+/**
+ * A recursive descent parser over the tokens of an expression, from the
+ * lowest precedence, "||", to the highest, "^" and calls.
+ */
+class ExpressionParser {
+  private tokens: string[];
+  private position: number = 0;
+  private text: string;
+
+  constructor(text: string) {
+    this.text = text;
+    this.tokens = tokenize(text);
+  }
+
+  parse(): ExpressionNode {
+    const node: ExpressionNode = this.parseBinary(0);
+    if (this.position < this.tokens.length) {
+      throw new SimulationError(`Unexpected "${this.tokens[this.position]}" in ${this.text}`);
+    }
+    return node;
+  }
+
+  private peek(): string | undefined {
+    return this.tokens[this.position];
+  }
+
+  private expect(token: string): void {
+    if (this.tokens[this.position] !== token) {
+      throw new SimulationError(`Expected "${token}" in ${this.text}`);
+    }
+    this.position++;
+  }
+
+  // the binary operators of each precedence level, lowest first. "^" is parsed by parsePower.
+  private static levels: string[][] = [["||"], ["&&"], [">=", "<=", "==", "!=", ">", "<"], ["+", "-"], ["*", "/"]];
+
+  private parseBinary(level: number): ExpressionNode {
+    if (level === ExpressionParser.levels.length) {
+      return this.parseUnary();
+    }
+    let node: ExpressionNode = this.parseBinary(level + 1);
+    while (ExpressionParser.levels[level].includes(this.peek() || "")) {
+      const operator: string = this.tokens[this.position++];
+      node = { kind: "binary", operator: operator, left: node, right: this.parseBinary(level + 1) };
+    }
+    return node;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token: string | undefined = this.peek();
+    if (token === "-" || token === "!") {
+      this.position++;
+      return { kind: "unary", operator: token, operand: this.parseUnary() };
+    }
+    if (token === "+") {
+      this.position++;
+      return this.parseUnary();
+    }
+    return this.parsePower();
+  }
+
+  // "^" binds tighter than a unary minus before it, so -x^2 is -(x^2), and groups to the right.
+  private parsePower(): ExpressionNode {
+    const base: ExpressionNode = this.parseAtom();
+    if (this.peek() === "^") {
+      this.position++;
+      return { kind: "binary", operator: "^", left: base, right: this.parseUnary() };
+    }
+    return base;
+  }
+
+  private parseAtom(): ExpressionNode {
+    const token: string | undefined = this.tokens[this.position++];
+    if (token === undefined) {
+      throw new SimulationError(`Unexpected end of ${this.text}`);
+    }
+    if (token === "(") {
+      const node: ExpressionNode = this.parseBinary(0);
+      this.expect(")");
+      return node;
+    }
+    if (/^[\d.]/.test(token)) {
+      return { kind: "number", value: Number(token) };
+    }
+    if (!nameRegex.test(token)) {
+      throw new SimulationError(`Unexpected "${token}" in ${this.text}`);
+    }
+    if (this.peek() !== "(") {
+      return { kind: "name", name: token };
+    }
+    this.position++;
+    const args: ExpressionNode[] = [];
+    if (this.peek() !== ")") {
+      args.push(this.parseBinary(0));
+      while (this.peek() === ",") {
+        this.position++;
+        args.push(this.parseBinary(0));
+      }
+    }
+    this.expect(")");
+    return { kind: "call", name: token, args: args };
+  }
+}
+
+/**
+ * @param text an expression as the symbol table keeps it, ie "k1*S1"
+ * @returns the parsed expression
+ * @throws {SimulationError} if text is not an expression
+ */
+export function parseExpression(text: string): ExpressionNode {
+  return new ExpressionParser(text).parse();
+}
+
+/**
+ * @param node
+ * @param replace gives the expression that a name stands for
+ * @returns node with every name replaced
+ */
+export function replaceNames(node: ExpressionNode, replace: (name: string) => ExpressionNode): ExpressionNode {
+  switch (node.kind) {
+    case "number":
+      return node;
+    case "name":
+      return replace(node.name);
+    case "unary":
+      return { ...node, operand: replaceNames(node.operand, replace) };
+    case "binary":
+      return { ...node, left: replaceNames(node.left, replace), right: replaceNames(node.right, replace) };
+    case "call":
+      return { ...node, args: node.args.map((arg) => replaceNames(arg, replace)) };
+  }
+}
+
+/**
+ * @description replaces the calls of user defined functions with their bodies,
+ *              with each parameter replaced by the argument it is given.
+ * @param node
+ * @param getFunction gives the parameters and body of a user defined function, undefined for others
+ * @param depth how many calls deep node is, so recursive functions are caught
+ * @returns node without calls of user defined functions
+ * @throws {SimulationError} if a function calls itself or is given the wrong number of arguments
+ */
+export function inlineFunctions(
+  node: ExpressionNode,
+  getFunction: (name: string) => { params: string[]; body: ExpressionNode } | undefined,
+  depth: number = 0
+): ExpressionNode {
+  switch (node.kind) {
+    case "number":
+    case "name":
+      return node;
+    case "unary":
+      return { ...node, operand: inlineFunctions(node.operand, getFunction, depth) };
+    case "binary":
+      return {
+        ...node,
+        left: inlineFunctions(node.left, getFunction, depth),
+        right: inlineFunctions(node.right, getFunction, depth),
+      };
+    case "call": {
+      const args: ExpressionNode[] = node.args.map((arg) => inlineFunctions(arg, getFunction, depth));
+      const func = getFunction(node.name);
+      if (!func) {
+        return { ...node, args: args };
+      }
+      if (depth > 100) {
+        throw new SimulationError(`The function ${node.name} calls itself`);
+      }
+      if (func.params.length !== args.length) {
+        throw new SimulationError(`The function ${node.name} takes ${func.params.length} arguments, not ${args.length}`);
+      }
+      const body: ExpressionNode = replaceNames(func.body, (name) => {
+        const index: number = func.params.indexOf(name);
+        return index === -1 ? { kind: "name", name: name } : args[index];
+      });
+      return inlineFunctions(body, getFunction, depth + 1);
+    }
+  }
+}
+
+/**
+ * @param node
+ * @returns the names node reads, without the names of the functions it calls
+ */
+export function getNames(node: ExpressionNode): Set<string> {
+  const names: Set<string> = new Set();
+  const addNames = (current: ExpressionNode) => {
+    switch (current.kind) {
+      case "name":
+        names.add(current.name);
+        break;
+      case "unary":
+        addNames(current.operand);
+        break;
+      case "binary":
+        addNames(current.left);
+        addNames(current.right);
+        break;
+      case "call":
+        current.args.forEach(addNames);
+        break;
+    }
+  };
+  addNames(node);
+  return names;
+}
+
+const unaryMath: Map<string, (x: number) => number> = new Map([
+  ["abs", Math.abs],
+  ["ceil", Math.ceil],
+  ["ceiling", Math.ceil],
+  ["floor", Math.floor],
+  ["factorial", (x: number) => {
+    let result: number = 1;
+    for (let i = 2; i <= x; i++) {
+      result *= i;
+    }
+    return result;
+  }],
+  ["exp", Math.exp],
+  ["ln", Math.log],
+  ["log10", Math.log10],
+  ["sqrt", Math.sqrt],
+  ["not", (x: number) => (x ? 0 : 1)],
+  ["sin", Math.sin],
+  ["cos", Math.cos],
+  ["tan", Math.tan],
+  ["sec", (x: number) => 1 / Math.cos(x)],
+  ["csc", (x: number) => 1 / Math.sin(x)],
+  ["cot", (x: number) => 1 / Math.tan(x)],
+  ["sinh", Math.sinh],
+  ["cosh", Math.cosh],
+  ["tanh", Math.tanh],
+  ["sech", (x: number) => 1 / Math.cosh(x)],
+  ["csch", (x: number) => 1 / Math.sinh(x)],
+  ["coth", (x: number) => 1 / Math.tanh(x)],
+  ["asin", Math.asin],
+  ["acos", Math.acos],
+  ["atan", Math.atan],
+  ["asec", (x: number) => Math.acos(1 / x)],
+  ["acsc", (x: number) => Math.asin(1 / x)],
+  ["acot", (x: number) => Math.atan(1 / x)],
+  ["asinh", Math.asinh],
+  ["acosh", Math.acosh],
+  ["atanh", Math.atanh],
+  ["asech", (x: number) => Math.acosh(1 / x)],
+  ["acsch", (x: number) => Math.asinh(1 / x)],
+  ["acoth", (x: number) => Math.atanh(1 / x)],
+]);
+for (const name of ["sin", "cos", "tan", "sec", "csc", "cot", "sinh", "cosh", "tanh", "sech", "csch", "coth"]) {
+  unaryMath.set("arc" + name, unaryMath.get("a" + name)!!);
+}
+
+const binaryMath: Map<string, (x: number, y: number) => number> = new Map([
+  ["pow", Math.pow],
+  ["power", Math.pow],
+  ["quotient", (x: number, y: number) => Math.trunc(x / y)],
+  ["rem", (x: number, y: number) => x % y],
+  ["divide", (x: number, y: number) => x / y],
+  ["implies", (a: number, b: number) => (!a || b ? 1 : 0)],
+  ["neq", (x: number, y: number) => (x !== y ? 1 : 0)],
+]);
+
+// functions that compare each argument to the next one.
+const chainedComparisons: Map<string, (x: number, y: number) => boolean> = new Map([
+  ["eq", (x: number, y: number) => x === y],
+  ["gt", (x: number, y: number) => x > y],
+  ["lt", (x: number, y: number) => x < y],
+  ["geq", (x: number, y: number) => x >= y],
+  ["leq", (x: number, y: number) => x <= y],
+]);
+
+const binaryOperators: Map<string, (x: number, y: number) => number> = new Map([
+  ["+", (x: number, y: number) => x + y],
+  ["-", (x: number, y: number) => x - y],
+  ["*", (x: number, y: number) => x * y],
+  ["/", (x: number, y: number) => x / y],
+  ["^", Math.pow],
+  [">", (x: number, y: number) => (x > y ? 1 : 0)],
+  ["<", (x: number, y: number) => (x < y ? 1 : 0)],
+  [">=", (x: number, y: number) => (x >= y ? 1 : 0)],
+  ["<=", (x: number, y: number) => (x <= y ? 1 : 0)],
+  ["==", (x: number, y: number) => (x === y ? 1 : 0)],
+  ["!=", (x: number, y: number) => (x !== y ? 1 : 0)],
+]);
+
+/**
+ * @param name
+ * @param args the compiled arguments
+ * @returns the compiled call of a math function
+ * @throws {SimulationError} if the simulator does not have the function
+ */
+function compileCall(name: string, args: CompiledExpression[]): CompiledExpression {
+  const arity = (min: number, max: number) => {
+    if (args.length < min || args.length > max) {
+      throw new SimulationError(`${name} can not be called with ${args.length} arguments`);
+    }
+  };
+  const unary = unaryMath.get(name);
+  if (unary) {
+    arity(1, 1);
+    const [x] = args;
+    return (values) => unary(x(values));
+  }
+  const binary = binaryMath.get(name);
+  if (binary) {
+    arity(2, 2);
+    const [x, y] = args;
+    return (values) => binary(x(values), y(values));
+  }
+  const comparison = chainedComparisons.get(name);
+  if (comparison) {
+    arity(2, Infinity);
+    return (values) => {
+      const evaluated: number[] = args.map((arg) => arg(values));
+      return evaluated.every((value, i) => i === 0 || comparison(evaluated[i - 1], value)) ? 1 : 0;
+    };
+  }
+  switch (name) {
+    case "log":
+      arity(1, 2);
+      return args.length === 1
+        ? (values) => Math.log(args[0](values))
+        : (values) => Math.log(args[1](values)) / Math.log(args[0](values));
+    case "root":
+      arity(1, 2);
+      return args.length === 1
+        ? (values) => Math.sqrt(args[0](values))
+        : (values) => Math.pow(args[1](values), 1 / args[0](values));
+    case "minus":
+      arity(1, 2);
+      return args.length === 1 ? (values) => -args[0](values) : (values) => args[0](values) - args[1](values);
+    case "plus":
+      return (values) => args.reduce((sum, arg) => sum + arg(values), 0);
+    case "times":
+      return (values) => args.reduce((product, arg) => product * arg(values), 1);
+    case "min":
+      arity(1, Infinity);
+      return (values) => Math.min(...args.map((arg) => arg(values)));
+    case "max":
+      arity(1, Infinity);
+      return (values) => Math.max(...args.map((arg) => arg(values)));
+    case "and":
+      return (values) => (args.every((arg) => arg(values)) ? 1 : 0);
+    case "or":
+      return (values) => (args.some((arg) => arg(values)) ? 1 : 0);
+    case "xor":
+      return (values) => args.filter((arg) => arg(values)).length % 2;
+    case "piecewise":
+      arity(1, Infinity);
+      // value1, condition1, value2, condition2, ..., otherwise. Only the chosen value is evaluated.
+      return (values) => {
+        for (let i = 0; i + 1 < args.length; i += 2) {
+          if (args[i + 1](values)) {
+            return args[i](values);
+          }
+        }
+        return args.length % 2 === 1 ? args[args.length - 1](values) : NaN;
+      };
+    default:
+      throw new SimulationError(`The simulator does not support the function ${name}`);
+  }
+}
+
+/**
+ * @param node an expression without calls of user defined functions
+ * @param getIndex gives the index in values of a name, undefined if the name is unknown
+ * @returns a function that evaluates node
+ * @throws {SimulationError} if node uses an unknown name or function
+ */
+export function compileExpression(node: ExpressionNode, getIndex: (name: string) => number | undefined): CompiledExpression {
+  switch (node.kind) {
+    case "number": {
+      const value: number = node.value;
+      return () => value;
+    }
+    case "name": {
+      const index: number | undefined = getIndex(node.name);
+      if (index !== undefined) {
+        return (values) => values[index];
+      }
+      const constant: number | undefined = constantValues.get(node.name);
+      if (constant === undefined) {
+        throw new SimulationError(`${node.name} is not defined`);
+      }
+      return () => constant;
+    }
+    case "unary": {
+      const operand: CompiledExpression = compileExpression(node.operand, getIndex);
+      return node.operator === "-" ? (values) => -operand(values) : (values) => (operand(values) ? 0 : 1);
+    }
+    case "binary": {
+      const left: CompiledExpression = compileExpression(node.left, getIndex);
+      const right: CompiledExpression = compileExpression(node.right, getIndex);
+      if (node.operator === "&&") {
+        return (values) => (left(values) && right(values) ? 1 : 0);
+      }
+      if (node.operator === "||") {
+        return (values) => (left(values) || right(values) ? 1 : 0);
+      }
+      const operator = binaryOperators.get(node.operator)!!;
+      return (values) => operator(left(values), right(values));
+    }
+    case "call":
+      return compileCall(node.name, node.args.map((arg) => compileExpression(arg, getIndex)));
+  }
+}
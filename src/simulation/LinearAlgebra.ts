@@ -0,0 +1,347 @@
+/**
+ * The LU decomposition of a square matrix with partial pivoting, where lu holds both
+ * L, below the diagonal, and U, and row i of the matrix is row pivots[i] of LU.
+ */
+export type LUDecomposition = {
+  lu: Float64Array[];
+  pivots: number[];
+};
+
+/**
+ * @param matrix a square matrix, by rows, which is left as it is
+ * @returns the LU decomposition of matrix, or undefined if matrix is singular
+ */
+export function decomposeLU(matrix: ArrayLike<number>[]): LUDecomposition | undefined {
+  const n: number = matrix.length;
+  const lu: Float64Array[] = matrix.map((row) => Float64Array.from(row));
+  const pivots: number[] = lu.map((_, i) => i);
+  for (let k = 0; k < n; k++) {
+    let pivot: number = k;
+    for (let i = k + 1; i < n; i++) {
+      if (Math.abs(lu[i][k]) > Math.abs(lu[pivot][k])) {
+        pivot = i;
+      }
+    }
+    if (lu[pivot][k] === 0 || !Number.isFinite(lu[pivot][k])) {
+      return undefined;
+    }
+    [lu[k], lu[pivot]] = [lu[pivot], lu[k]];
+    [pivots[k], pivots[pivot]] = [pivots[pivot], pivots[k]];
+    for (let i = k + 1; i < n; i++) {
+      const factor: number = (lu[i][k] /= lu[k][k]);
+      for (let j = k + 1; j < n; j++) {
+        lu[i][j] -= factor * lu[k][j];
+      }
+    }
+  }
+  return { lu: lu, pivots: pivots };
+}
+
+/**
+ * @param decomposition the LU decomposition of a matrix A
+ * @param b
+ * @returns x such that A x = b
+ */
+export function solveLU(decomposition: LUDecomposition, b: ArrayLike<number>): Float64Array {
+  const { lu, pivots } = decomposition;
+  const n: number = lu.length;
+  const x: Float64Array = Float64Array.from(pivots, (row) => b[row]);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < i; j++) {
+      x[i] -= lu[i][j] * x[j];
+    }
+  }
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = i + 1; j < n; j++) {
+      x[i] -= lu[i][j] * x[j];
+    }
+    x[i] /= lu[i][i];
+  }
+  return x;
+}
+
+/**
+ * A complex number, ie an eigenvalue of a real matrix.
+ */
+export type ComplexNumber = {
+  real: number;
+  imaginary: number;
+};
+
+// how many QR iterations finding one eigenvalue may take before giving up.
+const maxQrIterations: number = 60;
+
+/**
+ * @description finds the eigenvalues of a matrix by balancing it, reducing it to Hessenberg form, and then
+ *              with the shifted QR algorithm, following the EISPACK routines balanc, elmhes and hqr.
+ * @param matrix a square matrix, by rows, which is left as it is
+ * @returns the eigenvalues of matrix, with complex conjugate pairs next to each other, or
+ *          undefined if matrix has values that are not finite or the QR algorithm does not converge
+ */
+export function getEigenvalues(matrix: ArrayLike<number>[]): ComplexNumber[] | undefined {
+  const n: number = matrix.length;
+  // indexed from 1, like the routines it follows
+  const a: Float64Array[] = Array.from({ length: n + 1 }, (_, i) => {
+    const row: Float64Array = new Float64Array(n + 1);
+    if (i > 0) {
+      row.set(Array.from(matrix[i - 1]), 1);
+    }
+    return row;
+  });
+  if (a.some((row) => row.some((value) => !Number.isFinite(value)))) {
+    return undefined;
+  }
+  balance(a, n);
+  reduceToHessenberg(a, n);
+  const real: Float64Array = new Float64Array(n + 1);
+  const imaginary: Float64Array = new Float64Array(n + 1);
+  if (!getHessenbergEigenvalues(a, n, real, imaginary)) {
+    return undefined;
+  }
+  return Array.from({ length: n }, (_, i) => ({ real: real[i + 1], imaginary: imaginary[i + 1] }));
+}
+
+/**
+ * @description scales the rows and columns of a by powers of 2 so that their norms are
+ *              about the same, which keeps its eigenvalues and makes them more accurate.
+ */
+function balance(a: Float64Array[], n: number): void {
+  const radix: number = 2;
+  let isBalanced: boolean = false;
+  while (!isBalanced) {
+    isBalanced = true;
+    for (let i = 1; i <= n; i++) {
+      let c: number = 0;
+      let r: number = 0;
+      for (let j = 1; j <= n; j++) {
+        if (j !== i) {
+          c += Math.abs(a[j][i]);
+          r += Math.abs(a[i][j]);
+        }
+      }
+      if (c !== 0 && r !== 0) {
+        const s: number = c + r;
+        let f: number = 1;
+        while (c < r / radix) {
+          f *= radix;
+          c *= radix * radix;
+        }
+        while (c > r * radix) {
+          f /= radix;
+          c /= radix * radix;
+        }
+        if ((c + r) / f < 0.95 * s) {
+          isBalanced = false;
+          for (let j = 1; j <= n; j++) {
+            a[i][j] /= f;
+            a[j][i] *= f;
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * @description reduces a to upper Hessenberg form with Gaussian elimination, which keeps its eigenvalues.
+ */
+function reduceToHessenberg(a: Float64Array[], n: number): void {
+  for (let m = 2; m < n; m++) {
+    let x: number = 0;
+    let pivot: number = m;
+    for (let j = m; j <= n; j++) {
+      if (Math.abs(a[j][m - 1]) > Math.abs(x)) {
+        x = a[j][m - 1];
+        pivot = j;
+      }
+    }
+    if (pivot !== m) {
+      for (let j = m - 1; j <= n; j++) {
+        [a[pivot][j], a[m][j]] = [a[m][j], a[pivot][j]];
+      }
+      for (let j = 1; j <= n; j++) {
+        [a[j][pivot], a[j][m]] = [a[j][m], a[j][pivot]];
+      }
+    }
+    if (x !== 0) {
+      for (let i = m + 1; i <= n; i++) {
+        const y: number = a[i][m - 1] / x;
+        if (y !== 0) {
+          for (let j = m; j <= n; j++) {
+            a[i][j] -= y * a[m][j];
+          }
+          for (let j = 1; j <= n; j++) {
+            a[j][m] += y * a[j][i];
+          }
+        }
+        a[i][m - 1] = 0;
+      }
+    }
+  }
+}
+
+/**
+ * @description finds the eigenvalues of an upper Hessenberg matrix with the shifted QR algorithm, destroying a.
+ * @returns whether the algorithm converged
+ */
+function getHessenbergEigenvalues(a: Float64Array[], n: number, wr: Float64Array, wi: Float64Array): boolean {
+  let norm: number = 0;
+  for (let i = 1; i <= n; i++) {
+    for (let j = Math.max(i - 1, 1); j <= n; j++) {
+      norm += Math.abs(a[i][j]);
+    }
+  }
+  let nn: number = n;
+  // the sum of the exceptional shifts
+  let t: number = 0;
+  let p: number = 0;
+  let q: number = 0;
+  let r: number = 0;
+  let s: number;
+  let w: number;
+  let x: number;
+  let y: number;
+  let z: number;
+  while (nn >= 1) {
+    let iterations: number = 0;
+    let l: number;
+    do {
+      // looks for a small subdiagonal value that splits the matrix
+      for (l = nn; l >= 2; l--) {
+        s = Math.abs(a[l - 1][l - 1]) + Math.abs(a[l][l]);
+        if (s === 0) {
+          s = norm;
+        }
+        if (Math.abs(a[l][l - 1]) + s === s) {
+          a[l][l - 1] = 0;
+          break;
+        }
+      }
+      x = a[nn][nn];
+      if (l === nn) {
+        // one root found
+        wr[nn] = x + t;
+        wi[nn] = 0;
+        nn--;
+      } else {
+        y = a[nn - 1][nn - 1];
+        w = a[nn][nn - 1] * a[nn - 1][nn];
+        if (l === nn - 1) {
+          // two roots found
+          p = 0.5 * (y - x);
+          q = p * p + w;
+          z = Math.sqrt(Math.abs(q));
+          x += t;
+          if (q >= 0) {
+            z = p + (p >= 0 ? z : -z);
+            wr[nn - 1] = wr[nn] = x + z;
+            if (z !== 0) {
+              wr[nn] = x - w / z;
+            }
+            wi[nn - 1] = wi[nn] = 0;
+          } else {
+            wr[nn - 1] = wr[nn] = x + p;
+            wi[nn - 1] = z;
+            wi[nn] = -z;
+          }
+          nn -= 2;
+        } else {
+          if (iterations === maxQrIterations) {
+            return false;
+          }
+          if (iterations === 10 || iterations === 20) {
+            // an exceptional shift, which breaks cycles
+            t += x;
+            for (let i = 1; i <= nn; i++) {
+              a[i][i] -= x;
+            }
+            s = Math.abs(a[nn][nn - 1]) + Math.abs(a[nn - 1][nn - 2]);
+            y = x = 0.75 * s;
+            w = -0.4375 * s * s;
+          }
+          iterations++;
+          // looks for two consecutive small subdiagonal values
+          let m: number;
+          for (m = nn - 2; m >= l; m--) {
+            z = a[m][m];
+            r = x - z;
+            s = y - z;
+            p = (r * s - w) / a[m + 1][m] + a[m][m + 1];
+            q = a[m + 1][m + 1] - z - r - s;
+            r = a[m + 2][m + 1];
+            s = Math.abs(p) + Math.abs(q) + Math.abs(r);
+            p /= s;
+            q /= s;
+            r /= s;
+            if (m === l) {
+              break;
+            }
+            const u: number = Math.abs(a[m][m - 1]) * (Math.abs(q) + Math.abs(r));
+            const v: number = Math.abs(p) * (Math.abs(a[m - 1][m - 1]) + Math.abs(z) + Math.abs(a[m + 1][m + 1]));
+            if (u + v === v) {
+              break;
+            }
+          }
+          for (let i = m + 2; i <= nn; i++) {
+            a[i][i - 2] = 0;
+            if (i !== m + 2) {
+              a[i][i - 3] = 0;
+            }
+          }
+          // a double QR step on rows l to nn and columns m to nn
+          for (let k = m; k <= nn - 1; k++) {
+            if (k !== m) {
+              p = a[k][k - 1];
+              q = a[k + 1][k - 1];
+              r = k !== nn - 1 ? a[k + 2][k - 1] : 0;
+              x = Math.abs(p) + Math.abs(q) + Math.abs(r);
+              if (x !== 0) {
+                p /= x;
+                q /= x;
+                r /= x;
+              }
+            }
+            s = Math.sqrt(p * p + q * q + r * r);
+            if (p < 0) {
+              s = -s;
+            }
+            if (s !== 0) {
+              if (k === m) {
+                if (l !== m) {
+                  a[k][k - 1] = -a[k][k - 1];
+                }
+              } else {
+                a[k][k - 1] = -s * x;
+              }
+              p += s;
+              x = p / s;
+              y = q / s;
+              z = r / s;
+              q /= p;
+              r /= p;
+              for (let j = k; j <= nn; j++) {
+                p = a[k][j] + q * a[k + 1][j];
+                if (k !== nn - 1) {
+                  p += r * a[k + 2][j];
+                  a[k + 2][j] -= p * z;
+                }
+                a[k + 1][j] -= p * y;
+                a[k][j] -= p * x;
+              }
+              for (let i = l; i <= Math.min(nn, k + 3); i++) {
+                p = x * a[i][k] + y * a[i][k + 1];
+                if (k !== nn - 1) {
+                  p += z * a[i][k + 2];
+                  a[i][k + 2] -= p * r;
+                }
+                a[i][k + 1] -= p * q;
+                a[i][k] -= p;
+              }
+            }
+          }
+        }
+      }
+    } while (l < nn - 1);
+  }
+  return true;
+}
@@ -0,0 +1,243 @@
+import { SimulationError } from "./SimulationError";
+import { SimulationEvent, SimulationModel } from "./SimulationModel";
+import { OdeIntegrator, OdeMethod } from "./Solvers";
+
+/**
+ * The options of a simulation. By default a simulation goes from 0 to 10 in 101 points,
+ * with time and the concentrations of every species as its columns.
+ */
+export type SimulationOptions = {
+  start?: number;
+  end?: number;
+  points?: number;
+  // the symbols to show, ie ["time", "S1", "A.J0"]
+  selections?: string[];
+  method?: OdeMethod;
+  relativeTolerance?: number;
+  absoluteTolerance?: number;
+  maxSteps?: number;
+};
+
+/**
+ * The result of a simulation, with one row for each point in time and one column for each selection.
+ */
+export type TimeCourse = {
+  columns: string[];
+  rows: number[][];
+};
+
+// an event that was triggered and is waiting for its delay to pass.
+type PendingEvent = {
+  time: number;
+  event: SimulationEvent;
+  order: number;
+  // the values of the assignments when they are computed at the trigger time
+  values: number[] | undefined;
+};
+
+// how many events may fire at one point in time, ie through events that trigger each other.
+const maxEventsAtOnce: number = 1000;
+
+/**
+ * @description simulates a model over time.
+ * @param model
+ * @param options
+ * @returns the values of the selected symbols at evenly spaced points in time from start to end
+ * @throws {SimulationError} if the options are not valid, or if the simulation fails
+ */
+export function simulate(model: SimulationModel, options: SimulationOptions = {}): TimeCourse {
+  const start: number = options.start ?? 0;
+  const end: number = options.end ?? 10;
+  const points: number = options.points ?? 101;
+  const columns: string[] = options.selections ?? ["time", ...model.speciesNames];
+  if (!Number.isFinite(start) || !Number.isFinite(end) || end <= start) {
+    throw new SimulationError("The end of a simulation has to come after its start");
+  }
+  if (!Number.isInteger(points) || points < 2) {
+    throw new SimulationError("A simulation needs at least 2 points");
+  }
+  const selected: number[] = columns.map((name) => {
+    const index: number | undefined = model.getIndex(name);
+    if (index === undefined) {
+      throw new SimulationError(`${name} is not in the model`);
+    }
+    return index;
+  });
+
+  const values: Float64Array = model.createValues(start);
+  const state: Float64Array = model.getInitialState(values);
+  const rhs = (t: number, y: Float64Array, dydt: Float64Array) => {
+    model.getDerivatives(t, y, values, dydt);
+    for (let i = 0; i < dydt.length; i++) {
+      if (Number.isNaN(dydt[i])) {
+        throw new SimulationError(`The rate of ${model.stateNames[i]} is not a number at time ${t}`);
+      }
+    }
+  };
+  const integrator: OdeIntegrator = new OdeIntegrator(rhs, start, state, {
+    method: options.method ?? "auto",
+    relativeTolerance: options.relativeTolerance ?? 1e-6,
+    absoluteTolerance: options.absoluteTolerance ?? 1e-12,
+    maxSteps: options.maxSteps ?? 100000,
+    maxStepSize: end - start,
+  });
+
+  const events: EventQueue = new EventQueue(model, values);
+  model.updateValues(start, state, values);
+  events.initialize();
+  if (events.fire(start, state)) {
+    integrator.restart(start, state);
+  }
+
+  const rows: number[][] = [];
+  const record = (t: number, y: Float64Array) => {
+    model.updateValues(t, y, values);
+    rows.push(selected.map((index) => values[index]));
+  };
+  const times: number[] = Array.from({ length: points }, (_, i) => (i === points - 1 ? end : start + ((end - start) * i) / (points - 1)));
+  const interpolated: Float64Array = new Float64Array(state.length);
+  let next: number = 0;
+  while (next < points) {
+    const stepEnd: number = Math.min(end, events.getNextPendingTime());
+    integrator.step(stepEnd);
+    // an event that is triggered during the step ends it early.
+    let stopTime: number = integrator.t;
+    const triggered: boolean = events.isTriggered(integrator.t, integrator.y);
+    if (triggered) {
+      stopTime = events.findTriggerTime(integrator);
+    }
+    while (next < points && times[next] <= stopTime) {
+      integrator.interpolate(times[next], interpolated);
+      record(times[next], interpolated);
+      next++;
+    }
+    if (triggered || stopTime === events.getNextPendingTime()) {
+      integrator.interpolate(stopTime, interpolated);
+      state.set(interpolated);
+      events.fire(stopTime, state);
+      integrator.restart(stopTime, state);
+    } else {
+      model.updateValues(integrator.t, integrator.y, values);
+      events.update();
+    }
+  }
+  return { columns: columns, rows: rows };
+}
+
+/**
+ * Keeps track of the triggers of the events of a model, and of the events waiting for their delays.
+ */
+class EventQueue {
+  private model: SimulationModel;
+  private values: Float64Array;
+  private triggers: boolean[];
+  private pending: PendingEvent[] = [];
+
+  constructor(model: SimulationModel, values: Float64Array) {
+    this.model = model;
+    this.values = values;
+    this.triggers = model.events.map(() => false);
+  }
+
+  /**
+   * @description reads the triggers at the start, where the events with t0 = true
+   *              count as triggered before the start, so they do not fire right away.
+   */
+  initialize(): void {
+    this.triggers = this.model.events.map((event) => event.t0 || !event.trigger(this.values));
+  }
+
+  /**
+   * @returns when the next pending event has to be executed, Infinity if there is none
+   */
+  getNextPendingTime(): number {
+    return this.pending.reduce((time, pending) => Math.min(time, pending.time), Infinity);
+  }
+
+  /**
+   * @description remembers the triggers for the current values, and drops the pending
+   *              events that are not persistent once their trigger turns false.
+   */
+  update(): void {
+    this.model.events.forEach((event, i) => {
+      this.triggers[i] = !!event.trigger(this.values);
+      if (!this.triggers[i] && !event.persistent) {
+        this.pending = this.pending.filter((pending) => pending.event !== event);
+      }
+    });
+  }
+
+  /**
+   * @param t
+   * @param y
+   * @returns whether a trigger that was false is true at (t, y)
+   */
+  isTriggered(t: number, y: Float64Array): boolean {
+    this.model.updateValues(t, y, this.values);
+    return this.model.events.some((event, i) => !this.triggers[i] && event.trigger(this.values));
+  }
+
+  /**
+   * @param integrator which just took a step during which an event was triggered
+   * @returns the first time in the step at which a trigger turns true, found by bisection
+   */
+  findTriggerTime(integrator: OdeIntegrator): number {
+    const y: Float64Array = new Float64Array(integrator.y.length);
+    let low: number = integrator.previousTime;
+    let high: number = integrator.t;
+    while (high - low > 1e-12 * Math.max(1, Math.abs(high))) {
+      const middle: number = (low + high) / 2;
+      integrator.interpolate(middle, y);
+      if (this.isTriggered(middle, y)) {
+        high = middle;
+      } else {
+        low = middle;
+      }
+    }
+    return high;
+  }
+
+  /**
+   * @description fires the events whose triggers turned true at t and executes the pending
+   *              events that are due, highest priority first, until no more events fire.
+   * @param t
+   * @param state changed by the assignments of the events
+   * @returns whether any event was executed
+   */
+  fire(t: number, state: Float64Array): boolean {
+    let executed: boolean = false;
+    for (let count = 0; ; count++) {
+      if (count > maxEventsAtOnce) {
+        throw new SimulationError(`More than ${maxEventsAtOnce} events fired at time ${t}`);
+      }
+      this.model.updateValues(t, state, this.values);
+      this.model.events.forEach((event, i) => {
+        const trigger: boolean = !!event.trigger(this.values);
+        if (trigger && !this.triggers[i]) {
+          this.pending.push({
+            time: t + (event.delay ? event.delay(this.values) : 0),
+            event: event,
+            order: i,
+            values: event.fromTrigger ? event.assignments.map((assignment) => assignment.value(this.values)) : undefined,
+          });
+        }
+        this.triggers[i] = trigger;
+        if (!trigger && !event.persistent) {
+          this.pending = this.pending.filter((pending) => pending.event !== event);
+        }
+      });
+
+      const due: PendingEvent[] = this.pending.filter((pending) => pending.time <= t);
+      if (due.length === 0) {
+        return executed;
+      }
+      const priority = (pending: PendingEvent) => (pending.event.priority ? pending.event.priority(this.values) : -Infinity);
+      const first: PendingEvent = due.reduce((best, pending) =>
+        priority(pending) > priority(best) || (priority(pending) === priority(best) && pending.order < best.order) ? pending : best);
+      this.pending = this.pending.filter((pending) => pending !== first);
+      const assigned: number[] = first.values ?? first.event.assignments.map((assignment) => assignment.value(this.values));
+      first.event.assignments.forEach((assignment, i) => this.model.assign(assignment.target, assigned[i], state, this.values));
+      executed = true;
+    }
+  }
+}
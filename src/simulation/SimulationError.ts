@@ -0,0 +1,10 @@
+/**
+ * An error for a model that can not be simulated, ie one whose assignment rules depend on
+ * each other, or for a simulation that fails, ie because its step size became too small.
+ */
+export class SimulationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SimulationError";
+  }
+}
@@ -0,0 +1,589 @@
+import { GlobalST, ParamAndNameTable, SymbolTable } from "../language-handler/SymbolTableClasses";
+import { SrcRange, varTypes } from "../language-handler/Types";
+import { predefinedConstants, Variable } from "../language-handler/Variable";
+import {
+  CompiledExpression,
+  compileExpression,
+  ExpressionNode,
+  getNames,
+  inlineFunctions,
+  parseExpression,
+  replaceNames,
+} from "./Expression";
+import { SimulationError } from "./SimulationError";
+
+/**
+ * An event of a simulation model, with its trigger, delay, priority and assignments compiled.
+ */
+export type SimulationEvent = {
+  name: string;
+  trigger: CompiledExpression;
+  delay: CompiledExpression | undefined;
+  priority: CompiledExpression | undefined;
+  t0: boolean;
+  persistent: boolean;
+  fromTrigger: boolean;
+  // target is the index of the assigned symbol in the values of the model
+  assignments: { target: number; value: CompiledExpression }[];
+};
+
+type SymbolKind = "species" | "compartment" | "parameter" | "reaction";
+
+// a symbol of the flattened model, ie "A.S1" for S1 in the submodel A.
+type SymbolDefinition = {
+  kind: SymbolKind;
+  compartment: string | undefined;
+  substanceOnly: boolean;
+  isBoundary: boolean;
+  initial: ExpressionNode | undefined;
+};
+
+type FlatReaction = {
+  name: string;
+  // the net stoichiometry of each species the reaction changes
+  stoichiometry: Map<string, number>;
+  rate: ExpressionNode;
+};
+
+type FlatEvent = {
+  name: string;
+  trigger: ExpressionNode;
+  delay: ExpressionNode | undefined;
+  priority: ExpressionNode | undefined;
+  t0: boolean;
+  persistent: boolean;
+  fromTrigger: boolean;
+  assignments: { variable: string; value: ExpressionNode }[];
+};
+
+// a value that is computed from the state, ie the concentration of a species or an assignment rule.
+type DerivedValue =
+  | { kind: "concentration"; symbol: number; state: number; compartment: number | undefined }
+  | { kind: "formula"; symbol: number; value: CompiledExpression };
+
+const ignoredTypes: Set<varTypes> = new Set([
+  varTypes.Model,
+  varTypes.ModularModel,
+  varTypes.Function,
+  varTypes.Unit,
+  varTypes.Import,
+  varTypes.Event,
+  varTypes.Interaction,
+  varTypes.Constraint,
+  varTypes.Deleted,
+  varTypes.PredefConstant,
+]);
+
+/**
+ * A model flattened into one set of symbols, with the submodels of a model prefixed by
+ * their names, ie "A.S1", and its species, compartments, rules, reactions and events compiled
+ * into the derivatives of an ODE system.
+ *
+ * Values are kept in a Float64Array indexed like symbolNames, where index 0 is time. Species
+ * have their concentration there, or their amount if they are substanceOnly, and reactions
+ * have their rate. The state of the ODE system holds the amounts of the species that reactions
+ * change, and the values of the variables with rate rules.
+ */
+export class SimulationModel {
+  // "time" first, and then every symbol of the flattened model
+  public readonly symbolNames: string[];
+  // the species, in the order they are declared, which are what a simulation shows by default
+  public readonly speciesNames: string[];
+  public readonly stateNames: string[];
+  public readonly events: SimulationEvent[];
+
+  private symbolIndices: Map<string, number>;
+  private sourceRanges: Map<string, SrcRange[]>;
+  private initialValues: DerivedValue[];
+  private derivedValues: DerivedValue[];
+  // for each state, the symbol it holds, and for species the compartment the amount is in
+  private stateSymbols: { symbol: number; compartment: number | undefined; substanceOnly: boolean }[];
+  private stateIndices: Map<number, number>;
+  private rateRules: { state: number; value: CompiledExpression }[];
+  // for each reaction, its rate's symbol and the states it changes
+  private reactionTerms: { symbol: number; states: number[]; stoichiometry: number[] }[];
+
+  constructor(
+    symbols: Map<string, SymbolDefinition>,
+    reactions: FlatReaction[],
+    assignmentRules: Map<string, ExpressionNode>,
+    rateRules: Map<string, ExpressionNode>,
+    events: FlatEvent[],
+    sourceRanges: Map<string, SrcRange[]>
+  ) {
+    this.sourceRanges = sourceRanges;
+    this.symbolNames = ["time", ...symbols.keys()];
+    this.symbolIndices = new Map(this.symbolNames.map((name, index) => [name, index]));
+    this.speciesNames = [...symbols.entries()]
+      .filter(([name, symbol]) => symbol.kind === "species" && !name.startsWith("_"))
+      .map(([name]) => name);
+    const getIndex = (name: string) => this.symbolIndices.get(name);
+    const compile = (node: ExpressionNode) => compileExpression(node, getIndex);
+
+    const reactionRates: Map<string, ExpressionNode> = new Map(reactions.map((reaction) => [reaction.name, reaction.rate]));
+    const changedSpecies: Set<string> = new Set(reactions.flatMap((reaction) => [...reaction.stoichiometry.keys()]));
+    for (const [name] of rateRules) {
+      if (assignmentRules.has(name)) {
+        throw new SimulationError(`${name} has both an assignment rule and a rate rule`);
+      }
+      if (changedSpecies.has(name)) {
+        throw new SimulationError(`${name} is changed by both reactions and a rate rule`);
+      }
+    }
+    for (const name of [...assignmentRules.keys(), ...rateRules.keys()]) {
+      if (reactionRates.has(name)) {
+        throw new SimulationError(`The reaction ${name} can not have a rule`);
+      }
+    }
+
+    // the species without rules hold their amounts in the state, the variables with rate rules their values.
+    this.stateSymbols = [];
+    this.stateNames = [];
+    for (const [name, symbol] of symbols) {
+      const isSpeciesAmount: boolean = symbol.kind === "species" && !assignmentRules.has(name) && !rateRules.has(name);
+      if (isSpeciesAmount || rateRules.has(name)) {
+        this.stateSymbols.push({
+          symbol: getIndex(name)!!,
+          compartment: isSpeciesAmount && symbol.compartment !== undefined ? getIndex(symbol.compartment) : undefined,
+          substanceOnly: !isSpeciesAmount || symbol.substanceOnly,
+        });
+        this.stateNames.push(name);
+      }
+    }
+    this.stateIndices = new Map(this.stateSymbols.map((state, index) => [state.symbol, index]));
+    this.rateRules = [...rateRules].map(([name, node]) => ({
+      state: this.stateIndices.get(getIndex(name)!!)!!,
+      value: compile(node),
+    }));
+    this.reactionTerms = reactions.map((reaction) => {
+      const changed: [string, number][] = [...reaction.stoichiometry]
+        .filter(([name]) => !symbols.get(name)?.isBoundary && this.stateIndices.has(getIndex(name)!!));
+      return {
+        symbol: getIndex(reaction.name)!!,
+        states: changed.map(([name]) => this.stateIndices.get(getIndex(name)!!)!!),
+        stoichiometry: changed.map(([, stoichiometry]) => stoichiometry),
+      };
+    });
+
+    // what each symbol depends on, to order the values that are computed from others.
+    const formulas: Map<string, ExpressionNode> = new Map([...assignmentRules, ...reactionRates]);
+    const derived: Map<string, { value: DerivedValue; dependencies: Set<string> }> = new Map();
+    for (const [name, symbol] of symbols) {
+      const index: number = getIndex(name)!!;
+      const formula: ExpressionNode | undefined = formulas.get(name);
+      if (formula) {
+        derived.set(name, { value: { kind: "formula", symbol: index, value: compile(formula) }, dependencies: getNames(formula) });
+      } else if (symbol.kind === "species" && !rateRules.has(name)) {
+        const state: SimulationModel["stateSymbols"][number] = this.stateSymbols[this.stateIndices.get(index)!!];
+        derived.set(name, {
+          value: { kind: "concentration", symbol: index, state: this.stateIndices.get(index)!!, compartment: state.substanceOnly ? undefined : state.compartment },
+          dependencies: new Set(state.substanceOnly || symbol.compartment === undefined ? [] : [symbol.compartment]),
+        });
+      }
+    }
+    this.derivedValues = sortByDependencies(derived);
+
+    // at the start, every symbol that is not computed from a formula is computed from its initial value.
+    const initial: Map<string, { value: DerivedValue; dependencies: Set<string> }> = new Map();
+    for (const [name, symbol] of symbols) {
+      const index: number = getIndex(name)!!;
+      const node: ExpressionNode = formulas.get(name)
+        || symbol.initial
+        || { kind: "number", value: symbol.kind === "compartment" ? 1 : 0 };
+      initial.set(name, { value: { kind: "formula", symbol: index, value: compile(node) }, dependencies: getNames(node) });
+    }
+    this.initialValues = sortByDependencies(initial);
+
+    this.events = events.map((event) => ({
+      name: event.name,
+      trigger: compile(event.trigger),
+      delay: event.delay && compile(event.delay),
+      priority: event.priority && compile(event.priority),
+      t0: event.t0,
+      persistent: event.persistent,
+      fromTrigger: event.fromTrigger,
+      assignments: event.assignments.map((assignment) => {
+        if (formulas.has(assignment.variable)) {
+          throw new SimulationError(`The event ${event.name} can not change ${assignment.variable}, which is computed from a formula`);
+        }
+        return { target: getIndex(assignment.variable)!!, value: compile(assignment.value) };
+      }),
+    }));
+  }
+
+  /**
+   * @param name
+   * @returns the index of the symbol in the values of the model, undefined if there is no such symbol
+   */
+  getIndex(name: string): number | undefined {
+    return this.symbolIndices.get(name);
+  }
+
+  /**
+   * @param name a symbol of the flattened model
+   * @returns where the symbol is declared, initialized, changed by reactions, rules and
+   *          events, or computed, in the analyzed file
+   */
+  getSourceRanges(name: string): SrcRange[] {
+    return [...(this.sourceRanges.get(name) || [])]
+      .sort((a, b) => a.start.line - b.start.line || a.start.column - b.start.column);
+  }
+
+  /**
+   * @param time the time the simulation starts at
+   * @returns the values of every symbol at the start of a simulation
+   */
+  createValues(time: number): Float64Array {
+    const values: Float64Array = new Float64Array(this.symbolNames.length);
+    values[0] = time;
+    for (const initial of this.initialValues) {
+      if (initial.kind === "formula") {
+        values[initial.symbol] = initial.value(values);
+      }
+    }
+    return values;
+  }
+
+  /**
+   * @param values the values of every symbol, as createValues gives them
+   * @returns the state of the ODE system
+   */
+  getInitialState(values: Float64Array): Float64Array {
+    return Float64Array.from(this.stateSymbols, (state) =>
+      values[state.symbol] * (state.substanceOnly || state.compartment === undefined ? 1 : values[state.compartment]));
+  }
+
+  /**
+   * @description computes the values of the symbols at time from the state,
+   *              leaving the values that only events change as they are.
+   * @param time
+   * @param state
+   * @param values
+   */
+  updateValues(time: number, state: Float64Array, values: Float64Array): void {
+    values[0] = time;
+    for (const [index, stateSymbol] of this.stateSymbols.entries()) {
+      if (stateSymbol.substanceOnly) {
+        values[stateSymbol.symbol] = state[index];
+      }
+    }
+    for (const derived of this.derivedValues) {
+      if (derived.kind === "formula") {
+        values[derived.symbol] = derived.value(values);
+      } else {
+        values[derived.symbol] = state[derived.state] / (derived.compartment === undefined ? 1 : values[derived.compartment]);
+      }
+    }
+  }
+
+  /**
+   * @description computes the derivatives of the state at time, and the values of the symbols along the way.
+   * @param time
+   * @param state
+   * @param values
+   * @param derivatives where the derivatives are written
+   */
+  getDerivatives(time: number, state: Float64Array, values: Float64Array, derivatives: Float64Array): void {
+    this.updateValues(time, state, values);
+    derivatives.fill(0);
+    for (const reaction of this.reactionTerms) {
+      const rate: number = values[reaction.symbol];
+      for (let i = 0; i < reaction.states.length; i++) {
+        derivatives[reaction.states[i]] += reaction.stoichiometry[i] * rate;
+      }
+    }
+    for (const rule of this.rateRules) {
+      derivatives[rule.state] = rule.value(values);
+    }
+  }
+
+  /**
+   * @returns the stoichiometry matrix, where row i holds how much each reaction changes state i.
+   *          Reactions leave boundary species as they are.
+   */
+  getStoichiometryMatrix(): number[][] {
+    const matrix: number[][] = this.stateSymbols.map(() => new Array(this.reactionTerms.length).fill(0));
+    for (const [j, reaction] of this.reactionTerms.entries()) {
+      for (let i = 0; i < reaction.states.length; i++) {
+        matrix[reaction.states[i]][j] += reaction.stoichiometry[i];
+      }
+    }
+    return matrix;
+  }
+
+  /**
+   * @param state index of a state
+   * @returns whether the state is the value of a variable with a rate rule
+   */
+  hasRateRule(state: number): boolean {
+    return this.rateRules.some((rule) => rule.state === state);
+  }
+
+  /**
+   * @description sets a symbol as an event does. A species keeps its concentration, or its
+   *              amount if it is substanceOnly, so its amount is changed along with it.
+   * @param symbol index of the symbol
+   * @param value
+   * @param state
+   * @param values
+   */
+  assign(symbol: number, value: number, state: Float64Array, values: Float64Array): void {
+    const stateIndex: number | undefined = this.stateIndices.get(symbol);
+    if (stateIndex === undefined) {
+      values[symbol] = value;
+      return;
+    }
+    const stateSymbol = this.stateSymbols[stateIndex];
+    state[stateIndex] = value * (stateSymbol.substanceOnly || stateSymbol.compartment === undefined ? 1 : values[stateSymbol.compartment]);
+  }
+}
+
+/**
+ * @param values each value by the name of its symbol, with the names it depends on
+ * @returns the values in an order where each value comes after the values it depends on
+ * @throws {SimulationError} if values depend on each other
+ */
+function sortByDependencies(values: Map<string, { value: DerivedValue; dependencies: Set<string> }>): DerivedValue[] {
+  const sorted: DerivedValue[] = [];
+  const done: Set<string> = new Set();
+  const visiting: string[] = [];
+  const visit = (name: string) => {
+    const entry = values.get(name);
+    if (!entry || done.has(name)) {
+      return;
+    }
+    if (visiting.includes(name)) {
+      const cycle: string[] = visiting.slice(visiting.indexOf(name));
+      throw new SimulationError(`The values of ${cycle.join(", ")} depend on each other`);
+    }
+    visiting.push(name);
+    entry.dependencies.forEach(visit);
+    visiting.pop();
+    done.add(name);
+    sorted.push(entry.value);
+  };
+  [...values.keys()].forEach(visit);
+  return sorted;
+}
+
+/**
+ * Collects the symbols, reactions, rules and events of a model and its submodels under flattened names.
+ */
+class ModelFlattener {
+  public symbols: Map<string, SymbolDefinition> = new Map();
+  public reactions: FlatReaction[] = [];
+  public assignmentRules: Map<string, ExpressionNode> = new Map();
+  public rateRules: Map<string, ExpressionNode> = new Map();
+  public events: FlatEvent[] = [];
+  public sourceRanges: Map<string, SrcRange[]> = new Map();
+
+  private globalST: GlobalST;
+  private functions: Map<string, { params: string[]; body: ExpressionNode }> = new Map();
+
+  constructor(globalST: GlobalST) {
+    this.globalST = globalST;
+    for (const [name, funcST] of globalST.getFuncMap()) {
+      if (funcST.body !== undefined) {
+        this.functions.set(name, { params: funcST.params, body: parseExpression(funcST.body) });
+      }
+    }
+  }
+
+  /**
+   * @param table the ST of the model
+   * @param prefix put before each name of the model, ie "A." for the submodel A
+   * @param aliases the expressions that the parameters of the model are given, with flattened names
+   * @param isLocal whether the model is written in the analyzed file, so its source ranges are kept
+   * @param depth how many submodels deep the model is, so models that contain themselves are caught
+   */
+  flatten(table: SymbolTable, prefix: string, aliases: Map<string, ExpressionNode>, isLocal: boolean, depth: number = 0): void {
+    if (depth > 50) {
+      throw new SimulationError(`The submodel ${prefix.slice(0, -1)} contains itself`);
+    }
+    const resolve = (name: string): ExpressionNode => {
+      const alias: ExpressionNode | undefined = aliases.get(name);
+      if (alias) {
+        return alias;
+      }
+      return { kind: "name", name: predefinedConstants.has(name) ? name : prefix + name };
+    };
+    const resolveName = (name: string): string => {
+      const node: ExpressionNode = resolve(name);
+      if (node.kind !== "name" || predefinedConstants.has(node.name)) {
+        throw new SimulationError(`${prefix}${name} is given a value, so it can not be changed`);
+      }
+      return node.name;
+    };
+    const read = (formula: string): ExpressionNode =>
+      replaceNames(inlineFunctions(parseExpression(formula), (name) => this.functions.get(name)), resolve);
+    const addRange = (name: string, srcRange: SrcRange | undefined) => {
+      if (isLocal && srcRange) {
+        const ranges: SrcRange[] = this.sourceRanges.get(name) || [];
+        if (!ranges.some((range) => range.toString() === srcRange.toString())) {
+          ranges.push(srcRange);
+        }
+        this.sourceRanges.set(name, ranges);
+      }
+    };
+
+    // submodels come first, so that the values this model gives their ids override theirs.
+    for (const [submodelName, modelName] of table.submodels) {
+      const modelST: ParamAndNameTable | undefined = this.globalST.getModelST(modelName);
+      if (!modelST) {
+        throw new SimulationError(`The model ${modelName} of ${prefix}${submodelName} does not exist`);
+      }
+      const args: string[] = table.submodelArguments.get(submodelName) || [];
+      const submodelAliases: Map<string, ExpressionNode> = new Map();
+      modelST.params.forEach((param, i) => {
+        if (i < args.length) {
+          submodelAliases.set(param, read(args[i]));
+        }
+      });
+      this.flatten(modelST, prefix + submodelName + ".", submodelAliases, isLocal && modelST.fileName === undefined, depth + 1);
+    }
+
+    for (const [name, varInfo] of table.getVarMap()) {
+      if (ignoredTypes.has(varInfo.type) || predefinedConstants.has(name) || table.submodels.has(name) || aliases.has(name)) {
+        continue;
+      }
+      const flatName: string = prefix + name;
+      const existing: SymbolDefinition | undefined = this.symbols.get(flatName);
+      const initial: ExpressionNode | undefined = varInfo.value !== undefined ? read(varInfo.value) : undefined;
+      if (existing) {
+        // a dotted name, ie "A.x = 2", that sets the id of a submodel.
+        existing.initial = initial || existing.initial;
+      } else {
+        this.symbols.set(flatName, this.getSymbolDefinition(varInfo, initial, resolve));
+      }
+      addRange(flatName, varInfo.declSrcRange);
+      addRange(flatName, varInfo.initSrcRange);
+    }
+
+    let unnamedReactions: number = 0;
+    for (const reaction of table.reactions) {
+      const name: string = reaction.id !== undefined ? resolveName(reaction.id) : `${prefix}_J${unnamedReactions++}`;
+      const stoichiometry: Map<string, number> = new Map();
+      for (const [sign, participants] of [[-1, reaction.reactants], [1, reaction.products]] as const) {
+        for (const participant of participants) {
+          const species: string = resolveName(participant.name);
+          stoichiometry.set(species, (stoichiometry.get(species) || 0) + sign * participant.stoichiometry);
+          this.ensureSymbol(species, "species");
+          if (participant.isBoundary) {
+            this.symbols.get(species)!!.isBoundary = true;
+          }
+          addRange(species, reaction.srcRange);
+        }
+      }
+      this.ensureSymbol(name, "reaction");
+      this.symbols.get(name)!!.kind = "reaction";
+      addRange(name, reaction.srcRange);
+      this.reactions.push({
+        name: name,
+        stoichiometry: stoichiometry,
+        rate: reaction.rateLaw !== undefined ? read(reaction.rateLaw) : { kind: "number", value: 0 },
+      });
+    }
+
+    for (const rule of table.rules) {
+      const name: string = resolveName(rule.variable);
+      this.ensureSymbol(name, "parameter");
+      (rule.kind === "assignment" ? this.assignmentRules : this.rateRules).set(name, read(rule.formula));
+      addRange(name, rule.srcRange);
+    }
+
+    let unnamedEvents: number = 0;
+    for (const event of table.events) {
+      const assignments = event.assignments.map((assignment) => {
+        const name: string = resolveName(assignment.variable);
+        this.ensureSymbol(name, "parameter");
+        addRange(name, event.srcRange);
+        return { variable: name, value: read(assignment.formula) };
+      });
+      this.events.push({
+        name: event.id !== undefined ? prefix + event.id : `${prefix}_E${unnamedEvents++}`,
+        trigger: read(event.trigger),
+        delay: event.delay !== undefined ? read(event.delay) : undefined,
+        priority: event.priority !== undefined ? read(event.priority) : undefined,
+        t0: event.t0,
+        persistent: event.persistent,
+        fromTrigger: event.fromTrigger,
+        assignments: assignments,
+      });
+    }
+  }
+
+  private getSymbolDefinition(
+    varInfo: Variable,
+    initial: ExpressionNode | undefined,
+    resolve: (name: string) => ExpressionNode
+  ): SymbolDefinition {
+    const kinds: Map<varTypes, SymbolKind> = new Map([
+      [varTypes.Species, "species"],
+      [varTypes.Compartment, "compartment"],
+      [varTypes.Reaction, "reaction"],
+    ] as [varTypes, SymbolKind][]);
+    const kind: SymbolKind = kinds.get(varInfo.type) || "parameter";
+    const compartment: ExpressionNode | undefined = varInfo.compartment !== undefined ? resolve(varInfo.compartment) : undefined;
+    return {
+      kind: kind,
+      compartment: kind === "species" && compartment?.kind === "name" ? compartment.name : undefined,
+      substanceOnly: varInfo.substanceOnly,
+      // "$S1" and "const S1" keep S1 from being changed by reactions.
+      isBoundary: kind === "species" && varInfo.isConst,
+      initial: initial,
+    };
+  }
+
+  private ensureSymbol(name: string, kind: SymbolKind): void {
+    if (!this.symbols.has(name)) {
+      this.symbols.set(name, { kind: kind, compartment: undefined, substanceOnly: false, isBoundary: false, initial: undefined });
+    }
+  }
+}
+
+/**
+ * @param table
+ * @returns whether the ST has anything to simulate, more than models, functions and units
+ */
+function hasModelContent(table: SymbolTable): boolean {
+  if (table.reactions.length > 0 || table.rules.length > 0 || table.events.length > 0 || table.submodels.size > 0) {
+    return true;
+  }
+  return [...table.getVarMap()].some(([name, varInfo]) => !ignoredTypes.has(varInfo.type) && !predefinedConstants.has(name));
+}
+
+/**
+ * @description flattens a model of an analyzed program into a simulation model.
+ * @param globalST symbol table of the analyzed program
+ * @param modelName the model to simulate. By default this is the global scope, if anything
+ *                  is written there, and otherwise the last model written in the file.
+ * @returns the simulation model
+ * @throws {SimulationError} if there is no such model, or the model can not be simulated
+ */
+export function getSimulationModel(globalST: GlobalST, modelName?: string): SimulationModel {
+  let table: SymbolTable | undefined;
+  if (modelName !== undefined) {
+    table = globalST.getModelST(modelName);
+    if (!table) {
+      throw new SimulationError(`There is no model named ${modelName}`);
+    }
+  } else if (hasModelContent(globalST)) {
+    table = globalST;
+  } else {
+    table = [...globalST.getModelMap().values()].filter((modelST) => modelST.fileName === undefined).pop();
+    if (!table) {
+      throw new SimulationError("There is no model to simulate");
+    }
+  }
+
+  const flattener: ModelFlattener = new ModelFlattener(globalST);
+  flattener.flatten(table, "", new Map(), !(table instanceof ParamAndNameTable) || table.fileName === undefined);
+  return new SimulationModel(
+    flattener.symbols,
+    flattener.reactions,
+    flattener.assignmentRules,
+    flattener.rateRules,
+    flattener.events,
+    flattener.sourceRanges
+  );
+}
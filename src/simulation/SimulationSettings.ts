@@ -0,0 +1,44 @@
+/**
+ * The settings of the results panel: the time span and number of points of a simulation,
+ * whether the panel is shown, and whether the model is simulated again each time it is saved.
+ */
+export type SimulationSettings = {
+  start: number;
+  end: number;
+  points: number;
+  showPanel: boolean;
+  simulateOnSave: boolean;
+};
+
+export const defaultSimulationSettings: SimulationSettings = {
+  start: 0,
+  end: 10,
+  points: 101,
+  showPanel: false,
+  simulateOnSave: false,
+};
+
+const simulationSettingsKey = "simulation_settings";
+
+/**
+ * loads the simulation settings saved in local storage
+ * @returns the saved settings, with the defaults for the settings that were never saved
+ */
+export function loadSimulationSettings(): SimulationSettings {
+  if (typeof window === "undefined" || !window.localStorage) {
+    return { ...defaultSimulationSettings };
+  }
+  try {
+    return { ...defaultSimulationSettings, ...JSON.parse(window.localStorage.getItem(simulationSettingsKey) || "{}") };
+  } catch (e) {
+    return { ...defaultSimulationSettings };
+  }
+}
+
+/**
+ * saves the simulation settings to local storage, so they persist across sessions
+ * @param settings
+ */
+export function saveSimulationSettings(settings: SimulationSettings): void {
+  window.localStorage.setItem(simulationSettingsKey, JSON.stringify(settings));
+}
@@ -0,0 +1,308 @@
+import { decomposeLU, LUDecomposition, solveLU } from "./LinearAlgebra";
+import { SimulationError } from "./SimulationError";
+
+/**
+ * The right hand side of an ODE system, which writes the derivatives of y at t into dydt.
+ */
+export type OdeFunction = (t: number, y: Float64Array, dydt: Float64Array) => void;
+
+/**
+ * "rk45" is the Dormand-Prince method, "rosenbrock" the stiff Rosenbrock method of ode23s,
+ * and "auto" starts with rk45 and switches to rosenbrock once the system turns out to be stiff.
+ */
+export type OdeMethod = "auto" | "rk45" | "rosenbrock";
+
+export type IntegratorOptions = {
+  method: OdeMethod;
+  relativeTolerance: number;
+  absoluteTolerance: number;
+  // how many steps, accepted or not, the integrator may take before it gives up
+  maxSteps: number;
+  maxStepSize: number;
+};
+
+const sqrtEpsilon: number = Math.sqrt(Number.EPSILON);
+
+// Dormand-Prince coefficients
+const c2 = 1 / 5, c3 = 3 / 10, c4 = 4 / 5, c5 = 8 / 9;
+const a21 = 1 / 5;
+const a31 = 3 / 40, a32 = 9 / 40;
+const a41 = 44 / 45, a42 = -56 / 15, a43 = 32 / 9;
+const a51 = 19372 / 6561, a52 = -25360 / 2187, a53 = 64448 / 6561, a54 = -212 / 729;
+const a61 = 9017 / 3168, a62 = -355 / 33, a63 = 46732 / 5247, a64 = 49 / 176, a65 = -5103 / 18656;
+const a71 = 35 / 384, a73 = 500 / 1113, a74 = 125 / 192, a75 = -2187 / 6784, a76 = 11 / 84;
+const e1 = 71 / 57600, e3 = -71 / 16695, e4 = 71 / 1920, e5 = -17253 / 339200, e6 = 22 / 525, e7 = -1 / 40;
+
+// ode23s coefficients
+const rosenbrockD: number = 1 / (2 + Math.SQRT2);
+const rosenbrockE32: number = 6 + Math.SQRT2;
+
+/**
+ * @description estimates the Jacobian of f at (t, y) with forward differences.
+ * @param f
+ * @param t
+ * @param y
+ * @param dy the derivatives at (t, y)
+ * @returns the Jacobian by rows, where row i holds the derivatives of dy[i]
+ */
+export function estimateJacobian(f: OdeFunction, t: number, y: Float64Array, dy: Float64Array): Float64Array[] {
+  const n: number = y.length;
+  const jacobian: Float64Array[] = Array.from({ length: n }, () => new Float64Array(n));
+  const shifted: Float64Array = Float64Array.from(y);
+  const shiftedDy: Float64Array = new Float64Array(n);
+  for (let j = 0; j < n; j++) {
+    const delta: number = sqrtEpsilon * Math.max(Math.abs(y[j]), 1);
+    shifted[j] = y[j] + delta;
+    f(t, shifted, shiftedDy);
+    for (let i = 0; i < n; i++) {
+      jacobian[i][j] = (shiftedDy[i] - dy[i]) / delta;
+    }
+    shifted[j] = y[j];
+  }
+  return jacobian;
+}
+
+/**
+ * An adaptive ODE integrator, which takes one step at a time so that a simulation can
+ * stop at events, and interpolates between the start and end of its last step.
+ */
+export class OdeIntegrator {
+  public t: number;
+  public y: Float64Array;
+  public previousTime: number;
+
+  private f: OdeFunction;
+  private options: IntegratorOptions;
+  private n: number;
+  private dy: Float64Array;
+  private previousY: Float64Array;
+  private previousDy: Float64Array;
+  private h: number = 0;
+  private stiff: boolean;
+  private stiffChecks: number = 0;
+  private nonStiffChecks: number = 0;
+  private steps: number = 0;
+
+  constructor(f: OdeFunction, t: number, y: Float64Array, options: IntegratorOptions) {
+    this.f = f;
+    this.options = options;
+    this.n = y.length;
+    this.stiff = options.method === "rosenbrock";
+    this.t = t;
+    this.previousTime = t;
+    this.y = Float64Array.from(y);
+    this.dy = new Float64Array(this.n);
+    this.previousY = Float64Array.from(y);
+    this.previousDy = new Float64Array(this.n);
+    this.restart(t, y);
+  }
+
+  /**
+   * @returns the method the integrator currently steps with
+   */
+  getMethod(): "rk45" | "rosenbrock" {
+    return this.stiff ? "rosenbrock" : "rk45";
+  }
+
+  /**
+   * @description starts over from (t, y), ie after an event changed the state.
+   * @param t
+   * @param y
+   */
+  restart(t: number, y: Float64Array): void {
+    this.t = t;
+    this.previousTime = t;
+    this.y.set(y);
+    this.previousY.set(y);
+    this.f(t, this.y, this.dy);
+    this.previousDy.set(this.dy);
+    this.h = this.getInitialStepSize();
+  }
+
+  /**
+   * @description takes one accepted step, which ends at tMax at the latest.
+   * @param tMax
+   * @throws {SimulationError} if the step size becomes too small or there are too many steps
+   */
+  step(tMax: number): void {
+    if (this.n === 0 || tMax <= this.t) {
+      this.previousTime = this.t;
+      this.t = Math.max(this.t, tMax);
+      return;
+    }
+    let rejected: boolean = false;
+    for (;;) {
+      if (++this.steps > this.options.maxSteps) {
+        throw new SimulationError(`The simulation needed more than ${this.options.maxSteps} steps to reach time ${tMax}`);
+      }
+      let h: number = Math.min(this.h, this.options.maxStepSize);
+      const isLast: boolean = this.t + 1.01 * h >= tMax;
+      if (isLast) {
+        h = tMax - this.t;
+      }
+      if (h < 16 * Number.EPSILON * Math.abs(this.t) || h <= Number.MIN_VALUE) {
+        throw new SimulationError(`The step size became too small at time ${this.t}`);
+      }
+
+      const attempt = this.stiff ? this.attemptRosenbrockStep(h) : this.attemptDormandPrinceStep(h);
+      const order: number = this.stiff ? 3 : 5;
+      const error: number = Number.isFinite(attempt.error) ? attempt.error : Infinity;
+      if (error <= 1) {
+        const factor: number = error === 0 ? 10 : Math.min(rejected ? 1 : 10, Math.max(0.2, 0.9 * Math.pow(error, -1 / order)));
+        this.previousTime = this.t;
+        this.previousY.set(this.y);
+        this.previousDy.set(this.dy);
+        this.t = isLast ? tMax : this.t + h;
+        this.y.set(attempt.y);
+        this.dy.set(attempt.dy);
+        this.h = h * factor;
+        if (this.options.method === "auto" && !this.stiff && attempt.stiffness !== undefined) {
+          this.checkStiffness(attempt.stiffness);
+        }
+        return;
+      }
+      rejected = true;
+      this.h = h * (Number.isFinite(error) ? Math.max(0.2, 0.9 * Math.pow(error, -1 / order)) : 0.25);
+    }
+  }
+
+  /**
+   * @description interpolates the state between the start and the end of the last step with
+   *              the cubic Hermite polynomial through the states and derivatives at both ends.
+   * @param t
+   * @param out where the interpolated state is written
+   */
+  interpolate(t: number, out: Float64Array): void {
+    const h: number = this.t - this.previousTime;
+    if (h === 0) {
+      out.set(this.y);
+      return;
+    }
+    const s: number = (t - this.previousTime) / h;
+    const h00: number = (1 + 2 * s) * (1 - s) * (1 - s);
+    const h10: number = s * (1 - s) * (1 - s);
+    const h01: number = s * s * (3 - 2 * s);
+    const h11: number = s * s * (s - 1);
+    for (let i = 0; i < this.n; i++) {
+      out[i] = h00 * this.previousY[i] + h10 * h * this.previousDy[i] + h01 * this.y[i] + h11 * h * this.dy[i];
+    }
+  }
+
+  /**
+   * @param error the estimated local error of each component
+   * @param yNew the state at the end of the step
+   * @returns the root mean square of the errors, scaled by the tolerances
+   */
+  private getErrorNorm(error: Float64Array, yNew: Float64Array): number {
+    let sum: number = 0;
+    for (let i = 0; i < this.n; i++) {
+      const scale: number = this.options.absoluteTolerance
+        + this.options.relativeTolerance * Math.max(Math.abs(this.y[i]), Math.abs(yNew[i]));
+      sum += (error[i] / scale) ** 2;
+    }
+    return Math.sqrt(sum / this.n);
+  }
+
+  /**
+   * @returns the size of the first step, from how fast the state changes at the start
+   */
+  private getInitialStepSize(): number {
+    if (this.n === 0) {
+      return this.options.maxStepSize;
+    }
+    const order: number = this.stiff ? 3 : 5;
+    const scale: Float64Array = this.y.map((y) => this.options.absoluteTolerance + this.options.relativeTolerance * Math.abs(y));
+    const rms = (values: Float64Array) => Math.sqrt(values.reduce((sum, value, i) => sum + (value / scale[i]) ** 2, 0) / this.n);
+    const d0: number = rms(this.y);
+    const d1: number = rms(this.dy);
+    const h0: number = d0 < 1e-5 || d1 < 1e-5 ? 1e-6 : 0.01 * (d0 / d1);
+    const y1: Float64Array = this.y.map((y, i) => y + h0 * this.dy[i]);
+    const dy1: Float64Array = new Float64Array(this.n);
+    this.f(this.t + h0, y1, dy1);
+    const d2: number = rms(dy1.map((dy, i) => dy - this.dy[i])) / h0;
+    const h1: number = Math.max(d1, d2) <= 1e-15
+      ? Math.max(1e-6, h0 * 1e-3)
+      : Math.pow(0.01 / Math.max(d1, d2), 1 / order);
+    const h: number = Math.min(100 * h0, h1, this.options.maxStepSize);
+    return Number.isFinite(h) && h > 0 ? h : 1e-6;
+  }
+
+  /**
+   * @description counts how many steps in a row were held back by stability rather than accuracy,
+   *              and switches to the stiff method after 15 of them.
+   * @param stiffness the estimated h times the largest eigenvalue of the last step
+   */
+  private checkStiffness(stiffness: number): void {
+    if (stiffness > 3.25) {
+      this.nonStiffChecks = 0;
+      if (++this.stiffChecks >= 15) {
+        this.stiff = true;
+        this.h = this.getInitialStepSize();
+      }
+    } else if (++this.nonStiffChecks >= 6) {
+      this.stiffChecks = 0;
+    }
+  }
+
+  private attemptDormandPrinceStep(h: number): { y: Float64Array; dy: Float64Array; error: number; stiffness: number } {
+    const { n, t, y } = this;
+    const k1: Float64Array = this.dy;
+    const k2: Float64Array = new Float64Array(n), k3: Float64Array = new Float64Array(n), k4: Float64Array = new Float64Array(n);
+    const k5: Float64Array = new Float64Array(n), k6: Float64Array = new Float64Array(n), k7: Float64Array = new Float64Array(n);
+    const stage: Float64Array = new Float64Array(n);
+    const yNew: Float64Array = new Float64Array(n);
+
+    for (let i = 0; i < n; i++) stage[i] = y[i] + h * a21 * k1[i];
+    this.f(t + c2 * h, stage, k2);
+    for (let i = 0; i < n; i++) stage[i] = y[i] + h * (a31 * k1[i] + a32 * k2[i]);
+    this.f(t + c3 * h, stage, k3);
+    for (let i = 0; i < n; i++) stage[i] = y[i] + h * (a41 * k1[i] + a42 * k2[i] + a43 * k3[i]);
+    this.f(t + c4 * h, stage, k4);
+    for (let i = 0; i < n; i++) stage[i] = y[i] + h * (a51 * k1[i] + a52 * k2[i] + a53 * k3[i] + a54 * k4[i]);
+    this.f(t + c5 * h, stage, k5);
+    for (let i = 0; i < n; i++) stage[i] = y[i] + h * (a61 * k1[i] + a62 * k2[i] + a63 * k3[i] + a64 * k4[i] + a65 * k5[i]);
+    this.f(t + h, stage, k6);
+    for (let i = 0; i < n; i++) yNew[i] = y[i] + h * (a71 * k1[i] + a73 * k3[i] + a74 * k4[i] + a75 * k5[i] + a76 * k6[i]);
+    this.f(t + h, yNew, k7);
+
+    const error: Float64Array = new Float64Array(n);
+    let dkNorm: number = 0;
+    let dyNorm: number = 0;
+    for (let i = 0; i < n; i++) {
+      error[i] = h * (e1 * k1[i] + e3 * k3[i] + e4 * k4[i] + e5 * k5[i] + e6 * k6[i] + e7 * k7[i]);
+      dkNorm += (k7[i] - k6[i]) ** 2;
+      dyNorm += (yNew[i] - stage[i]) ** 2;
+    }
+    // k6 and k7 are both derivatives at t + h, so they tell how far apart close states move.
+    const stiffness: number = dyNorm > 0 ? h * Math.sqrt(dkNorm / dyNorm) : 0;
+    return { y: yNew, dy: k7, error: this.getErrorNorm(error, yNew), stiffness: stiffness };
+  }
+
+  private attemptRosenbrockStep(h: number): { y: Float64Array; dy: Float64Array; error: number; stiffness?: number } {
+    const { n, t, y } = this;
+    const f0: Float64Array = this.dy;
+    const jacobian: Float64Array[] = estimateJacobian(this.f, t, y, f0);
+    const timeDelta: number = sqrtEpsilon * Math.max(Math.abs(t), 1);
+    const timeShifted: Float64Array = new Float64Array(n);
+    this.f(t + timeDelta, y, timeShifted);
+    const dfdt: Float64Array = timeShifted.map((value, i) => (value - f0[i]) / timeDelta);
+
+    const w: Float64Array[] = jacobian.map((row, i) => row.map((value, j) => (i === j ? 1 : 0) - h * rosenbrockD * value));
+    const decomposition: LUDecomposition | undefined = decomposeLU(w);
+    if (!decomposition) {
+      return { y: y, dy: f0, error: Infinity };
+    }
+
+    const k1: Float64Array = solveLU(decomposition, f0.map((value, i) => value + h * rosenbrockD * dfdt[i]));
+    const f1: Float64Array = new Float64Array(n);
+    this.f(t + 0.5 * h, y.map((value, i) => value + 0.5 * h * k1[i]), f1);
+    const k2: Float64Array = solveLU(decomposition, f1.map((value, i) => value - k1[i])).map((value, i) => value + k1[i]);
+    const yNew: Float64Array = y.map((value, i) => value + h * k2[i]);
+    const f2: Float64Array = new Float64Array(n);
+    this.f(t + h, yNew, f2);
+    const k3: Float64Array = solveLU(decomposition, f2.map((value, i) =>
+      value - rosenbrockE32 * (k2[i] - f1[i]) - 2 * (k1[i] - f0[i]) + h * rosenbrockD * dfdt[i]));
+    const error: Float64Array = k1.map((value, i) => (h / 6) * (value - 2 * k2[i] + k3[i]));
+    return { y: yNew, dy: f2, error: this.getErrorNorm(error, yNew) };
+  }
+}
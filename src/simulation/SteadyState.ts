@@ -0,0 +1,323 @@
+import { ComplexNumber, decomposeLU, getEigenvalues, LUDecomposition, solveLU } from "./LinearAlgebra";
+import { SimulationError } from "./SimulationError";
+import { SimulationModel } from "./SimulationModel";
+import { estimateJacobian, OdeFunction, OdeIntegrator } from "./Solvers";
+
+/**
+ * The options of a steady state search. A state is steady once the rate of change of each
+ * part of it is at most tolerance * (1 + |value|), 1e-10 by default.
+ */
+export type SteadyStateOptions = {
+  tolerance?: number;
+  // how many Newton iterations each attempt may take, 100 by default
+  maxIterations?: number;
+  // how long the model may be simulated for when Newton's method fails, 1e6 by default
+  maxTime?: number;
+};
+
+/**
+ * "stable" if every eigenvalue of the Jacobian has a negative real part, "unstable" if one
+ * has a positive real part, and "marginal" otherwise, ie around a center.
+ */
+export type Stability = "stable" | "unstable" | "marginal";
+
+/**
+ * A steady state of a model, ie where its species and the variables of its rate rules stop changing.
+ */
+export type SteadyState = {
+  // "integration" when Newton's method only converged after simulating the model for a while
+  method: "newton" | "integration";
+  stateNames: string[];
+  // the concentrations of the species, or their amounts if they are substanceOnly, and the values of the variables
+  values: number[];
+  // the rates of change that are left of the state
+  rates: number[];
+  // the states the Jacobian is of: the species that reactions change, less the ones that conservation
+  // laws determine from the others, and the variables of rate rules
+  jacobianStateNames: string[];
+  // row i holds the derivatives of the rate of change of jacobianStateNames[i]
+  jacobian: number[][];
+  eigenvalues: ComplexNumber[];
+  stability: Stability;
+};
+
+// eigenvalues closer to 0 than this, relative to the largest one, are treated as 0,
+// as the finite differences of the Jacobian are not exact
+const zeroEigenvalueTolerance: number = 1e-6;
+
+// the smallest fraction of a Newton step that is tried before the step fails
+const minDamping: number = 1 / 1024;
+
+// a row of the stoichiometry matrix is a combination of others once what is left of it after
+// eliminating them is this small, relative to the row
+const dependenceTolerance: number = 1e-9;
+
+/**
+ * The part of the state of a model that a steady state is solved for. The other states are either
+ * changed by nothing, ie boundary species, or determined by a conserved moiety.
+ */
+type ReducedState = {
+  // the index in the state of the model of each reduced state
+  states: number[];
+  // the state each conserved moiety determines, which is what the moiety starts with,
+  // less coefficient * state over its terms
+  conservedMoieties: { state: number; terms: { state: number; coefficient: number }[] }[];
+};
+
+/**
+ * @description finds the Jacobian of a model, ie of the rates of change of its state, which are the
+ *              amounts of its species and the variables of its rate rules. Events are left out.
+ * @param model
+ * @param state the state, the initial state by default
+ * @returns the Jacobian by rows, where row i holds the derivatives of the rate of change of state i
+ */
+export function getJacobian(model: SimulationModel, state?: ArrayLike<number>): number[][] {
+  const values: Float64Array = model.createValues(0);
+  const y: Float64Array = state ? Float64Array.from(state) : model.getInitialState(values);
+  const f: OdeFunction = (t, y, dydt) => model.getDerivatives(t, y, values, dydt);
+  const dy: Float64Array = new Float64Array(y.length);
+  f(0, y, dy);
+  return estimateJacobian(f, 0, y, dy).map((row) => Array.from(row));
+}
+
+/**
+ * @description finds the steady state that a model settles in from its initial state, with a damped
+ *              Newton's method, and if that fails by simulating the model for longer and longer and
+ *              trying again from there. Time is taken to be 0 and events are left out, as a steady
+ *              state is where a model stays without them. Only the reduced state is solved for, so
+ *              that the Jacobian is not singular from boundary species or conserved moieties.
+ * @param model
+ * @param options
+ * @returns the steady state, along with the Jacobian there and its eigenvalues, which tell whether it is stable
+ * @throws {SimulationError} if nothing in the model changes or it does not settle before options.maxTime
+ */
+export function getSteadyState(model: SimulationModel, options: SteadyStateOptions = {}): SteadyState {
+  const tolerance: number = options.tolerance ?? 1e-10;
+  const maxIterations: number = options.maxIterations ?? 100;
+  const maxTime: number = options.maxTime ?? 1e6;
+  const reduced: ReducedState = reduceState(model);
+  if (reduced.states.length === 0) {
+    throw new SimulationError("The model has no species that reactions change or rate rules to find a steady state of");
+  }
+
+  const values: Float64Array = model.createValues(0);
+  const initial: Float64Array = model.getInitialState(values);
+  const f: OdeFunction = (t, y, dydt) => model.getDerivatives(t, y, values, dydt);
+  const isSpecies: boolean[] = model.stateNames.map((name) => model.speciesNames.includes(name));
+  const isSteady = (y: Float64Array, dy: Float64Array) =>
+    dy.every((rate, i) => Math.abs(rate) <= tolerance * (1 + Math.abs(y[i])));
+
+  // the states that are not solved for are computed from the reduced ones, and stay as they start otherwise
+  const totals: number[] = reduced.conservedMoieties.map((moiety) =>
+    moiety.terms.reduce((total, term) => total + term.coefficient * initial[term.state], initial[moiety.state]));
+  const expand = (x: Float64Array): Float64Array => {
+    const y: Float64Array = Float64Array.from(initial);
+    reduced.states.forEach((state, i) => (y[state] = x[i]));
+    reduced.conservedMoieties.forEach((moiety, i) => {
+      y[moiety.state] = moiety.terms.reduce((rest, term) => rest - term.coefficient * y[term.state], totals[i]);
+    });
+    return y;
+  };
+  const reduce = (y: Float64Array): Float64Array => Float64Array.from(reduced.states, (state) => y[state]);
+  const fullRates: Float64Array = new Float64Array(initial.length);
+  const g: OdeFunction = (t, x, dxdt) => {
+    f(t, expand(x), fullRates);
+    reduced.states.forEach((state, i) => (dxdt[i] = fullRates[state]));
+  };
+  const isValid = (x: Float64Array) =>
+    expand(x).every((value, i) => Number.isFinite(value) && (!isSpecies[i] || value >= 0));
+  const solveFrom = (y: Float64Array): Float64Array | undefined => {
+    const x: Float64Array | undefined = solveNewton(g, reduce(y), isValid, isSteady, maxIterations);
+    return x && expand(x);
+  };
+
+  let method: SteadyState["method"] = "newton";
+  let state: Float64Array | undefined = solveFrom(initial);
+  if (!state) {
+    method = "integration";
+    state = integrateToSteadyState(model, f, solveFrom, isSteady, maxTime);
+  }
+
+  const rates: Float64Array = new Float64Array(state.length);
+  f(0, state, rates);
+  const x: Float64Array = reduce(state);
+  const jacobian: Float64Array[] = estimateJacobian(g, 0, x, reduce(rates));
+  const eigenvalues: ComplexNumber[] | undefined = getEigenvalues(jacobian);
+  if (!eigenvalues) {
+    throw new SimulationError("Unable to find the eigenvalues of the Jacobian at the steady state");
+  }
+  model.updateValues(0, state, values);
+  return {
+    method: method,
+    stateNames: [...model.stateNames],
+    values: model.stateNames.map((name) => values[model.getIndex(name)!!]),
+    rates: Array.from(rates),
+    jacobianStateNames: reduced.states.map((state) => model.stateNames[state]),
+    jacobian: jacobian.map((row) => Array.from(row)),
+    eigenvalues: eigenvalues,
+    stability: getStability(eigenvalues),
+  };
+}
+
+/**
+ * @param eigenvalues the eigenvalues of the Jacobian at a steady state
+ * @returns whether the steady state is stable
+ */
+export function getStability(eigenvalues: ComplexNumber[]): Stability {
+  const largest: number = Math.max(1, ...eigenvalues.map((eigenvalue) => Math.hypot(eigenvalue.real, eigenvalue.imaginary)));
+  const maxReal: number = Math.max(...eigenvalues.map((eigenvalue) => eigenvalue.real));
+  if (maxReal > zeroEigenvalueTolerance * largest) {
+    return "unstable";
+  }
+  return maxReal < -zeroEigenvalueTolerance * largest ? "stable" : "marginal";
+}
+
+/**
+ * @description finds the states that a steady state is solved for, by leaving out the states that
+ *              nothing changes, and the species whose rows of the stoichiometry matrix are combinations
+ *              of the rows before them, as the amounts of a conserved moiety are.
+ * @param model
+ * @returns the reduced state
+ */
+function reduceState(model: SimulationModel): ReducedState {
+  const reduced: ReducedState = { states: [], conservedMoieties: [] };
+  // the rows of the reduced species so far, eliminated into echelon form, and which combination of their states each is
+  const echelon: { row: Float64Array; pivot: number; combination: Map<number, number> }[] = [];
+  for (const [state, stoichiometry] of model.getStoichiometryMatrix().entries()) {
+    if (model.hasRateRule(state)) {
+      reduced.states.push(state);
+      continue;
+    }
+    const row: Float64Array = Float64Array.from(stoichiometry);
+    const scale: number = getMaxNorm(row);
+    if (scale === 0) {
+      continue;
+    }
+    const combination: Map<number, number> = new Map([[state, 1]]);
+    for (const previous of echelon) {
+      const factor: number = row[previous.pivot] / previous.row[previous.pivot];
+      if (factor !== 0) {
+        row.forEach((value, j) => (row[j] = value - factor * previous.row[j]));
+        previous.combination.forEach((coefficient, other) =>
+          combination.set(other, (combination.get(other) ?? 0) - factor * coefficient));
+      }
+    }
+    if (getMaxNorm(row) <= dependenceTolerance * scale) {
+      combination.delete(state);
+      reduced.conservedMoieties.push({
+        state: state,
+        terms: [...combination]
+          .filter(([, coefficient]) => coefficient !== 0)
+          .map(([other, coefficient]) => ({ state: other, coefficient: coefficient })),
+      });
+    } else {
+      const pivot: number = row.reduce((best, value, j) => (Math.abs(value) > Math.abs(row[best]) ? j : best), 0);
+      reduced.states.push(state);
+      echelon.push({ row: row, pivot: pivot, combination: combination });
+    }
+  }
+  return reduced;
+}
+
+/**
+ * @description Newton's method, which takes a fraction of each step when the full step would leave
+ *              the rates of change larger or the state invalid, ie with a species negative.
+ * @returns the steady state, or undefined if the method does not converge
+ */
+function solveNewton(
+  f: OdeFunction,
+  initial: Float64Array,
+  isValid: (y: Float64Array) => boolean,
+  isSteady: (y: Float64Array, dy: Float64Array) => boolean,
+  maxIterations: number
+): Float64Array | undefined {
+  const n: number = initial.length;
+  let y: Float64Array = Float64Array.from(initial);
+  let dy: Float64Array = new Float64Array(n);
+  f(0, y, dy);
+  if (!dy.every(Number.isFinite)) {
+    return undefined;
+  }
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    if (isSteady(y, dy)) {
+      return y;
+    }
+    const decomposition: LUDecomposition | undefined = decomposeLU(estimateJacobian(f, 0, y, dy));
+    if (!decomposition) {
+      // the Jacobian is singular where the method got to, so it can not go on from there
+      return undefined;
+    }
+    const step: Float64Array = solveLU(decomposition, dy);
+    const norm: number = getMaxNorm(dy);
+    let damping: number = 1;
+    for (;;) {
+      const candidate: Float64Array = new Float64Array(n);
+      for (let i = 0; i < n; i++) {
+        candidate[i] = y[i] - damping * step[i];
+      }
+      const candidateDy: Float64Array = new Float64Array(n);
+      if (isValid(candidate)) {
+        f(0, candidate, candidateDy);
+        if (candidateDy.every(Number.isFinite) && getMaxNorm(candidateDy) < (1 - damping / 4) * norm) {
+          y = candidate;
+          dy = candidateDy;
+          break;
+        }
+      }
+      damping /= 2;
+      if (damping < minDamping) {
+        return undefined;
+      }
+    }
+  }
+  return isSteady(y, dy) ? y : undefined;
+}
+
+/**
+ * @description simulates a model until 1, 10, 100, ... up to maxTime, and stops once the state is steady,
+ *              or once Newton's method converges from the state it got to.
+ * @param solveFrom runs Newton's method from a state
+ * @returns the steady state
+ * @throws {SimulationError} if the model does not settle by maxTime
+ */
+function integrateToSteadyState(
+  model: SimulationModel,
+  f: OdeFunction,
+  solveFrom: (y: Float64Array) => Float64Array | undefined,
+  isSteady: (y: Float64Array, dy: Float64Array) => boolean,
+  maxTime: number
+): Float64Array {
+  const values: Float64Array = model.createValues(0);
+  const integrator: OdeIntegrator = new OdeIntegrator(f, 0, model.getInitialState(values), {
+    method: "auto",
+    relativeTolerance: 1e-8,
+    absoluteTolerance: 1e-14,
+    maxSteps: 100000,
+    maxStepSize: maxTime,
+  });
+  const dy: Float64Array = new Float64Array(integrator.y.length);
+  for (let time = 1; time <= maxTime; time *= 10) {
+    while (integrator.t < time) {
+      integrator.step(time);
+    }
+    // the last step ends at time
+    const y: Float64Array = Float64Array.from(integrator.y);
+    f(time, y, dy);
+    if (isSteady(y, dy)) {
+      return y;
+    }
+    const state: Float64Array | undefined = solveFrom(y);
+    if (state) {
+      return state;
+    }
+  }
+  throw new SimulationError(`The model does not reach a steady state by time ${maxTime}`);
+}
+
+/**
+ * @param values
+ * @returns the largest absolute value
+ */
+function getMaxNorm(values: Float64Array): number {
+  return values.reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+}
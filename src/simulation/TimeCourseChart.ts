@@ -0,0 +1,163 @@
+import { TimeCourse } from "./Simulate";
+
+/**
+ * The values an axis of a chart spans, and whether it is logarithmic.
+ */
+export type AxisScale = {
+  min: number;
+  max: number;
+  log: boolean;
+};
+
+/**
+ * @param values the values shown along the axis
+ * @param log whether the axis is logarithmic, which leaves out values that are not positive
+ * @returns the scale that spans values, widened if all of them are the same
+ */
+export function getAxisScale(values: number[], log: boolean): AxisScale {
+  let min: number = Infinity;
+  let max: number = -Infinity;
+  for (const value of values) {
+    if (Number.isFinite(value) && (!log || value > 0)) {
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    }
+  }
+  if (min > max) {
+    return log ? { min: 1, max: 10, log: true } : { min: 0, max: 1, log: false };
+  }
+  if (min === max) {
+    return log
+      ? { min: min / 10, max: max * 10, log: true }
+      : { min: min - (Math.abs(min) || 1) / 10, max: max + (Math.abs(max) || 1) / 10, log: false };
+  }
+  return { min: min, max: max, log: log };
+}
+
+/**
+ * @param value
+ * @param scale
+ * @param size the length of the axis in pixels
+ * @returns how many pixels along the axis value is, undefined if it can not be shown, ie 0 on a log axis
+ */
+export function toPixel(value: number, scale: AxisScale, size: number): number | undefined {
+  if (!Number.isFinite(value) || (scale.log && value <= 0)) {
+    return undefined;
+  }
+  const fraction: number = scale.log
+    ? (Math.log10(value) - Math.log10(scale.min)) / (Math.log10(scale.max) - Math.log10(scale.min))
+    : (value - scale.min) / (scale.max - scale.min);
+  return fraction * size;
+}
+
+/**
+ * @param pixel how many pixels along the axis
+ * @param scale
+ * @param size the length of the axis in pixels
+ * @returns the value at pixel
+ */
+export function fromPixel(pixel: number, scale: AxisScale, size: number): number {
+  const fraction: number = pixel / size;
+  return scale.log
+    ? Math.pow(10, Math.log10(scale.min) + fraction * (Math.log10(scale.max) - Math.log10(scale.min)))
+    : scale.min + fraction * (scale.max - scale.min);
+}
+
+/**
+ * @param scale
+ * @param from pixels along the axis where the zoomed part starts
+ * @param to pixels along the axis where the zoomed part ends
+ * @param size the length of the axis in pixels
+ * @returns the scale of the part of the axis between from and to
+ */
+export function zoomAxisScale(scale: AxisScale, from: number, to: number, size: number): AxisScale {
+  return {
+    min: fromPixel(Math.min(from, to), scale, size),
+    max: fromPixel(Math.max(from, to), scale, size),
+    log: scale.log,
+  };
+}
+
+/**
+ * @param scale
+ * @param count about how many ticks there should be
+ * @returns round values to mark along the axis, powers of ten on a log axis that spans them
+ */
+export function getAxisTicks(scale: AxisScale, count: number = 5): number[] {
+  if (scale.log) {
+    const powers: number[] = [];
+    for (let power = Math.ceil(Math.log10(scale.min)); power <= Math.floor(Math.log10(scale.max)); power++) {
+      powers.push(Math.pow(10, power));
+    }
+    if (powers.length >= 2) {
+      // every other power once there are too many of them
+      const every: number = Math.ceil(powers.length / (2 * count));
+      return powers.filter((_, i) => i % every === 0);
+    }
+  }
+  const rawStep: number = (scale.max - scale.min) / count;
+  const magnitude: number = Math.pow(10, Math.floor(Math.log10(rawStep)));
+  const step: number = [1, 2, 5, 10].map((multiple) => multiple * magnitude).find((candidate) => candidate >= rawStep)!!;
+  const ticks: number[] = [];
+  for (let i = Math.ceil(scale.min / step); i * step <= scale.max + step * 1e-9; i++) {
+    // toPrecision drops the rounding errors of i * step, ie 0.30000000000000004
+    ticks.push(Number((i * step).toPrecision(12)));
+  }
+  return ticks;
+}
+
+/**
+ * @param value
+ * @returns value as short text for an axis, ie "0.25" or "1e-6"
+ */
+export function formatTick(value: number): string {
+  const magnitude: number = Math.abs(value);
+  if (magnitude !== 0 && (magnitude >= 1e4 || magnitude < 1e-3)) {
+    return value.toExponential(1).replace(".0e", "e").replace("e+", "e");
+  }
+  return String(Number(value.toPrecision(4)));
+}
+
+/**
+ * @param times
+ * @param values the value of the curve at each time
+ * @param xScale
+ * @param yScale
+ * @param width of the plot in pixels
+ * @param height of the plot in pixels, where y grows downwards
+ * @returns the SVG path of the curve, broken where a value can not be shown
+ */
+export function getCurvePath(
+  times: number[],
+  values: number[],
+  xScale: AxisScale,
+  yScale: AxisScale,
+  width: number,
+  height: number
+): string {
+  const commands: string[] = [];
+  let isDrawing: boolean = false;
+  for (let i = 0; i < times.length; i++) {
+    const x: number | undefined = toPixel(times[i], xScale, width);
+    const y: number | undefined = toPixel(values[i], yScale, height);
+    if (x === undefined || y === undefined) {
+      isDrawing = false;
+      continue;
+    }
+    commands.push(`${isDrawing ? "L" : "M"}${x.toFixed(2)},${(height - y).toFixed(2)}`);
+    isDrawing = true;
+  }
+  return commands.join(" ");
+}
+
+/**
+ * @param timeCourse
+ * @returns timeCourse as comma separated values, with the names of the columns on the first line
+ */
+export function getTimeCourseCsv(timeCourse: TimeCourse): string {
+  const lines: string[] = [timeCourse.columns.join(",")];
+  for (const row of timeCourse.rows) {
+    lines.push(row.map(String).join(","));
+  }
+  return lines.join("\n") + "\n";
+}
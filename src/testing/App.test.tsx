@@ -2,7 +2,7 @@ import assert from 'assert';
 import * as monaco from 'monaco-editor';
 import * as fs from 'fs';
 import { join } from 'path';
-import { isSubtTypeOf, varTypes } from '../language-handler/Types';
+import { diagnosticCodes, isSubtTypeOf, varTypes } from '../language-handler/Types';
 import { AntimonyProgramAnalyzer } from '../language-handler/ModelSemanticChecker';
 import { searchOntology, searchRhea } from '../features/AnnotationSearch';
 
@@ -83,6 +83,7 @@ describe('grammar tests', function() {
         const antAnalyzer = new AntimonyProgramAnalyzer(file1, "");
         assert.deepStrictEqual(antAnalyzer.getErrors(false), [
              {
+                "code": diagnosticCodes.PredefConstantAssignment,
                 "endColumn": 7,
                 "endLineNumber": 1,
                 "message": "Cannot assign value to 'pi' as it is a predefined constant",
@@ -91,6 +92,7 @@ describe('grammar tests', function() {
                 "startLineNumber": 1,
             },
             {
+                "code": diagnosticCodes.PredefConstantAssignment,
                 "endColumn": 13,
                 "endLineNumber": 2,
                 "message": "Cannot assign value to 'avogadro' as it is a predefined constant",
@@ -99,6 +101,7 @@ describe('grammar tests', function() {
                 "startLineNumber": 2,
             },
             {
+                "code": diagnosticCodes.PredefConstantAssignment,
                 "endColumn": 21,
                 "endLineNumber": 3,
                 "message": "Cannot assign value to 'NaN' as it is a predefined constant",
@@ -107,6 +110,7 @@ describe('grammar tests', function() {
                 "startLineNumber": 3,
             },
             {
+                "code": diagnosticCodes.IncompatibleTypes,
                 "endColumn": 12,
                 "endLineNumber": 3,
                 "message": "Unable to set type to 'species' because it is a predefined constant",
@@ -122,6 +126,7 @@ describe('grammar tests', function() {
         const antAnalyzer = new AntimonyProgramAnalyzer(file1, "");
         assert.deepStrictEqual(antAnalyzer.getErrors(false), [
             {
+                "code": diagnosticCodes.IncompatibleTypes,
                 "endColumn": 11,
                 "endLineNumber": 1,
                 "message": "Unable to set type to 'species' because it is a predefined constant",
@@ -130,6 +135,7 @@ describe('grammar tests', function() {
                 "startLineNumber": 1,
             },
             {
+                "code": diagnosticCodes.PredefConstantAssignment,
                 "endColumn": 16,
                 "endLineNumber": 2,
                 "message": "Cannot assign value to 'inf' as it is a predefined constant",
@@ -138,6 +144,7 @@ describe('grammar tests', function() {
                 "startLineNumber": 2,
             },
             {
+                "code": diagnosticCodes.IncompatibleTypes,
                 "endColumn": 12,
                 "endLineNumber": 2,
                 "message": "Unable to set type to 'species' because it is a predefined constant",
@@ -146,6 +153,7 @@ describe('grammar tests', function() {
                 "startLineNumber": 2,
             },
             {
+                "code": diagnosticCodes.IncompatibleTypes,
                 "endColumn": 21,
                 "endLineNumber": 3,
                 "message": "Unable to set type to 'compartment' because it is a predefined constant",
@@ -215,7 +223,8 @@ describe('SymbolTableVisitor Error Tests', function() {
         endLineNumber: 5,
         endColumn: 11,
         message: 'Unable to set the type to \'function\' because it is already set to be the incompatible type \'parameter\' on line 3:7',
-        severity: monaco.MarkerSeverity.Error
+        severity: monaco.MarkerSeverity.Error,
+        code: diagnosticCodes.IncompatibleTypes
       },
       {
         startLineNumber: 9,
@@ -223,7 +232,8 @@ describe('SymbolTableVisitor Error Tests', function() {
         endLineNumber: 9,
         endColumn: 11,
         message: 'Unable to set the type to \'function\' because it is already set to be the incompatible type \'parameter\' on line 1:26',
-        severity: monaco.MarkerSeverity.Error
+        severity: monaco.MarkerSeverity.Error,
+        code: diagnosticCodes.IncompatibleTypes
       }
     ]);
   })
@@ -238,7 +248,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 5,
             endColumn: 12,
             message: 'function \'fn\' already defined on line 1:10',
-            severity: monaco.MarkerSeverity.Error
+            severity: monaco.MarkerSeverity.Error,
+            code: diagnosticCodes.FunctionAlreadyExists
         },
         {
             startLineNumber: 9,
@@ -246,7 +257,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 9,
             endColumn: 12,
             message: 'function \'fn\' already defined on line 1:10',
-            severity: monaco.MarkerSeverity.Error
+            severity: monaco.MarkerSeverity.Error,
+            code: diagnosticCodes.FunctionAlreadyExists
         },
         {
             startLineNumber: 17,
@@ -254,7 +266,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 17,
             endColumn: 12,
             message: 'function \'on\' already defined on line 13:10',
-            severity: monaco.MarkerSeverity.Error
+            severity: monaco.MarkerSeverity.Error,
+            code: diagnosticCodes.FunctionAlreadyExists
         }
     ]);
   })
@@ -269,7 +282,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 9,
             endColumn: 2,
             message: 'model \'m1\' already defined on line 1:7',
-            severity: monaco.MarkerSeverity.Error
+            severity: monaco.MarkerSeverity.Error,
+            code: diagnosticCodes.ModelAlreadyExists
         },
         {
             startLineNumber: 11,
@@ -277,7 +291,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 14,
             endColumn: 2,
             message: 'model \'m1\' already defined on line 1:7',
-            severity: monaco.MarkerSeverity.Error
+            severity: monaco.MarkerSeverity.Error,
+            code: diagnosticCodes.ModelAlreadyExists
         },
         {
             startLineNumber: 22,
@@ -285,7 +300,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 27,
             endColumn: 2,
             message: 'model \'m2\' already defined on line 16:7',
-            severity: monaco.MarkerSeverity.Error
+            severity: monaco.MarkerSeverity.Error,
+            code: diagnosticCodes.ModelAlreadyExists
         }
     ]);
   })
@@ -300,7 +316,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 1,
             endColumn: 6,
             message: 'Value assignment to \'A\' is being overridden by a later assignment on line 2:1',
-            severity: monaco.MarkerSeverity.Warning
+            severity: monaco.MarkerSeverity.Warning,
+            code: diagnosticCodes.OverriddenValue
         },
         {
             startLineNumber: 2,
@@ -308,7 +325,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 2,
             endColumn: 6,
             message: 'Value assignment to \'A\' is overriding previous assignment on line 1:1',
-            severity: monaco.MarkerSeverity.Warning
+            severity: monaco.MarkerSeverity.Warning,
+            code: diagnosticCodes.OverridingValue
         },
         {
             startLineNumber: 2,
@@ -316,7 +334,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 2,
             endColumn: 6,
             message: 'Value assignment to \'A\' is being overridden by a later assignment on line 3:1',
-            severity: monaco.MarkerSeverity.Warning
+            severity: monaco.MarkerSeverity.Warning,
+            code: diagnosticCodes.OverriddenValue
         },
         {
             startLineNumber: 3,
@@ -324,7 +343,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 3,
             endColumn: 6,
             message: 'Value assignment to \'A\' is overriding previous assignment on line 2:1',
-            severity: monaco.MarkerSeverity.Warning
+            severity: monaco.MarkerSeverity.Warning,
+            code: diagnosticCodes.OverridingValue
         },
 
         {
@@ -333,7 +353,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 5,
             endColumn: 15,
             message: 'Value assignment to \'B1\' is being overridden by a later assignment on line 6:9',
-            severity: monaco.MarkerSeverity.Warning
+            severity: monaco.MarkerSeverity.Warning,
+            code: diagnosticCodes.OverriddenValue
         },
         {
             startLineNumber: 6,
@@ -341,7 +362,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 6,
             endColumn: 15,
             message: 'Value assignment to \'B1\' is overriding previous assignment on line 5:9',
-            severity: monaco.MarkerSeverity.Warning
+            severity: monaco.MarkerSeverity.Warning,
+            code: diagnosticCodes.OverridingValue
         },
         {
             startLineNumber: 6,
@@ -349,7 +371,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 6,
             endColumn: 15,
             message: 'Value assignment to \'B1\' is being overridden by a later assignment on line 7:9',
-            severity: monaco.MarkerSeverity.Warning
+            severity: monaco.MarkerSeverity.Warning,
+            code: diagnosticCodes.OverriddenValue
         },
         {
             startLineNumber: 7,
@@ -357,7 +380,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 7,
             endColumn: 15,
             message: 'Value assignment to \'B1\' is overriding previous assignment on line 6:9',
-            severity: monaco.MarkerSeverity.Warning
+            severity: monaco.MarkerSeverity.Warning,
+            code: diagnosticCodes.OverridingValue
         },
     ]);
   })
@@ -372,7 +396,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 3,
             endColumn: 10,
             message: 'Unable to set the type to \'species\' because it is already set to be the incompatible type \'compartment\' on line 2:13',
-            severity: monaco.MarkerSeverity.Error
+            severity: monaco.MarkerSeverity.Error,
+            code: diagnosticCodes.IncompatibleTypes
         },
         {
             startLineNumber: 4,
@@ -380,7 +405,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 4,
             endColumn: 2,
             message: 'Unable to set the type to \'species\' because it is already set to be the incompatible type \'compartment\' on line 2:13',
-            severity: monaco.MarkerSeverity.Error
+            severity: monaco.MarkerSeverity.Error,
+            code: diagnosticCodes.IncompatibleTypes
         },
         {
             startLineNumber: 4,
@@ -388,7 +414,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 4,
             endColumn: 6,
             message: 'Unable to set the type to \'species\' because it is already set to be the incompatible type \'compartment\' on line 2:16',
-            severity: monaco.MarkerSeverity.Error
+            severity: monaco.MarkerSeverity.Error,
+            code: diagnosticCodes.IncompatibleTypes
         },
         {
             startLineNumber: 4,
@@ -396,7 +423,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 4,
             endColumn: 15,
             message: 'Unable to set the type to \'species\' because it is already set to be the incompatible type \'compartment\' on line 2:13',
-            severity: monaco.MarkerSeverity.Error
+            severity: monaco.MarkerSeverity.Error,
+            code: diagnosticCodes.IncompatibleTypes
         },
         {
             startLineNumber: 4,
@@ -404,7 +432,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 4,
             endColumn: 19,
             message: 'Unable to set the type to \'species\' because it is already set to be the incompatible type \'compartment\' on line 2:16',
-            severity: monaco.MarkerSeverity.Error
+            severity: monaco.MarkerSeverity.Error,
+            code: diagnosticCodes.IncompatibleTypes
         }
     ]);
   })
@@ -419,7 +448,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 2,
             endColumn: 24,
             message: 'Unable to set the type to \'compartment\' because it is already set to be the incompatible type \'species\' on line 1:9',
-            severity: monaco.MarkerSeverity.Error
+            severity: monaco.MarkerSeverity.Error,
+            code: diagnosticCodes.IncompatibleTypes
         },
         {
             startLineNumber: 3,
@@ -427,7 +457,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 3,
             endColumn: 20,
             message: 'Unable to set the type to \'compartment\' because it is already set to be the incompatible type \'species\' on line 1:9',
-            severity: monaco.MarkerSeverity.Error
+            severity: monaco.MarkerSeverity.Error,
+            code: diagnosticCodes.IncompatibleTypes
         },
         {
             startLineNumber: 12,
@@ -435,7 +466,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 12,
             endColumn: 24,
             message: 'Unable to set the type to \'compartment\' because it is already set to be the incompatible type \'function\' on line 9:10',
-            severity: monaco.MarkerSeverity.Error
+            severity: monaco.MarkerSeverity.Error,
+            code: diagnosticCodes.IncompatibleTypes
         },
         {
             startLineNumber: 13,
@@ -443,7 +475,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 13,
             endColumn: 20,
             message: 'Unable to set the type to \'compartment\' because it is already set to be the incompatible type \'function\' on line 9:10',
-            severity: monaco.MarkerSeverity.Error
+            severity: monaco.MarkerSeverity.Error,
+            code: diagnosticCodes.IncompatibleTypes
         },
         {
             startLineNumber: 18,
@@ -451,7 +484,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 18,
             endColumn: 24,
             message: 'Unable to set the type to \'compartment\' because it is already set to be the incompatible type \'model\' on line 15:7',
-            severity: monaco.MarkerSeverity.Error
+            severity: monaco.MarkerSeverity.Error,
+            code: diagnosticCodes.IncompatibleTypes
         },
         {
             startLineNumber: 19,
@@ -459,7 +493,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 19,
             endColumn: 20,
             message: 'Unable to set the type to \'compartment\' because it is already set to be the incompatible type \'model\' on line 15:7',
-            severity: monaco.MarkerSeverity.Error
+            severity: monaco.MarkerSeverity.Error,
+            code: diagnosticCodes.IncompatibleTypes
         },
     ]);
   })
@@ -474,7 +509,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 1,
             endColumn: 21,
             message: "Reaction 'R4' missing rate law",
-            severity: monaco.MarkerSeverity.Warning
+            severity: monaco.MarkerSeverity.Warning,
+            code: diagnosticCodes.MissingRateLaw
         },
         {
             startLineNumber: 2,
@@ -482,7 +518,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 2,
             endColumn: 16,
             message: "Reaction 'R5' missing rate law",
-            severity: monaco.MarkerSeverity.Warning
+            severity: monaco.MarkerSeverity.Warning,
+            code: diagnosticCodes.MissingRateLaw
         },
         {
             startLineNumber: 3,
@@ -490,7 +527,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 3,
             endColumn: 17,
             message: "Reaction '' missing rate law",
-            severity: monaco.MarkerSeverity.Warning
+            severity: monaco.MarkerSeverity.Warning,
+            code: diagnosticCodes.MissingRateLaw
         },
         {
             startLineNumber: 4,
@@ -498,7 +536,8 @@ describe('SymbolTableVisitor Error Tests', function() {
             endLineNumber: 4,
             endColumn: 12,
             message: "Reaction '' missing rate law",
-            severity: monaco.MarkerSeverity.Warning
+            severity: monaco.MarkerSeverity.Warning,
+            code: diagnosticCodes.MissingRateLaw
         },
     ])
 
@@ -0,0 +1,33 @@
+import { AntimonyProgramAnalyzer } from "../language-handler/ModelSemanticChecker";
+import { diagnosticCodes } from "../language-handler/Types";
+
+/**
+ * The options of createDiagnosticGetter.
+ */
+export type DiagnosticGetterOptions = {
+  // declarations that each program is checked after, whose lines are not counted
+  prefix?: string;
+  // whether to write the location as "<line>:<column>-<end column>"
+  showEndColumn?: boolean;
+};
+
+/**
+ * @description makes a function that analyzes a program and lists the diagnostics it has with the
+ *              given codes, ie "ANT017 1:4 Event trigger must be a boolean expression, ie 'time > 5'",
+ *              so that tests of a group of checks leave out the diagnostics of other checks.
+ * @param codes
+ * @param options
+ * @returns the function, which takes the program without its trailing newline
+ */
+export const createDiagnosticGetter = (codes: Set<diagnosticCodes>, options: DiagnosticGetterOptions = {}) => {
+  const prefix: string = options.prefix ?? "";
+  const prefixLines: number = prefix.split("\n").length - 1;
+  return (program: string): string[] =>
+    new AntimonyProgramAnalyzer(prefix + program + "\n", "")
+      .getErrors(false)
+      .filter((err) => err.code !== undefined && codes.has(err.code))
+      .map((err) => {
+        const end: string = options.showEndColumn ? "-" + err.endColumn : "";
+        return err.code + " " + (err.startLineNumber - prefixLines) + ":" + err.startColumn + end + " " + err.message;
+      });
+};
@@ -10,4 +10,6 @@ const monacoEditorMock = {
     },
 };
 
+export const MarkerSeverity = monacoEditorMock.MarkerSeverity;
+
 export default monacoEditorMock;
\ No newline at end of file